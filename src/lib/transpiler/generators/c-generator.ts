@@ -7,6 +7,7 @@ import {
   IRIf,
   IRFor,
   IRWhile,
+  IRDoWhile,
   IRSwitch,
   IRReturn,
   IRPrint,
@@ -17,14 +18,45 @@ import {
   IRLiteral,
   IRIdentifier,
   IRComment,
+  IRFieldAccess,
   IRAssignment,
-  DataType,
+  IRArrayLiteral,
+  IRIndexAssignment,
+  IRSlice,
+  IRStringMethod,
+  IRMathCall,
+  IRForEach,
+  IRBreak,
+  IRContinue,
+  IRTry,
+  IRThrow,
+  IRSuperCall,
+  IREnum,
+  IREnumMethod,
+  IRAllocation,
+  IRConditional,
+  IRCompoundAssignment,
+  IRTupleLiteral,
+  IRDestructure,
+  IRLambda,
+  PrimitiveType,
+  MathConstant,
+  IRType,
+  primitiveType,
+  flattenType,
+  substituteType,
+  isIntegralType,
+  isNegativePower,
+  catchesZeroDivision,
+  enumValues,
+  needsDivisorCheck,
   isIRVariable,
   isIRFunction,
   isIRClass,
   isIRIf,
   isIRFor,
   isIRWhile,
+  isIRDoWhile,
   isIRSwitch,
   isIRReturn,
   isIRPrint,
@@ -35,7 +67,76 @@ import {
   isIRIdentifier,
   isIRComment,
   isIRAssignment,
+  isIRArrayLiteral,
+  isIRIndex,
+  isIRFieldAccess,
+  isIRSlice,
+  isIRStringMethod,
+  isIRMathCall,
+  isIRMathConstant,
+  fromEnd,
+  isIRIndexAssignment,
+  isIRLength,
+  isIRMapLiteral,
+  isIRContains,
+  isIRRemove,
+  isIRForEach,
+  isIRBreak,
+  isIRContinue,
+  isIRTry,
+  isIRThrow,
+  isIRSuperCall,
+  isIREnum,
+  isIREnumValue,
+  isIREnumMethod,
+  isIRAddressOf,
+  isIRDereference,
+  isIRAllocation,
+  isIRFree,
+  isIRConditional,
+  isIRCompoundAssignment,
+  isIRTupleLiteral,
+  isIRTupleIndex,
+  isIRDestructure,
+  isIRLambda,
+  isIRFunctionRef,
+  bindArguments,
+  stringMethodType,
+  mathFunctionType,
+  isFloatType,
+  lambdaExpression,
+  lambdaCaptures,
+  keyTypeOf,
+  classNameOf,
+  isAutoType,
+  isArrayType,
+  isListType,
+  isMapType,
+  C_PRECEDENCE,
+  operandCode,
+  LoopContext,
+  visitIR,
+  someIR,
+  mapIR,
 } from '../ir';
+import { lowerGenerator, generatorName } from '../transforms/generators';
+import { lowerComprehensions } from '../transforms/comprehensions';
+import { renameOverloads } from '../transforms/overloads';
+
+type IRLoop = IRFor | IRForEach | IRWhile | IRDoWhile;
+
+// Growable lists are fixed arrays of this many items plus a length counter
+const LIST_CAPACITY = 256;
+
+// A variable a lambda uses from its enclosing scope; a list is copied out with its length
+interface Capture {
+  name: string;
+  type: PrimitiveType;
+  list?: boolean;
+}
+
+// Tuples become structs named by arity and element types, like Pair_int_float { first; second; }
+const TUPLE_FIELDS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth'];
 
 export class CGenerator {
   private indent = 0;
@@ -43,13 +144,157 @@ export class CGenerator {
   private usesStdio = false;
   private usesString = false;
   private usesBool = false;
+  // Array variables by name; lists and array parameters carry a separate <name>_len counter
+  private arrays = new Map<string, IRVariable>();
+  private lengthVars = new Set<string>();
+  // Lists of fixed-length rows, like those [[0] * 3 for _ in ...] builds, by their row length
+  private rowLengths = new Map<string, number>();
+  // Lists of rows appended from lists, like those [[0 for _ in ...] for _ in ...] builds, which keep
+  // each row's length in <name>_row_len
+  private rowLists = new Set<string>();
+  private arrayParamFunctions = new Map<string, number[]>();
+  // Maps use an emitted hash table per key/value type pair; map parameters are pointers
+  private usesStdlib = false;
+  private maps = new Map<string, IRVariable>();
+  private mapParams = new Set<string>();
+  private mapHelpers = new Map<string, { keyType: PrimitiveType; valueType: PrimitiveType }>();
+  private variableTypes = new Map<string, PrimitiveType>();
+  // Each function's own table: its parameters and locals over the names of the program around it
+  private functionTypes = new Map<IRFunction, Map<string, PrimitiveType>>();
+  private returnTypes = new Map<string, PrimitiveType>();
+  private loops: LoopContext[] = [];
+  // Exceptions are lowered to setjmp/longjmp with one error code per exception type
+  private usesExceptions = false;
+  private exceptionCodes = new Set<string>();
+  // int(s) on a string, which raises ValueError through parse_int when the program has exceptions
+  private parsesInts = false;
+  // Divisors are checked so a division by zero raises ZeroDivisionError where a handler could catch it
+  private checksDivisors = false;
+  private tryDepth = 0;
+  // Enclosing try blocks with a finally, which a return jumps to first; their count names each one
+  private finallyTargets: { id: number; prev: string }[] = [];
+  private finallyCount = 0;
+  // The C type the current function returns, to hold a return value while finally runs
+  private resultType = 'int';
+  // Classes become structs; a subclass embeds its superclass (or interface) as the first field, named base
+  private classes = new Map<string, IRClass>();
+  private currentClass: IRClass | undefined;
+  private objectTypes = new Map<string, string>();
+  // Structs are values rather than heap objects: built with initializers, read with '.'
+  private structs = new Map<string, IRClass>();
+  private structVariables = new Map<string, string>();
+  // C has no references: reference params become pointers, dereferenced on use and passed with &
+  private pointerVariables = new Set<string>();
+  // Strings held in char arrays, which are copied into with strcpy rather than assigned
+  private charArrays = new Set<string>();
+  private referenceParams = new Set<string>();
+  private referenceParamFunctions = new Map<string, number[]>();
+  // C has no default or keyword arguments: calls are expanded against the callee's parameter list
+  private functions = new Map<string, IRFunction>();
+  // Integer floor division, floor modulo and power are emitted helpers; the float forms use math.h
+  private usesMath = false;
+  // M_PI and M_E come from POSIX, not ISO C, so the ones used are defined where missing
+  private mathConstants = new Set<MathConstant>();
+  private arithmeticHelpers = new Set<string>();
+  // Slicing helpers by name: str_slice, or <type>_array_slice for the element type it copies
+  private sliceHelpers = new Map<string, PrimitiveType>();
+  // Lists are printed as Python prints them, by a print_<type>_list helper for each element type printed
+  private listPrinters = new Set<PrimitiveType>();
+  // Python indexes that may be negative when the program runs go through wrap_index
+  private usesWrapIndex = false;
+  // Appends go through list_slot, which stops the program at a list's fixed capacity
+  private checksCapacity = false;
+  // Enums whose constants are listed in Level_members, for values() and for finding ordinals
+  private enumTypes = new Map<string, IREnum>();
+  private enumMembers = new Set<string>();
+  private enumOrdinals = new Set<string>();
+  // Java enums printed by name, through Level_names, and the variables holding their constants
+  private enumNames = new Set<string>();
+  private enumVariables = new Map<string, string>();
+  private stringHelpers = new Set<string>();
+  private usesCtype = false;
+  // Diagnostics emitted above generic functions and classes, which C can only approximate
+  private genericNotes = new Map<string, string>();
+  // Tuple structs by name, and the tuple types of functions returning them and variables holding them
+  private tupleStructs = new Map<string, IRType[]>();
+  private tupleTypes = new Map<string, IRType>();
+  private currentReturnType: IRType | undefined;
+  private tempNames = new Set<string>();
+  // Lambdas are lifted to static functions, typed from the function pointer they are stored in or passed as
+  private lambdas = new Map<IRLambda, IRFunction>();
+  private lambdaTypes = new Map<IRLambda, IRType>();
+  // What each lifted lambda captures, by its name: lambda_1_n holds the n lambda_1 reads
+  private liftedCaptures = new Map<string, Capture[]>();
+  private functionValues = new Map<string, Extract<IRType, { kind: 'function' }>>();
+  // Variables holding a generator's state, by the generator function that made them
+  private generatorVariables = new Map<string, IRFunction>();
 
   generate(ir: IRProgram): string {
+    // Python and C have no overloading: each overload gets its own name
+    ir = renameOverloads(ir);
+    // Comprehensions become loops; sets become lists checked before each append
+    ir = lowerComprehensions(ir, false);
     this.indent = 0;
     this.usesStdio = false;
     this.usesString = false;
     this.usesBool = false;
+    this.arrays = new Map();
+    this.lengthVars = new Set();
+    this.rowLengths = new Map();
+    this.rowLists = new Set();
+    this.arrayParamFunctions = new Map();
+    this.usesStdlib = false;
+    this.maps = new Map();
+    this.mapParams = new Set();
+    this.mapHelpers = new Map();
+    this.variableTypes = new Map();
+    this.functionTypes = new Map();
+    this.returnTypes = new Map();
+    this.loops = [];
+    this.usesExceptions = false;
+    this.exceptionCodes = new Set();
+    this.parsesInts = false;
+    this.checksDivisors = false;
+    this.tryDepth = 0;
+    this.finallyTargets = [];
+    this.finallyCount = 0;
+    this.resultType = 'int';
+    this.classes = new Map();
+    this.currentClass = undefined;
+    this.objectTypes = new Map();
+    this.structs = new Map();
+    this.structVariables = new Map();
+    this.pointerVariables = new Set();
+    this.charArrays = new Set();
+    this.referenceParams = new Set();
+    this.referenceParamFunctions = new Map();
+    this.functions = new Map();
+    this.usesMath = false;
+    this.mathConstants = new Set();
+    this.arithmeticHelpers = new Set();
+    this.sliceHelpers = new Map();
+    this.listPrinters = new Set();
+    this.usesWrapIndex = false;
+    this.checksCapacity = false;
+    this.enumTypes = new Map();
+    this.enumMembers = new Set();
+    this.enumOrdinals = new Set();
+    this.enumNames = new Set();
+    this.enumVariables = new Map();
+    this.stringHelpers = new Set();
+    this.usesCtype = false;
+    this.genericNotes = new Map();
+    this.tupleStructs = new Map();
+    this.tupleTypes = new Map();
+    this.currentReturnType = undefined;
+    this.tempNames = new Set();
+    this.lambdas = new Map();
+    this.lambdaTypes = new Map();
+    this.liftedCaptures = new Map();
+    this.functionValues = new Map();
+    this.generatorVariables = new Map();
     
+    ir = this.instantiateGenerics(ir);
     // First pass to detect what we need
     this.analyzeProgram(ir);
     
@@ -57,20 +302,57 @@ export class CGenerator {
     
     // Includes
     if (this.usesStdio) lines.push('#include <stdio.h>');
+    if (this.usesStdlib) lines.push('#include <stdlib.h>');
+    if (this.usesExceptions) lines.push('#include <setjmp.h>');
     if (this.usesString) lines.push('#include <string.h>');
     if (this.usesBool) lines.push('#include <stdbool.h>');
+    if (this.usesCtype) lines.push('#include <ctype.h>');
+    if (this.usesMath) lines.push('#include <math.h>  // link with -lm');
+    if (this.sliceHelpers.size > 0) lines.push('#include <limits.h>');
     if (lines.length > 0) lines.push('');
+    if (this.mathConstants.size > 0) lines.push(this.generateMathConstants());
+    
+    // Hash table helpers for maps
+    if (this.mapHelpers.size > 0) {
+      lines.push('#define MAP_BUCKETS 64');
+      lines.push('');
+      for (const [name, types] of this.mapHelpers) {
+        lines.push(this.generateMapHelper(name, types.keyType, types.valueType));
+      }
+    }
+    
+    if (this.arithmeticHelpers.size > 0) lines.push(this.generateArithmeticHelpers());
+    if (this.sliceHelpers.size > 0) lines.push(this.generateSliceHelpers());
+    if (this.listPrinters.size > 0) lines.push(this.generateListPrinters());
+    if (this.usesWrapIndex) lines.push(this.generateWrapIndexHelper());
+    if (this.checksCapacity) lines.push(this.generateListSlotHelper());
+    if (this.stringHelpers.size > 0) lines.push(this.generateStringHelpers());
+    if (this.usesExceptions) lines.push(this.generateExceptionHelper());
     
     // Separate functions/classes from main content
     const functions = ir.body.filter(n => isIRFunction(n));
     const classes = ir.body.filter(n => isIRClass(n));
-    const mainContent = ir.body.filter(n => !isIRFunction(n) && !isIRClass(n));
+    const enums = ir.body.filter(n => isIREnum(n));
+    const mainContent = ir.body.filter(n => !isIRFunction(n) && !isIRClass(n) && !isIREnum(n));
+    
+    // Lifted lambdas are declared up front, since Java's static methods are generated with their class,
+    // and defined after everything that uses them
+    const lifted = [...this.lambdas].map(([lambda, fn]) => this.generateLiftedLambda(lambda, fn));
+    for (const [name, captures] of this.liftedCaptures) {
+      for (const capture of captures) {
+        const copy = `${name}_${capture.name}`;
+        lines.push(`static ${this.declare(`${this.mapType(capture.type)}${capture.list ? '*' : ''}`, copy)};`);
+        if (capture.list) lines.push(`static int ${copy}_len;`);
+      }
+    }
+    lifted.forEach(code => lines.push(code.slice(code.indexOf('static'), code.indexOf(' {\n')) + ';'));
     
-    // Generate classes first (structs in C)
-    for (const node of classes) {
+    // Generate enums and classes first (structs in C)
+    for (const node of [...enums, ...classes]) {
       const code = this.generateNode(node);
       if (code) lines.push(code);
     }
+    for (const [name, elements] of this.tupleStructs) lines.push(this.generateTupleStruct(name, elements));
     
     // Generate functions (but wrap 'main' in int main)
     let hasReturnInMain = false;
@@ -80,11 +362,13 @@ export class CGenerator {
         // Generate as int main()
         lines.push('int main() {');
         this.indent++;
-        for (const stmt of f.body) {
-          if (stmt.type === 'return') hasReturnInMain = true;
-          const code = this.generateNode(stmt);
-          if (code) lines.push(code);
-        }
+        this.withTypesOf(f, () => {
+          for (const stmt of f.body) {
+            if (stmt.type === 'return') hasReturnInMain = true;
+            const code = this.generateNode(stmt);
+            if (code) lines.push(code);
+          }
+        });
         if (!hasReturnInMain) {
           lines.push(`${this.getIndent()}return 0;`);
         }
@@ -108,6 +392,7 @@ export class CGenerator {
       this.indent--;
       lines.push('}');
     }
+    lines.push(...lifted);
     
     return lines.join('\n');
   }
@@ -115,16 +400,78 @@ export class CGenerator {
   private analyzeProgram(ir: IRProgram): void {
     const analyze = (node: IRNode) => {
       if (isIRPrint(node) || isIRInput(node)) this.usesStdio = true;
-      if (isIRVariable(node) && node.dataType === 'string') this.usesString = true;
-      if (isIRVariable(node) && node.dataType === 'bool') this.usesBool = true;
+      if (isIRPrint(node)) node.args.forEach(arg => {
+        const elementType = this.printedListType(arg);
+        if (elementType) this.listPrinters.add(elementType);
+      });
+      if (isIRVariable(node) && flattenType(node.dataType) === 'string') this.usesString = true;
+      if (isIRVariable(node) && flattenType(node.dataType) === 'bool') this.usesBool = true;
+      if (isIRVariable(node) && isArrayType(node.dataType)) {
+        this.arrays.set(node.name, node);
+        if (this.isGrowable(node)) this.lengthVars.add(node.name);
+        if (this.needsMemset(node)) this.usesString = true;
+      }
+      if (isIRVariable(node) && isMapType(node.dataType)) this.analyzeMap(node);
+      if (isIRVariable(node) && !isArrayType(node.dataType) && !isMapType(node.dataType)) this.recordType(node.name, flattenType(node.dataType));
+      if (isIRVariable(node) && classNameOf(node.dataType)) this.structVariables.set(node.name, classNameOf(node.dataType)!);
+      if (isIRVariable(node) && node.dataType.kind === 'tuple') {
+        const callee = node.value && isIRCall(node.value) && !node.value.isMethod ? this.tupleTypes.get(node.value.callee) : undefined;
+        this.tupleTypes.set(node.name, callee || node.dataType);
+      }
+      if (isIRVariable(node) && node.dataType.kind === 'function') this.functionValues.set(node.name, node.dataType);
+      if (isIRDestructure(node)) {
+        const elements = this.destructuredTypes(node);
+        node.targets.forEach((target, i) => this.recordType(target, flattenType(elements[i] || primitiveType('int'))));
+      }
+      if ((isIRVariable(node) && node.value && isIRAllocation(node.value)) || isIRFree(node)) this.usesStdlib = true;
+      if (isIRBinaryOp(node) && isIRAllocation(node.right)) this.usesStdlib = true;
+      if (isIRForEach(node)) {
+        const map = this.getMap(node.iterable);
+        if (map) this.forEachTypes(node, map).forEach(([name, type]) => this.recordType(name, type));
+      }
       if (isIRFunction(node)) {
+        const returnType = flattenType(node.returnType);
+        if (returnType !== 'auto' && returnType !== 'void') this.returnTypes.set(node.name, returnType);
+        if (node.returnType.kind === 'tuple') this.tupleTypes.set(node.name, node.returnType);
+        const outerTypes = this.variableTypes;
+        this.variableTypes = new Map(outerTypes);
+        node.params.filter(p => !isArrayType(p.dataType) && !isMapType(p.dataType)).forEach(p => {
+          if (flattenType(p.dataType) !== 'auto') this.variableTypes.set(p.name, flattenType(p.dataType));
+        });
+        node.params.forEach(p => { if (classNameOf(p.dataType)) this.structVariables.set(p.name, classNameOf(p.dataType)!); });
+        node.params.forEach(p => { if (p.dataType.kind === 'function') this.functionValues.set(p.name, p.dataType); });
+        const referenceParams = node.params.map((p, i) => p.isReference ? i : -1).filter(i => i >= 0);
+        if (referenceParams.length > 0) this.referenceParamFunctions.set(node.name, referenceParams);
+        this.functions.set(node.name, node);
+        node.params.filter(p => isMapType(p.dataType)).forEach(p => {
+          this.analyzeMap(p);
+          this.mapParams.add(p.name);
+        });
         node.body.forEach(analyze);
-        node.params.forEach(p => { if (p.dataType === 'bool') this.usesBool = true; });
-        if (node.returnType === 'bool') this.usesBool = true;
+        this.functionTypes.set(node, this.variableTypes);
+        this.variableTypes = outerTypes;
+        node.params.forEach(p => { if (flattenType(p.dataType) === 'bool') this.usesBool = true; });
+        if (returnType === 'bool' || node.isGenerator) this.usesBool = true;
+        
+        // Array parameters get a length parameter appended after them
+        const arrayParams = node.params.map((p, i) => isArrayType(p.dataType) ? i : -1).filter(i => i >= 0);
+        if (arrayParams.length > 0) this.arrayParamFunctions.set(node.name, arrayParams);
       }
-      if (isIRClass(node)) {
+      if (isIRClass(node) && node.isStruct) {
+        this.structs.set(node.name, node);
+        node.members.forEach(member => {
+          if (flattenType(member.dataType) === 'string') this.usesString = true;
+          if (flattenType(member.dataType) === 'bool') this.usesBool = true;
+        });
+      } else if (isIRClass(node)) {
+        if (node.methods.length > 0 || node.members.length > 0 || node.constructor) {
+          this.classes.set(node.name, node);
+          // Instances are allocated with malloc
+          this.usesStdlib = true;
+        }
         node.members.forEach(analyze);
         node.methods.forEach(analyze);
+        if (node.constructor) analyze(node.constructor);
         // Also analyze Java-style mainMethod and staticMethods
         const mainMethod = (node as any).mainMethod as IRFunction | undefined;
         const staticMethods = (node as any).staticMethods as IRFunction[] | undefined;
@@ -135,11 +482,990 @@ export class CGenerator {
         node.thenBranch.forEach(analyze);
         node.elseBranch?.forEach(analyze);
       }
-      if (isIRFor(node) || isIRWhile(node)) {
+      if (isIRFor(node) && node.iterator && node.iterable) this.recordType(node.iterator, this.iteratorType(node));
+      if (isIRFor(node) && node.iterator && node.iteratorType?.kind === 'tuple') this.tupleTypes.set(node.iterator, node.iteratorType);
+      if (isIRFor(node) || isIRWhile(node) || isIRForEach(node) || isIRDoWhile(node)) {
+        this.withLoopTypes(this.loopTypes(node), () => node.body.forEach(analyze));
+      }
+      if (isIRTry(node)) {
         node.body.forEach(analyze);
+        node.handlers.forEach(handler => {
+          if (handler.name) this.recordType(handler.name, 'string');
+          handler.body.forEach(analyze);
+        });
+        node.finallyBody?.forEach(analyze);
       }
     };
     ir.body.forEach(analyze);
+    
+    this.collectExceptionTypes(ir.body);
+    if (this.usesExceptions) {
+      this.usesStdio = true;
+      this.usesStdlib = true;
+    }
+    if (this.parsesInts && this.usesExceptions) this.exceptionCodes.add('ValueError');
+    this.checksDivisors = catchesZeroDivision(ir.body);
+    if (this.checksDivisors) this.exceptionCodes.add('ZeroDivisionError');
+    this.collectArithmetic(ir.body);
+    this.collectRows(ir.body);
+    if (this.checksCapacity) {
+      this.usesStdio = true;
+      this.usesStdlib = true;
+    }
+    ir.body.filter(isIREnum).forEach(node => this.enumTypes.set(node.name, node));
+    this.collectEnumMethods(ir.body);
+    this.collectSlices(ir.body);
+    this.collectStringMethods(ir.body);
+    this.collectMathCalls(ir.body);
+    this.collectTupleTypes(ir.body);
+    this.collectLambdas(ir.body);
+  }
+
+  // Names each lambda and types it from where it is stored, passed or returned
+  private collectLambdas(value: unknown, returns?: IRType): void {
+    visitIR(value, node => {
+      const expect = (target: IRNode | undefined, type: IRType | undefined) => {
+        if (target && isIRLambda(target) && type?.kind === 'function') this.lambdaTypes.set(target, type);
+      };
+      if (isIRVariable(node)) expect(node.value, node.dataType);
+      if (isIRAssignment(node)) expect(node.value, this.functionValues.get(node.target));
+      if (isIRReturn(node)) expect(node.value, returns);
+      if (isIRCall(node) && !node.isMethod) {
+        const params = this.calleeParams(node);
+        node.args.forEach((arg, i) => expect(arg, params?.[i]?.dataType));
+      }
+      if (isIRLambda(node) && !this.lambdas.has(node)) this.lambdas.set(node, this.liftLambda(node));
+      if (!isIRFunction(node) && !isIRLambda(node)) return;
+      const visit = () => this.collectLambdas(Object.values(node), node.returnType);
+      if (isIRFunction(node)) this.withTypesOf(node, visit);
+      else visit();
+      return false;
+    });
+  }
+
+  // The lifted function sees the types of the scope the lambda is in
+  private liftLambda(node: IRLambda): IRFunction {
+    const expected = this.lambdaTypes.get(node);
+    const name = `lambda_${this.lambdas.size + 1}`;
+    const outerTypes = this.variableTypes;
+    const captures = this.staticCaptures(node);
+    this.liftedCaptures.set(name, captures);
+    this.variableTypes = new Map(outerTypes);
+    captures.forEach(capture => {
+      const copy = `${name}_${capture.name}`;
+      if (!capture.list) this.variableTypes.set(copy, capture.type);
+      // A list is passed on as a pointer and its length
+      const list = capture.list ? this.arrays.get(capture.name) : undefined;
+      if (list) this.arrays.set(copy, { ...list, name: copy, value: undefined });
+      if (list) this.lengthVars.add(copy);
+    });
+    const params = node.params.map((p, i) => {
+      const dataType = expected?.kind === 'function' && isAutoType(p.dataType) ? expected.params[i] || p.dataType : p.dataType;
+      const param = { ...p, dataType };
+      if (!isAutoType(dataType)) this.variableTypes.set(param.name, flattenType(dataType));
+      if (dataType.kind === 'function') this.functionValues.set(param.name, dataType);
+      return param;
+    });
+    const expression = lambdaExpression(node);
+    const renamed = new Map(captures.map(capture => [capture.name, `${name}_${capture.name}`]));
+    const returnType = !isAutoType(node.returnType) ? node.returnType :
+                       expected?.kind === 'function' ? expected.returns :
+                       primitiveType(expression ? this.inferType(this.renameCaptures(expression, renamed)) : 'auto');
+    if (flattenType(returnType) === 'bool' || params.some(p => flattenType(p.dataType) === 'bool')) this.usesBool = true;
+    const fn: IRFunction = { type: 'function', name, params, returnType, body: this.renameCaptures(node.body, renamed) };
+    this.functionTypes.set(fn, this.variableTypes);
+    this.variableTypes = outerTypes;
+    return fn;
+  }
+
+  // C has no closures: the scalars and lists a lambda uses from its enclosing scope are copied into
+  // statics named after it where it is made, and read from there
+  private staticCaptures(node: IRLambda): Capture[] {
+    return lambdaCaptures(node).flatMap(name => {
+      const list = this.arrays.get(name);
+      if (list) return this.isMatrix(name) ? [] : [{ name, type: flattenType(list.dataType), list: true }];
+      const type = this.variableTypes.get(name);
+      return type && !this.functions.has(name) && !this.classes.has(name) ? [{ name, type }] : [];
+    });
+  }
+
+  private renameCaptures<T>(value: T, names: Map<string, string>): T {
+    return mapIR(value, node => isIRIdentifier(node) && names.has(node.name) ? { ...node, name: names.get(node.name)! } : undefined);
+  }
+
+  // What a lambda captures that can't be copied out is left with a note
+  private generateLiftedLambda(lambda: IRLambda, fn: IRFunction): string {
+    const copied = new Set(this.liftedCaptures.get(fn.name)!.map(capture => capture.name));
+    const captures = lambdaCaptures(lambda).filter(name => !this.functions.has(name) && !this.classes.has(name) && !copied.has(name));
+    const note = captures.length > 0 ? `// Note: C has no closures; ${fn.name} can't see ${captures.join(', ')} from its enclosing scope\n` : '';
+    return `${note}${this.generateFunction(fn, 'static ')}`;
+  }
+
+  private collectTupleTypes(value: unknown): void {
+    visitIR(value, node => {
+      const type = node as unknown as IRType;
+      if (type.kind !== 'tuple') return;
+      const name = this.tupleStructName(type);
+      if (!this.tupleStructs.has(name)) this.tupleStructs.set(name, type.elements);
+    });
+  }
+
+  private tupleStructName(type: Extract<IRType, { kind: 'tuple' }>): string {
+    const arity = type.elements.length;
+    const prefix = arity === 2 ? 'Pair' : arity === 3 ? 'Triple' : `Tuple${arity}`;
+    const elements = type.elements.map(e => e.kind === 'primitive' && e.name === 'auto' ? 'int' : this.typeSuffix(e));
+    return `${prefix}_${elements.join('_')}`;
+  }
+
+  private tupleField(i: number): string {
+    return TUPLE_FIELDS[i] || `item${i + 1}`;
+  }
+
+  private generateTupleStruct(name: string, elements: IRType[]): string {
+    const fields = elements.map((element, i) => {
+      const type = element.kind === 'primitive' ? this.mapMemberType(element.name) : this.mapType(element);
+      return `${this.indentStr}${this.declare(type, this.tupleField(i))};`;
+    });
+    return `typedef struct {\n${fields.join('\n')}\n} ${name};\n`;
+  }
+
+  // Element types of what a destructuring assignment unpacks
+  private destructuredTypes(node: IRDestructure): IRType[] {
+    if (isIRTupleLiteral(node.value)) return node.value.elements.map(e => primitiveType(this.inferType(e)));
+    const name = isIRCall(node.value) ? node.value.callee : isIRIdentifier(node.value) ? node.value.name : '';
+    const type = this.tupleTypes.get(name);
+    return type?.kind === 'tuple' ? type.elements : [];
+  }
+
+  private collectArithmetic(value: unknown): void {
+    visitIR(value, node => {
+      // Divisibility tests keep C's %
+      if (isIRBinaryOp(node) && this.isDivisibilityTest(node)) {
+        const remainder = node.left as IRBinaryOp;
+        this.collectArithmetic([remainder.left, remainder.right]);
+        return false;
+      }
+      const operation = isIRBinaryOp(node) ? node : isIRCompoundAssignment(node) ? this.expandCompound(node) : undefined;
+      const fn = operation ? this.arithmeticFunction(operation) : undefined;
+      if (fn && ['floor_div', 'floor_mod', 'floor_fmod', 'int_pow'].includes(fn)) this.arithmeticHelpers.add(fn);
+      if (fn && ['floor', 'floor_fmod', 'pow'].includes(fn)) this.usesMath = true;
+    });
+  }
+
+  private collectRows(value: unknown): void {
+    visitIR(value, node => {
+      const row = isIRCall(node) && node.isMethod && node.callee === 'append' && node.object ? node.args[0] : undefined;
+      if (row) this.checksCapacity = true;
+      if (row && isIRArrayLiteral(row)) {
+        const length = row.size ? (isIRLiteral(row.size) && typeof row.size.value === 'number' ? row.size.value : undefined) : row.elements.length;
+        if (length) this.rowLengths.set((node as IRCall).object!, length);
+      }
+      if (row && isIRIdentifier(row) && this.lengthVars.has(row.name)) {
+        this.rowLengths.set((node as IRCall).object!, LIST_CAPACITY);
+        this.rowLists.add((node as IRCall).object!);
+        this.usesString = true;
+      }
+      // vector<vector<int>> g(2, vector<int>(3)) holds rows of 3
+      const fill = isIRVariable(node) && node.value && isIRArrayLiteral(node.value) ? node.value.fill : undefined;
+      if (fill && isIRArrayLiteral(fill) && fill.size && isIRLiteral(fill.size) && typeof fill.size.value === 'number') {
+        this.rowLengths.set((node as IRVariable).name, fill.size.value);
+      }
+    });
+  }
+
+  private collectEnumMethods(value: unknown): void {
+    visitIR(value, node => {
+      if (isIREnumMethod(node) && (node.method === 'values' || (node.method === 'ordinal' && !this.countsFromZero(node.enumName)))) {
+        this.enumMembers.add(node.enumName);
+        if (node.method === 'ordinal') this.enumOrdinals.add(node.enumName);
+      }
+      if (isIRVariable(node) && node.dataType.kind === 'enum') this.enumVariables.set(node.name, node.dataType.name);
+      // A printed name is looked up by the constant's ordinal
+      for (const enumName of isIRPrint(node) ? node.args.map(arg => this.namedEnum(arg)) : []) {
+        if (!enumName) continue;
+        this.enumNames.add(enumName);
+        if (!this.countsFromZero(enumName)) {
+          this.enumMembers.add(enumName);
+          this.enumOrdinals.add(enumName);
+        }
+      }
+    });
+  }
+
+  // A Java enum constant prints as its name
+  private namedEnum(node: IRNode): string | undefined {
+    const enumName = isIREnumValue(node) ? node.enumName : isIRIdentifier(node) ? this.enumVariables.get(node.name) : undefined;
+    return enumName && this.enumTypes.get(enumName)?.printedAs === 'name' ? enumName : undefined;
+  }
+
+  // Constants numbered 0, 1, 2, ... are their own ordinals
+  private countsFromZero(enumName: string): boolean {
+    const node = this.enumTypes.get(enumName);
+    return !!node && enumValues(node).every((value, i) => value === i);
+  }
+
+  private collectExceptionTypes(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRTry(node)) {
+        this.usesExceptions = true;
+        node.handlers.forEach(handler => handler.exceptionTypes.forEach(t => this.exceptionCodes.add(t)));
+      }
+      if (isIRThrow(node)) {
+        this.usesExceptions = true;
+        if (node.exceptionType) this.exceptionCodes.add(node.exceptionType);
+      }
+      // atoi, atof and strtol are in <stdlib.h>
+      const conversion = isIRCall(node) && (node.callee === 'int' || node.callee === 'float') && node.args.length === 1;
+      if (conversion && this.inferType(node.args[0]) === 'string') {
+        this.usesStdlib = true;
+        if (node.callee === 'int') this.parsesInts = true;
+      }
+      // A function's conversions are typed by its own variables
+      if (isIRFunction(node)) {
+        this.withTypesOf(node, () => this.collectExceptionTypes(Object.values(node)));
+        return false;
+      }
+    });
+  }
+
+  // C has no generics: a generic function is copied for each set of argument types it is called
+  // with. Type parameters left unbound, and those of generic classes, become void*
+  private instantiateGenerics(ir: IRProgram): IRProgram {
+    const body = structuredClone(ir.body);
+    const lists = [body, ...body.filter(isIRClass).map(cls => (cls as IRClass & { staticMethods?: IRFunction[] }).staticMethods || [])];
+    const generics = lists.flatMap(list => list.filter(node => isIRFunction(node) && node.typeParams)) as IRFunction[];
+    const genericClasses = body.filter(isIRClass).filter(cls => cls.typeParams);
+    if (generics.length === 0 && genericClasses.length === 0) return ir;
+    
+    const declarations = new Map<string, IRVariable>();
+    this.collectDeclarations(body, declarations);
+    genericClasses.forEach(generic => this.instantiateClass(generic, body, declarations));
+    for (const generic of generics) {
+      const typeParams = generic.typeParams!.map(param => param.name);
+      const calls: IRCall[] = [];
+      this.collectCalls(body, generic.name, calls);
+      
+      const instances = new Map<string, { bindings: Map<string, IRType>; calls: IRCall[] }>();
+      let unresolved = calls.length === 0;
+      for (const call of calls) {
+        const bindings = new Map<string, IRType>();
+        generic.params.forEach((param, i) => {
+          if (call.args[i]) this.bindTypeParams(param.dataType, this.argumentType(call.args[i], declarations), bindings);
+        });
+        if (!typeParams.every(name => bindings.has(name))) {
+          unresolved = true;
+          continue;
+        }
+        const key = typeParams.map(name => this.typeSuffix(bindings.get(name)!)).join('_');
+        if (!instances.has(key)) instances.set(key, { bindings, calls: [] });
+        instances.get(key)!.calls.push(call);
+      }
+      
+      const copies = [...instances].map(([key, instance]) => {
+        const name = instances.size === 1 && !unresolved ? generic.name : `${generic.name}_${key}`;
+        instance.calls.forEach(call => call.callee = name);
+        return this.specialize(generic, instance.bindings, name);
+      });
+      const replacements = unresolved ? [generic, ...copies] : copies;
+      this.genericNotes.set(replacements[0].name, unresolved ?
+        `C has no generics, so ${typeParams.join(', ')} of ${generic.name} ${typeParams.length > 1 ? 'are' : 'is'} passed as void*` :
+        `C has no generics, so ${generic.name} is copied for each type it is called with`);
+      const list = lists.find(l => l.includes(generic))!;
+      list.splice(list.indexOf(generic), 1, ...replacements);
+    }
+    return { ...ir, body };
+  }
+
+  // A generic class is copied for each set of type arguments it is created with, which come from the
+  // declared type (Box<Integer>) or else the constructor's arguments; if some can't be told, the class
+  // itself stays as well, storing its type parameters as void*
+  private instantiateClass(generic: IRClass, body: IRNode[], declarations: Map<string, IRVariable>): void {
+    const typeParams = generic.typeParams!.map(param => param.name);
+    const calls: IRCall[] = [];
+    this.collectCalls(body, generic.name, calls);
+    const holders = new Map<IRCall, IRVariable>();
+    this.collectHolders(body, generic.name, holders);
+    
+    const instances = new Map<string, { bindings: Map<string, IRType>; calls: IRCall[] }>();
+    let unresolved = calls.length === 0;
+    for (const call of calls) {
+      const bindings = new Map<string, IRType>();
+      const declared = holders.get(call)?.dataType;
+      if (declared?.kind === 'class' && declared.args) {
+        typeParams.forEach((name, i) => this.bindTypeParams({ kind: 'type_param', name }, declared.args![i], bindings));
+      }
+      generic.constructor?.params.forEach((param, i) => {
+        if (call.args[i]) this.bindTypeParams(param.dataType, this.argumentType(call.args[i], declarations), bindings);
+      });
+      if (!typeParams.every(name => bindings.has(name))) {
+        unresolved = true;
+        continue;
+      }
+      const key = typeParams.map(name => this.typeSuffix(bindings.get(name)!)).join('_');
+      if (!instances.has(key)) instances.set(key, { bindings, calls: [] });
+      instances.get(key)!.calls.push(call);
+    }
+    
+    const copies = [...instances].map(([key, instance]) => {
+      const name = instances.size === 1 && !unresolved ? generic.name : `${generic.name}_${key}`;
+      instance.calls.forEach(call => {
+        call.callee = name;
+        const holder = holders.get(call);
+        if (holder) holder.dataType = { kind: 'class', name };
+      });
+      return this.specialize(generic, instance.bindings, name);
+    });
+    const replacements = unresolved ? [generic, ...copies] : copies;
+    this.genericNotes.set(replacements[0].name, unresolved ?
+      `C has no generics, so ${typeParams.join(', ')} of ${generic.name} ${typeParams.length > 1 ? 'are' : 'is'} stored as void*` :
+      `C has no generics, so ${generic.name} is copied for each type it is created with`);
+    body.splice(body.indexOf(generic), 1, ...replacements);
+  }
+
+  // Variables holding a new instance of the class, by the constructor call
+  private collectHolders(value: unknown, name: string, holders: Map<IRCall, IRVariable>): void {
+    visitIR(value, node => {
+      if (isIRVariable(node) && node.value && isIRCall(node.value) && node.value.callee === name) holders.set(node.value, node);
+    });
+  }
+
+  private collectDeclarations(value: unknown, declarations: Map<string, IRVariable>): void {
+    visitIR(value, node => {
+      if (isIRVariable(node) && !declarations.has(node.name)) declarations.set(node.name, node);
+    });
+  }
+
+  private collectCalls(value: unknown, callee: string, calls: IRCall[]): void {
+    visitIR(value, node => {
+      if (isIRCall(node) && node.callee === callee && !node.isMethod) calls.push(node);
+    });
+  }
+
+  // The type of a generic function's argument, as far as declarations and literals tell
+  private argumentType(node: IRNode, declarations: Map<string, IRVariable>): IRType {
+    if (isIRLiteral(node)) return primitiveType(node.dataType);
+    if (isIRArrayLiteral(node)) {
+      const first = node.elements[0];
+      return { kind: 'array', element: node.elementType === 'auto' && first ? this.argumentType(first, declarations) : primitiveType(node.elementType) };
+    }
+    if (isIRBinaryOp(node)) return this.argumentType(node.left, declarations);
+    if (isIRIdentifier(node)) {
+      const declaration = declarations.get(node.name);
+      return declaration ? declaration.dataType : primitiveType('auto');
+    }
+    return primitiveType('auto');
+  }
+
+  // Matches a parameter's declared type against an argument's, binding the type parameters in it
+  private bindTypeParams(param: IRType | undefined, arg: IRType, bindings: Map<string, IRType>): void {
+    if (!param) return;
+    if (param.kind === 'type_param') {
+      const unknown = arg.kind === 'type_param' || (arg.kind === 'primitive' && arg.name === 'auto');
+      if (!unknown && !bindings.has(param.name)) bindings.set(param.name, arg);
+    } else if (param.kind === 'array' && arg.kind === 'array') {
+      this.bindTypeParams(param.element, arg.element, bindings);
+    } else if (param.kind === 'map' && arg.kind === 'map') {
+      this.bindTypeParams(param.key, arg.key, bindings);
+      this.bindTypeParams(param.value, arg.value, bindings);
+    } else if (param.kind === 'nullable') {
+      this.bindTypeParams(param.inner, arg.kind === 'nullable' ? arg.inner : arg, bindings);
+    } else if (param.kind === 'class' && arg.kind === 'class' && param.args && arg.args) {
+      param.args.forEach((p, i) => { if (arg.args![i]) this.bindTypeParams(p, arg.args![i], bindings); });
+    }
+  }
+
+  // Name suffix of a copy: first_int, first_string
+  private typeSuffix(type: IRType): string {
+    switch (type.kind) {
+      case 'primitive': return type.name;
+      case 'class':
+      case 'enum': return type.name;
+      case 'array': return `${this.typeSuffix(type.element)}_array`;
+      default: return 'ptr';
+    }
+  }
+
+  private specialize<T extends IRFunction | IRClass>(generic: T, bindings: Map<string, IRType>, name: string): T {
+    const copy: T = { ...structuredClone(generic), name };
+    delete copy.typeParams;
+    visitIR(copy, node => {
+      if (isIRVariable(node)) node.dataType = substituteType(node.dataType, bindings);
+      if (isIRFunction(node)) node.returnType = substituteType(node.returnType, bindings);
+    });
+    return copy;
+  }
+
+  // The element type of a loop over a list, an array or a string
+  private iteratorType(node: IRFor): PrimitiveType {
+    if (node.iteratorType && flattenType(node.iteratorType) !== 'auto') return flattenType(node.iteratorType);
+    const array = isIRIdentifier(node.iterable!) ? this.arrays.get(node.iterable.name) : undefined;
+    if (array) return flattenType(array.dataType) === 'auto' ? 'int' : flattenType(array.dataType);
+    if (isIRArrayLiteral(node.iterable!) && node.iterable.elementType !== 'auto') return node.iterable.elementType;
+    return this.inferType(node.iterable!) === 'string' ? 'char' : 'int';
+  }
+
+  // A loop's iterators have the loop's types inside it, whatever the same names hold elsewhere in the function
+  private withLoopTypes<T>(types: [string, PrimitiveType][], generate: () => T): T {
+    const outer = types.map(([name]) => this.variableTypes.get(name));
+    types.forEach(([name, type]) => { if (type !== 'auto') this.variableTypes.set(name, type); });
+    const result = generate();
+    types.forEach(([name], i) => { if (outer[i]) this.variableTypes.set(name, outer[i]!); });
+    return result;
+  }
+
+  private forEachTypes(node: IRForEach, map: IRVariable): [string, PrimitiveType][] {
+    const types: [string, PrimitiveType][] = [[node.iterator, node.overValues ? flattenType(map.dataType) : keyTypeOf(map.dataType)]];
+    if (node.valueIterator) types.push([node.valueIterator, flattenType(map.dataType)]);
+    return types;
+  }
+
+  private loopTypes(node: IRNode): [string, PrimitiveType][] {
+    if (isIRFor(node) && node.iterator && node.iterable) return [[node.iterator, this.iteratorType(node)]];
+    const map = isIRForEach(node) ? this.getMap(node.iterable) : undefined;
+    return isIRForEach(node) && map ? this.forEachTypes(node, map) : [];
+  }
+
+  private isArray(node: IRNode): boolean {
+    return isIRIdentifier(node) && this.arrays.has(node.name);
+  }
+
+  private recordType(name: string, type: PrimitiveType): void {
+    if (type !== 'auto' && !this.variableTypes.has(name)) this.variableTypes.set(name, type);
+  }
+
+  // Generates a function's body with its own variable types in scope
+  private withTypesOf<T>(node: IRFunction | undefined, generate: () => T): T {
+    const outerTypes = this.variableTypes;
+    this.variableTypes = (node && this.functionTypes.get(node)) || outerTypes;
+    const code = generate();
+    this.variableTypes = outerTypes;
+    return code;
+  }
+
+  private analyzeMap(node: IRVariable): void {
+    // Keys and values of unknown types are stored as ints, as the helper's name says
+    const known = (type: PrimitiveType): PrimitiveType => type === 'auto' ? 'int' : type;
+    const keyType = known(keyTypeOf(node.dataType));
+    const valueType = known(flattenType(node.dataType));
+    this.maps.set(node.name, node);
+    this.mapHelpers.set(this.mapTypeName(node.dataType), { keyType, valueType });
+    this.usesStdlib = true;
+    if (keyType === 'string') this.usesString = true;
+    if (valueType === 'bool') this.usesBool = true;
+  }
+
+  private mapTypeName(type: IRType): string {
+    const prefix = (type: PrimitiveType) => {
+      const prefixes: Record<string, string> = {
+        'string': 'Str',
+        'float': 'Float',
+        'double': 'Double',
+        'char': 'Char',
+        'bool': 'Bool',
+      };
+      return prefixes[type] || 'Int';
+    };
+    return `${prefix(keyTypeOf(type))}${prefix(flattenType(type))}Map`;
+  }
+
+  private generateMapHelper(name: string, keyType: PrimitiveType, valueType: PrimitiveType): string {
+    const entry = name.replace(/Map$/, 'Entry');
+    const key = keyType === 'string' ? 'const char*' : this.mapType(keyType);
+    const value = valueType === 'string' ? 'const char*' : this.mapType(valueType);
+    const isString = keyType === 'string';
+    const equals = (a: string) => isString ? `strcmp(${a}, key) == 0` : `${a} == key`;
+    
+    const lines = [
+      `typedef struct ${entry} {`,
+      `    ${key} key;`,
+      `    ${value} value;`,
+      `    struct ${entry}* next;`,
+      `    struct ${entry}* prev_order;`,
+      `    struct ${entry}* next_order;`,
+      `} ${entry};`,
+      '',
+      'typedef struct {',
+      `    ${entry}* buckets[MAP_BUCKETS];`,
+      `    ${entry}* first;`,
+      `    ${entry}* last;`,
+      '    int size;',
+      `} ${name};`,
+      '',
+      `static unsigned ${name}_hash(${key} key) {`,
+      ...(isString ? [
+        '    unsigned h = 5381;',
+        '    while (*key) h = h * 33 + (unsigned char)*key++;',
+        '    return h % MAP_BUCKETS;',
+      ] : [
+        '    return (unsigned)key % MAP_BUCKETS;',
+      ]),
+      '}',
+      '',
+      `static ${entry}* ${name}_find(${name}* m, ${key} key) {`,
+      `    ${entry}* e = m->buckets[${name}_hash(key)];`,
+      `    while (e && !(${equals('e->key')})) e = e->next;`,
+      '    return e;',
+      '}',
+      '',
+      `static void ${name}_set(${name}* m, ${key} key, ${value} value) {`,
+      `    ${entry}* e = ${name}_find(m, key);`,
+      '    if (e) {',
+      '        e->value = value;',
+      '        return;',
+      '    }',
+      `    unsigned h = ${name}_hash(key);`,
+      `    e = calloc(1, sizeof(${entry}));`,
+      ...(isString ? [
+        '    char* copy = malloc(strlen(key) + 1);',
+        '    strcpy(copy, key);',
+        '    e->key = copy;',
+      ] : [
+        '    e->key = key;',
+      ]),
+      '    e->value = value;',
+      '    e->next = m->buckets[h];',
+      '    m->buckets[h] = e;',
+      '    e->prev_order = m->last;',
+      '    if (m->last) m->last->next_order = e; else m->first = e;',
+      '    m->last = e;',
+      '    m->size++;',
+      '}',
+      '',
+      `static ${value} ${name}_get(${name}* m, ${key} key, ${value} fallback) {`,
+      `    ${entry}* e = ${name}_find(m, key);`,
+      '    return e ? e->value : fallback;',
+      '}',
+      '',
+      `static int ${name}_contains(${name}* m, ${key} key) {`,
+      `    return ${name}_find(m, key) != NULL;`,
+      '}',
+      '',
+      `static void ${name}_remove(${name}* m, ${key} key) {`,
+      `    ${entry}** link = &m->buckets[${name}_hash(key)];`,
+      `    while (*link && !(${equals('(*link)->key')})) link = &(*link)->next;`,
+      `    ${entry}* e = *link;`,
+      '    if (!e) return;',
+      '    *link = e->next;',
+      '    if (e->prev_order) e->prev_order->next_order = e->next_order; else m->first = e->next_order;',
+      '    if (e->next_order) e->next_order->prev_order = e->prev_order; else m->last = e->prev_order;',
+      ...(isString ? ['    free((char*)e->key);'] : []),
+      '    free(e);',
+      '    m->size--;',
+      '}',
+      '',
+    ];
+    return lines.join('\n');
+  }
+
+  private generateExceptionHelper(): string {
+    const codes = ['Exception', ...[...this.exceptionCodes].filter(t => t !== 'Exception')];
+    const lines = [
+      '// Each try block installs a jmp_buf; exc_throw jumps to the innermost one',
+      `enum { ${codes.map((t, i) => i === 0 ? `${this.exceptionCode(t)} = 1` : this.exceptionCode(t)).join(', ')} };`,
+      'static jmp_buf* exc_handler = NULL;',
+      'static int exc_code = 0;',
+      'static const char* exc_message = NULL;',
+      '',
+      'static void exc_throw(int code, const char* message) {',
+      '    exc_code = code;',
+      '    exc_message = message;',
+      '    if (!exc_handler) {',
+      '        fprintf(stderr, "Unhandled exception: %s\\n", message);',
+      '        exit(1);',
+      '    }',
+      '    longjmp(*exc_handler, 1);',
+      '}',
+      '',
+    ];
+    if (this.checksDivisors) {
+      lines.push(
+        'static int check_divisor(int b) {',
+        `    if (b == 0) exc_throw(${this.exceptionCode('ZeroDivisionError')}, "division by zero");`,
+        '    return b;',
+        '}',
+        '',
+        'static double check_fdivisor(double b) {',
+        `    if (b == 0) exc_throw(${this.exceptionCode('ZeroDivisionError')}, "float division by zero");`,
+        '    return b;',
+        '}',
+        '',
+      );
+    }
+    if (this.parsesInts) {
+      lines.push(
+        'static int parse_int(const char* s) {',
+        '    char* end;',
+        '    long value = strtol(s, &end, 10);',
+        `    if (end == s || *end != '\\0') exc_throw(${this.exceptionCode('ValueError')}, "invalid literal for int()");`,
+        '    return (int)value;',
+        '}',
+        '',
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private collectSlices(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRSlice(node)) {
+        const array = isIRIdentifier(node.object) ? this.arrays.get(node.object.name) : undefined;
+        if (array) this.sliceHelpers.set(this.arraySliceName(flattenType(array.dataType)), flattenType(array.dataType));
+        else this.sliceHelpers.set('str_slice', 'string');
+        if (!array) this.usesString = true;
+      }
+      if ((isIRIndex(node) || isIRIndexAssignment(node)) && node.wraps && !this.getMap(node.object)) this.usesWrapIndex = true;
+    });
+  }
+
+  private collectStringMethods(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRStringMethod(node)) {
+        const isChar = this.isChar(node.object);
+        if (!isChar && node.method !== 'compare') this.stringHelpers.add(node.method);
+        if (isChar || ['upper', 'lower', 'strip', 'isdigit', 'isalpha'].includes(node.method)) this.usesCtype = true;
+        if (stringMethodType(node.method, 'string') === 'bool') this.usesBool = true;
+        this.usesString = true;
+      }
+      // len("...") is a strlen, like that of any string
+      if (isIRLength(node) && isIRLiteral(node.object) && node.object.dataType === 'string') this.usesString = true;
+      if (isIRBinaryOp(node) && this.comparesStrings(node)) this.usesString = true;
+      if (isIRFunction(node)) {
+        this.withTypesOf(node, () => this.collectStringMethods(Object.values(node)));
+        return false;
+      }
+    });
+  }
+
+  // abs on ints is in <stdlib.h>, everything else in <math.h>
+  private collectMathCalls(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRMathCall(node) && node.func === 'abs' && !isFloatType(this.inferType(node))) this.usesStdlib = true;
+      else if (isIRMathCall(node) || isIRMathConstant(node)) this.usesMath = true;
+      if (isIRMathConstant(node)) this.mathConstants.add(node.name);
+      if (isIRFunction(node)) {
+        this.withTypesOf(node, () => this.collectMathCalls(Object.values(node)));
+        return false;
+      }
+    });
+  }
+
+  private generateMathConstants(): string {
+    const values: Record<MathConstant, [string, string]> = {
+      pi: ['M_PI', '3.14159265358979323846'],
+      e: ['M_E', '2.71828182845904523536'],
+    };
+    return [...this.mathConstants].map(constant => {
+      const [name, value] = values[constant];
+      return `#ifndef ${name}\n#define ${name} ${value}\n#endif\n`;
+    }).join('\n');
+  }
+
+  // Python's string methods over <string.h> and <ctype.h>; strings they build live in one of a few
+  // rotating buffers, like a slice's
+  private generateStringHelpers(): string {
+    const helpers: Record<string, string[]> = {
+      upper: [
+        'static char* str_upper(const char* s) {',
+        '    char* result = str_buffer();',
+        '    int i = 0;',
+        '    for (; s[i]; i++) result[i] = (char)toupper((unsigned char)s[i]);',
+        '    result[i] = \'\\0\';',
+        '    return result;',
+        '}',
+      ],
+      lower: [
+        'static char* str_lower(const char* s) {',
+        '    char* result = str_buffer();',
+        '    int i = 0;',
+        '    for (; s[i]; i++) result[i] = (char)tolower((unsigned char)s[i]);',
+        '    result[i] = \'\\0\';',
+        '    return result;',
+        '}',
+      ],
+      strip: [
+        'static char* str_strip(const char* s) {',
+        '    char* result = str_buffer();',
+        '    while (isspace((unsigned char)*s)) s++;',
+        '    int length = (int)strlen(s);',
+        '    while (length > 0 && isspace((unsigned char)s[length - 1])) length--;',
+        '    memcpy(result, s, length);',
+        '    result[length] = \'\\0\';',
+        '    return result;',
+        '}',
+      ],
+      split: [
+        '// Cuts a copy of s at each separator, pointing parts at the pieces, and returns how many there are;',
+        '// without a separator, runs of whitespace separate them and there are no empty ones',
+        'static int str_split(char** parts, const char* s, const char* separator) {',
+        '    char* copy = strcpy(str_buffer(), s);',
+        '    int count = 0;',
+        '    if (!separator) {',
+        '        for (char* word = strtok(copy, " \\t\\n\\r\\f\\v"); word; word = strtok(NULL, " \\t\\n\\r\\f\\v")) parts[count++] = word;',
+        '        return count;',
+        '    }',
+        '    for (char* end = strstr(copy, separator); end; end = strstr(copy, separator)) {',
+        '        *end = \'\\0\';',
+        '        parts[count++] = copy;',
+        '        copy = end + strlen(separator);',
+        '    }',
+        '    parts[count++] = copy;',
+        '    return count;',
+        '}',
+      ],
+      join: [
+        'static char* str_join(const char* separator, char** parts, int count) {',
+        '    char* result = str_buffer();',
+        '    result[0] = \'\\0\';',
+        '    for (int i = 0; i < count; i++) {',
+        '        if (i > 0) strcat(result, separator);',
+        '        strcat(result, parts[i]);',
+        '    }',
+        '    return result;',
+        '}',
+      ],
+      find: [
+        'static int str_find(const char* s, const char* sub) {',
+        '    const char* found = strstr(s, sub);',
+        '    return found ? (int)(found - s) : -1;',
+        '}',
+      ],
+      replace: [
+        'static char* str_replace(const char* s, const char* from, const char* to) {',
+        '    char* result = str_buffer();',
+        '    char* out = result;',
+        '    size_t from_len = strlen(from), to_len = strlen(to);',
+        '    for (const char* found; from_len > 0 && (found = strstr(s, from)); s = found + from_len) {',
+        '        memcpy(out, s, found - s);',
+        '        out += found - s;',
+        '        memcpy(out, to, to_len);',
+        '        out += to_len;',
+        '    }',
+        '    strcpy(out, s);',
+        '    return result;',
+        '}',
+      ],
+      startswith: [
+        'static bool str_startswith(const char* s, const char* prefix) {',
+        '    return strncmp(s, prefix, strlen(prefix)) == 0;',
+        '}',
+      ],
+      endswith: [
+        'static bool str_endswith(const char* s, const char* suffix) {',
+        '    size_t length = strlen(s), suffix_len = strlen(suffix);',
+        '    return length >= suffix_len && strcmp(s + length - suffix_len, suffix) == 0;',
+        '}',
+      ],
+      isdigit: [
+        'static bool str_isdigit(const char* s) {',
+        '    if (!*s) return false;',
+        '    for (; *s; s++) if (!isdigit((unsigned char)*s)) return false;',
+        '    return true;',
+        '}',
+      ],
+      isalpha: [
+        'static bool str_isalpha(const char* s) {',
+        '    if (!*s) return false;',
+        '    for (; *s; s++) if (!isalpha((unsigned char)*s)) return false;',
+        '    return true;',
+        '}',
+      ],
+    };
+    const lines = [
+      'static char* str_buffer(void) {',
+      '    static char buffers[8][256];',
+      '    static int next = 0;',
+      '    return buffers[next++ % 8];',
+      '}',
+      '',
+    ];
+    for (const [method, code] of Object.entries(helpers)) {
+      if (this.stringHelpers.has(method)) lines.push(...code, '');
+    }
+    return lines.join('\n');
+  }
+
+  private arraySliceName(elementType: PrimitiveType): string {
+    return `${elementType === 'string' ? 'string' : this.mapType(elementType).replace(' ', '_')}_array_slice`;
+  }
+
+  private generateSliceHelpers(): string {
+    const lines = [
+      '#define SLICE_NONE INT_MIN',
+      '',
+      '// Python\'s slice bounds: left out, they follow the step\'s direction; negative, they count from the end',
+      'static int slice_bound(int bound, int length, int is_start, int step) {',
+      '    if (bound == SLICE_NONE) return step > 0 ? (is_start ? 0 : length) : (is_start ? length - 1 : -1);',
+      '    if (bound < 0) bound += length;',
+      '    int low = step > 0 ? 0 : -1, high = step > 0 ? length : length - 1;',
+      '    return bound < low ? low : bound > high ? high : bound;',
+      '}',
+      '',
+      'static int slice_count(int first, int stop, int step) {',
+      '    int count = (stop - first + step - (step > 0 ? 1 : -1)) / step;',
+      '    return count > 0 ? count : 0;',
+      '}',
+      '',
+    ];
+    for (const [name, elementType] of this.sliceHelpers) {
+      if (name === 'str_slice') {
+        lines.push(
+          '// The result lives in one of a few rotating buffers, so it can be returned or passed on',
+          'static char* str_slice(const char* s, int start, int end, int step) {',
+          '    static char buffers[8][256];',
+          '    static int next = 0;',
+          '    char* result = buffers[next++ % 8];',
+          '    int length = (int)strlen(s);',
+          '    int first = slice_bound(start, length, 1, step);',
+          '    int count = slice_count(first, slice_bound(end, length, 0, step), step);',
+          '    for (int i = 0; i < count; i++) result[i] = s[first + i * step];',
+          '    result[count] = \'\\0\';',
+          '    return result;',
+          '}',
+          '',
+        );
+        continue;
+      }
+      const type = this.mapType(elementType);
+      lines.push(
+        '// Copies the slice into dest and returns its length',
+        `static int ${name}(${type}* dest, ${type}* items, int length, int start, int end, int step) {`,
+        '    int first = slice_bound(start, length, 1, step);',
+        '    int count = slice_count(first, slice_bound(end, length, 0, step), step);',
+        '    for (int i = 0; i < count; i++) dest[i] = items[first + i * step];',
+        '    return count;',
+        '}',
+        '',
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private listPrinterName(elementType: PrimitiveType): string {
+    return `print_${elementType === 'string' ? 'string' : this.mapType(elementType).replace(' ', '_')}_list`;
+  }
+
+  // The element type of a list printed whole: a list, a matrix or one of its rows
+  private printedListType(node: IRNode): PrimitiveType | undefined {
+    const list = isIRIdentifier(node) ? node
+      : isIRIndex(node) && isIRIdentifier(node.object) && this.isMatrix(node.object.name) ? node.object
+      : undefined;
+    const declared = list ? this.arrays.get(list.name) : undefined;
+    return declared ? flattenType(declared.dataType) : undefined;
+  }
+
+  private generateListPrint(node: IRNode, elementType: PrimitiveType): string {
+    const printer = this.listPrinterName(elementType);
+    if (!isIRIdentifier(node) || !this.isMatrix(node.name)) {
+      return `${printer}(${this.generateExpression(node)}, ${this.generateLength(node)});`;
+    }
+    const row = `${node.name}_i`;
+    const rowLength = this.rowLists.has(node.name) ? `${node.name}_row_len[${row}]` : `(int)(sizeof(${node.name}[0]) / sizeof(${node.name}[0][0]))`;
+    return `printf("["); for (int ${row} = 0; ${row} < ${this.generateLength(node)}; ${row}++) { ` +
+      `if (${row} > 0) printf(", "); ${printer}(${node.name}[${row}], ${rowLength}); } printf("]");`;
+  }
+
+  private generateListPrinters(): string {
+    const lines: string[] = [];
+    for (const elementType of this.listPrinters) {
+      const type = this.mapType(elementType);
+      const format = this.formatSpecifier(elementType);
+      const quoted = elementType === 'string' || elementType === 'char' ? `'${format}'` : format;
+      lines.push(
+        '// Prints the items as Python prints a list, [1, 2]',
+        `static void ${this.listPrinterName(elementType)}(${type}* items, int length) {`,
+        '    printf("[");',
+        `    for (int i = 0; i < length; i++) printf(i > 0 ? ", ${quoted}" : "${quoted}", items[i]);`,
+        '    printf("]");',
+        '}',
+        '',
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private generateWrapIndexHelper(): string {
+    return [
+      '// Python\'s negative indexes count from the end',
+      'static int wrap_index(int index, int length) {',
+      '    return index < 0 ? index + length : index;',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  private generateListSlotHelper(): string {
+    return [
+      `// Note: lists hold at most ${LIST_CAPACITY} items in C; appending past that stops the program`,
+      'static int list_slot(int length, int capacity) {',
+      '    if (length >= capacity) {',
+      '        fprintf(stderr, "list is full at %d items\\n", capacity);',
+      '        exit(1);',
+      '    }',
+      '    return length;',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  private generateArithmeticHelpers(): string {
+    const helpers: Record<string, string[]> = {
+      floor_div: [
+        'static int floor_div(int a, int b) {',
+        '    int q = a / b;',
+        '    return (a % b != 0 && (a < 0) != (b < 0)) ? q - 1 : q;',
+        '}',
+      ],
+      floor_mod: [
+        'static int floor_mod(int a, int b) {',
+        '    int r = a % b;',
+        '    return (r != 0 && (r < 0) != (b < 0)) ? r + b : r;',
+        '}',
+      ],
+      floor_fmod: [
+        'static double floor_fmod(double a, double b) {',
+        '    double r = fmod(a, b);',
+        '    return (r != 0 && (r < 0) != (b < 0)) ? r + b : r;',
+        '}',
+      ],
+      int_pow: [
+        'static int int_pow(int base, int exp) {',
+        '    if (exp < 0) return base == 1 || base == -1 ? (exp % 2 == 0 ? 1 : base) : 0;',
+        '    int result = 1;',
+        '    while (exp-- > 0) result *= base;',
+        '    return result;',
+        '}',
+      ],
+    };
+    const lines = ['// Python rounds division and modulo toward negative infinity, C toward zero'];
+    for (const name of Object.keys(helpers)) {
+      if (this.arithmeticHelpers.has(name)) lines.push(...helpers[name], '');
+    }
+    return lines.join('\n');
+  }
+
+  // ValueError -> EXC_VALUE_ERROR
+  private exceptionCode(exceptionType: string): string {
+    return `EXC_${exceptionType.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`;
+  }
+
+  // A map variable, or a call to a function that returns one
+  private getMap(node: IRNode): IRVariable | undefined {
+    if (isIRCall(node) && !node.isMethod) {
+      const returnType = this.functions.get(node.callee)?.returnType;
+      return returnType && isMapType(returnType) ? { type: 'variable', name: node.callee, dataType: returnType } : undefined;
+    }
+    return isIRIdentifier(node) ? this.maps.get(node.name) : undefined;
+  }
+
+  // Map parameters are already pointers; local maps need their address taken
+  private mapRef(node: IRNode): string {
+    const name = this.generateExpression(node);
+    return isIRIdentifier(node) && this.mapParams.has(node.name) ? name : `&${name}`;
+  }
+
+  private mapField(node: IRNode, field: string): string {
+    const name = this.generateExpression(node);
+    return isIRIdentifier(node) && this.mapParams.has(node.name) ? `${name}->${field}` : `${name}.${field}`;
   }
 
   private getIndent(): string {
@@ -151,17 +1477,32 @@ export class CGenerator {
     if (isIRVariable(node)) return this.generateVariable(node);
     if (isIRFunction(node)) return this.generateFunction(node);
     if (isIRClass(node)) return this.generateClass(node);
+    if (isIREnum(node)) return this.generateEnum(node);
     if (isIRIf(node)) return this.generateIf(node);
-    if (isIRFor(node)) return this.generateFor(node);
-    if (isIRWhile(node)) return this.generateWhile(node);
+    if (isIRFor(node) || isIRForEach(node) || isIRWhile(node) || isIRDoWhile(node)) {
+      return this.generateLoop(node);
+    }
     if (isIRSwitch(node)) return this.generateSwitch(node);
+    if (isIRTry(node)) return this.generateTry(node);
+    if (isIRThrow(node)) return this.generateThrow(node);
     if (isIRReturn(node)) return this.generateReturn(node);
     if (isIRPrint(node)) return this.generatePrint(node);
     if (isIRInput(node)) return this.generateInput(node);
     if (isIRAssignment(node)) return this.generateAssignment(node);
+    if (isIRIndexAssignment(node)) return this.generateIndexAssignment(node);
+    if (isIRDestructure(node)) return this.generateDestructure(node);
+    if (isIRRemove(node)) {
+      const map = this.getMap(node.object);
+      if (!map) return `${this.getIndent()}// Removal is only supported on maps in C`;
+      return `${this.getIndent()}${this.mapTypeName(map.dataType)}_remove(${this.mapRef(node.object)}, ${this.generateExpression(node.key)});`;
+    }
     if (isIRCall(node)) return `${this.getIndent()}${this.generateCall(node)};`;
+    if (isIRFree(node)) return `${this.getIndent()}free(${this.generateExpression(node.target)});`;
+    if (isIRSuperCall(node)) return `${this.getIndent()}${this.generateSuperCall(node)};`;
     if (isIRBinaryOp(node)) return `${this.getIndent()}${this.generateBinaryOp(node)};`;
-    if (node.type === 'break') return `${this.getIndent()}break;`;
+    if (isIRCompoundAssignment(node)) return this.generateCompoundStatement(node);
+    if (node.type === 'unary_op') return `${this.getIndent()}${this.generateExpression(node)};`;
+    if (isIRBreak(node) || isIRContinue(node)) return this.generateJump(node);
     
     return '';
   }
@@ -175,7 +1516,19 @@ export class CGenerator {
 
   private generateVariable(node: IRVariable): string {
     const indent = this.getIndent();
-    const type = this.mapType(node.dataType);
+    // C has no inferred types: an untyped variable takes its value's
+    const declared = isAutoType(node.dataType) && node.value ? primitiveType(this.inferType(node.value)) : node.dataType;
+    const type = this.mapType(declared);
+    const dataType = flattenType(declared);
+    if (node.isPointer) this.pointerVariables.add(node.name);
+    else this.pointerVariables.delete(node.name);
+    
+    // int& rx = x; points at x, and is read through the pointer like a reference parameter
+    if (node.isReference && node.value && !classNameOf(node.dataType)) {
+      const value = this.generateExpression(node.value);
+      this.referenceParams.add(node.name);
+      return `${indent}${type}* ${node.name} = &${value};`;
+    }
     
     // Special case: variable initialized from input
     if (node.value && isIRInput(node.value)) {
@@ -186,39 +1539,237 @@ export class CGenerator {
         code += `${indent}printf("${input.prompt}");\n`;
       }
       
-      if (node.dataType === 'string') {
+      if (dataType === 'string') {
         code += `${indent}char ${node.name}[256];\n`;
         code += `${indent}scanf("%s", ${node.name});`;
       } else {
-        const format = node.dataType === 'int' ? '%d' : 
-                      node.dataType === 'float' ? '%f' : '%s';
+        const format = dataType === 'int' ? '%d' : 
+                      dataType === 'float' ? '%f' : '%s';
         code += `${indent}${type} ${node.name};\n`;
         code += `${indent}scanf("${format}", &${node.name});`;
       }
       return code;
     }
     
-    if (node.dataType === 'string') {
+    if (isArrayType(node.dataType)) {
+      return this.generateArrayVariable(node);
+    }
+    
+    if (isMapType(node.dataType)) {
+      return this.generateMapVariable(node);
+    }
+    
+    // Strings taken from a map, an array of strings, a call or a conditional point at the original
+    if (dataType === 'string') this.charArrays.add(node.name);
+    if (dataType === 'string' && node.value && (isIRIndex(node.value) || isIRCall(node.value) || isIRConditional(node.value))) {
+      this.charArrays.delete(node.name);
+      return `${indent}const char* ${node.name} = ${this.generateExpression(node.value)};`;
+    }
+    
+    if (dataType === 'string' && node.value && (isIRSlice(node.value) || isIRStringMethod(node.value))) {
+      return `${indent}char ${node.name}[256];\n${indent}strcpy(${node.name}, ${this.generateExpression(node.value)});`;
+    }
+    
+    if (dataType === 'string') {
       const value = node.value ? this.generateExpression(node.value) : '""';
       return `${indent}char ${node.name}[256] = ${value};`;
     }
     
+    if (node.isPointer) return this.generatePointerVariable(node);
+    
+    if (node.dataType.kind === 'class' && this.structs.has(node.dataType.name)) {
+      const value = node.value ? this.generateStructValue(node.value) : '{0}';
+      return `${indent}${node.dataType.name} ${node.name} = ${value};`;
+    }
+    
+    // Calling a generator function gives its state
+    const generator = node.value ? this.generatorOf(node.value) : undefined;
+    if (node.value && generator) {
+      this.generatorVariables.set(node.name, generator);
+      return `${indent}${generatorName(generator)} ${node.name} = ${this.generateExpression(node.value)};`;
+    }
+    
+    // Instances live on the heap, created by the class's _new function
+    if (node.value && isIRCall(node.value) && this.classes.has(node.value.callee)) {
+      this.objectTypes.set(node.name, node.value.callee);
+      return `${indent}${node.value.callee}* ${node.name} = ${this.generateExpression(node.value)};`;
+    }
+    
+    if (node.value && isIRLiteral(node.value) && node.value.value === 'null' && this.isNullableNumber(node.dataType)) {
+      return `${indent}// Note: C has no None, so ${node.name}=None starts as 0\n${indent}${this.declare(type, node.name)} = 0;`;
+    }
     if (node.value) {
-      return `${indent}${type} ${node.name} = ${this.generateExpression(node.value)};`;
+      return `${indent}${this.declare(type, node.name)} = ${this.generateExpression(node.value)};`;
+    }
+    return `${indent}${this.declare(type, node.name)};`;
+  }
+
+  private generatePointerVariable(node: IRVariable): string {
+    const indent = this.getIndent();
+    const type = `${this.pointeeType(node.dataType)}*`;
+    if (!node.value) return `${indent}${type} ${node.name} = NULL;`;
+    let code = `${indent}${type} ${node.name} = ${this.generateExpression(node.value)};`;
+    // calloc has zeroed the memory, so only other starting values need storing
+    if (isIRAllocation(node.value) && node.value.value && !this.isZero(node.value.value)) {
+      code += `\n${indent}*${node.name} = ${this.generateExpression(node.value.value)};`;
+    }
+    return code;
+  }
+
+  private isZero(node: IRNode): boolean {
+    if (isIRLiteral(node)) return !node.value;
+    if (isIRCall(node) && this.structs.has(node.callee)) return node.args.every(arg => this.isZero(arg));
+    return isIRArrayLiteral(node) && node.elements.length === 0;
+  }
+
+  private generateAllocation(node: IRAllocation): string {
+    const type = this.pointeeType(node.dataType);
+    return `calloc(${node.count ? this.generateExpression(node.count) : '1'}, sizeof(${type}))`;
+  }
+
+  private generateMapVariable(node: IRVariable): string {
+    const indent = this.getIndent();
+    const name = this.mapTypeName(node.dataType);
+    // A map returned by a call is taken over as it is
+    if (node.value && isIRCall(node.value)) return `${indent}${name} ${node.name} = ${this.generateExpression(node.value)};`;
+    let code = `${indent}${name} ${node.name} = {0};`;
+    if (node.value && isIRMapLiteral(node.value)) {
+      for (const entry of node.value.entries) {
+        const key = this.generateExpression(entry.key);
+        const value = this.generateExpression(entry.value);
+        code += `\n${indent}${name}_set(&${node.name}, ${key}, ${value});`;
+      }
     }
-    return `${indent}${type} ${node.name};`;
+    return code;
   }
 
-  private generateFunction(node: IRFunction): string {
+  private generateArrayVariable(node: IRVariable): string {
     const indent = this.getIndent();
-    const returnType = this.mapType(node.returnType);
+    const type = this.mapType(this.innerType(node.dataType));
+    const literal = node.value && isIRArrayLiteral(node.value) ? node.value : undefined;
+    const elements = literal ? literal.elements.map(e => this.generateExpression(e)) : [];
+    const size = node.arraySize || literal?.size;
+    
+    if (node.value && isIRStringMethod(node.value) && node.value.method === 'split') {
+      return this.generateSplit(node.value, node.name);
+    }
+    
+    // Slices are copied into a list of their own
+    if (node.value && isIRSlice(node.value)) {
+      const slice = this.sliceArguments(node.value);
+      const length = `${indent}int ${node.name}_len = ${this.arraySliceName(flattenType(node.dataType))}(${node.name}, ${slice});`;
+      return `${indent}${type} ${node.name}[256];\n${length}`;
+    }
+    
+    // Growable lists get a fixed capacity plus a length counter, checked on append
+    if (this.isGrowable(node)) {
+      const init = elements.length > 0 ? elements.join(', ') : '0';
+      const length = size ? this.generateExpression(size) : String(elements.length);
+      const columns = this.rowLengths.has(node.name) ? `[${this.rowLengths.get(node.name)}]` : '';
+      let code = `${indent}${type} ${node.name}[${LIST_CAPACITY}]${columns} = {${init}};\n${indent}int ${node.name}_len = ${length};`;
+      if (this.rowLists.has(node.name)) code += `\n${indent}int ${node.name}_row_len[${LIST_CAPACITY}] = {0};`;
+      const fill = literal?.fill ? this.generateFill(node.name, literal) : '';
+      return fill ? `${code}\n${fill}` : code;
+    }
+    
+    if (elements.length > 0) {
+      const sizeStr = size ? this.generateExpression(size) : '';
+      // Rows of a nested literal need their length spelled out; zeroed rows are zeroed in one go
+      const rows = literal!.elements.every(isIRArrayLiteral) ? literal!.elements.map(row => this.literalLength(row)) : [];
+      const columns = rows.length > 0 ? `[${Math.max(...rows)}]` : '';
+      const zeroed = literal!.elements.every(row => isIRArrayLiteral(row) && row.size);
+      return `${indent}${type} ${node.name}[${sizeStr}]${columns} = {${zeroed ? '0' : elements.join(', ')}};`;
+    }
+    
+    if (size) {
+      const sizeStr = this.generateExpression(size);
+      if (this.needsMemset(node)) {
+        // Variable-length arrays can't have initializers
+        return `${indent}${type} ${node.name}[${sizeStr}];\n${indent}memset(${node.name}, 0, sizeof(${node.name}));`;
+      }
+      return `${indent}${type} ${node.name}[${sizeStr}] = {0};`;
+    }
+    
+    return `${indent}${type}* ${node.name} = ${this.generateExpression(node.value!)};`;
+  }
+
+  // Elements of a filled list start out zero, so only other fills are stored, row by row
+  private generateFill(name: string, literal: IRArrayLiteral): string {
+    const indent = this.getIndent();
+    const isZero = (node: IRNode) => isIRLiteral(node) && (node.value === 0 || node.value === false);
+    const rowFill = isIRArrayLiteral(literal.fill!) ? literal.fill : undefined;
+    const value = rowFill ? rowFill.fill : literal.fill;
+    if (!value || isZero(value)) return '';
+    const loop = (index: string, size: IRNode | string) =>
+      `for (int ${index} = 0; ${index} < ${typeof size === 'string' ? size : this.generateExpression(size)}; ${index}++) `;
+    const target = rowFill ? `${name}[${name}_i][${name}_j]` : `${name}[${name}_i]`;
+    const columns = rowFill ? loop(`${name}_j`, rowFill.size!) : '';
+    return `${indent}${loop(`${name}_i`, `${name}_len`)}${columns}${target} = ${this.generateExpression(value)};`;
+  }
+
+  private literalLength(literal: IRArrayLiteral): number {
+    return literal.size && isIRLiteral(literal.size) && typeof literal.size.value === 'number' ? literal.size.value : literal.elements.length;
+  }
+
+  // Lists that grow, and empty lists that can only be filled later
+  private isGrowable(node: IRVariable): boolean {
+    if (isListType(node.dataType) || (node.value && (isIRSlice(node.value) || isIRStringMethod(node.value)))) return true;
+    if (node.arraySize || !node.value || !isIRArrayLiteral(node.value)) return false;
+    return node.value.elements.length === 0 && !node.value.size;
+  }
+
+  private needsMemset(node: IRVariable): boolean {
+    if (this.isGrowable(node)) return false;
+    const size = node.arraySize || (node.value && isIRArrayLiteral(node.value) ? node.value.size : undefined);
+    return !!size && !isIRLiteral(size);
+  }
+
+  private generateFunction(node: IRFunction, prefix = ''): string {
+    if (node.isGenerator) return this.generateGenerator(node);
+    const indent = this.getIndent();
+    // Maps are returned by value, the way locals hold them
+    const returnType = node.returnsPointer ? `${this.pointeeType(node.returnType)}*` :
+      isMapType(node.returnType) ? this.mapTypeName(node.returnType) : this.mapType(node.returnType);
     const params = node.params.map(p => {
-      const type = this.mapType(p.dataType, true);
-      if (p.dataType === 'string') return `char ${p.name}[]`;
-      return `${type} ${p.name}`;
+      if (p.isPointer || p.isReference) return `${this.pointeeType(p.dataType)}* ${p.name}`;
+      if (isArrayType(p.dataType)) return `${this.mapType(this.innerType(p.dataType), true)} ${p.name}[], int ${p.name}_len`;
+      if (isMapType(p.dataType)) return `${this.mapTypeName(p.dataType)}* ${p.name}`;
+      if (flattenType(p.dataType) === 'string') return `char ${p.name}[]`;
+      return this.declare(this.mapType(p.dataType, true), p.name);
     }).join(', ');
     
-    let code = `${indent}${returnType} ${node.name}(${params || 'void'}) {\n`;
+    const untyped = node.params.filter(p => isAutoType(p.dataType.kind === 'nullable' ? p.dataType.inner : p.dataType)).map(p => p.name);
+    const nullable = node.params.filter(p => this.isNullableNumber(p.dataType));
+    const note = [
+      this.genericNotes.get(node.name),
+      ...nullable.map(p => `C has no None, so ${p.name}=None is passed as 0`),
+      untyped.length === 1 ? `the type of ${untyped[0]} couldn't be inferred, so it is an int` : '',
+      untyped.length > 1 ? `the types of ${untyped.join(', ')} couldn't be inferred, so they are ints` : '',
+    ].filter(Boolean).join('; ');
+    // A function returning a function pointer nests its declarator: int (*make_adder(int n))(int)
+    const header = node.returnType.kind === 'function'
+      ? this.declare(returnType, `${node.name}(${params || 'void'})`)
+      : `${returnType} ${node.name}(${params || 'void'})`;
+    let code = `${note ? `${indent}// Note: ${note}\n` : ''}${indent}${prefix}${header} {\n`;
+    
+    // Array parameters and their lengths are only in scope inside the function
+    const outerArrays = new Map(this.arrays);
+    const outerLengthVars = new Set(this.lengthVars);
+    const outerPointers = new Set(this.pointerVariables);
+    const outerTypes = this.variableTypes;
+    this.variableTypes = this.functionTypes.get(node) || outerTypes;
+    for (const p of node.params) {
+      if (p.isPointer || p.isReference) this.pointerVariables.add(p.name);
+      else this.pointerVariables.delete(p.name);
+    }
+    this.referenceParams = new Set(node.params.filter(p => p.isReference).map(p => p.name));
+    this.currentReturnType = node.returnType;
+    this.resultType = returnType;
+    this.tempNames = new Set();
+    for (const p of node.params.filter(p => isArrayType(p.dataType))) {
+      this.arrays.set(p.name, p);
+      this.lengthVars.add(p.name);
+    }
     
     this.indent++;
     for (const stmt of node.body) {
@@ -227,11 +1778,99 @@ export class CGenerator {
     }
     this.indent--;
     
+    this.arrays = outerArrays;
+    this.lengthVars = outerLengthVars;
+    this.pointerVariables = outerPointers;
+    this.variableTypes = outerTypes;
+    this.referenceParams = new Set();
+    this.currentReturnType = undefined;
+    this.resultType = 'int';
+    code += `${indent}}`;
+    return code;
+  }
+
+  // A generator keeps its locals and where to resume in a struct; name_next() runs the body as a state
+  // machine up to the next yield, returning false once it finishes, and the function itself just
+  // fills in a fresh struct
+  private generateGenerator(node: IRFunction): string {
+    const indent = this.getIndent();
+    const machine = lowerGenerator(node);
+    const inner = indent + this.indentStr;
+    const body = inner + this.indentStr;
+    const fieldType = (type: PrimitiveType) => type === 'string' ? 'const char*' : this.mapType(type === 'auto' ? 'int' : type);
+    
+    let code = `${indent}typedef struct {\n`;
+    for (const field of machine.fields) {
+      const isArray = isArrayType(field.dataType);
+      code += `${inner}${this.declare(fieldType(flattenType(field.dataType)), isArray ? `*${field.name}` : field.name)};\n`;
+      if (isArray) code += `${inner}int ${field.name}_len;\n`;
+    }
+    code += `${inner}int ${machine.state};\n`;
+    code += `${inner}${fieldType(flattenType(node.returnType))} ${machine.current};\n`;
+    code += `${indent}} ${machine.name};\n\n`;
+    
+    const params = node.params.map(p => isArrayType(p.dataType) ? `${fieldType(flattenType(p.dataType))} ${p.name}[], int ${p.name}_len` :
+      flattenType(p.dataType) === 'string' ? `char ${p.name}[]` : this.declare(fieldType(flattenType(p.dataType)), p.name)).join(', ');
+    code += `${indent}${machine.name} ${node.name}(${params || 'void'}) {\n`;
+    code += `${inner}${machine.name} generator = {0};\n`;
+    for (const param of node.params) {
+      code += `${inner}generator.${param.name} = ${param.name};\n`;
+      if (isArrayType(param.dataType)) code += `${inner}generator.${param.name}_len = ${param.name}_len;\n`;
+    }
+    code += `${inner}return generator;\n`;
+    code += `${indent}}\n\n`;
+    
+    // Fields are read through self, so their types and lengths are looked up under that name
+    const outerArrays = new Map(this.arrays);
+    const outerLengthVars = new Set(this.lengthVars);
+    const outerTypes = this.variableTypes;
+    this.variableTypes = new Map(this.functionTypes.get(node) || outerTypes);
+    for (const field of machine.fields) {
+      const name = `self.${field.name}`;
+      if (isArrayType(field.dataType)) {
+        this.arrays.set(name, { ...field, name });
+        this.lengthVars.add(name);
+      } else {
+        this.variableTypes.set(name, flattenType(field.dataType) === 'auto' ? 'int' : flattenType(field.dataType));
+      }
+    }
+    this.tempNames = new Set();
+    
+    // Each case falls out of the switch to the next state unless it returns
+    code += `${indent}bool ${node.name}_next(${machine.name}* self) {\n`;
+    code += `${inner}while (1) {\n`;
+    code += `${body}switch (self->${machine.state}) {\n`;
+    this.indent += 4;
+    machine.states.forEach((statements, i) => {
+      code += `${body}${this.indentStr}case ${i}: {\n`;
+      for (const stmt of statements) {
+        const stmtCode = this.generateNode(stmt);
+        if (stmtCode) code += stmtCode + '\n';
+      }
+      if (!isIRReturn(statements[statements.length - 1])) code += `${this.getIndent()}break;\n`;
+      code += `${body}${this.indentStr}}\n`;
+    });
+    this.indent -= 4;
+    code += `${body}}\n`;
+    code += `${inner}}\n`;
     code += `${indent}}`;
+    
+    this.arrays = outerArrays;
+    this.lengthVars = outerLengthVars;
+    this.variableTypes = outerTypes;
     return code;
   }
 
+  // The generator function whose values an expression walks: a call to one, or a variable holding its state
+  private generatorOf(node: IRNode): IRFunction | undefined {
+    if (isIRIdentifier(node)) return this.generatorVariables.get(node.name);
+    const fn = isIRCall(node) && !node.isMethod ? this.functions.get(node.callee) : undefined;
+    return fn?.isGenerator ? fn : undefined;
+  }
+
   private generateClass(node: IRClass): string {
+    if (node.isStruct) return this.generateStruct(node);
+    
     // C doesn't have classes, convert to struct with function pointers
     const indent = this.getIndent();
     
@@ -254,10 +1893,7 @@ export class CGenerator {
       
       code += `${indent}int main() {\n`;
       this.indent++;
-      for (const stmt of mainMethod!.body) {
-        const stmtCode = this.generateNode(stmt);
-        if (stmtCode) code += stmtCode + '\n';
-      }
+      code += this.withTypesOf(mainMethod!, () => this.generateStatements(mainMethod!.body));
       code += `${this.getIndent()}return 0;\n`;
       this.indent--;
       code += `${indent}}`;
@@ -265,81 +1901,296 @@ export class CGenerator {
     }
     
     let code = '';
+    this.currentClass = node;
+    const methods = this.methodsOf(node);
+    
+    const note = this.genericNotes.get(node.name);
+    if (note) code += `${indent}// Note: ${note}\n`;
     
     // Forward declaration
     code += `${indent}typedef struct ${node.name} ${node.name};\n\n`;
     
-    // Struct definition
+    // Struct definition; the embedded base comes first so a Dog* can be used as an Animal*
     code += `${indent}struct ${node.name} {\n`;
     this.indent++;
     
+    const base = this.baseOf(node);
+    if (base) {
+      code += `${this.getIndent()}${base} base;\n`;
+    }
     for (const member of node.members) {
-      const type = this.mapType(member.dataType);
-      if (member.dataType === 'string') {
-        code += `${this.getIndent()}char ${member.name}[256];\n`;
-      } else {
-        code += `${this.getIndent()}${type} ${member.name};\n`;
-      }
+      const kind = member.dataType.kind;
+      const type = kind === 'type_param' || kind === 'enum' ? this.mapType(member.dataType) : this.mapMemberType(flattenType(member.dataType));
+      code += `${this.getIndent()}${type} ${member.name};\n`;
     }
     
-    // Method pointers
-    for (const method of node.methods) {
-      const returnType = this.mapType(method.returnType);
-      const params = method.params.map(p => this.mapType(p.dataType)).join(', ');
-      code += `${this.getIndent()}${returnType} (*${method.name})(${node.name}*${params ? ', ' + params : ''});\n`;
+    // Method pointers, declared once by the topmost class that has the method
+    for (const method of methods) {
+      if (this.findSlot(node.name, method.name).owner !== node.name) continue;
+      code += `${this.getIndent()}${this.methodPointerType(method, node.name, `*${method.name}`)};\n`;
     }
     
     this.indent--;
     code += `${indent}};\n\n`;
     
-    // Method implementations
-    for (const method of node.methods) {
+    // Method implementations; abstract methods only have a slot
+    for (const method of methods) {
+      if (method.isAbstract) continue;
       const returnType = this.mapType(method.returnType);
       const params = method.params.map(p => `${this.mapType(p.dataType)} ${p.name}`).join(', ');
       
       code += `${indent}${returnType} ${node.name}_${method.name}(${node.name}* self${params ? ', ' + params : ''}) {\n`;
       this.indent++;
-      for (const stmt of method.body) {
-        const stmtCode = this.generateNode(stmt);
-        if (stmtCode) code += stmtCode + '\n';
-      }
+      code += this.withTypesOf(method, () => this.generateStatements(method.body));
       this.indent--;
       code += `${indent}}\n\n`;
     }
     
     // Constructor/initializer
-    code += `${indent}void ${node.name}_init(${node.name}* self`;
-    if (node.constructor?.params.length) {
-      const params = node.constructor.params.map(p => `${this.mapType(p.dataType)} ${p.name}`).join(', ');
-      code += `, ${params}`;
-    }
-    code += `) {\n`;
+    const ctor = this.effectiveConstructor(node);
+    const ctorParams = ctor?.params.map(p => `${this.mapType(p.dataType)} ${p.name}`).join(', ') || '';
+    code += `${indent}void ${node.name}_init(${node.name}* self${ctorParams ? ', ' + ctorParams : ''}) {\n`;
     this.indent++;
     
+    // The superclass is initialized first, then overridden methods are repointed
+    const ctorBody = ctor?.body || [];
+    const superCall = ctorBody.find(stmt => isIRSuperCall(stmt) && !stmt.method);
+    if (superCall) {
+      code += this.generateNode(superCall) + '\n';
+    } else if (base) {
+      code += `${this.getIndent()}${base}_init(&self->base);\n`;
+    }
     for (const member of node.members) {
-      code += `${this.getIndent()}self->${member.name} = ${this.getDefaultValue(member.dataType)};\n`;
+      code += `${this.getIndent()}self->${member.name} = ${this.getDefaultValue(flattenType(member.dataType))};\n`;
     }
-    for (const method of node.methods) {
-      code += `${this.getIndent()}self->${method.name} = ${node.name}_${method.name};\n`;
+    for (const method of methods) {
+      const { owner, path } = this.findSlot(node.name, method.name);
+      if (method.isAbstract) {
+        // Left for a subclass to fill in, unless an ancestor already has
+        if (owner === node.name) code += `${this.getIndent()}self->${method.name} = NULL;\n`;
+        continue;
+      }
+      const cast = owner === node.name ? '' : `(${this.methodPointerType(method, owner, '*')})`;
+      code += `${this.getIndent()}self->${path}${method.name} = ${cast}${node.name}_${method.name};\n`;
     }
+    code += this.withTypesOf(ctor, () => this.generateStatements(ctorBody.filter(stmt => stmt !== superCall)));
     
     this.indent--;
     code += `${indent}}\n`;
     
+    // Allocating constructor; abstract classes are only initialized as a subclass's base
+    if (!node.isAbstract && !node.isInterface) {
+      const ctorArgs = ctor?.params.map(p => p.name).join(', ') || '';
+      code += `\n${indent}${node.name}* ${node.name}_new(${ctorParams}) {\n`;
+      code += `${indent}${this.indentStr}${node.name}* self = malloc(sizeof(${node.name}));\n`;
+      code += `${indent}${this.indentStr}${node.name}_init(self${ctorArgs ? ', ' + ctorArgs : ''});\n`;
+      code += `${indent}${this.indentStr}return self;\n`;
+      code += `${indent}}\n`;
+    }
+    this.currentClass = undefined;
+    
     // If there's a main method, generate int main() with its body
     if (mainMethod) {
       code += `\n${indent}int main() {\n`;
       this.indent++;
-      for (const stmt of mainMethod.body) {
-        const stmtCode = this.generateNode(stmt);
-        if (stmtCode) code += stmtCode + '\n';
-      }
+      code += this.withTypesOf(mainMethod, () => this.generateStatements(mainMethod.body));
       code += `${this.getIndent()}return 0;\n`;
       this.indent--;
       code += `${indent}}`;
     }
     
-    return code;
+    return code;
+  }
+
+  private generateStruct(node: IRClass): string {
+    const members = node.members.map(member => {
+      const isArray = isArrayType(member.dataType);
+      const type = this.pointeeType(isArray ? this.innerType(member.dataType) : member.dataType);
+      if (isArray) {
+        const size = member.arraySize ? this.generateExpression(member.arraySize) : '256';
+        return `${this.indentStr}${type} ${member.name}[${size}];`;
+      }
+      if (flattenType(member.dataType) === 'string') return `${this.indentStr}char ${member.name}[256];`;
+      // The typedef isn't declared yet inside its own struct
+      if (member.isPointer) return `${this.indentStr}${member.dataType.kind === 'class' ? 'struct ' : ''}${type}* ${member.name};`;
+      return `${this.indentStr}${this.declare(type, member.name)};`;
+    });
+    return `typedef struct ${node.name} {\n${members.join('\n')}\n} ${node.name};\n`;
+  }
+
+  // A struct built in a declaration takes a plain initializer; nested ones are braced too
+  private generateStructValue(node: IRNode): string {
+    if (isIRCall(node) && this.structs.has(node.callee)) {
+      return `{${node.args.map(arg => this.generateStructValue(arg)).join(', ')}}`;
+    }
+    return this.generateExpression(node);
+  }
+
+  // The declaration of a struct variable's field, following nested structs: p.origin.x
+  private structField(name: string): IRVariable | undefined {
+    const [object, ...fields] = name.split('.');
+    let struct = this.structs.get(this.structVariables.get(object) || '');
+    let field: IRVariable | undefined;
+    for (const fieldName of fields) {
+      field = struct?.members.find(m => m.name === fieldName);
+      struct = this.structs.get(field ? classNameOf(field.dataType) || '' : '');
+    }
+    return field;
+  }
+
+  // The struct a value holds: pts[0], (*p), make() or a field of another
+  private structOf(node: IRNode): IRClass | undefined {
+    if (isIRIdentifier(node)) {
+      const field = this.structField(node.name);
+      return this.structs.get(field ? classNameOf(field.dataType) || '' : this.structVariables.get(node.name) || '');
+    }
+    if (isIRIndex(node)) return this.structOf(node.object);
+    if (isIRDereference(node)) return this.structOf(node.operand);
+    if (isIRFieldAccess(node)) {
+      const field = this.fieldOf(node);
+      return this.structs.get(field ? classNameOf(field.dataType) || '' : '');
+    }
+    const fn = isIRCall(node) ? this.functions.get(node.callee) : undefined;
+    return fn && this.structs.get(classNameOf(fn.returnType) || '');
+  }
+
+  // The class of an instance that isn't a variable: shapes[1], Shape(2)
+  private valueClass(node: IRNode): string | undefined {
+    if (isIRIdentifier(node)) return this.objectClass(node.name);
+    const array = isIRIndex(node) && isIRIdentifier(node.object) ? this.arrays.get(node.object.name) : undefined;
+    const className = array ? classNameOf(array.dataType) : isIRCall(node) && !node.isMethod ? node.callee : undefined;
+    return className && this.classes.has(className) ? className : undefined;
+  }
+
+  private fieldOf(node: IRFieldAccess): IRVariable | undefined {
+    const className = this.valueClass(node.object);
+    if (className) return this.classChain(className).flatMap(cls => cls.members).find(m => m.name === node.field);
+    return this.structOf(node.object)?.members.find(m => m.name === node.field);
+  }
+
+  private generateFieldAccess(node: IRFieldAccess): string {
+    const object = this.generateExpression(node.object);
+    const className = this.valueClass(node.object);
+    if (className) return `${object}->${this.memberPath(className, node.field)}`;
+    return `${isIRDereference(node.object) ? `(${object})` : object}${node.isPointer ? '->' : '.'}${node.field}`;
+  }
+
+  private generateEnum(node: IREnum): string {
+    const members = node.members.map(member =>
+      `${this.indentStr}${member.name}${member.value !== undefined ? ` = ${member.value}` : ''}`);
+    let code = `typedef enum {\n${members.join(',\n')}\n} ${node.name};\n`;
+    if (this.enumNames.has(node.name)) code += `\nstatic const char* ${node.name}_names[] = {${node.members.map(m => `"${m.name}"`).join(', ')}};\n`;
+    if (!this.enumMembers.has(node.name)) return code;
+    const count = node.members.length;
+    code += `\nstatic const ${node.name} ${node.name}_members[] = {${node.members.map(m => m.name).join(', ')}};\n`;
+    if (!this.enumOrdinals.has(node.name)) return code;
+    return code + [
+      '',
+      `static int ${node.name}_ordinal(${node.name} value) {`,
+      `    for (int i = 0; i < ${count}; i++) {`,
+      `        if (${node.name}_members[i] == value) return i;`,
+      '    }',
+      '    return -1;',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  // An enumerator is its value already
+  private generateEnumMethod(node: IREnumMethod): string {
+    if (node.method === 'values') return `${node.enumName}_members`;
+    const value = this.generateExpression(node.object!);
+    return node.method === 'ordinal' && this.enumOrdinals.has(node.enumName) ? `${node.enumName}_ordinal(${value})` : value;
+  }
+
+  // Classes without a constructor forward their arguments to the inherited one
+  private effectiveConstructor(node: IRClass): IRFunction | undefined {
+    if (node.constructor) return node.constructor;
+    const inherited = this.classChain(node.name).slice(1).find(cls => cls.constructor)?.constructor;
+    if (!inherited) return undefined;
+    const args = inherited.params.map(p => ({ type: 'identifier', name: p.name }) as IRIdentifier);
+    return { ...inherited, body: [{ type: 'super_call', args } as IRSuperCall] };
+  }
+
+  // The embedded base: the superclass, or else the first interface. Methods of any
+  // further interfaces get slots of their own, so they don't dispatch through the interface.
+  private baseOf(node: IRClass): string | undefined {
+    return node.superclass ?? node.interfaces?.[0];
+  }
+
+  // The class followed by its bases, nearest first
+  private classChain(className: string): IRClass[] {
+    const chain: IRClass[] = [];
+    let current = this.classes.get(className);
+    while (current && !chain.includes(current)) {
+      chain.push(current);
+      const base = this.baseOf(current);
+      current = base ? this.classes.get(base) : undefined;
+    }
+    return chain;
+  }
+
+  // A class's own methods plus the default methods of interfaces it doesn't embed,
+  // which are copied in since the struct only has room for one base
+  private methodsOf(node: IRClass): IRFunction[] {
+    const chain = this.classChain(node.name);
+    const methods = [...node.methods];
+    const visit = (name: string): void => {
+      const iface = this.classes.get(name);
+      if (!iface || chain.includes(iface)) return;
+      for (const method of iface.methods) {
+        if (method.isAbstract || methods.some(m => m.name === method.name)) continue;
+        if (chain.some(cls => cls.methods.some(m => m.name === method.name))) continue;
+        methods.push(method);
+      }
+      iface.interfaces?.forEach(visit);
+    };
+    node.interfaces?.forEach(visit);
+    return methods;
+  }
+
+  // Where a method's pointer lives: the topmost class declaring it, reached through base fields
+  private findSlot(className: string, methodName: string): { owner: string; path: string } {
+    const chain = this.classChain(className);
+    let depth = -1;
+    chain.forEach((cls, i) => {
+      if (this.methodsOf(cls).some(m => m.name === methodName)) depth = i;
+    });
+    if (depth < 0) return { owner: className, path: '' };
+    return { owner: chain[depth].name, path: 'base.'.repeat(depth) };
+  }
+
+  // Field access through the embedded bases, e.g. legs on a Dog is base.legs
+  private memberPath(className: string, member: string): string {
+    const depth = this.classChain(className).findIndex(cls => cls.members.some(m => m.name === member));
+    return depth > 0 ? 'base.'.repeat(depth) + member : member;
+  }
+
+  private methodPointerType(method: IRFunction, selfType: string, name: string): string {
+    const params = method.params.map(p => this.mapType(p.dataType)).join(', ');
+    return `${this.mapType(method.returnType)} (${name})(${selfType}*${params ? ', ' + params : ''})`;
+  }
+
+  private mapMemberType(type: PrimitiveType): string {
+    // String members point at the string they were given
+    return type === 'string' ? 'const char*' : this.mapType(type);
+  }
+
+  private objectClass(object: string): string | undefined {
+    if (object === 'self' || object === 'this') return this.currentClass?.name;
+    return this.objectTypes.get(object);
+  }
+
+  private generateSuperCall(node: IRSuperCall): string {
+    const args = node.args.map(arg => this.generateExpression(arg));
+    const superclass = this.currentClass && this.baseOf(this.currentClass);
+    if (!superclass) return '';
+    if (!node.method) return `${superclass}_init(${['&self->base', ...args].join(', ')})`;
+    
+    // Calls the inherited implementation directly, bypassing the method pointer
+    const owner = this.classChain(superclass).find(cls => this.methodsOf(cls).some(m => m.name === node.method));
+    const target = owner?.name || superclass;
+    return `${target}_${node.method}(${[`(${target}*)self`, ...args].join(', ')})`;
   }
 
   private generateIf(node: IRIf): string {
@@ -372,9 +2223,134 @@ export class CGenerator {
     return code;
   }
 
+  private generateLoop(node: IRLoop): string {
+    const context: LoopContext = { label: node.label, gotos: new Set() };
+    
+    this.loops.push(context);
+    let code: string;
+    if (isIRFor(node)) code = this.generateFor(node);
+    else if (isIRForEach(node)) code = this.generateForEach(node);
+    else if (isIRWhile(node)) code = this.generateWhile(node);
+    else code = this.generateDoWhile(node);
+    this.loops.pop();
+    
+    const indent = this.getIndent();
+    if (context.gotos.has('continue')) {
+      // Last statement of the body, so the loop's own update and condition still run
+      const close = code.lastIndexOf(`\n${indent}}`);
+      code = `${code.slice(0, close)}\n${indent}${this.indentStr}${node.label}_continue: ;${code.slice(close)}`;
+    }
+    if (context.gotos.has('break')) {
+      code += `\n${indent}${node.label}_break: ;`;
+    }
+    return code;
+  }
+
+  private generateJump(node: IRBreak | IRContinue): string {
+    const innermost = this.loops[this.loops.length - 1];
+    const target = node.label ? this.loops.find(loop => loop.label === node.label) : innermost;
+    
+    if (!target || target === innermost) return `${this.getIndent()}${node.type};`;
+    
+    target.gotos.add(node.type);
+    return `${this.getIndent()}goto ${node.label}_${node.type};`;
+  }
+
   private generateFor(node: IRFor): string {
     const indent = this.getIndent();
     
+    // A generator is stepped until it finishes, each value read from its state. A state the loop
+    // creates gets a block of its own, so loops with the same iterator don't redeclare it
+    const generator = node.iterator && node.iterable ? this.generatorOf(node.iterable) : undefined;
+    if (node.iterator && node.iterable && generator) {
+      let state = this.generateExpression(node.iterable);
+      const scoped = !isIRIdentifier(node.iterable);
+      let code = '';
+      if (scoped) {
+        code += `${indent}{\n`;
+        this.indent++;
+        code += `${this.getIndent()}${generatorName(generator)} ${node.iterator}_generator = ${state};\n`;
+        state = `${node.iterator}_generator`;
+      }
+      const loopIndent = this.getIndent();
+      code += `${loopIndent}while (${generator.name}_next(&${state})) {\n`;
+      this.indent++;
+      code += `${this.getIndent()}${this.declare(this.mapType(this.iteratorType(node)), node.iterator)} = ${state}.current;\n`;
+      this.withLoopTypes(this.loopTypes(node), () => {
+        for (const stmt of node.body) {
+          const stmtCode = this.generateNode(stmt);
+          if (stmtCode) code += stmtCode + '\n';
+        }
+      });
+      this.indent--;
+      code += `${loopIndent}}`;
+      if (!scoped) return code;
+      this.indent--;
+      return code + `\n${indent}}`;
+    }
+    
+    // Elements are read by index; a string is walked up to its terminator
+    if (node.iterator && node.iterable) {
+      const index = `${node.iterator}_index`;
+      const type = this.iteratorType(node);
+      const split = isIRStringMethod(node.iterable) && node.iterable.method === 'split';
+      const members = isIREnumMethod(node.iterable) ? this.enumTypes.get(node.iterable.enumName) : undefined;
+      const known = this.isArray(node.iterable) || isIRArrayLiteral(node.iterable) || isIRSlice(node.iterable) || split ||
+                    !!members || this.inferType(node.iterable) === 'string';
+      if (!known) return `${indent}// Note: ${this.generateExpression(node.iterable)} isn't a known array or string, so the loop over it is left out in C`;
+      // What the loop stores before walking it gets a block of its own, so loops with the same iterator don't redeclare it
+      const copied = isIRSlice(node.iterable) && this.isArray(node.iterable.object);
+      const scoped = copied || split || isIRArrayLiteral(node.iterable);
+      let code = '';
+      if (scoped) {
+        code += `${indent}{\n`;
+        this.indent++;
+      }
+      const loopIndent = this.getIndent();
+      let iterable = this.generateExpression(node.iterable);
+      let condition = this.isArray(node.iterable) ? `${index} < ${this.generateLength(node.iterable)}` : `${iterable}[${index}] != '\\0'`;
+      // A slice of an array is copied out first
+      if (isIRSlice(node.iterable) && copied) {
+        iterable = `${node.iterator}_slice`;
+        const slice = `${this.arraySliceName(type)}(${iterable}, ${this.sliceArguments(node.iterable)})`;
+        code += `${loopIndent}${this.mapType(type)} ${iterable}[256];\n${loopIndent}int ${iterable}_len = ${slice};\n`;
+        condition = `${index} < ${iterable}_len`;
+      }
+      // So is a split
+      if (isIRStringMethod(node.iterable) && split) {
+        iterable = `${node.iterator}_parts`;
+        code += `${this.generateSplit(node.iterable, iterable)}\n`;
+        condition = `${index} < ${iterable}_len`;
+      }
+      // An enum's constants are listed up front
+      if (members) condition = `${index} < ${members.members.length}`;
+      // And a literal is stored before it's walked
+      if (isIRArrayLiteral(node.iterable)) {
+        iterable = `${node.iterator}_items`;
+        code += `${loopIndent}${this.mapType(type)} ${iterable}[] = ${this.generateExpression(node.iterable)};\n`;
+        condition = `${index} < ${node.iterable.elements.length}`;
+      }
+      code += `${loopIndent}for (int ${index} = 0; ${condition}; ${index}++) {\n`;
+      this.indent++;
+      // Instances are held by pointer
+      const array = isIRIdentifier(node.iterable) ? this.arrays.get(node.iterable.name)?.dataType : undefined;
+      const className = [node.iteratorType, array].map(t => t && classNameOf(t)).find(name => name && this.classes.has(name));
+      if (className) this.objectTypes.set(node.iterator, className);
+      const itemType = node.iteratorType?.kind === 'tuple' || members ? this.mapType(node.iteratorType || type) : className ? `${className}*` : this.mapType(type);
+      code += `${this.getIndent()}${this.declare(itemType, node.iterator)} = ${iterable}[${index}];\n`;
+      this.withLoopTypes(this.loopTypes(node), () => {
+        for (const stmt of node.body) {
+          const stmtCode = this.generateNode(stmt);
+          if (stmtCode) code += stmtCode + '\n';
+        }
+      });
+      this.indent--;
+      code += `${loopIndent}}`;
+      if (!scoped) return code;
+      this.indent--;
+      return code + `\n${indent}}`;
+    }
+    
     // Handle Python range-style for loops
     if (node.iterator && node.rangeEnd) {
       const iterator = node.iterator;
@@ -423,6 +2399,54 @@ export class CGenerator {
     return code;
   }
 
+  // Walks the table in insertion order
+  private generateForEach(node: IRForEach): string {
+    const indent = this.getIndent();
+    const map = this.getMap(node.iterable);
+    if (!map) return `${indent}// Iteration is only supported over maps in C`;
+    
+    const entry = this.mapTypeName(map.dataType).replace(/Map$/, 'Entry');
+    const cursor = `${node.iterator}_entry`;
+    const keyType = keyTypeOf(map.dataType) === 'string' ? 'const char*' : this.mapType(keyTypeOf(map.dataType));
+    const valueType = flattenType(map.dataType) === 'string' ? 'const char*' : this.mapType(flattenType(map.dataType));
+    
+    let code = `${indent}for (${entry}* ${cursor} = ${this.mapField(node.iterable, 'first')}; ${cursor}; ${cursor} = ${cursor}->next_order) {\n`;
+    this.indent++;
+    code += node.overValues
+      ? `${this.getIndent()}${valueType} ${node.iterator} = ${cursor}->value;\n`
+      : `${this.getIndent()}${keyType} ${node.iterator} = ${cursor}->key;\n`;
+    if (node.valueIterator) {
+      code += `${this.getIndent()}${valueType} ${node.valueIterator} = ${cursor}->value;\n`;
+    }
+    this.withLoopTypes(this.forEachTypes(node, map), () => {
+      for (const stmt of node.body) {
+        const stmtCode = this.generateNode(stmt);
+        if (stmtCode) code += stmtCode + '\n';
+      }
+    });
+    this.indent--;
+    code += `${indent}}`;
+    
+    return code;
+  }
+
+  private generateDoWhile(node: IRDoWhile): string {
+    const indent = this.getIndent();
+    const condition = this.generateExpression(node.condition);
+    
+    let code = `${indent}do {\n`;
+    
+    this.indent++;
+    for (const stmt of node.body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    this.indent--;
+    code += `${indent}} while (${condition});`;
+    
+    return code;
+  }
+
   private generateWhile(node: IRWhile): string {
     const indent = this.getIndent();
     const condition = this.generateExpression(node.condition);
@@ -470,28 +2494,177 @@ export class CGenerator {
     return code;
   }
 
+  private generateTry(node: IRTry): string {
+    const indent = this.getIndent();
+    const inner = indent + this.indentStr;
+    const env = `exc_env_${this.tryDepth}`;
+    const prev = `exc_prev_${this.tryDepth}`;
+    this.tryDepth++;
+    
+    let code = `${indent}{\n`;
+    code += `${inner}jmp_buf ${env};\n`;
+    code += `${inner}jmp_buf* ${prev} = exc_handler;\n`;
+    // A return inside the try or its handlers keeps its value and goes through finally first
+    const target = node.finallyBody ? { id: this.finallyCount++, prev } : undefined;
+    if (target) {
+      code += `${inner}int exc_returning_${target.id} = 0;\n`;
+      if (this.resultType !== 'void') code += `${inner}${this.declare(this.resultType, `exc_result_${target.id}`)};\n`;
+      this.finallyTargets.push(target);
+    }
+    code += `${inner}exc_handler = &${env};\n`;
+    code += `${inner}if (setjmp(${env}) == 0) {\n`;
+    this.indent += 2;
+    code += this.generateStatements(node.body);
+    if (!this.leavesBlock(node.body)) code += `${this.getIndent()}exc_handler = ${prev};\n`;
+    this.indent--;
+    code += `${inner}} else {\n`;
+    this.indent++;
+    code += `${this.getIndent()}exc_handler = ${prev};\n`;
+    code += this.generateHandlers(node);
+    this.indent -= 2;
+    code += `${inner}}\n`;
+    if (target) this.finallyTargets.pop();
+    this.tryDepth--;
+    
+    this.indent++;
+    if (target) code += `${inner}exc_finally_${target.id}:;\n`;
+    if (node.finallyBody) code += this.generateStatements(node.finallyBody);
+    if (target) {
+      // Then the return carries on, through any finally further out
+      const value = this.resultType !== 'void' ? { type: 'identifier', name: `exc_result_${target.id}` } as IRIdentifier : undefined;
+      code += `${inner}if (exc_returning_${target.id}) {\n`;
+      this.indent++;
+      code += `${this.generateReturn({ type: 'return', value } as IRReturn)}\n`;
+      this.indent--;
+      code += `${inner}}\n`;
+    }
+    this.indent--;
+    
+    return code + `${indent}}`;
+  }
+
+  // Whether a block always ends in a return or throw, so nothing after it runs
+  private leavesBlock(body: IRNode[]): boolean {
+    const last = body[body.length - 1];
+    return !!last && (isIRReturn(last) || isIRThrow(last));
+  }
+
+  // Handlers become an if/else chain on exc_code; anything unhandled runs finally and propagates
+  private generateHandlers(node: IRTry): string {
+    const indent = this.getIndent();
+    const isCatchAll = (types: string[]) => types.length === 0 || types.includes('Exception');
+    const branches: { condition?: string; body: IRNode[]; name?: string }[] = [];
+    
+    for (const handler of node.handlers) {
+      if (isCatchAll(handler.exceptionTypes)) {
+        branches.push({ body: handler.body, name: handler.name });
+        break;
+      }
+      // NumberFormatException is an IllegalArgumentException, so ValueError is caught alongside ArgumentError
+      const types = handler.exceptionTypes.includes('ArgumentError') && this.exceptionCodes.has('ValueError')
+        ? [...handler.exceptionTypes, 'ValueError'] : handler.exceptionTypes;
+      const condition = [...new Set(types)].map(t => `exc_code == ${this.exceptionCode(t)}`).join(' || ');
+      branches.push({ condition, body: handler.body, name: handler.name });
+    }
+    const rethrow = branches.length === 0 || branches[branches.length - 1].condition !== undefined;
+    if (rethrow) branches.push({ body: node.finallyBody || [] });
+    
+    const generateBranch = (branch: typeof branches[number]) => {
+      let code = branch.name ? `${this.getIndent()}const char* ${branch.name} = exc_message;\n` : '';
+      code += this.generateStatements(branch.body);
+      if (!branch.condition && rethrow) code += `${this.getIndent()}exc_throw(exc_code, exc_message);\n`;
+      return code;
+    };
+    
+    // A leading catch-all needs no test
+    if (branches.length === 1) return generateBranch(branches[0]);
+    
+    let code = '';
+    this.indent++;
+    branches.forEach((branch, i) => {
+      const keyword = i === 0 ? `${indent}if` : ' else if';
+      code += branch.condition ? `${keyword} (${branch.condition}) {\n` : ' else {\n';
+      code += `${generateBranch(branch)}${indent}}`;
+    });
+    this.indent--;
+    return code + '\n';
+  }
+
+  private generateThrow(node: IRThrow): string {
+    const indent = this.getIndent();
+    if (!node.exceptionType) return `${indent}exc_throw(exc_code, exc_message);`;
+    
+    const message = node.message ? this.generateExpression(node.message) : `"${node.exceptionType}"`;
+    return `${indent}exc_throw(${this.exceptionCode(node.exceptionType)}, ${message});`;
+  }
+
+  private generateStatements(body: IRNode[]): string {
+    let code = '';
+    for (const stmt of body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    return code;
+  }
+
   private generateReturn(node: IRReturn): string {
     const indent = this.getIndent();
-    if (node.value) {
-      return `${indent}return ${this.generateExpression(node.value)};`;
+    const target = this.finallyTargets[this.finallyTargets.length - 1];
+    // The value is worked out while the try's handler is still installed, as it may throw
+    if (target) {
+      const result = node.value ? `${indent}exc_result_${target.id} = ${this.generateExpression(node.value)};\n` : '';
+      return `${result}${indent}exc_handler = ${target.prev};\n${indent}exc_returning_${target.id} = 1;\n${indent}goto exc_finally_${target.id};`;
     }
-    return `${indent}return;`;
+    const value = node.value && isIRTupleLiteral(node.value)
+      ? this.generateTupleLiteral(node.value, this.currentReturnType)
+      : node.value && this.generateExpression(node.value);
+    if (this.tryDepth === 0) return `${indent}return${value ? ` ${value}` : ''};`;
+    // Leaving a try block early has to restore the handler it replaced
+    if (!value) return `${indent}exc_handler = exc_prev_0;\n${indent}return;`;
+    const inner = indent + this.indentStr;
+    return `${indent}{\n${inner}${this.declare(this.resultType, 'exc_result')} = ${value};\n` +
+      `${inner}exc_handler = exc_prev_0;\n${inner}return exc_result;\n${indent}}`;
   }
 
   private generatePrint(node: IRPrint): string {
     const indent = this.getIndent();
     
+    // Literal text goes into the format, anything else through %s
+    const text = (node: IRNode) => isIRLiteral(node) && node.dataType === 'string'
+      ? { format: String(node.value).replace(/%/g, '%%'), args: [] }
+      : { format: '%s', args: [this.generateExpression(node)] };
+    const end = node.end ? text(node.end) : undefined;
+    
     if (node.args.length === 0) {
+      if (end) return `${indent}printf("${end.format}"${end.args.map(arg => `, ${arg}`).join('')});`;
       return node.newline ? `${indent}printf("\\n");` : '';
     }
     
     // Build format string and args - handle string concatenation specially
     let format = '';
     const args: string[] = [];
+    // A list is printed by its helper, between printf calls for what comes before and after it
+    const statements: string[] = [];
+    const flush = () => {
+      if (format) statements.push(`${indent}printf("${format}"${args.map(arg => `, ${arg}`).join('')});`);
+      format = '';
+      args.length = 0;
+    };
+    const separator = node.separator ? text(node.separator) : { format: ' ', args: [] };
+    // A Java enum constant prints as its name
+    const value = (node: IRNode) => {
+      const enumName = this.namedEnum(node);
+      if (!enumName) return { format: this.formatSpecifier(this.inferType(node)), arg: this.generateExpression(node) };
+      return { format: '%s', arg: `${enumName}_names[${this.generateEnumMethod({ type: 'enum_method', method: 'ordinal', enumName, object: node })}]` };
+    };
     
-    for (const arg of node.args) {
+    for (const [i, arg] of node.args.entries()) {
+      if (i > 0) {
+        format += separator.format;
+        args.push(...separator.args);
+      }
       // Handle string concatenation (binary + operations with strings)
-      if (isIRBinaryOp(arg) && arg.operator === '+') {
+      if (isIRBinaryOp(arg) && arg.operator === '+' && this.inferType(arg) === 'string') {
         const flattened = this.flattenStringConcat(arg);
         for (const part of flattened) {
           if (isIRLiteral(part) && part.dataType === 'string') {
@@ -500,10 +2673,9 @@ export class CGenerator {
             format += parsed.format;
             args.push(...parsed.args);
           } else {
-            const expr = this.generateExpression(part);
-            const type = this.inferType(part);
-            format += type === 'int' ? '%d' : type === 'float' || type === 'double' ? '%f' : '%s';
-            args.push(expr);
+            const printed = value(part);
+            format += printed.format;
+            args.push(printed.arg);
           }
         }
       } else if (isIRLiteral(arg) && arg.dataType === 'string') {
@@ -513,37 +2685,27 @@ export class CGenerator {
         const parsed = this.parseFStringToFormat(strValue);
         format += parsed.format;
         args.push(...parsed.args);
+      } else if (this.printedListType(arg)) {
+        flush();
+        statements.push(`${indent}${this.generateListPrint(arg, this.printedListType(arg)!)}`);
       } else {
         // Variable or expression
-        const expr = this.generateExpression(arg);
-        const type = this.inferType(arg);
-        
-        switch (type) {
-          case 'int':
-            format += '%d';
-            break;
-          case 'float':
-          case 'double':
-            format += '%f';
-            break;
-          case 'char':
-            format += '%c';
-            break;
-          default:
-            format += '%s';
-        }
-        args.push(expr);
+        const printed = value(arg);
+        format += printed.format;
+        args.push(printed.arg);
       }
     }
     
+    if (end) {
+      format += end.format;
+      args.push(...end.args);
+    }
     if (node.newline && !format.endsWith('\\n')) {
       format += '\\n';
     }
     
-    if (args.length === 0) {
-      return `${indent}printf("${format}");`;
-    }
-    return `${indent}printf("${format}", ${args.join(', ')});`;
+    flush();
+    return statements.join('\n');
   }
   
   // Flatten string concatenation binary ops into an array of parts
@@ -587,22 +2749,150 @@ export class CGenerator {
 
   private generateAssignment(node: IRAssignment): string {
     const indent = this.getIndent();
-    const target = node.target.replace('self.', 'self->');
+    const target = this.generateIdentifier({ type: 'identifier', name: node.target });
+    if ((isIRSlice(node.value) || isIRStringMethod(node.value) || this.charArrays.has(node.target)) && this.inferType(node.value) === 'string' && !this.arrays.has(node.target)) return `${indent}strcpy(${target}, ${this.generateExpression(node.value)});`;
     return `${indent}${target} = ${this.generateExpression(node.value)};`;
   }
 
+  // Map entries have no operator of their own: they are read, combined and stored back
+  private generateCompoundStatement(node: IRCompoundAssignment): string {
+    if (isIRIndex(node.target) && this.getMap(node.target.object)) {
+      const value: IRBinaryOp = { type: 'binary_op', operator: node.operator, left: node.target, right: node.value };
+      return this.generateIndexAssignment({ type: 'index_assignment', object: node.target.object, index: node.target.index, value });
+    }
+    return `${this.getIndent()}${this.generateCompoundAssignment(node)};`;
+  }
+
+  private generateCompoundAssignment(node: IRCompoundAssignment): string {
+    const target = this.generateExpression(node.target);
+    if (this.arithmeticFunction(this.expandCompound(node)) || node.operator === 'true_div') {
+      return `${target} = ${this.generateBinaryOp(this.expandCompound(node))}`;
+    }
+    const value = this.generateExpression(node.value);
+    if (node.operator === '+' && this.inferType(node.target) === 'string') return `strcat(${target}, ${value})`;
+    if (node.operator === '>>>') return `${target} = (unsigned int)${target} >> ${value}`;
+    return `${target} ${node.operator}= ${value}`;
+  }
+
+  // a, b = b, a assigns through temporaries; q, r = divmod(a, b) copies the returned struct's fields
+  private generateDestructure(node: IRDestructure): string {
+    const indent = this.getIndent();
+    const types = this.destructuredTypes(node);
+    const targets = node.targets.map((target, i) => {
+      const name = this.generateIdentifier({ type: 'identifier', name: target });
+      if (!node.isDeclaration && !node.declared?.includes(target)) return name;
+      const type = types[i] || primitiveType('int');
+      return this.declare(type.kind === 'primitive' ? this.mapMemberType(type.name) : this.mapType(type), name);
+    });
+    const lines: string[] = [];
+    if (isIRTupleLiteral(node.value)) {
+      // Values reading a target assigned before them are saved first
+      const values = node.value.elements.map((element, i) => {
+        const value = this.generateExpression(element);
+        if (!node.targets.slice(0, i).some(target => this.reads(target, element))) return value;
+        const temp = this.uniqueName('temp');
+        lines.push(`${this.declare(this.mapMemberType(this.inferType(element)), temp)} = ${value};`);
+        return temp;
+      });
+      targets.forEach((target, i) => lines.push(`${target} = ${values[i]};`));
+    } else {
+      const tuple = this.uniqueName(isIRCall(node.value) ? `${node.value.callee}_result` : 'tuple');
+      const type = this.mapType({ kind: 'tuple', elements: types });
+      lines.push(`${type} ${tuple} = ${this.generateExpression(node.value)};`);
+      targets.forEach((target, i) => lines.push(`${target} = ${tuple}.${this.tupleField(i)};`));
+    }
+    return lines.map(line => indent + line).join('\n');
+  }
+
+  private reads(name: string, value: unknown): boolean {
+    return someIR(value, node => isIRIdentifier(node) && node.name === name);
+  }
+
+  private uniqueName(base: string): string {
+    let name = base;
+    for (let n = 2; this.tempNames.has(name); n++) name = `${base}${n}`;
+    this.tempNames.add(name);
+    return name;
+  }
+
+  // A compound literal of the tuple's struct: (Pair_int_int){q, r}
+  private generateTupleLiteral(node: IRTupleLiteral, type?: IRType): string {
+    const tuple = type?.kind === 'tuple' ? type : { kind: 'tuple' as const, elements: node.elements.map(e => primitiveType(this.inferType(e))) };
+    return `(${this.tupleStructName(tuple)}){${node.elements.map(e => this.generateExpression(e)).join(', ')}}`;
+  }
+
+  private generateIndexAssignment(node: IRIndexAssignment): string {
+    const map = this.getMap(node.object);
+    if (map) {
+      const key = this.generateExpression(node.index);
+      const value = this.generateExpression(node.value);
+      return `${this.getIndent()}${this.mapTypeName(map.dataType)}_set(${this.mapRef(node.object)}, ${key}, ${value});`;
+    }
+    const target = `${this.generateExpression(node.object)}[${this.generatePosition(node.object, node.index, node.wraps)}]`;
+    return `${this.getIndent()}${target} = ${this.generateExpression(node.value)};`;
+  }
+
   private generateExpression(node: IRNode): string {
     if (isIRLiteral(node)) return this.generateLiteral(node);
     if (isIRIdentifier(node)) return this.generateIdentifier(node);
     if (isIRBinaryOp(node)) return this.generateBinaryOp(node);
     if (isIRCall(node)) return this.generateCall(node);
+    if (isIRSuperCall(node)) return this.generateSuperCall(node);
+    // Enumerators are global names in C
+    if (isIREnumValue(node)) return node.member;
+    if (isIREnumMethod(node)) return this.generateEnumMethod(node);
+    if (isIRAddressOf(node)) return `&${this.generateExpression(node.operand)}`;
+    if (isIRDereference(node)) return `*${this.generateExpression(node.operand)}`;
+    if (isIRAllocation(node)) return this.generateAllocation(node);
+    if (isIRConditional(node)) return this.generateConditional(node);
+    if (isIRCompoundAssignment(node)) return this.generateCompoundAssignment(node);
+    if (isIRLambda(node)) {
+      const name = this.lambdas.get(node)?.name || '';
+      const captures = this.liftedCaptures.get(name) || [];
+      const copies = captures.map(capture => capture.list
+        ? `${name}_${capture.name} = ${capture.name}, ${name}_${capture.name}_len = ${this.generateLength({ type: 'identifier', name: capture.name } as IRIdentifier)}`
+        : `${name}_${capture.name} = ${capture.name}`);
+      return copies.length > 0 ? `(${copies.join(', ')}, ${name})` : name;
+    }
+    if (isIRFunctionRef(node)) return node.name;
+    if (isIRArrayLiteral(node)) return `{${node.elements.map(e => this.generateExpression(e)).join(', ')}}`;
+    if (isIRTupleLiteral(node)) return this.generateTupleLiteral(node);
+    if (isIRTupleIndex(node)) return `${this.generateExpression(node.object)}.${this.tupleField(node.index)}`;
+    if (isIRFieldAccess(node)) return this.generateFieldAccess(node);
+    if (isIRIndex(node)) {
+      const map = this.getMap(node.object);
+      if (map) {
+        const fallback = node.defaultValue ? this.generateExpression(node.defaultValue) : this.getMapFallback(flattenType(map.dataType));
+        return `${this.mapTypeName(map.dataType)}_get(${this.mapRef(node.object)}, ${this.generateExpression(node.index)}, ${fallback})`;
+      }
+      return `${this.generateExpression(node.object)}[${this.generatePosition(node.object, node.index, node.wraps)}]`;
+    }
+    if (isIRSlice(node)) {
+      if (isIRIdentifier(node.object) && this.arrays.has(node.object.name)) return '0 /* array slices are only supported as declarations in C */';
+      return `str_slice(${this.sliceArguments(node)})`;
+    }
+    if (isIRLength(node)) return this.generateLength(node.object);
+    if (isIRStringMethod(node)) return this.generateStringMethod(node);
+    if (isIRMathCall(node)) return this.generateMathCall(node);
+    if (isIRMathConstant(node)) return node.name === 'pi' ? 'M_PI' : 'M_E';
+    if (isIRContains(node)) {
+      const map = this.getMap(node.object);
+      const key = this.generateExpression(node.key);
+      if (map) return `${this.mapTypeName(map.dataType)}_contains(${this.mapRef(node.object)}, ${key})`;
+      if (this.inferType(node.object) === 'string') return `(strstr(${this.generateExpression(node.object)}, ${key}) != NULL)`;
+      return '0 /* membership test on arrays is not supported in C */';
+    }
     if (isIRInput(node)) {
       // Input as expression - needs special handling
       return '0'; // Placeholder
     }
     if (node.type === 'unary_op') {
       const unary = node as IRUnaryOp;
-      const operand = this.generateExpression(unary.operand);
+      // Every binary operator binds looser than a unary one, except those emitted as calls
+      const binary = isIRBinaryOp(unary.operand) && (C_PRECEDENCE[unary.operand.operator] ?? 0) <= C_PRECEDENCE['*'];
+      const operand = binary || isIRConditional(unary.operand)
+        ? `(${this.generateExpression(unary.operand)})`
+        : this.generateExpression(unary.operand);
       if (unary.operator === '++_post') return `${operand}++`;
       if (unary.operator === '--_post') return `${operand}--`;
       return `${unary.operator}${operand}`;
@@ -626,13 +2916,60 @@ export class CGenerator {
 
   private generateIdentifier(node: IRIdentifier): string {
     if (node.name === 'this') return 'self';
+    if (this.referenceParams.has(node.name)) return `(*${node.name})`;
+    const [object, member] = node.name.split('.');
+    const className = member ? this.objectClass(object) : undefined;
+    if (className) return `${object === 'this' ? 'self' : object}->${this.memberPath(className, member)}`;
+    if (member && (this.structVariables.has(object) || this.pointerVariables.has(object))) return this.structPath(node.name);
     if (node.name.startsWith('self.')) return node.name.replace('self.', 'self->');
     return node.name;
   }
 
+  // p.next.value: past the variable, each field declared as a pointer is followed with ->
+  private structPath(name: string): string {
+    const [object, ...fields] = name.split('.');
+    let code = object;
+    let arrow = this.pointerVariables.has(object);
+    let struct = this.structs.get(this.structVariables.get(object) || '');
+    for (const field of fields) {
+      code += `${arrow ? '->' : '.'}${field}`;
+      const member = struct?.members.find(m => m.name === field);
+      arrow = !!member?.isPointer;
+      struct = this.structs.get(member ? classNameOf(member.dataType) || '' : '');
+    }
+    return code;
+  }
+
   private generateBinaryOp(node: IRBinaryOp): string {
-    const left = this.generateExpression(node.left);
-    const right = this.generateExpression(node.right);
+    // x % n == 0 holds whichever way the remainder rounds
+    if (this.isDivisibilityTest(node)) {
+      return this.generateBinaryOp({ ...node, left: { ...(node.left as IRBinaryOp), operator: '%' } as IRBinaryOp });
+    }
+    
+    const integral = this.isIntegral(node.left, node.right);
+    const divisor = this.checksDivisors && needsDivisorCheck(node, integral)
+      ? `${integral ? 'check_divisor' : 'check_fdivisor'}(${this.generateExpression(node.right)})` : undefined;
+    const fn = this.arithmeticFunction(node);
+    if (fn === 'floor') return `floor(${this.generateOperand(node.left, '/')} / ${divisor || this.generateOperand(node.right, '/', true)})`;
+    if (fn) return `${fn}(${this.generateExpression(node.left)}, ${divisor || this.generateExpression(node.right)})`;
+    
+    if (this.comparesStrings(node)) {
+      return `strcmp(${this.generateExpression(node.left)}, ${this.generateExpression(node.right)}) ${node.operator} 0`;
+    }
+    
+    // A number that may be None starts as 0, so is None compares with 0
+    if (this.isNoneNumber(node.left, node.right) || this.isNoneNumber(node.right, node.left)) {
+      const value = isIRLiteral(node.left) ? node.right : node.left;
+      return `${this.generateExpression(value)} ${node.operator} 0`;
+    }
+    
+    if (node.operator === '=' && isIRIdentifier(node.left) && this.charArrays.has(node.left.name)) {
+      return `strcpy(${this.generateExpression(node.left)}, ${this.generateExpression(node.right)})`;
+    }
+    
+    const left = this.generateOperand(node.left, node.operator);
+    const right = divisor || this.generateOperand(node.right, node.operator, true);
+    if (node.operator === 'true_div') return `${this.isIntegral(node.left, node.right) ? '(double)' : ''}${left} / ${right}`;
     
     // Handle string concatenation - C doesn't support + for strings
     if (node.operator === '+' && this.isStringExpression(node.left, node.right)) {
@@ -642,9 +2979,56 @@ export class CGenerator {
       return `${left} /* + */ ${right}`;
     }
     
+    // C has no unsigned shift operator, the cast makes >> fill with zeros
+    if (node.operator === '>>>') {
+      const operand = isIRBinaryOp(node.left) || isIRConditional(node.left)
+        ? `(${this.generateExpression(node.left)})`
+        : left;
+      return `(unsigned int)${operand} >> ${right}`;
+    }
+    
     return `${left} ${node.operator} ${right}`;
   }
   
+  private expandCompound(node: IRCompoundAssignment): IRBinaryOp {
+    return { type: 'binary_op', operator: node.operator, left: node.target, right: node.value };
+  }
+
+  private isDivisibilityTest(node: IRBinaryOp): boolean {
+    return (node.operator === '==' || node.operator === '!=') && isIRLiteral(node.right) && node.right.value === 0 &&
+      isIRBinaryOp(node.left) && node.left.operator === 'floor_mod' && this.isIntegral(node.left.left, node.left.right);
+  }
+
+  // The C function computing one of Python's floor_div, floor_mod or pow
+  private arithmeticFunction(node: IRBinaryOp): string | undefined {
+    const integral = this.isIntegral(node.left, node.right);
+    if (node.operator === 'floor_div') return integral ? 'floor_div' : 'floor';
+    if (node.operator === 'floor_mod') return integral ? 'floor_mod' : 'floor_fmod';
+    if (node.operator === 'pow') return integral && !isNegativePower(node) ? 'int_pow' : 'pow';
+    return undefined;
+  }
+
+  private isIntegral(left: IRNode, right: IRNode): boolean {
+    return isIntegralType(this.inferType(left)) && isIntegralType(this.inferType(right));
+  }
+
+  // Parenthesizes operands that bind looser than their operator, or as loosely on the right
+  private generateOperand(node: IRNode, operator: string, isRight = false): string {
+    return operandCode(node, this.generateExpression(node), operator, isRight);
+  }
+
+  // Only a chain through the else branch reads clearly without parentheses
+  private generateConditional(node: IRConditional): string {
+    const wrap = (value: IRNode) => isIRConditional(value) ? `(${this.generateExpression(value)})` : this.generateExpression(value);
+    return `${wrap(node.condition)} ? ${wrap(node.thenValue)} : ${this.generateExpression(node.elseValue)}`;
+  }
+
+  // Strings compare by content, through strcmp
+  private comparesStrings(node: IRBinaryOp): boolean {
+    return ['==', '!=', '<', '>', '<=', '>='].includes(node.operator) &&
+      this.inferType(node.left) === 'string' && this.inferType(node.right) === 'string';
+  }
+
   private isStringExpression(left: IRNode, right: IRNode): boolean {
     if (isIRLiteral(left) && left.dataType === 'string') return true;
     if (isIRLiteral(right) && right.dataType === 'string') return true;
@@ -653,37 +3037,257 @@ export class CGenerator {
     return false;
   }
 
+  // floor and ceil give doubles where Python's give ints, and rint rounds halves to even as round
+  // does. fmin and fmax stand in for min and max, and give back ints exactly
+  private generateMathCall(node: IRMathCall): string {
+    const args = node.args.map(arg => this.generateExpression(arg));
+    const isFloat = isFloatType(this.inferType(node));
+    switch (node.func) {
+      case 'abs': return `${isFloat ? 'fabs' : 'abs'}(${args[0]})`;
+      case 'floor': case 'ceil': return `(int)${node.func}(${args[0]})`;
+      case 'round': return `(int)rint(${args[0]})`;
+      case 'min': case 'max': {
+        const call = args.reduce((a, b) => `f${node.func}(${a}, ${b})`);
+        return isFloat ? call : `(int)${call}`;
+      }
+      default: return `${node.func}(${args.join(', ')})`;
+    }
+  }
+
+  // A character goes straight to <ctype.h>; a split is only declared, as it fills an array
+  private generateStringMethod(node: IRStringMethod): string {
+    const object = this.generateExpression(node.object);
+    const args = node.args.map(arg => this.generateExpression(arg));
+    if (this.isChar(node.object)) {
+      if (node.method === 'upper' || node.method === 'lower') return `(char)to${node.method}(${object})`;
+      if (node.method === 'isdigit' || node.method === 'isalpha') return `(bool)${node.method}(${object})`;
+    }
+    if (node.method === 'split') return '0 /* split() is only supported in declarations and for loops in C */';
+    if (node.method === 'join') return `str_join(${object}, ${args[0]}, ${this.generateLength(node.args[0])})`;
+    if (node.method === 'compare') return `strcmp(${object}, ${args[0]})`;
+    return `str_${node.method}(${[object, ...args].join(', ')})`;
+  }
+
+  // The array a split fills and its length
+  private generateSplit(node: IRStringMethod, name: string): string {
+    const indent = this.getIndent();
+    const separator = node.args.length > 0 ? this.generateExpression(node.args[0]) : 'NULL';
+    const split = `str_split(${name}, ${this.generateExpression(node.object)}, ${separator})`;
+    return `${indent}char* ${name}[256];\n${indent}int ${name}_len = ${split};`;
+  }
+
+  private isChar(node: IRNode): boolean {
+    return this.inferType(node) === 'char';
+  }
+
+  // a[-k] counts from the end: a[length - k], and so does a[i] once i turns out negative
+  private generatePosition(object: IRNode, index: IRNode, wraps = false): string {
+    const offset = fromEnd(index);
+    if (!offset && wraps) return `wrap_index(${this.generateExpression(index)}, ${this.generateLength(object)})`;
+    if (!offset) return this.generateExpression(index);
+    const distance = this.generateExpression(offset);
+    return `${this.generateLength(object)} - ${isIRBinaryOp(offset) ? `(${distance})` : distance}`;
+  }
+
+  // The source, its length for arrays, and the bounds and step of a slice helper call
+  private sliceArguments(node: IRSlice): string {
+    const object = this.generateExpression(node.object);
+    const isArray = isIRIdentifier(node.object) && this.arrays.has(node.object.name);
+    const bound = (part?: IRNode) => part ? this.generateExpression(part) : 'SLICE_NONE';
+    const source = isArray ? [object, this.generateLength(node.object)] : [object];
+    return [...source, bound(node.start), bound(node.end), node.step ? this.generateExpression(node.step) : '1'].join(', ');
+  }
+
+  private generateLength(object: IRNode): string {
+    const target = this.generateExpression(object);
+    if (this.getMap(object)) return this.mapField(object, 'size');
+    if (isIRIdentifier(object) && this.lengthVars.has(object.name)) return `${target}_len`;
+    if (isIRArrayLiteral(object)) return String(object.elements.length);
+    if (isIRIndex(object) && isIRIdentifier(object.object) && this.rowLists.has(object.object.name)) {
+      return `${object.object.name}_row_len[${this.generateExpression(object.index)}]`;
+    }
+    if (isIRIndex(object) && isIRIdentifier(object.object) && this.isMatrix(object.object.name)) {
+      return `(int)(sizeof(${target}) / sizeof(${target}[0]))`;
+    }
+    const allocated = isIRIdentifier(object) ? this.arrays.get(object.name)?.value : undefined;
+    if (allocated && isIRAllocation(allocated) && allocated.count) return this.generateExpression(allocated.count);
+    if (isIRIdentifier(object) && this.arrays.has(object.name)) {
+      return `(int)(sizeof(${target}) / sizeof(${target}[0]))`;
+    }
+    return `(int)strlen(${target})`;
+  }
+
+  // Arrays of rows, from a nested literal or appended rows
+  private isMatrix(name: string): boolean {
+    const declared = this.arrays.get(name)?.dataType;
+    return this.rowLengths.has(name) || (declared?.kind === 'array' && declared.element.kind === 'array');
+  }
+
+  // None for a number, which C passes as 0
+  private isNullableNumber(type: IRType | undefined): boolean {
+    return type?.kind === 'nullable' && type.inner.kind === 'primitive' && type.inner.name !== 'string';
+  }
+
+  // None compared with a number variable, which holds 0 for it
+  private isNoneNumber(none: IRNode, value: IRNode): boolean {
+    if (!isIRLiteral(none) || none.value !== 'null' || !isIRIdentifier(value)) return false;
+    const type = this.variableTypes.get(value.name);
+    return !!type && type !== 'string' && !this.pointerVariables.has(value.name) && !this.objectTypes.has(value.name);
+  }
+
   private generateCall(node: IRCall): string {
-    const args = node.args.map(arg => this.generateExpression(arg)).join(', ');
+    const params = this.calleeParams(node);
+    const bound = bindArguments(node, params);
+    const argList = bound.map((arg, i) => {
+      if (isIRLiteral(arg) && arg.value === 'null' && this.isNullableNumber(params?.[i]?.dataType)) return '0';
+      return this.getMap(arg) ? this.mapRef(arg) : this.generateExpression(arg);
+    });
+    
+    // References are passed as pointers
+    for (const i of this.referenceParamFunctions.get(node.callee) || []) {
+      if (i < argList.length && !node.isMethod) argList[i] = `&${argList[i]}`;
+    }
+    
+    // Pass the length along with each array argument; a literal goes as a compound literal
+    const arrayParams = this.arrayParamFunctions.get(node.callee);
+    if (arrayParams && !node.isMethod) {
+      for (const i of [...arrayParams].reverse()) {
+        if (i >= bound.length) continue;
+        const literal = bound[i];
+        if (isIRArrayLiteral(literal)) argList[i] = `(${this.mapType(literal.elementType)}[])${argList[i]}`;
+        argList.splice(i + 1, 0, this.generateLength(literal));
+      }
+    }
+    const args = argList.join(', ');
     
-    // Type conversion
+    // A row is stored one column at a time
+    const row = node.isMethod && node.callee === 'append' && node.object && this.rowLengths.has(node.object) ? bound[0] : undefined;
+    if (row && isIRArrayLiteral(row)) {
+      const target = `${node.object}[${node.object}_len]`;
+      // A sized row like [0] * 3 is zero-filled
+      const cells = row.size
+        ? Array<string>(this.rowLengths.get(node.object!)!).fill(this.getDefaultValue(row.elementType))
+        : row.elements.map(cell => this.generateExpression(cell));
+      const stores = cells.map((cell, column) => `${target}[${column}] = ${cell}`);
+      return `(${[`list_slot(${node.object}_len, ${LIST_CAPACITY})`, ...stores, `${node.object}_len++`].join(', ')})`;
+    }
+    
+    // A list row is copied in along with its length
+    if (row && isIRIdentifier(row) && this.rowLists.has(node.object!)) {
+      const target = `${node.object}[${node.object}_len]`;
+      const copy = `memcpy(${target}, ${row.name}, ${row.name}_len * sizeof(${row.name}[0]))`;
+      const stores = [copy, `${node.object}_row_len[${node.object}_len] = ${row.name}_len`];
+      return `(${[`list_slot(${node.object}_len, ${LIST_CAPACITY})`, ...stores, `${node.object}_len++`].join(', ')})`;
+    }
+    
+    // list.append(x) stores at the end and bumps the length counter
+    if (node.isMethod && node.callee === 'append' && node.object && this.lengthVars.has(node.object)) {
+      return `${node.object}[list_slot(${node.object}_len++, ${LIST_CAPACITY})] = ${args}`;
+    }
+    
+    // Type conversion; strings are parsed
+    const isString = bound.length === 1 && this.inferType(bound[0]) === 'string';
+    if (node.callee === 'int' && isString) return `${this.usesExceptions ? 'parse_int' : 'atoi'}(${args})`;
+    if (node.callee === 'float' && isString) return `(float)atof(${args})`;
     if (node.callee === 'int') return `(int)(${args})`;
     if (node.callee === 'float') return `(float)(${args})`;
     if (node.callee === 'str') return args; // Need proper handling
+    // next(g) steps the generator and reads the value it stopped at
+    const generator = node.callee === 'next' && bound.length === 1 ? this.generatorOf(bound[0]) : undefined;
+    if (generator) return `(${generator.name}_next(&${args}), ${args}.current)`;
     
-    if (node.isMethod && node.object) {
-      const obj = node.object === 'this' ? 'self' : node.object;
+    if (node.isMethod && (node.object || node.receiver)) {
+      const obj = node.receiver ? this.generateExpression(node.receiver) : node.object === 'this' ? 'self' : node.object!;
+      const className = node.receiver ? this.valueClass(node.receiver) : this.objectClass(node.object!);
+      if (className) {
+        // Inherited methods are called through the base that holds the pointer
+        const { owner, path } = this.findSlot(className, node.callee);
+        const self = path ? `(${owner}*)${obj}` : obj;
+        return `${obj}->${path}${node.callee}(${self}${args ? ', ' + args : ''})`;
+      }
       return `${obj}->${node.callee}(${obj}${args ? ', ' + args : ''})`;
     }
     
+    if (this.classes.has(node.callee)) return `${node.callee}_new(${args})`;
+    // A struct built outside a declaration is a compound literal
+    if (this.structs.has(node.callee)) return `(${node.callee})${this.generateStructValue(node)}`;
+    
     return `${node.callee}(${args})`;
   }
 
-  private mapType(type: DataType, isParam = false): string {
+  private calleeParams(node: IRCall): IRVariable[] | undefined {
+    if (node.isMethod) return [...this.classes.values()].flatMap(cls => cls.methods).find(m => m.name === node.callee)?.params;
+    const cls = this.classes.get(node.callee);
+    return cls ? this.effectiveConstructor(cls)?.params : this.functions.get(node.callee)?.params;
+  }
+
+  private mapType(type: PrimitiveType | IRType, isParam = false): string {
+    if (typeof type === 'object') {
+      switch (type.kind) {
+        case 'primitive': return this.mapType(type.name, isParam);
+        case 'array': return `${this.mapType(type.element)}*`;
+        case 'map': return `${this.mapTypeName(type)}*`;
+        case 'class': return this.structs.has(type.name) ? type.name : `${type.name}*`;
+        case 'enum': return type.name;
+        case 'type_param': return 'void*';
+        // Instances are pointers already; C values have no null, so other types stay as they are
+        case 'nullable': return this.mapType(type.inner, isParam);
+        case 'function': return `${this.mapType(type.returns)} (*)(${type.params.map(p => this.mapType(p)).join(', ') || 'void'})`;
+        case 'tuple': return this.tupleStructName(type);
+      }
+    }
+    // long may be 32 bits in C, long long is 64 like Java's
     const typeMap: Record<string, string> = {
       'int': 'int',
+      'long': 'long long',
+      'short': 'short',
+      'byte': 'signed char',
+      'unsigned': 'unsigned int',
       'float': 'float',
       'double': 'double',
       'char': 'char',
       'string': 'char*',
       'bool': 'bool',
       'void': 'void',
-      'auto': 'int', // Default to int for unknown types (most common numeric case)
     };
     return typeMap[type] || 'int';
   }
 
-  private getDefaultValue(type: DataType): string {
+  // The type an array's items come down to, through any rows
+  private innerType(type: IRType): IRType {
+    return type.kind === 'array' ? this.innerType(type.element) : type;
+  }
+
+  // What a pointer points at: a class itself rather than the pointer it is usually held through
+  private pointeeType(type: IRType): string {
+    return type.kind === 'class' ? type.name : this.mapType(type);
+  }
+
+  // int x, or int (*x)(int) for a function pointer
+  private declare(type: string, name: string): string {
+    return type.includes('(*)') ? type.replace('(*)', `(*${name})`) : `${type} ${name}`;
+  }
+
+  private formatSpecifier(type: PrimitiveType): string {
+    switch (type) {
+      case 'int':
+      case 'short':
+      case 'byte':
+      case 'bool': return '%d';
+      case 'long': return '%lld';
+      case 'unsigned': return '%u';
+      case 'float':
+      case 'double': return '%f';
+      case 'char': return '%c';
+      default: return '%s';
+    }
+  }
+
+  private getMapFallback(type: PrimitiveType): string {
+    return type === 'string' ? 'NULL' : this.getDefaultValue(type);
+  }
+
+  private getDefaultValue(type: PrimitiveType): string {
     switch (type) {
       case 'int': return '0';
       case 'float':
@@ -695,16 +3299,70 @@ export class CGenerator {
     }
   }
 
-  private inferType(node: IRNode): DataType {
+  private inferType(node: IRNode): PrimitiveType {
     if (isIRLiteral(node)) return node.dataType;
-    // Default identifiers to 'int' since most transpiled variables are numeric
+    if (isIRTupleIndex(node)) {
+      // Typed as the variable or callee the tuple comes from; what neither knows is an int, as in its struct
+      const source = isIRIdentifier(node.object) ? node.object.name : isIRCall(node.object) && !node.object.isMethod ? node.object.callee : '';
+      const tuple = this.tupleTypes.get(source);
+      const element = flattenType((tuple?.kind === 'tuple' ? tuple : node.tupleType).elements[node.index]);
+      return element === 'auto' ? 'int' : element;
+    }
+    if (isIRDereference(node)) return this.inferType(node.operand);
+    if (isIRBinaryOp(node)) {
+      // Comparisons are ints in C
+      if (['==', '!=', '<', '>', '<=', '>=', '&&', '||'].includes(node.operator)) return 'int';
+      if (node.operator === 'true_div' || isNegativePower(node)) return 'double';
+      const leftType = this.inferType(node.left);
+      const rightType = this.inferType(node.right);
+      if (leftType === 'string' || rightType === 'string') return 'string';
+      if (leftType === 'float' || leftType === 'double' || rightType === 'float' || rightType === 'double') return 'float';
+      return leftType === 'long' || rightType === 'long' ? 'long' : 'int';
+    }
+    if (node.type === 'unary_op' && (node as IRUnaryOp).operator === '-') return this.inferType((node as IRUnaryOp).operand);
+    if (isIRConditional(node)) {
+      const thenType = this.inferType(node.thenValue);
+      return thenType === 'float' || this.inferType(node.elseValue) === 'float' ? 'float' : thenType;
+    }
+    // Default unknown identifiers to 'int' since most transpiled variables are numeric
     // This prevents %s being used for int variables (which causes segfaults)
-    if (isIRIdentifier(node)) return 'int';
+    if (isIRIdentifier(node)) {
+      const field = this.structField(node.name);
+      if (field) return flattenType(field.dataType) === 'auto' ? 'int' : flattenType(field.dataType);
+      return this.variableTypes.get(node.name) || 'int';
+    }
     if (isIRCall(node)) {
       if (node.callee === 'int') return 'int';
       if (node.callee === 'float') return 'float';
       if (node.callee === 'str') return 'string';
+      const generator = node.callee === 'next' && node.args.length === 1 ? this.generatorOf(node.args[0]) : undefined;
+      if (generator) return flattenType(generator.returnType);
+      // Methods are declared with their return type, possibly by an ancestor
+      const cls = !node.isMethod ? undefined : node.receiver ? this.valueClass(node.receiver) : node.object && this.objectClass(node.object);
+      const method = cls && this.classChain(cls).flatMap(c => this.methodsOf(c)).find(m => m.name === node.callee);
+      const returnType = method ? flattenType(method.returnType) : 'auto';
+      if (returnType !== 'auto' && returnType !== 'void') return returnType;
+      if (!node.isMethod && this.returnTypes.has(node.callee)) return this.returnTypes.get(node.callee)!;
+      const fn = node.isMethod ? undefined : this.functionValues.get(node.callee);
+      if (fn && flattenType(fn.returns) !== 'auto') return flattenType(fn.returns);
+    }
+    if (isIRFieldAccess(node)) {
+      const field = this.fieldOf(node);
+      return field && flattenType(field.dataType) !== 'auto' ? flattenType(field.dataType) : 'int';
+    }
+    if (isIRIndex(node) && this.getMap(node.object)) {
+      const valueType = flattenType(this.getMap(node.object)!.dataType);
+      return valueType === 'auto' ? 'int' : valueType;
+    }
+    if (isIRIndex(node) && isIRIdentifier(node.object)) {
+      const array = this.arrays.get(node.object.name);
+      if (array) return flattenType(array.dataType) === 'auto' ? 'int' : flattenType(array.dataType);
     }
+    if (isIRIndex(node) && this.inferType(node.object) === 'string') return 'char';
+    if (isIRSlice(node)) return 'string';
+    if (isIRStringMethod(node)) return stringMethodType(node.method, this.inferType(node.object));
+    if (isIRMathCall(node)) return mathFunctionType(node.func, node.args.map(arg => this.inferType(arg)));
+    if (isIRMathConstant(node)) return node.dataType;
     return 'int';
   }
 }
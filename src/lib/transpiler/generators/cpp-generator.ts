@@ -7,24 +7,49 @@ import {
   IRIf,
   IRFor,
   IRWhile,
+  IRDoWhile,
   IRSwitch,
   IRReturn,
   IRPrint,
   IRInput,
   IRCall,
+  IRLambda,
   IRBinaryOp,
   IRUnaryOp,
   IRLiteral,
   IRIdentifier,
   IRComment,
   IRAssignment,
-  DataType,
+  IRArrayLiteral,
+  IRIndexAssignment,
+  IRSlice,
+  IRStringMethod,
+  IRMathCall,
+  IRMapLiteral,
+  IRRemove,
+  IRForEach,
+  IRBreak,
+  IRContinue,
+  IRTry,
+  IRThrow,
+  IRSuperCall,
+  IREnum,
+  IREnumMethod,
+  IRAllocation,
+  IRConditional,
+  IRCompoundAssignment,
+  IRTupleLiteral,
+  IRDestructure,
+  PrimitiveType,
+  IRType,
+  IRTypeParam,
   isIRVariable,
   isIRFunction,
   isIRClass,
   isIRIf,
   isIRFor,
   isIRWhile,
+  isIRDoWhile,
   isIRSwitch,
   isIRReturn,
   isIRPrint,
@@ -35,18 +60,192 @@ import {
   isIRIdentifier,
   isIRComment,
   isIRAssignment,
+  isIRArrayLiteral,
+  isIRIndex,
+  isIRFieldAccess,
+  isIRIndexAssignment,
+  isIRSlice,
+  isIRStringMethod,
+  isIRMathCall,
+  isIRMathConstant,
+  fromEnd,
+  sliceStep,
+  isIRLength,
+  isIRMapLiteral,
+  isIRContains,
+  isIRRemove,
+  isIRForEach,
+  isIRBreak,
+  isIRContinue,
+  isIRTry,
+  isIRThrow,
+  isIRSuperCall,
+  isIREnum,
+  isIREnumValue,
+  isIREnumMethod,
+  isIRAddressOf,
+  isIRDereference,
+  isIRAllocation,
+  isIRFree,
+  isIRConditional,
+  isIRCompoundAssignment,
+  isIRTupleLiteral,
+  isIRTupleIndex,
+  isIRDestructure,
+  bindArguments,
+  isIRLambda,
+  isIRFunctionRef,
+  lambdaExpression,
+  lambdaCaptures,
+  mathFunctionType,
+  isFloatType,
+  stringMethodType,
+  isNegativePower,
+  catchesZeroDivision,
+  enumValues,
+  needsDivisorCheck,
+  primitiveType,
+  arrayType,
+  sizedListType,
+  flattenType,
+  keyTypeOf,
+  classNameOf,
+  isAutoType,
+  isArrayType,
+  isSetType,
+  isMapType,
+  findMethod,
+  C_PRECEDENCE,
+  operandCode,
+  LoopContext,
+  visitIR,
+  someIR,
 } from '../ir';
+import { lowerGenerator, generatorName } from '../transforms/generators';
+import { lowerComprehensions } from '../transforms/comprehensions';
+
+type IRLoop = IRFor | IRForEach | IRWhile | IRDoWhile;
+
+const ARITHMETIC_FUNCTIONS: Record<string, string> = { 'floor_div': 'floor_div', 'floor_mod': 'floor_mod', 'pow': 'power' };
+
+// Templates that using namespace std brings in, which can win overload resolution over a
+// function of the same name taking a std::function
+const STD_TEMPLATES = new Set(['apply', 'invoke', 'count', 'find', 'max', 'min', 'sort', 'swap', 'transform', 'accumulate']);
 
 export class CppGenerator {
   private indent = 0;
   private indentStr = '    ';
   private usesIostream = false;
   private usesString = false;
+  private usesVector = false;
+  private usesMap = false;
+  // std::map keeps its keys sorted, so a loop over one can't follow insertion order
+  private loopsOverMap = false;
+  private usesSet = false;
+  private usesAlgorithm = false;
+  private usesStdexcept = false;
+  private usesOptional = false;
+  private usesFunctional = false;
+  // pair and make_pair are in <utility>; tuple, make_tuple and tie in <tuple>
+  private usesUtility = false;
+  private usesTuple = false;
+  private vectors = new Set<string>();
+  // Vectors of vectors, whose rows print as lists too
+  private matrices = new Set<string>();
+  private strings = new Set<string>();
+  private chars = new Set<string>();
+  private floats = new Set<string>();
+  private maps = new Set<string>();
+  private loops: LoopContext[] = [];
+  // Catch parameters in scope; the IR uses them for the exception message
+  private exceptionNames = new Set<string>();
+  private classes = new Map<string, IRClass>();
+  private currentClass: IRClass | undefined;
+  // What the function being generated returns
+  private currentReturnType: IRType | undefined;
+  // Variables holding a std::optional, which is empty at nullopt rather than nullptr
+  private optionals = new Set<string>();
+  // Locals holding a heap-allocated class instance, whose fields are reached with ->
+  private objects = new Set<string>();
+  private structVariables = new Map<string, string>();
+  // Members read as obj.field from outside their class must be public
+  private publicMembers = new Set<string>();
+  // Variables of an enum class type, by enum, which cout can't print without a cast
+  private enumVariables = new Map<string, string>();
+  // Plain structs are aggregates held by value, unlike heap-allocated class instances
+  private structs = new Map<string, IRClass>();
+  private functions = new Map<string, IRFunction>();
+  // Python's floor division, floor modulo and power, emitted as templates when used
+  private arithmeticHelpers = new Set<string>();
+  // Slices with a step other than 1 go through a template
+  private usesSliceHelper = false;
+  // cout prints vectors through an operator<< that writes them as Python prints a list
+  private printsLists = false;
+  // Python indexes that may be negative when the program runs go through wrap_index
+  private usesWrapIndex = false;
+  // Divisions check their divisor when the program catches ZeroDivisionError
+  private checksDivisors = false;
+  // Enums whose constants are listed in Level_members, for values() and for finding ordinals
+  private enumTypes = new Map<string, IREnum>();
+  private enumMembers = new Set<string>();
+  private enumOrdinals = new Set<string>();
+  // Java enums printed by name, through Level_names
+  private enumNames = new Set<string>();
+  // finally blocks run from a guard's destructor; their count names each guard
+  private usesFinally = false;
+  private finallyCount = 0;
+  private usesCctype = false;
+  private usesCmath = false;
+  private stringHelpers = new Set<string>();
 
   generate(ir: IRProgram): string {
+    // Comprehensions become loops filling a vector, set or map
+    ir = lowerComprehensions(ir);
     this.indent = 0;
     this.usesIostream = false;
     this.usesString = false;
+    this.usesVector = false;
+    this.usesMap = false;
+    this.loopsOverMap = false;
+    this.usesSet = false;
+    this.usesAlgorithm = false;
+    this.usesStdexcept = false;
+    this.usesOptional = false;
+    this.usesFunctional = false;
+    this.usesUtility = false;
+    this.usesTuple = false;
+    this.vectors = new Set();
+    this.matrices = new Set();
+    this.strings = new Set();
+    this.chars = new Set();
+    this.floats = new Set();
+    this.maps = new Set();
+    this.loops = [];
+    this.exceptionNames = new Set();
+    this.classes = new Map();
+    this.currentClass = undefined;
+    this.currentReturnType = undefined;
+    this.optionals = new Set();
+    this.objects = new Set();
+    this.structVariables = new Map();
+    this.publicMembers = new Set();
+    this.enumVariables = new Map();
+    this.structs = new Map();
+    this.functions = new Map();
+    this.arithmeticHelpers = new Set();
+    this.usesSliceHelper = false;
+    this.printsLists = false;
+    this.usesWrapIndex = false;
+    this.checksDivisors = false;
+    this.enumTypes = new Map();
+    this.enumMembers = new Set();
+    this.enumOrdinals = new Set();
+    this.enumNames = new Set();
+    this.usesFinally = false;
+    this.finallyCount = 0;
+    this.usesCctype = false;
+    this.usesCmath = false;
+    this.stringHelpers = new Set();
     
     this.analyzeProgram(ir);
     
@@ -55,19 +254,43 @@ export class CppGenerator {
     // Includes
     if (this.usesIostream) lines.push('#include <iostream>');
     if (this.usesString) lines.push('#include <string>');
+    if (this.usesVector) lines.push('#include <vector>');
+    if (this.usesMap) lines.push('#include <map>');
+    if (this.usesSet) lines.push('#include <set>');
+    if (this.usesAlgorithm) lines.push('#include <algorithm>');
+    if (this.usesStdexcept) lines.push('#include <stdexcept>');
+    if (this.usesOptional) lines.push('#include <optional>');
+    if (this.usesFunctional) lines.push('#include <functional>');
+    if (this.usesUtility) lines.push('#include <utility>');
+    if (this.usesTuple) lines.push('#include <tuple>');
+    if (this.usesCctype) lines.push('#include <cctype>');
+    if (this.usesCmath || this.arithmeticHelpers.size > 0) lines.push('#include <cmath>');
+    if (this.arithmeticHelpers.size > 0) lines.push('#include <type_traits>');
     if (lines.length > 0) {
       lines.push('');
       lines.push('using namespace std;');
       lines.push('');
     }
+    if (this.loopsOverMap) {
+      lines.push('// Note: std::map keeps its keys sorted, so loops over a map visit them in key order, not insertion order');
+      lines.push('');
+    }
+    if (this.arithmeticHelpers.size > 0) lines.push(this.generateArithmeticHelpers());
+    if (this.usesSliceHelper) lines.push(this.generateSliceHelper());
+    if (this.printsLists) lines.push(this.generateListPrinter());
+    if (this.usesWrapIndex) lines.push(this.generateWrapIndexHelper());
+    if (this.checksDivisors) lines.push(this.generateDivisorHelper());
+    if (this.usesFinally) lines.push(this.generateFinallyHelper());
+    if (this.stringHelpers.size > 0) lines.push(this.generateStringHelpers());
     
     // Separate functions/classes from main content
     const functions = ir.body.filter(n => isIRFunction(n));
     const classes = ir.body.filter(n => isIRClass(n));
-    const mainContent = ir.body.filter(n => !isIRFunction(n) && !isIRClass(n));
+    const enums = ir.body.filter(n => isIREnum(n));
+    const mainContent = ir.body.filter(n => !isIRFunction(n) && !isIRClass(n) && !isIREnum(n));
     
-    // Generate classes first
-    for (const node of classes) {
+    // Generate enums and classes first
+    for (const node of [...enums, ...classes]) {
       const code = this.generateNode(node);
       if (code) lines.push(code);
     }
@@ -114,12 +337,42 @@ export class CppGenerator {
   private analyzeProgram(ir: IRProgram): void {
     const analyze = (node: IRNode) => {
       if (isIRPrint(node) || isIRInput(node)) this.usesIostream = true;
-      if (isIRVariable(node) && node.dataType === 'string') this.usesString = true;
+      if (isIRPrint(node) && node.args.some(arg => (isIRIdentifier(arg) && this.vectors.has(arg.name)) ||
+          (isIRIndex(arg) && isIRIdentifier(arg.object) && this.matrices.has(arg.object.name)))) {
+        this.printsLists = true;
+      }
+      if (isIRVariable(node) && flattenType(node.dataType) === 'string') this.usesString = true;
+      const scalar = isIRVariable(node) && !isArrayType(node.dataType) && !isMapType(node.dataType) ? flattenType(node.dataType) : undefined;
+      if (isIRVariable(node) && scalar === 'string') this.strings.add(node.name);
+      if (isIRVariable(node) && scalar === 'char') this.chars.add(node.name);
+      const iterated = isIRFor(node) && node.iteratorType ? flattenType(node.iteratorType) : undefined;
+      if (isIRFor(node) && node.iterator && iterated === 'char') this.chars.add(node.iterator);
+      if (isIRVariable(node) && scalar && isFloatType(scalar)) this.floats.add(node.name);
+      if (isIRVariable(node) && this.isOptional(node.dataType)) this.optionals.add(node.name);
+      if (isIRFor(node) && node.iterator && iterated && isFloatType(iterated)) this.floats.add(node.iterator);
+      if (isIRVariable(node) && isArrayType(node.dataType)) {
+        if (isSetType(node.dataType)) this.usesSet = true;
+        else this.usesVector = true;
+        this.vectors.add(node.name);
+        if (node.dataType.kind === 'array' && isArrayType(node.dataType.element)) this.matrices.add(node.name);
+      }
+      if (isIRVariable(node) && isMapType(node.dataType)) {
+        this.usesMap = true;
+        this.maps.add(node.name);
+        if (keyTypeOf(node.dataType) === 'string') this.usesString = true;
+      }
       if (isIRFunction(node)) {
+        this.functions.set(node.name, node);
         node.body.forEach(analyze);
-        node.params.forEach(p => { if (p.dataType === 'string') this.usesString = true; });
+        node.params.forEach(analyze);
       }
-      if (isIRClass(node)) {
+      if (isIRVariable(node) && classNameOf(node.dataType)) this.structVariables.set(node.name, classNameOf(node.dataType)!);
+      if (isIRTry(node) && node.finallyBody) this.usesFinally = true;
+      if (isIRClass(node) && node.isStruct) {
+        this.structs.set(node.name, node);
+        node.members.forEach(analyze);
+      } else if (isIRClass(node)) {
+        this.classes.set(node.name, node);
         node.members.forEach(analyze);
         node.methods.forEach(analyze);
         // Also analyze Java-style mainMethod and staticMethods
@@ -132,11 +385,373 @@ export class CppGenerator {
         node.thenBranch.forEach(analyze);
         node.elseBranch?.forEach(analyze);
       }
-      if (isIRFor(node) || isIRWhile(node)) {
+      if (isIRForEach(node)) this.loopsOverMap = true;
+      if (isIRFor(node) || isIRWhile(node) || isIRForEach(node) || isIRDoWhile(node)) {
+        node.body.forEach(analyze);
+      }
+      if (isIRTry(node)) {
         node.body.forEach(analyze);
+        node.handlers.forEach(handler => handler.body.forEach(analyze));
+        node.finallyBody?.forEach(analyze);
       }
     };
     ir.body.forEach(analyze);
+    this.usesAlgorithm = this.hasVectorSearch(ir.body);
+    // next() on an exhausted generator throws
+    this.usesStdexcept = this.hasExceptions(ir.body) || [...this.functions.values()].some(fn => fn.isGenerator);
+    this.checksDivisors = catchesZeroDivision(ir.body);
+    this.collectFieldAccess(ir.body);
+    this.collectArithmetic(ir.body);
+    this.collectDeclaredTypes(ir.body);
+    this.collectTuples(ir.body);
+    ir.body.filter(isIREnum).forEach(node => this.enumTypes.set(node.name, node));
+    this.collectEnumMethods(ir.body);
+    this.collectSlices(ir.body);
+    this.collectStringMethods(ir.body);
+    this.collectMathCalls(ir.body);
+  }
+
+  private collectStringMethods(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRStringMethod(node)) {
+        this.usesString = true;
+        if (this.isChar(node.object)) {
+          this.usesCctype = true;
+        } else if (node.method !== 'find' && node.method !== 'compare') {
+          this.stringHelpers.add(node.method);
+          if (['upper', 'lower', 'isdigit', 'isalpha'].includes(node.method)) {
+            this.usesAlgorithm = true;
+            this.usesCctype = true;
+          }
+          if (node.method === 'split' || node.method === 'join') this.usesVector = true;
+        }
+      }
+    });
+  }
+
+  private collectSlices(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRSlice(node) && this.slicesByHelper(node)) {
+        this.usesSliceHelper = true;
+        this.usesOptional = true;
+        this.usesAlgorithm = true;
+      }
+      if ((isIRIndex(node) || isIRIndexAssignment(node)) && node.wraps && !(isIRIdentifier(node.object) && this.maps.has(node.object.name))) {
+        this.usesWrapIndex = true;
+      }
+    });
+  }
+
+  private collectTuples(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRTupleLiteral(node)) {
+        if (node.elements.length === 2) this.usesUtility = true;
+        else this.usesTuple = true;
+      }
+      if (isIRDestructure(node) && !node.isDeclaration && !node.declared) {
+        if (this.isSwap(node)) this.usesUtility = true;
+        else this.usesTuple = true;
+      }
+    });
+  }
+
+  // min and max are in <algorithm>, the rest in <cmath>
+  private collectMathCalls(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRMathCall(node) && (node.func === 'min' || node.func === 'max')) this.usesAlgorithm = true;
+      else if (isIRMathCall(node) || isIRMathConstant(node)) this.usesCmath = true;
+    });
+  }
+
+  private collectDeclaredTypes(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRVariable(node)) this.noteType(node.dataType);
+      if (isIRFunction(node) || isIRLambda(node)) this.noteType(node.returnType);
+    });
+  }
+
+  // Headers needed by a structured type
+  private noteType(type: IRType): void {
+    switch (type.kind) {
+      case 'primitive':
+        if (type.name === 'string') this.usesString = true;
+        break;
+      case 'array':
+        if (type.isSet) this.usesSet = true;
+        else this.usesVector = true;
+        this.noteType(type.element);
+        break;
+      case 'map':
+        this.usesMap = true;
+        this.noteType(type.key);
+        this.noteType(type.value);
+        break;
+      case 'class':
+        type.args?.forEach(arg => this.noteType(arg));
+        break;
+      case 'nullable':
+        if (type.inner.kind !== 'class') this.usesOptional = true;
+        this.noteType(type.inner);
+        break;
+      case 'function':
+        this.usesFunctional = true;
+        type.params.forEach(p => this.noteType(p));
+        this.noteType(type.returns);
+        break;
+      case 'tuple':
+        if (type.elements.length === 2) this.usesUtility = true;
+        else this.usesTuple = true;
+        type.elements.forEach(e => this.noteType(e));
+        break;
+    }
+  }
+
+  private collectArithmetic(value: unknown): void {
+    visitIR(value, node => {
+      if ((isIRBinaryOp(node) || isIRCompoundAssignment(node)) && ARITHMETIC_FUNCTIONS[node.operator]) {
+        this.arithmeticHelpers.add(node.operator);
+      }
+    });
+  }
+
+  private generateArithmeticHelpers(): string {
+    const helpers: Record<string, string[]> = {
+      floor_div: [
+        'template <typename A, typename B>',
+        'auto floor_div(A a, B b) {',
+        '    if constexpr (is_integral_v<A> && is_integral_v<B>) {',
+        '        return a / b - (a % b != 0 && (a < 0) != (b < 0));',
+        '    } else {',
+        '        return floor(a / b);',
+        '    }',
+        '}',
+      ],
+      floor_mod: [
+        'template <typename A, typename B>',
+        'auto floor_mod(A a, B b) {',
+        '    if constexpr (is_integral_v<A> && is_integral_v<B>) {',
+        '        auto r = a % b;',
+        '        return r != 0 && (r < 0) != (b < 0) ? r + b : r;',
+        '    } else {',
+        '        auto r = fmod(a, b);',
+        '        return r != 0 && (r < 0) != (b < 0) ? r + b : r;',
+        '    }',
+        '}',
+      ],
+      pow: [
+        'template <typename A, typename B>',
+        'auto power(A base, B exp) {',
+        '    if constexpr (is_integral_v<A> && is_integral_v<B>) {',
+        '        if (exp < 0) return base == 1 || base == -1 ? (exp % 2 == 0 ? A(1) : base) : A(0);',
+        '        A result = 1;',
+        '        while (exp-- > 0) result *= base;',
+        '        return result;',
+        '    } else {',
+        '        return pow(base, exp);',
+        '    }',
+        '}',
+      ],
+    };
+    const lines = ['// Python rounds division and modulo toward negative infinity, C++ toward zero'];
+    for (const name of Object.keys(helpers)) {
+      if (this.arithmeticHelpers.has(name)) lines.push(...helpers[name], '');
+    }
+    return lines.join('\n');
+  }
+
+  // Runs a finally block when its scope is left, whether by falling off the end, a return or an exception
+  private generateFinallyHelper(): string {
+    return [
+      'template <typename F>',
+      'struct finally_guard {',
+      '    F run;',
+      '    ~finally_guard() { run(); }',
+      '};',
+      '',
+      'template <typename F>',
+      'finally_guard<F> on_exit(F run) {',
+      '    return {run};',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  private generateSliceHelper(): string {
+    return [
+      '// Python\'s slice bounds: left out, they follow the step\'s direction; negative, they count from the end',
+      'int slice_bound(optional<int> bound, int length, bool is_start, int step) {',
+      '    if (!bound) return step > 0 ? (is_start ? 0 : length) : (is_start ? length - 1 : -1);',
+      '    int index = *bound < 0 ? *bound + length : *bound;',
+      '    return step > 0 ? clamp(index, 0, length) : clamp(index, -1, length - 1);',
+      '}',
+      '',
+      'template <typename T>',
+      'T slice(const T& items, optional<int> start, optional<int> end, int step) {',
+      '    int length = items.size();',
+      '    int stop = slice_bound(end, length, false, step);',
+      '    T result;',
+      '    for (int i = slice_bound(start, length, true, step); step > 0 ? i < stop : i > stop; i += step) {',
+      '        result.push_back(items[i]);',
+      '    }',
+      '    return result;',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  private generateListPrinter(): string {
+    return [
+      '// Vectors print as Python prints a list, [1, 2], with strings quoted',
+      'template <typename T>',
+      'ostream& operator<<(ostream& out, const vector<T>& items);',
+      '',
+      'template <typename T>',
+      'void print_item(ostream& out, const T& item) { out << item; }',
+      'void print_item(ostream& out, const string& item) { out << "\'" << item << "\'"; }',
+      'void print_item(ostream& out, char item) { out << "\'" << item << "\'"; }',
+      '',
+      'template <typename T>',
+      'ostream& operator<<(ostream& out, const vector<T>& items) {',
+      '    out << "[";',
+      '    for (size_t i = 0; i < items.size(); i++) {',
+      '        if (i > 0) out << ", ";',
+      '        print_item(out, items[i]);',
+      '    }',
+      '    return out << "]";',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  private generateWrapIndexHelper(): string {
+    return [
+      '// Python\'s negative indexes count from the end',
+      'int wrap_index(int index, int length) {',
+      '    return index < 0 ? index + length : index;',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  // Dividing by zero is undefined behavior in C++, where Python raises ZeroDivisionError
+  private generateDivisorHelper(): string {
+    return [
+      'template <typename T>',
+      'T check_divisor(T b) {',
+      '    if (b == 0) throw domain_error("division by zero");',
+      '    return b;',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  // Python's string methods that <string> has no single call for
+  private generateStringHelpers(): string {
+    const whitespace = '" \\t\\n\\r\\f\\v"';
+    const helpers: Record<string, string[]> = {
+      upper: [
+        'string str_upper(string s) {',
+        '    transform(s.begin(), s.end(), s.begin(), [](unsigned char c) { return toupper(c); });',
+        '    return s;',
+        '}',
+      ],
+      lower: [
+        'string str_lower(string s) {',
+        '    transform(s.begin(), s.end(), s.begin(), [](unsigned char c) { return tolower(c); });',
+        '    return s;',
+        '}',
+      ],
+      strip: [
+        'string str_strip(const string& s) {',
+        `    size_t start = s.find_first_not_of(${whitespace});`,
+        '    if (start == string::npos) return "";',
+        `    return s.substr(start, s.find_last_not_of(${whitespace}) - start + 1);`,
+        '}',
+      ],
+      split: [
+        '// Without a separator, runs of whitespace separate the parts and there are no empty ones',
+        'vector<string> str_split(const string& s, const string& separator = "") {',
+        '    vector<string> parts;',
+        '    if (separator.empty()) {',
+        `        for (size_t start = s.find_first_not_of(${whitespace}); start != string::npos;) {`,
+        `            size_t end = s.find_first_of(${whitespace}, start);`,
+        '            parts.push_back(s.substr(start, end - start));',
+        `            start = s.find_first_not_of(${whitespace}, end);`,
+        '        }',
+        '        return parts;',
+        '    }',
+        '    size_t start = 0;',
+        '    for (size_t end = s.find(separator); end != string::npos; end = s.find(separator, start)) {',
+        '        parts.push_back(s.substr(start, end - start));',
+        '        start = end + separator.size();',
+        '    }',
+        '    parts.push_back(s.substr(start));',
+        '    return parts;',
+        '}',
+      ],
+      join: [
+        'string str_join(const string& separator, const vector<string>& parts) {',
+        '    string joined;',
+        '    for (size_t i = 0; i < parts.size(); i++) {',
+        '        if (i > 0) joined += separator;',
+        '        joined += parts[i];',
+        '    }',
+        '    return joined;',
+        '}',
+      ],
+      replace: [
+        'string str_replace(string s, const string& from, const string& to) {',
+        '    if (from.empty()) return s;',
+        '    for (size_t i = s.find(from); i != string::npos; i = s.find(from, i + to.size())) {',
+        '        s.replace(i, from.size(), to);',
+        '    }',
+        '    return s;',
+        '}',
+      ],
+      startswith: [
+        'bool str_startswith(const string& s, const string& prefix) {',
+        '    return s.compare(0, prefix.size(), prefix) == 0;',
+        '}',
+      ],
+      endswith: [
+        'bool str_endswith(const string& s, const string& suffix) {',
+        '    return s.size() >= suffix.size() && s.compare(s.size() - suffix.size(), suffix.size(), suffix) == 0;',
+        '}',
+      ],
+      isdigit: [
+        'bool str_isdigit(const string& s) {',
+        '    return !s.empty() && all_of(s.begin(), s.end(), [](unsigned char c) { return isdigit(c) != 0; });',
+        '}',
+      ],
+      isalpha: [
+        'bool str_isalpha(const string& s) {',
+        '    return !s.empty() && all_of(s.begin(), s.end(), [](unsigned char c) { return isalpha(c) != 0; });',
+        '}',
+      ],
+    };
+    return Object.entries(helpers)
+      .filter(([method]) => this.stringHelpers.has(method))
+      .map(([, lines]) => [...lines, ''].join('\n'))
+      .join('\n');
+  }
+
+  private collectFieldAccess(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRIdentifier(node)) {
+        const [object, member] = node.name.split('.');
+        if (member && object !== 'self' && object !== 'this') this.publicMembers.add(member);
+      }
+      if (isIRFieldAccess(node)) this.publicMembers.add(node.field);
+    });
+  }
+
+  private hasExceptions(value: unknown): boolean {
+    return someIR(value, node => isIRTry(node) || isIRThrow(node));
+  }
+
+  // std::find is needed for membership tests on vectors
+  private hasVectorSearch(value: unknown): boolean {
+    return someIR(value, node => isIRContains(node) && isIRIdentifier(node.object) && this.vectors.has(node.object.name));
   }
 
   private getIndent(): string {
@@ -148,17 +763,29 @@ export class CppGenerator {
     if (isIRVariable(node)) return this.generateVariable(node);
     if (isIRFunction(node)) return this.generateFunction(node);
     if (isIRClass(node)) return this.generateClass(node);
+    if (isIREnum(node)) return this.generateEnum(node);
     if (isIRIf(node)) return this.generateIf(node);
-    if (isIRFor(node)) return this.generateFor(node);
-    if (isIRWhile(node)) return this.generateWhile(node);
+    if (isIRFor(node) || isIRForEach(node) || isIRWhile(node) || isIRDoWhile(node)) {
+      return this.generateLoop(node);
+    }
     if (isIRSwitch(node)) return this.generateSwitch(node);
+    if (isIRTry(node)) return this.generateTry(node);
+    if (isIRThrow(node)) return this.generateThrow(node);
     if (isIRReturn(node)) return this.generateReturn(node);
     if (isIRPrint(node)) return this.generatePrint(node);
     if (isIRInput(node)) return this.generateInput(node);
     if (isIRAssignment(node)) return this.generateAssignment(node);
+    if (isIRIndexAssignment(node)) return this.generateIndexAssignment(node);
+    if (isIRDestructure(node)) return this.generateDestructure(node);
+    if (isIRRemove(node)) return this.generateRemove(node);
     if (isIRCall(node)) return `${this.getIndent()}${this.generateCall(node)};`;
+    if (isIRSuperCall(node)) return `${this.getIndent()}${this.generateSuperCall(node)};`;
+    if (isIRFree(node)) return this.generateFree(node.target);
     if (isIRBinaryOp(node)) return `${this.getIndent()}${this.generateBinaryOp(node)};`;
-    if (node.type === 'break') return `${this.getIndent()}break;`;
+    if (isIRCompoundAssignment(node) || node.type === 'unary_op') {
+      return `${this.getIndent()}${this.generateExpression(node)};`;
+    }
+    if (isIRBreak(node) || isIRContinue(node)) return this.generateJump(node);
     
     return '';
   }
@@ -173,6 +800,7 @@ export class CppGenerator {
   private generateVariable(node: IRVariable): string {
     const indent = this.getIndent();
     const type = this.mapType(node.dataType);
+    if (node.dataType.kind === 'enum') this.enumVariables.set(node.name, node.dataType.name);
     
     // Special case: variable initialized from input
     if (node.value && isIRInput(node.value)) {
@@ -188,31 +816,329 @@ export class CppGenerator {
       return code;
     }
     
+    if (isSetType(node.dataType)) return `${indent}${type} ${node.name};`;
+    if (isArrayType(node.dataType)) {
+      return this.generateVectorVariable(node);
+    }
+    
+    if (node.isPointer) {
+      if (node.dataType.kind === 'class') this.objects.add(node.name);
+      else this.objects.delete(node.name);
+      return `${indent}${this.pointerType(node.dataType)} ${node.name} = ${node.value ? this.generateExpression(node.value) : 'nullptr'};`;
+    }
+    
+    if (isMapType(node.dataType)) {
+      if (node.value && isIRMapLiteral(node.value) && node.value.entries.length > 0) {
+        return `${indent}${type} ${node.name} = ${this.generateMapLiteral(node.value)};`;
+      }
+      if (node.value && isIRCall(node.value)) return `${indent}${type} ${node.name} = ${this.generateExpression(node.value)};`;
+      return `${indent}${type} ${node.name};`;
+    }
+    
+    // Instances are pointers already, so only values are bound by reference
+    if (node.isReference && node.value && (node.dataType.kind !== 'class' || this.structs.has(node.dataType.name))) {
+      this.objects.delete(node.name);
+      return `${indent}${type}& ${node.name} = ${this.generateExpression(node.value)};`;
+    }
+    
+    if (node.dataType.kind === 'class' && this.structs.has(node.dataType.name)) {
+      this.objects.delete(node.name);
+      return `${indent}${type} ${node.name} = ${node.value ? this.generateStructValue(node.value) : '{}'};`;
+    }
+    
+    // Calling a generator function gives its class, by value
+    const generator = node.value && isIRCall(node.value) ? this.functions.get(node.value.callee) : undefined;
+    if (generator?.isGenerator) {
+      return `${indent}${generatorName(generator)} ${node.name} = ${this.generateCall(node.value as IRCall)};`;
+    }
+    
+    // Instances are heap-allocated so their methods can be called through ->
+    if (node.value && isIRCall(node.value) && this.classes.has(node.value.callee)) {
+      this.objects.add(node.name);
+      // Class templates take the declared arguments, or deduce them from the constructor's
+      if (node.dataType.kind === 'class' && node.dataType.args) {
+        const instance = type.slice(0, -1);
+        const args = node.value.args.map(arg => this.generateExpression(arg)).join(', ');
+        return `${indent}${instance}* ${node.name} = new ${instance}(${args});`;
+      }
+      const pointer = this.classes.get(node.value.callee)!.typeParams ? 'auto' : node.value.callee;
+      return `${indent}${pointer}* ${node.name} = ${this.generateCall(node.value)};`;
+    }
+    
+    // Each lambda has its own closure type
+    if (node.value && isIRLambda(node.value)) return `${indent}auto ${node.name} = ${this.generateLambda(node.value)};`;
+    
     if (node.value) {
+      return `${indent}${type} ${node.name} = ${this.generateValue(node.value, this.isOptional(node.dataType))};`;
+    }
+    return `${indent}${type} ${node.name};`;
+  }
+
+  private isOptional(type: IRType | undefined): boolean {
+    return type?.kind === 'nullable' && type.inner.kind !== 'class';
+  }
+
+  // None or null stored in an optional empties it with nullopt
+  private generateValue(value: IRNode, isOptional: boolean): string {
+    if (isOptional && isIRLiteral(value) && value.value === 'null') return 'nullopt';
+    return this.generateExpression(value);
+  }
+
+  // Captures are copied like the values a Python or Java closure reads, unless the source captured by reference;
+  // untyped params make a generic lambda
+  private generateLambda(node: IRLambda): string {
+    const captures = lambdaCaptures(node).filter(name => !this.functions.has(name) && !this.classes.has(name));
+    const capture = captures.length === 0 ? '' : node.capturesByReference ? '&' : '=';
+    const params = node.params.map(p => isAutoType(p.dataType) ? `auto ${p.name}` : this.declareParam(p)).join(', ');
+    const returns = isAutoType(node.returnType) ? '' : ` -> ${this.mapType(node.returnType)}`;
+    const value = lambdaExpression(node);
+    if (value) return `[${capture}](${params})${returns} { return ${this.generateExpression(value)}; }`;
+    
+    let code = `[${capture}](${params})${returns} {\n`;
+    this.indent++;
+    for (const stmt of node.body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    this.indent--;
+    return code + `${this.getIndent()}}`;
+  }
+
+  private generateVectorVariable(node: IRVariable): string {
+    const indent = this.getIndent();
+    const type = this.mapType(node.dataType);
+    const literal = node.value && isIRArrayLiteral(node.value) ? node.value : undefined;
+    // Heap arrays become vectors, which free themselves
+    const allocated = node.value && isIRAllocation(node.value) ? node.value : undefined;
+    const size = node.arraySize || literal?.size || allocated?.count;
+    
+    if (literal && literal.elements.length > 0) {
+      return `${indent}${type} ${node.name} = ${this.generateArrayLiteral(literal)};`;
+    }
+    if (size) {
+      const fill = literal?.fill ? `, ${this.generateExpression(literal.fill)}` : '';
+      return `${indent}${type} ${node.name}(${this.generateExpression(size)}${fill});`;
+    }
+    if (node.value && !literal && !allocated) {
       return `${indent}${type} ${node.name} = ${this.generateExpression(node.value)};`;
     }
     return `${indent}${type} ${node.name};`;
   }
 
+  // Given the body, vectors it leaves alone are taken by const reference so temporaries can be passed
+  private generateParam(param: IRVariable, body?: IRNode[], byValue = false): string {
+    const declaration = this.declareParam(param, body, byValue);
+    return param.defaultValue ? `${declaration} = ${this.generateValue(param.defaultValue, this.isOptional(param.dataType))}` : declaration;
+  }
+
+  // Collections are passed by reference unless byValue asks for a copy
+  private declareParam(param: IRVariable, body?: IRNode[], byValue = false): string {
+    this.objects.delete(param.name);
+    const qualifier = isArrayType(param.dataType) && body && !this.changes(param.name, body) ? 'const ' : '';
+    if (byValue && (isArrayType(param.dataType) || isMapType(param.dataType))) return `${this.mapType(param.dataType)} ${param.name}`;
+    if (isArrayType(param.dataType) || isMapType(param.dataType)) return `${qualifier}${this.mapType(param.dataType)}& ${param.name}`;
+    if (param.dataType.kind === 'enum') {
+      this.enumVariables.set(param.name, param.dataType.name);
+      return `${param.dataType.name} ${param.name}`;
+    }
+    const type = this.mapType(param.dataType, true);
+    if (param.isPointer) {
+      if (param.dataType.kind === 'class') this.objects.add(param.name);
+      return `${this.pointerType(param.dataType)} ${param.name}`;
+    }
+    if (param.isReference) return `${type}& ${param.name}`;
+    return `${type} ${param.name}`;
+  }
+
+  // Whether the body may change the collection name holds: assigning it or its items, calling its
+  // methods, or handing it to a function that could
+  private changes(name: string, value: unknown): boolean {
+    const isName = (target: IRNode) => isIRIdentifier(target) && target.name === name;
+    return someIR(value, node => {
+      if ((isIRIndexAssignment(node) || isIRRemove(node)) && isName(node.object)) return true;
+      if (isIRAssignment(node) && node.target === name) return true;
+      if (isIRCall(node) && (node.isMethod ? node.object === name : node.args.some(isName))) return true;
+      return false;
+    });
+  }
+
+  private generateFree(target: IRNode): string {
+    if (isIRIdentifier(target) && this.vectors.has(target.name)) return '';
+    return `${this.getIndent()}delete ${this.generateExpression(target)};`;
+  }
+
+  private generateAllocation(node: IRAllocation): string {
+    const type = node.dataType.kind === 'class' ? node.dataType.name : this.mapType(node.dataType);
+    if (node.count) return `new ${type}[${this.generateExpression(node.count)}]()`;
+    if (node.value && node.dataType.kind === 'class') return `new ${type}${this.generateStructValue(node.value)}`;
+    return `new ${type}(${node.value ? this.generateExpression(node.value) : ''})`;
+  }
+
+  private generateEnum(node: IREnum): string {
+    const members = node.members.map(member =>
+      `${this.indentStr}${member.name}${member.value !== undefined ? ` = ${member.value}` : ''}`);
+    let code = `enum class ${node.name} {\n${members.join(',\n')}\n};\n`;
+    if (this.enumNames.has(node.name)) code += `\nconst char* ${node.name}_names[] = {${node.members.map(m => `"${m.name}"`).join(', ')}};\n`;
+    if (!this.enumMembers.has(node.name)) return code;
+    const constants = node.members.map(m => `${node.name}::${m.name}`).join(', ');
+    code += `\nconst ${node.name} ${node.name}_members[] = {${constants}};\n`;
+    if (!this.enumOrdinals.has(node.name)) return code;
+    return code + [
+      '',
+      `int ${node.name}_ordinal(${node.name} value) {`,
+      `    for (int i = 0; i < ${node.members.length}; i++) {`,
+      `        if (${node.name}_members[i] == value) return i;`,
+      '    }',
+      '    return -1;',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  private collectEnumMethods(value: unknown): void {
+    visitIR(value, node => {
+      if (isIREnumMethod(node) && (node.method === 'values' || (node.method === 'ordinal' && !this.countsFromZero(node.enumName)))) {
+        this.enumMembers.add(node.enumName);
+        if (node.method === 'ordinal') this.enumOrdinals.add(node.enumName);
+      }
+      if (isIRVariable(node) && node.dataType.kind === 'enum') this.enumVariables.set(node.name, node.dataType.name);
+      // A printed name is looked up by the constant's ordinal
+      for (const enumName of isIRPrint(node) ? node.args.map(arg => this.namedEnum(arg)) : []) {
+        if (!enumName) continue;
+        this.enumNames.add(enumName);
+        if (!this.countsFromZero(enumName)) {
+          this.enumMembers.add(enumName);
+          this.enumOrdinals.add(enumName);
+        }
+      }
+    });
+  }
+
+  // A Java enum constant prints as its name
+  private namedEnum(node: IRNode): string | undefined {
+    const enumName = isIREnumValue(node) ? node.enumName : isIRIdentifier(node) ? this.enumVariables.get(node.name) : undefined;
+    return enumName && this.enumTypes.get(enumName)?.printedAs === 'name' ? enumName : undefined;
+  }
+
+  // Constants numbered 0, 1, 2, ... are their own ordinals
+  private countsFromZero(enumName: string): boolean {
+    const node = this.enumTypes.get(enumName);
+    return !!node && enumValues(node).every((value, i) => value === i);
+  }
+
+  // A scoped enum converts to its number only when cast
+  private generateEnumMethod(node: IREnumMethod): string {
+    if (node.method === 'values') return `${node.enumName}_members`;
+    const value = this.generateExpression(node.object!);
+    return node.method === 'ordinal' && this.enumOrdinals.has(node.enumName) ? `${node.enumName}_ordinal(${value})` : `static_cast<int>(${value})`;
+  }
+
   private generateFunction(node: IRFunction): string {
+    if (node.isGenerator) return this.generateGenerator(node);
     const indent = this.getIndent();
-    const returnType = this.mapType(node.returnType);
-    const params = node.params.map(p => `${this.mapType(p.dataType, true)} ${p.name}`).join(', ');
+    const returnType = node.returnsPointer ? this.pointerType(node.returnType) : this.mapType(node.returnType);
+    // Parameters and locals that are pointers only use -> inside this function
+    const outerObjects = new Set(this.objects);
+    const params = node.params.map(p => this.generateParam(p, node.body)).join(', ');
     
-    let code = `${indent}${returnType} ${node.name}(${params}) {\n`;
+    let code = `${this.templatePrefix(node.typeParams, indent)}${indent}${returnType} ${node.name}(${params}) {\n`;
     
+    const outerReturnType = this.currentReturnType;
+    this.currentReturnType = node.returnType;
     this.indent++;
     for (const stmt of node.body) {
       const stmtCode = this.generateNode(stmt);
       if (stmtCode) code += stmtCode + '\n';
     }
     this.indent--;
+    this.currentReturnType = outerReturnType;
+    this.objects = outerObjects;
     
     code += `${indent}}`;
     return code;
   }
 
+  // A generator becomes a class running its body as a state machine, with an iterator so range-based
+  // for loops can drive it; the function itself just constructs one
+  private generateGenerator(node: IRFunction): string {
+    const indent = this.getIndent();
+    const machine = lowerGenerator(node);
+    const inner = indent + this.indentStr;
+    const body = inner + this.indentStr;
+    const element = this.mapType(node.returnType);
+    // The generator keeps its own copy of each argument, so temporaries like pairs({1, 9, 4}) can be passed
+    const params = node.params.map(p => this.generateParam(p, undefined, true)).join(', ');
+    
+    let code = `${indent}class ${machine.name} {\n${indent}private:\n`;
+    this.indent++;
+    machine.fields.forEach(field => code += this.generateMember(field));
+    this.indent--;
+    code += `${inner}int ${machine.state} = 0;\n`;
+    code += `${inner}${element} ${machine.current};\n\n`;
+    
+    // Each case falls out of the switch to the next state unless it returns
+    code += `${inner}bool advance() {\n`;
+    code += `${body}while (true) {\n`;
+    code += `${body}${this.indentStr}switch (${machine.state}) {\n`;
+    this.indent += 5;
+    machine.states.forEach((statements, i) => {
+      code += `${body}${this.indentStr.repeat(2)}case ${i}: {\n`;
+      for (const stmt of statements) {
+        const stmtCode = this.generateNode(stmt);
+        if (stmtCode) code += stmtCode + '\n';
+      }
+      if (!isIRReturn(statements[statements.length - 1])) code += `${this.getIndent()}break;\n`;
+      code += `${body}${this.indentStr.repeat(2)}}\n`;
+    });
+    this.indent -= 5;
+    code += `${body}${this.indentStr}}\n`;
+    code += `${body}}\n`;
+    code += `${inner}}\n\n`;
+    
+    code += `${indent}public:\n`;
+    const initializers = node.params.map(p => `${p.name}(${p.name})`).join(', ');
+    code += `${inner}${machine.name}(${params})${initializers ? ` : ${initializers}` : ''} {}\n\n`;
+    code += `${inner}struct iterator {\n`;
+    code += `${body}${machine.name}* generator;\n`;
+    code += `${body}${element} operator*() const { return generator->${machine.current}; }\n`;
+    code += `${body}iterator& operator++() {\n`;
+    code += `${body}${this.indentStr}if (!generator->advance()) generator = nullptr;\n`;
+    code += `${body}${this.indentStr}return *this;\n`;
+    code += `${body}}\n`;
+    code += `${body}bool operator!=(const iterator& other) const { return generator != other.generator; }\n`;
+    code += `${inner}};\n\n`;
+    code += `${inner}iterator begin() { return ++iterator{this}; }\n`;
+    code += `${inner}iterator end() { return iterator{nullptr}; }\n\n`;
+    code += `${inner}${element} next() {\n`;
+    code += `${body}if (!advance()) throw out_of_range("generator is exhausted");\n`;
+    code += `${body}return ${machine.current};\n`;
+    code += `${inner}}\n`;
+    code += `${indent}};\n\n`;
+    
+    code += `${indent}${machine.name} ${node.name}(${params}) {\n`;
+    code += `${inner}return ${machine.name}(${node.params.map(p => p.name).join(', ')});\n`;
+    code += `${indent}}`;
+    return code;
+  }
+
+  private generateStruct(node: IRClass): string {
+    let code = `${this.getIndent()}struct ${node.name} {\n`;
+    this.indent++;
+    node.members.forEach(member => code += this.generateMember(member));
+    this.indent--;
+    return code + `${this.getIndent()}};\n`;
+  }
+
+  // Aggregate initialization; nested structs are braced lists too
+  private generateStructValue(node: IRNode): string {
+    if (isIRCall(node) && this.structs.has(node.callee)) {
+      return `{${node.args.map(arg => this.generateStructValue(arg)).join(', ')}}`;
+    }
+    return this.generateExpression(node);
+  }
+
   private generateClass(node: IRClass): string {
+    if (node.isStruct) return this.generateStruct(node);
     const indent = this.getIndent();
     
     // Check if this is a Java-style class with only a static main method
@@ -244,57 +1170,71 @@ export class CppGenerator {
       return code;
     }
     
-    let code = `${indent}class ${node.name} {\n`;
+    this.currentClass = node;
+    // Interfaces are implemented as additional public bases
+    const bases = [...(node.superclass ? [node.superclass] : []), ...(node.interfaces || [])];
+    let code = `${this.templatePrefix(node.typeParams, indent)}${indent}class ${node.name}` +
+      `${bases.length > 0 ? ` : ${bases.map(base => `public ${base}`).join(', ')}` : ''} {\n`;
     
-    // Private members
-    code += `${indent}private:\n`;
-    this.indent++;
-    for (const member of node.members) {
-      const type = this.mapType(member.dataType);
-      code += `${this.getIndent()}${type} ${member.name};\n`;
+    // Members stay visible to subclasses
+    if (!node.isInterface) {
+      const isBase = [...this.classes.values()].some(cls => cls.superclass === node.name);
+      code += `${indent}${isBase ? 'protected' : 'private'}:\n`;
+      this.indent++;
+      for (const member of node.members.filter(m => !this.publicMembers.has(m.name))) {
+        code += this.generateMember(member);
+      }
+      this.indent--;
+      code += '\n';
     }
-    this.indent--;
     
     // Public section
-    code += `\n${indent}public:\n`;
+    code += `${indent}public:\n`;
     this.indent++;
     
-    // Constructor
-    const ctorParams = node.constructor?.params.map(p => `${this.mapType(p.dataType)} ${p.name}`).join(', ') || '';
-    code += `${this.getIndent()}${node.name}(${ctorParams}) {\n`;
-    this.indent++;
+    const publicMembers = node.members.filter(m => this.publicMembers.has(m.name));
+    publicMembers.forEach(member => code += this.generateMember(member));
+    if (publicMembers.length > 0) code += '\n';
     
-    for (const member of node.members) {
-      code += `${this.getIndent()}this->${member.name} = ${this.getDefaultValue(member.dataType)};\n`;
-    }
-    
-    if (node.constructor?.body) {
-      for (const stmt of node.constructor.body) {
-        const stmtCode = this.generateNode(stmt);
-        if (stmtCode) code += stmtCode + '\n';
-      }
+    // Abstract types are only used through pointers to their subclasses
+    if (node.isInterface || node.isAbstract) {
+      code += `${this.getIndent()}virtual ~${node.name}() = default;\n`;
+      if (!node.isInterface) code += '\n';
     }
-    
-    this.indent--;
-    code += `${this.getIndent()}}\n`;
+    if (!node.isInterface) code += this.generateConstructor(node);
     
     // Methods
     for (const method of node.methods) {
       const returnType = this.mapType(method.returnType);
-      const params = method.params.map(p => `${this.mapType(p.dataType)} ${p.name}`).join(', ');
+      const params = method.params.map(p => this.generateParam(p, method.body)).join(', ');
+      
+      if (method.isAbstract) {
+        code += `\n${this.getIndent()}virtual ${returnType} ${method.name}(${params}) = 0;\n`;
+        continue;
+      }
       
-      code += `\n${this.getIndent()}${returnType} ${method.name}(${params}) {\n`;
+      // Only methods a subclass replaces need dynamic dispatch
+      const isOverridden = [...this.classes.values()].some(cls =>
+        cls !== node && this.inheritsFrom(cls, node.name) && cls.methods.some(m => m.name === method.name));
+      const isOverride = bases.some(base => findMethod(this.classes, base, method.name));
+      const prefix = isOverridden && !isOverride ? 'virtual ' : '';
+      const suffix = isOverride ? ' override' : '';
+      
+      code += `\n${this.templatePrefix(method.typeParams, this.getIndent())}${this.getIndent()}${prefix}${returnType} ${method.name}(${params})${suffix} {\n`;
+      this.currentReturnType = method.returnType;
       this.indent++;
       for (const stmt of method.body) {
         const stmtCode = this.generateNode(stmt);
         if (stmtCode) code += stmtCode + '\n';
       }
       this.indent--;
+      this.currentReturnType = undefined;
       code += `${this.getIndent()}}\n`;
     }
     
     this.indent--;
     code += `${indent}};\n`;
+    this.currentClass = undefined;
     
     // If there's a main method, generate int main() with its body
     if (mainMethod) {
@@ -312,6 +1252,67 @@ export class CppGenerator {
     return code;
   }
 
+  // Constructor, calling the superclass constructor from the initializer list
+  private generateConstructor(node: IRClass): string {
+    let code = '';
+    const ctor = this.effectiveConstructor(node);
+    const ctorParams = ctor?.params.map(p => this.generateParam(p)).join(', ') || '';
+    const ctorBody = ctor?.body || [];
+    const superCall = ctorBody.find(stmt => isIRSuperCall(stmt) && !stmt.method) as IRSuperCall | undefined;
+    const initializer = superCall && node.superclass
+      ? ` : ${node.superclass}(${superCall.args.map(arg => this.generateExpression(arg)).join(', ')})`
+      : '';
+    code += `${this.getIndent()}${node.name}(${ctorParams})${initializer} {\n`;
+    this.indent++;
+    
+    for (const member of node.members) {
+      // Vectors and maps start out empty; a template parameter's type may have no literal to start from
+      if (isArrayType(member.dataType) || isMapType(member.dataType) || member.dataType.kind === 'type_param') continue;
+      code += `${this.getIndent()}this->${member.name} = ${this.getDefaultValue(flattenType(member.dataType))};\n`;
+    }
+    
+    for (const stmt of ctorBody) {
+      if (stmt === superCall) continue;
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    
+    this.indent--;
+    code += `${this.getIndent()}}\n`;
+    return code;
+  }
+
+  private generateMember(member: IRVariable): string {
+    const type = member.isPointer ? this.pointerType(member.dataType) : this.mapType(member.dataType);
+    return `${this.getIndent()}${type} ${member.name};\n`;
+  }
+
+  // Classes without a constructor forward their arguments to the inherited one
+  private effectiveConstructor(node: IRClass): IRFunction | undefined {
+    if (node.constructor) return node.constructor;
+    const seen = new Set<string>([node.name]);
+    let current = node.superclass ? this.classes.get(node.superclass) : undefined;
+    while (current && !current.constructor && !seen.has(current.name)) {
+      seen.add(current.name);
+      current = current.superclass ? this.classes.get(current.superclass) : undefined;
+    }
+    const inherited = current?.constructor;
+    if (!inherited) return undefined;
+    const args = inherited.params.map(p => ({ type: 'identifier', name: p.name }) as IRIdentifier);
+    return { ...inherited, body: [{ type: 'super_call', args } as IRSuperCall] };
+  }
+
+  private inheritsFrom(cls: IRClass, ancestor: string, seen = new Set<string>()): boolean {
+    if (seen.has(cls.name)) return false;
+    seen.add(cls.name);
+    const bases = [...(cls.superclass ? [cls.superclass] : []), ...(cls.interfaces || [])];
+    return bases.some(base => {
+      if (base === ancestor) return true;
+      const baseClass = this.classes.get(base);
+      return !!baseClass && this.inheritsFrom(baseClass, ancestor, seen);
+    });
+  }
+
   private generateIf(node: IRIf): string {
     const indent = this.getIndent();
     const condition = this.generateExpression(node.condition);
@@ -342,9 +1343,60 @@ export class CppGenerator {
     return code;
   }
 
+  private generateLoop(node: IRLoop): string {
+    const context: LoopContext = { label: node.label, gotos: new Set() };
+    
+    this.loops.push(context);
+    let code: string;
+    if (isIRFor(node)) code = this.generateFor(node);
+    else if (isIRForEach(node)) code = this.generateForEach(node);
+    else if (isIRWhile(node)) code = this.generateWhile(node);
+    else code = this.generateDoWhile(node);
+    this.loops.pop();
+    
+    const indent = this.getIndent();
+    if (context.gotos.has('continue')) {
+      // Last statement of the body, so the loop's own update and condition still run
+      const close = code.lastIndexOf(`\n${indent}}`);
+      code = `${code.slice(0, close)}\n${indent}${this.indentStr}${node.label}_continue: ;${code.slice(close)}`;
+    }
+    if (context.gotos.has('break')) {
+      code += `\n${indent}${node.label}_break: ;`;
+    }
+    return code;
+  }
+
+  private generateJump(node: IRBreak | IRContinue): string {
+    const innermost = this.loops[this.loops.length - 1];
+    const target = node.label ? this.loops.find(loop => loop.label === node.label) : innermost;
+    
+    if (!target || target === innermost) return `${this.getIndent()}${node.type};`;
+    
+    target.gotos.add(node.type);
+    return `${this.getIndent()}goto ${node.label}_${node.type};`;
+  }
+
   private generateFor(node: IRFor): string {
     const indent = this.getIndent();
     
+    // Range-based for over a vector or a string's characters
+    if (node.iterator && node.iterable) {
+      const type = node.iteratorType && !isAutoType(node.iteratorType) ? this.mapType(node.iteratorType) : 'auto';
+      // Instances are held by pointer
+      if (type.endsWith('*')) this.objects.add(node.iterator);
+      // A string literal's characters would include its terminator
+      const literal = isIRLiteral(node.iterable) && node.iterable.dataType === 'string';
+      const iterable = this.generateExpression(node.iterable);
+      let code = `${indent}for (${type} ${node.iterator} : ${literal ? `string(${iterable})` : iterable}) {\n`;
+      this.indent++;
+      for (const stmt of node.body) {
+        const stmtCode = this.generateNode(stmt);
+        if (stmtCode) code += stmtCode + '\n';
+      }
+      this.indent--;
+      return code + `${indent}}`;
+    }
+    
     // Handle Python range-style for loops
     if (node.iterator && node.rangeEnd) {
       const iterator = node.iterator;
@@ -392,6 +1444,48 @@ export class CppGenerator {
     return code;
   }
 
+  private generateForEach(node: IRForEach): string {
+    const indent = this.getIndent();
+    const iterable = this.generateExpression(node.iterable);
+    
+    let code: string;
+    if (node.valueIterator) {
+      code = `${indent}for (const auto& [${node.iterator}, ${node.valueIterator}] : ${iterable}) {\n`;
+      this.indent++;
+    } else {
+      const entry = `${node.iterator}_entry`;
+      code = `${indent}for (const auto& ${entry} : ${iterable}) {\n`;
+      this.indent++;
+      code += `${this.getIndent()}const auto& ${node.iterator} = ${entry}.${node.overValues ? 'second' : 'first'};\n`;
+    }
+    
+    for (const stmt of node.body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    this.indent--;
+    code += `${indent}}`;
+    
+    return code;
+  }
+
+  private generateDoWhile(node: IRDoWhile): string {
+    const indent = this.getIndent();
+    const condition = this.generateExpression(node.condition);
+    
+    let code = `${indent}do {\n`;
+    
+    this.indent++;
+    for (const stmt of node.body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    this.indent--;
+    code += `${indent}} while (${condition});`;
+    
+    return code;
+  }
+
   private generateWhile(node: IRWhile): string {
     const indent = this.getIndent();
     const condition = this.generateExpression(node.condition);
@@ -439,10 +1533,81 @@ export class CppGenerator {
     return code;
   }
 
+  private generateTry(node: IRTry): string {
+    const indent = this.getIndent();
+    
+    // C++ has no finally: a guard declared ahead of the try runs it once the handlers are done,
+    // or as a return or an exception leaves the block
+    if (node.finallyBody) {
+      const guard = `finally_${this.finallyCount++}`;
+      const inner = node.handlers.length > 0 ? [{ ...node, finallyBody: undefined }] : node.body;
+      this.indent++;
+      let code = `${indent}{\n${this.getIndent()}auto ${guard} = on_exit([&] {\n`;
+      code += `${this.generateBlock(node.finallyBody)}${this.getIndent()}});\n`;
+      this.indent--;
+      return `${code}${this.generateBlock(inner)}${indent}}`;
+    }
+    
+    let code = `${indent}try {\n${this.generateBlock(node.body)}${indent}}`;
+    for (const handler of node.handlers) {
+      if (handler.name) this.exceptionNames.add(handler.name);
+      const body = this.generateBlock(handler.body);
+      if (handler.name) this.exceptionNames.delete(handler.name);
+      
+      // One catch clause per type, since C++ has no multi-catch
+      const types = [...new Set((handler.exceptionTypes.length > 0 ? handler.exceptionTypes : ['Exception']).map(t => this.mapExceptionType(t)))];
+      for (const type of types) {
+        const param = handler.name
+          ? `const ${type}& ${handler.name}`
+          : handler.exceptionTypes.length > 0 ? `const ${type}&` : '...';
+        code += ` catch (${param}) {\n${body}${indent}}`;
+      }
+      // Later handlers could never be reached
+      if (types.includes('exception')) break;
+    }
+    return code;
+  }
+
+  private generateThrow(node: IRThrow): string {
+    const indent = this.getIndent();
+    if (!node.exceptionType) return `${indent}throw;`;
+    
+    // std::exception takes no message, so raise the closest concrete type
+    const mapped = this.mapExceptionType(node.exceptionType);
+    const type = mapped === 'exception' ? 'runtime_error' : mapped;
+    const message = node.message ? this.generateExpression(node.message) : `"${node.exceptionType}"`;
+    return `${indent}throw ${type}(${message});`;
+  }
+
+  private mapExceptionType(exceptionType: string): string {
+    const typeMap: Record<string, string> = {
+      'Exception': 'exception',
+      'RuntimeError': 'runtime_error',
+      'ValueError': 'invalid_argument',
+      'ArgumentError': 'invalid_argument',
+      'ZeroDivisionError': 'domain_error',
+      'IndexError': 'out_of_range',
+      'KeyError': 'out_of_range',
+      'TypeError': 'runtime_error',
+    };
+    return typeMap[exceptionType] || 'exception';
+  }
+
+  private generateBlock(body: IRNode[]): string {
+    this.indent++;
+    let code = '';
+    for (const stmt of body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    this.indent--;
+    return code;
+  }
+
   private generateReturn(node: IRReturn): string {
     const indent = this.getIndent();
     if (node.value) {
-      return `${indent}return ${this.generateExpression(node.value)};`;
+      return `${indent}return ${this.generateValue(node.value, this.isOptional(this.currentReturnType))};`;
     }
     return `${indent}return;`;
   }
@@ -450,13 +1615,17 @@ export class CppGenerator {
   private generatePrint(node: IRPrint): string {
     const indent = this.getIndent();
     
+    const end = node.end ? ` << ${this.generateOperand(node.end, '<<', true)}` : node.newline ? ' << endl' : '';
     if (node.args.length === 0) {
-      return node.newline ? `${indent}cout << endl;` : '';
+      return end ? `${indent}cout${end};` : '';
     }
     
     let code = `${indent}cout`;
+    const separator = node.separator ? this.generateOperand(node.separator, '<<', true) : '" "';
     
-    for (const arg of node.args) {
+    for (const [i, arg] of node.args.entries()) {
+      if (i > 0 && separator !== '""') code += ` << ${separator}`;
+      const named = this.namedEnum(arg);
       if (isIRLiteral(arg) && arg.dataType === 'string') {
         // Parse f-string interpolation
         const parts = this.parseFString(String(arg.value));
@@ -467,17 +1636,20 @@ export class CppGenerator {
             code += ` << "${part.value}"`;
           }
         }
+      } else if (named) {
+        code += ` << ${named}_names[${this.generateEnumMethod({ type: 'enum_method', method: 'ordinal', enumName: named, object: arg })}]`;
+      } else if (isIREnumValue(arg) || (isIRIdentifier(arg) && this.enumVariables.has(arg.name))) {
+        code += ` << static_cast<int>(${this.generateExpression(arg)})`;
+      } else if ((isIRIdentifier(arg) && this.optionals.has(arg.name)) ||
+          (isIRCall(arg) && !arg.isMethod && this.isOptional(this.functions.get(arg.callee)?.returnType))) {
+        // cout prints an optional's value, not the optional
+        code += ` << *${this.generateExpression(arg)}`;
       } else {
-        code += ` << ${this.generateExpression(arg)}`;
+        code += ` << ${this.generateOperand(arg, '<<', true)}`;
       }
     }
     
-    if (node.newline) {
-      code += ' << endl';
-    }
-    
-    code += ';';
-    return code;
+    return `${code}${end};`;
   }
   
   private parseFString(str: string): { value: string; isVar: boolean }[] {
@@ -519,7 +1691,146 @@ export class CppGenerator {
   private generateAssignment(node: IRAssignment): string {
     const indent = this.getIndent();
     const target = node.target.replace('self.', 'this->');
-    return `${indent}${target} = ${this.generateExpression(node.value)};`;
+    return `${indent}${target} = ${this.generateValue(node.value, this.optionals.has(node.target))};`;
+  }
+
+  // New variables take structured bindings, existing ones are assigned through tie
+  private generateDestructure(node: IRDestructure): string {
+    const indent = this.getIndent();
+    const targets = node.targets.map(target => target.replace('self.', 'this->'));
+    if (node.isDeclaration) return `${indent}auto [${targets.join(', ')}] = ${this.generateExpression(node.value)};`;
+    // With only some targets new, the existing ones are bound under another name and assigned from it
+    if (node.declared) {
+      const existing = node.targets.filter(target => !node.declared!.includes(target));
+      const bindings = targets.map((target, i) => existing.includes(node.targets[i]) ? `${target.replace('this->', '')}_value` : target);
+      const lines = [`auto [${bindings.join(', ')}] = ${this.generateExpression(node.value)};`];
+      existing.forEach(target => lines.push(`${target.replace('self.', 'this->')} = ${target.replace('self.', '')}_value;`));
+      return lines.map(line => indent + line).join('\n');
+    }
+    if (this.isSwap(node)) return `${indent}swap(${targets.join(', ')});`;
+    return `${indent}tie(${targets.join(', ')}) = ${this.generateExpression(node.value)};`;
+  }
+
+  // a, b = b, a
+  private isSwap(node: IRDestructure): boolean {
+    if (node.targets.length !== 2 || !isIRTupleLiteral(node.value)) return false;
+    const [first, second] = node.value.elements;
+    return isIRIdentifier(first) && first.name === node.targets[1] && isIRIdentifier(second) && second.name === node.targets[0];
+  }
+
+  private generateTupleLiteral(node: IRTupleLiteral): string {
+    const elements = node.elements.map(e => this.generateExpression(e)).join(', ');
+    return node.elements.length === 2 ? `make_pair(${elements})` : `make_tuple(${elements})`;
+  }
+
+  private generateRemove(node: IRRemove): string {
+    const object = this.generateExpression(node.object);
+    const key = this.generateExpression(node.key);
+    if (isIRIdentifier(node.object) && this.vectors.has(node.object.name)) {
+      return `${this.getIndent()}${object}.erase(${object}.begin() + ${key});`;
+    }
+    return `${this.getIndent()}${object}.erase(${key});`;
+  }
+
+  private generateIndexAssignment(node: IRIndexAssignment): string {
+    const target = `${this.generateExpression(node.object)}[${this.generatePosition(node.object, node.index, node.wraps)}]`;
+    return `${this.getIndent()}${target} = ${this.generateExpression(node.value)};`;
+  }
+
+  // v[-k] counts from the end: v[v.size() - k]. Map keys are left alone
+  private generatePosition(object: IRNode, index: IRNode, wraps = false): string {
+    const offset = fromEnd(index);
+    if (isIRIdentifier(object) && this.maps.has(object.name)) return this.generateExpression(index);
+    if (!offset && wraps) return `wrap_index(${this.generateExpression(index)}, ${this.generateExpression(object)}.size())`;
+    if (!offset) return this.generateExpression(index);
+    const distance = this.generateExpression(offset);
+    return `${this.generateExpression(object)}.size() - ${isIRBinaryOp(offset) ? `(${distance})` : distance}`;
+  }
+
+  // Characters use <cctype> directly; strings go through the helpers above unless <string> has the method
+  private generateStringMethod(node: IRStringMethod): string {
+    const code = this.generateExpression(node.object);
+    const object = isIRBinaryOp(node.object) || isIRConditional(node.object) ? `(${code})` :
+                   isIRLiteral(node.object) ? `string(${code})` : code;
+    const args = node.args.map(arg => this.generateExpression(arg));
+    if (this.isChar(node.object)) {
+      if (node.method === 'upper' || node.method === 'lower') return `static_cast<char>(to${node.method}(${code}))`;
+      if (node.method === 'isdigit' || node.method === 'isalpha') return `static_cast<bool>(${node.method}(${code}))`;
+    }
+    switch (node.method) {
+      case 'find': return `static_cast<int>(${object}.find(${args[0]}))`;
+      case 'compare': return `${object}.compare(${args[0]})`;
+      case 'join': return `str_join(${code}, ${args[0]})`;
+      default: return `str_${node.method}(${[code, ...args].join(', ')})`;
+    }
+  }
+
+  // floor and ceil give doubles where Python's give ints, and rint rounds halves to even as round does.
+  // min and max deduce a single type, so a mix of ints and doubles compares as doubles, and more than
+  // two arguments go in an initializer list
+  private generateMathCall(node: IRMathCall): string {
+    const args = node.args.map(arg => this.generateExpression(arg));
+    if (node.func === 'floor' || node.func === 'ceil') return `static_cast<int>(${node.func}(${args[0]}))`;
+    if (node.func === 'round') return `static_cast<int>(rint(${args[0]}))`;
+    if (node.func === 'min' || node.func === 'max') {
+      const type = this.isFloat(node) ? '<double>' : '';
+      return args.length === 2 ? `${node.func}${type}(${args.join(', ')})` : `${node.func}${type}({${args.join(', ')}})`;
+    }
+    return `${node.func}(${args.join(', ')})`;
+  }
+
+  // As far as declarations and literals tell
+  private isFloat(node: IRNode): boolean {
+    if (isIRLiteral(node)) return isFloatType(node.dataType);
+    if (isIRIdentifier(node)) return this.floats.has(node.name);
+    if (isIRBinaryOp(node)) return node.operator === 'true_div' || isNegativePower(node) || this.isFloat(node.left) || this.isFloat(node.right);
+    if (node.type === 'unary_op') return this.isFloat((node as IRUnaryOp).operand);
+    if (isIRMathCall(node)) return mathFunctionType(node.func, node.args.map(arg => this.isFloat(arg) ? 'float' : 'int')) === 'float';
+    return isIRMathConstant(node);
+  }
+
+  private isString(node: IRNode): boolean {
+    if (isIRLiteral(node)) return node.dataType === 'string';
+    if (isIRIdentifier(node)) return this.strings.has(node.name);
+    if (isIRTupleIndex(node)) return flattenType(node.tupleType.elements[node.index]) === 'string';
+    return isIRStringMethod(node) && stringMethodType(node.method, this.isChar(node.object) ? 'char' : 'string') === 'string';
+  }
+
+  private isChar(node: IRNode): boolean {
+    if (isIRLiteral(node)) return node.dataType === 'char';
+    if (isIRIdentifier(node)) return this.chars.has(node.name);
+    if (isIRIndex(node)) return isIRIdentifier(node.object) && this.strings.has(node.object.name);
+    return isIRStringMethod(node) && (node.method === 'upper' || node.method === 'lower') && this.isChar(node.object);
+  }
+
+  // Slices with a step of 1 construct a string or vector from an iterator range, unless they
+  // take Python's bounds, which the helper clamps to the object
+  private generateSlice(node: IRSlice): string {
+    const object = this.generateExpression(node.object);
+    const isVector = isIRIdentifier(node.object) && this.vectors.has(node.object.name);
+    const type = isVector ? 'vector' : 'string';
+    if (this.reversesAll(node)) return `${type}(${object}.rbegin(), ${object}.rend())`;
+    if (this.slicesByHelper(node)) {
+      const bound = (part?: IRNode) => part ? this.generateExpression(part) : 'nullopt';
+      return `slice(${object}, ${bound(node.start)}, ${bound(node.end)}, ${node.step ? this.generateExpression(node.step) : '1'})`;
+    }
+    const iterator = (part: IRNode | undefined, fallback: string) => {
+      if (!part) return `${object}.${fallback}()`;
+      const offset = fromEnd(part);
+      const distance = this.generateExpression(offset || part);
+      const operand = isIRBinaryOp(offset || part) ? `(${distance})` : distance;
+      return offset ? `${object}.end() - ${operand}` : `${object}.begin() + ${operand}`;
+    };
+    return `${type}(${iterator(node.start, 'begin')}, ${iterator(node.end, 'end')})`;
+  }
+
+  private reversesAll(node: IRSlice): boolean {
+    return sliceStep(node) === -1 && !node.start && !node.end;
+  }
+
+  private slicesByHelper(node: IRSlice): boolean {
+    if (this.reversesAll(node)) return false;
+    return sliceStep(node) !== 1 || (!!node.clamps && (!!node.start || !!node.end));
   }
 
   private generateExpression(node: IRNode): string {
@@ -527,6 +1838,48 @@ export class CppGenerator {
     if (isIRIdentifier(node)) return this.generateIdentifier(node);
     if (isIRBinaryOp(node)) return this.generateBinaryOp(node);
     if (isIRCall(node)) return this.generateCall(node);
+    if (isIRSuperCall(node)) return this.generateSuperCall(node);
+    if (isIREnumValue(node)) return `${node.enumName}::${node.member}`;
+    if (isIREnumMethod(node)) return this.generateEnumMethod(node);
+    if (isIRAddressOf(node)) return `&${this.generateExpression(node.operand)}`;
+    if (isIRDereference(node)) return `*${this.generateExpression(node.operand)}`;
+    if (isIRAllocation(node)) return this.generateAllocation(node);
+    if (isIRConditional(node)) return this.generateConditional(node);
+    if (isIRCompoundAssignment(node)) return this.generateCompoundAssignment(node);
+    if (isIRArrayLiteral(node)) return this.generateArrayLiteral(node);
+    if (isIRLambda(node)) return this.generateLambda(node);
+    if (isIRFunctionRef(node)) return node.name;
+    if (isIRMapLiteral(node)) return this.generateMapLiteral(node);
+    if (isIRTupleLiteral(node)) return this.generateTupleLiteral(node);
+    // Tuples of two are pairs
+    if (isIRTupleIndex(node)) {
+      const object = this.generateExpression(node.object);
+      return node.tupleType.elements.length === 2 ? `${object}.${node.index === 0 ? 'first' : 'second'}` : `get<${node.index}>(${object})`;
+    }
+    if (isIRFieldAccess(node)) {
+      // Class instances are pointers, structs values
+      const object = this.generateExpression(node.object);
+      const isInstance = [...this.classes.values()].some(cls => cls.members.some(m => m.name === node.field));
+      return `${isIRDereference(node.object) ? `(${object})` : object}${node.isPointer || isInstance ? '->' : '.'}${node.field}`;
+    }
+    if (isIRIndex(node)) {
+      const object = this.generateExpression(node.object);
+      const index = this.generateExpression(node.index);
+      if (node.defaultValue) {
+        return `(${object}.count(${index}) ? ${object}[${index}] : ${this.generateExpression(node.defaultValue)})`;
+      }
+      return `${object}[${this.generatePosition(node.object, node.index, node.wraps)}]`;
+    }
+    if (isIRSlice(node)) return this.generateSlice(node);
+    if (isIRStringMethod(node)) return this.generateStringMethod(node);
+    if (isIRMathCall(node)) return this.generateMathCall(node);
+    if (isIRMathConstant(node)) return node.name === 'pi' ? 'M_PI' : 'M_E';
+    if (isIRLength(node)) {
+      // A string literal is a char array until it's made a string
+      const object = this.generateExpression(node.object);
+      return isIRLiteral(node.object) && node.object.dataType === 'string' ? `string(${object}).size()` : `${object}.size()`;
+    }
+    if (isIRContains(node)) return this.generateContains(node.object, node.key);
     if (isIRInput(node)) {
       // Input as expression - cin placeholder for assignment
       const input = node as IRInput;
@@ -537,7 +1890,11 @@ export class CppGenerator {
     }
     if (node.type === 'unary_op') {
       const unary = node as IRUnaryOp;
-      const operand = this.generateExpression(unary.operand);
+      // Every binary operator binds looser than a unary one, except those emitted as calls
+      const binary = isIRBinaryOp(unary.operand) && (C_PRECEDENCE[unary.operand.operator] ?? 0) <= C_PRECEDENCE['*'];
+      const operand = binary || isIRConditional(unary.operand)
+        ? `(${this.generateExpression(unary.operand)})`
+        : this.generateExpression(unary.operand);
       if (unary.operator === '++_post') return `${operand}++`;
       if (unary.operator === '--_post') return `${operand}--`;
       return `${unary.operator}${operand}`;
@@ -545,6 +1902,29 @@ export class CppGenerator {
     return '';
   }
 
+  private generateArrayLiteral(node: IRArrayLiteral): string {
+    if (node.size) {
+      const fill = node.fill ? `, ${this.generateExpression(node.fill)}` : '';
+      return `${this.mapType(sizedListType(node))}(${this.generateExpression(node.size)}${fill})`;
+    }
+    return `{${node.elements.map(e => this.generateExpression(e)).join(', ')}}`;
+  }
+
+  private generateMapLiteral(node: IRMapLiteral): string {
+    const entries = node.entries.map(e => `{${this.generateExpression(e.key)}, ${this.generateExpression(e.value)}}`);
+    return `{${entries.join(', ')}}`;
+  }
+
+  private generateContains(object: IRNode, key: IRNode): string {
+    const target = this.generateExpression(object);
+    const value = this.generateExpression(key);
+    if (isIRIdentifier(object) && this.maps.has(object.name)) return `${target}.count(${value})`;
+    if (isIRIdentifier(object) && this.vectors.has(object.name)) {
+      return `(find(${target}.begin(), ${target}.end(), ${value}) != ${target}.end())`;
+    }
+    return `(${target}.find(${value}) != string::npos)`;
+  }
+
   private generateLiteral(node: IRLiteral): string {
     if (node.dataType === 'string') {
       return `"${node.value}"`;
@@ -556,40 +1936,169 @@ export class CppGenerator {
       return node.value ? 'true' : 'false';
     }
     if (node.value === 'null') return 'nullptr';
+    // 3.0 has to stay a double for overload resolution to pick the same function
+    if (node.dataType === 'float' && typeof node.value === 'number' && Number.isInteger(node.value)) return `${node.value}.0`;
     return String(node.value);
   }
 
   private generateIdentifier(node: IRIdentifier): string {
     if (node.name === 'this' || node.name === 'self') return 'this';
+    if (this.exceptionNames.has(node.name)) return `${node.name}.what()`;
     if (node.name.startsWith('self.')) return node.name.replace('self.', 'this->');
+    const [object, ...fields] = node.name.split('.');
+    if (fields.length > 0 && this.structs.has(this.structVariables.get(object) || '')) return this.structPath(object, fields);
+    if (fields.length > 0 && this.objects.has(object)) return `${object}->${fields.join('.')}`;
     return node.name;
   }
 
+  // p.next.value: past the variable, each field declared as a pointer is followed with ->
+  private structPath(object: string, fields: string[]): string {
+    let code = object;
+    let arrow = this.objects.has(object);
+    let struct = this.structs.get(this.structVariables.get(object) || '');
+    for (const field of fields) {
+      code += `${arrow ? '->' : '.'}${field}`;
+      const member = struct?.members.find(m => m.name === field);
+      arrow = !!member?.isPointer;
+      struct = this.structs.get(member ? classNameOf(member.dataType) || '' : '');
+    }
+    return code;
+  }
+
   private generateBinaryOp(node: IRBinaryOp): string {
-    const left = this.generateExpression(node.left);
-    const right = this.generateExpression(node.right);
+    // what() is a C string, which cannot be concatenated with +; an optional's value is used
+    // past its comparisons with nullopt
+    const operand = (n: IRNode) => node.operator === '+' && isIRIdentifier(n) && this.exceptionNames.has(n.name)
+      ? `string(${this.generateExpression(n)})`
+      : isIRIdentifier(n) && this.optionals.has(n.name) && !['==', '!='].includes(node.operator)
+        ? `*${n.name}`
+        : this.generateOperand(n, node.operator, n === node.right);
+    const fn = ARITHMETIC_FUNCTIONS[node.operator];
+    // A negative power is fractional, so the base goes in as a double
+    const base = isNegativePower(node) ? `static_cast<double>(${this.generateExpression(node.left)})` : this.generateExpression(node.left);
+    const checked = this.checksDivisors && needsDivisorCheck(node, !this.isFloat(node));
+    const divisor = checked ? `check_divisor(${this.generateExpression(node.right)})` : this.generateExpression(node.right);
+    if (fn) return `${fn}(${base}, ${divisor})`;
+    const left = operand(node.left);
+    const right = checked ? divisor : operand(node.right);
+    // An optional compares with nullopt
+    const isOptional = (n: IRNode) => isIRIdentifier(n) && this.optionals.has(n.name);
+    if (['==', '!='].includes(node.operator) && (isOptional(node.left) || isOptional(node.right))) {
+      const isNull = (n: IRNode) => isIRLiteral(n) && n.value === 'null';
+      return `${isNull(node.left) ? 'nullopt' : left} ${node.operator} ${isNull(node.right) ? 'nullopt' : right}`;
+    }
+    // Two string literals would compare as pointers
+    const isText = (n: IRNode) => isIRLiteral(n) && n.dataType === 'string';
+    if (['==', '!=', '<', '>', '<=', '>='].includes(node.operator) && isText(node.left) && isText(node.right)) {
+      return `string(${left}) ${node.operator} ${right}`;
+    }
+    if (node.operator === 'true_div') return `static_cast<double>(${this.generateExpression(node.left)}) / ${right}`;
+    // C++ has no unsigned shift operator, the cast makes >> fill with zeros
+    if (node.operator === '>>>') return `static_cast<unsigned int>(${this.generateExpression(node.left)}) >> ${right}`;
     return `${left} ${node.operator} ${right}`;
   }
 
+  // Maps and strings support every compound operator C++ has, so only >>>= and Python's
+  // division, modulo and power need spelling out
+  private generateCompoundAssignment(node: IRCompoundAssignment): string {
+    const target = this.generateExpression(node.target);
+    if (ARITHMETIC_FUNCTIONS[node.operator] || node.operator === 'true_div') {
+      return `${target} = ${this.generateBinaryOp({ type: 'binary_op', operator: node.operator, left: node.target, right: node.value })}`;
+    }
+    const value = this.generateExpression(node.value);
+    if (node.operator === '>>>') return `${target} = static_cast<unsigned int>(${target}) >> ${value}`;
+    return `${target} ${node.operator}= ${value}`;
+  }
+
+  // Parenthesizes operands that bind looser than their operator, or as loosely on the right
+  private generateOperand(node: IRNode, operator: string, isRight = false): string {
+    return operandCode(node, this.generateExpression(node), operator, isRight);
+  }
+
+  // Only a chain through the else branch reads clearly without parentheses
+  private generateConditional(node: IRConditional): string {
+    const wrap = (value: IRNode) => isIRConditional(value) ? `(${this.generateExpression(value)})` : this.generateExpression(value);
+    return `${wrap(node.condition)} ? ${wrap(node.thenValue)} : ${this.generateExpression(node.elseValue)}`;
+  }
+
   private generateCall(node: IRCall): string {
-    const args = node.args.map(arg => this.generateExpression(arg)).join(', ');
+    // Keyword arguments take their parameter's place; defaults after the last one are left to the callee.
+    // A template would deduce const char* from a string literal, compared by address
+    const generic = !node.isMethod && !!this.functions.get(node.callee)?.typeParams;
+    const args = bindArguments(node, this.calleeParams(node), false).map(arg => generic && isIRLiteral(arg) && arg.dataType === 'string'
+      ? `string(${this.generateExpression(arg)})` : this.generateExpression(arg)).join(', ');
     
-    // Type conversion
-    if (node.callee === 'int') return `static_cast<int>(${args})`;
-    if (node.callee === 'float') return `static_cast<float>(${args})`;
+    // Type conversion; strings are parsed, and stoi throws invalid_argument as Python's int raises ValueError
+    const isString = node.args.length === 1 && this.isString(node.args[0]);
+    if (node.callee === 'int') return isString ? `stoi(${args})` : `static_cast<int>(${args})`;
+    if (node.callee === 'float') return isString ? `stof(${args})` : `static_cast<float>(${args})`;
     if (node.callee === 'str') return `to_string(${args})`;
+    if (node.callee === 'next' && node.args.length === 1 && !node.isMethod) return `${args}.next()`;
+    
+    if (node.isMethod && node.object && this.vectors.has(node.object)) {
+      const method = node.callee === 'append' ? 'push_back' : node.callee === 'add' ? 'insert' : node.callee;
+      return `${node.object}.${method}(${args})`;
+    }
     
     if (node.isMethod && node.object) {
       const obj = node.object === 'self' ? 'this' : node.object;
       return `${obj}->${node.callee}(${args})`;
     }
+    if (node.isMethod && node.receiver) {
+      const receiver = this.generateExpression(node.receiver);
+      if (this.calleeParams(node)) return `${receiver}->${node.callee}(${args})`;
+      const method = node.callee === 'append' ? 'push_back' : node.callee === 'add' ? 'insert' : node.callee;
+      return `${receiver}.${method}(${args})`;
+    }
     
+    if (this.structs.has(node.callee)) return `${node.callee}${this.generateStructValue(node)}`;
+    // Instances are held by pointer wherever they go: variables, containers, arguments and returns
+    if (this.classes.has(node.callee)) return `new ${node.callee}(${args})`;
+    if (STD_TEMPLATES.has(node.callee) && this.functions.has(node.callee)) return `::${node.callee}(${args})`;
     return `${node.callee}(${args})`;
   }
 
-  private mapType(type: DataType, isParam = false): string {
+  // Parameters of the function, constructor or method a call goes to
+  private calleeParams(node: IRCall): IRVariable[] | undefined {
+    if (node.isMethod) return [...this.classes.values()].flatMap(cls => cls.methods).find(m => m.name === node.callee)?.params;
+    const cls = this.classes.get(node.callee);
+    return cls ? this.effectiveConstructor(cls)?.params : this.functions.get(node.callee)?.params;
+  }
+
+  private generateSuperCall(node: IRSuperCall): string {
+    const args = node.args.map(arg => this.generateExpression(arg)).join(', ');
+    const base = this.currentClass?.superclass || 'Base';
+    return `${base}::${node.method || base}(${args})`;
+  }
+
+  private mapType(type: PrimitiveType | IRType, isParam = false): string {
+    if (typeof type === 'object') {
+      switch (type.kind) {
+        case 'primitive': return this.mapType(type.name, isParam);
+        case 'array': return `${type.isSet ? 'set' : 'vector'}<${this.mapType(type.element)}>`;
+        case 'map': return `map<${this.mapType(type.key)}, ${this.mapType(type.value)}>`;
+        case 'class': {
+          const name = type.args ? `${type.name}<${type.args.map(arg => this.mapType(arg)).join(', ')}>` : type.name;
+          return this.structs.has(type.name) ? name : `${name}*`;
+        }
+        case 'enum':
+        case 'type_param': return type.name;
+        // Instances are pointers already, which can hold nullptr
+        case 'nullable': return type.inner.kind === 'class' ? this.mapType(type.inner) : `optional<${this.mapType(type.inner)}>`;
+        case 'function': return `function<${this.mapType(type.returns)}(${type.params.map(p => this.mapType(p)).join(', ')})>`;
+        case 'tuple': {
+          const elements = type.elements.map(e => this.mapType(e)).join(', ');
+          return type.elements.length === 2 ? `pair<${elements}>` : `tuple<${elements}>`;
+        }
+      }
+    }
+    // long may be 32 bits in C, long long is 64 like Java's
     const typeMap: Record<string, string> = {
       'int': 'int',
+      'long': 'long long',
+      'short': 'short',
+      'byte': 'signed char',
+      'unsigned': 'unsigned int',
       'float': 'float',
       'double': 'double',
       'char': 'char',
@@ -601,7 +2110,18 @@ export class CppGenerator {
     return typeMap[type] || 'int';
   }
 
-  private getDefaultValue(type: DataType): string {
+  // template <typename T> on the line before a generic function or class
+  private templatePrefix(typeParams: IRTypeParam[] | undefined, indent: string): string {
+    return typeParams ? `${indent}template <${typeParams.map(param => `typename ${param.name}`).join(', ')}>\n` : '';
+  }
+
+  // Instances of classes are held through pointers already
+  private pointerType(type: IRType): string {
+    const name = this.mapType(type);
+    return name.endsWith('*') ? name : `${name}*`;
+  }
+
+  private getDefaultValue(type: PrimitiveType): string {
     switch (type) {
       case 'int': return '0';
       case 'float':
@@ -7,6 +7,7 @@ import {
   IRIf,
   IRFor,
   IRWhile,
+  IRDoWhile,
   IRSwitch,
   IRReturn,
   IRPrint,
@@ -18,13 +19,39 @@ import {
   IRIdentifier,
   IRComment,
   IRAssignment,
-  DataType,
+  IRArrayLiteral,
+  IRIndexAssignment,
+  IRLength,
+  IRSlice,
+  IRStringMethod,
+  IRMathCall,
+  IRMapLiteral,
+  IRRemove,
+  IRForEach,
+  IRBreak,
+  IRContinue,
+  IRTry,
+  IRThrow,
+  IREnum,
+  IREnumMethod,
+  IRConditional,
+  IRCompoundAssignment,
+  IRTupleLiteral,
+  IRDestructure,
+  IRSuperCall,
+  IRLambda,
+  IRComprehension,
+  IRComprehensionClause,
+  PrimitiveType,
+  IRType,
+  IRTypeParam,
   isIRVariable,
   isIRFunction,
   isIRClass,
   isIRIf,
   isIRFor,
   isIRWhile,
+  isIRDoWhile,
   isIRSwitch,
   isIRReturn,
   isIRPrint,
@@ -35,98 +62,301 @@ import {
   isIRIdentifier,
   isIRComment,
   isIRAssignment,
+  isIRArrayLiteral,
+  sizedListType,
+  isIRIndex,
+  isIRFieldAccess,
+  isIRSlice,
+  isIRStringMethod,
+  isIRMathCall,
+  isIRMathConstant,
+  mathFunctionType,
+  fromEnd,
+  sliceStep,
+  isIRIndexAssignment,
+  isIRLength,
+  isIRMapLiteral,
+  isIRContains,
+  isIRRemove,
+  isIRForEach,
+  isIRBreak,
+  isIRContinue,
+  isIRTry,
+  isIRThrow,
+  isIRSuperCall,
+  isIREnum,
+  isIREnumValue,
+  isIREnumMethod,
+  isIRAddressOf,
+  isIRDereference,
+  isIRAllocation,
+  isIRFree,
+  isIRConditional,
+  isIRCompoundAssignment,
+  isIRTupleLiteral,
+  isIRTupleIndex,
+  isIRDestructure,
+  isIRLambda,
+  isIRFunctionRef,
+  isIRComprehension,
+  bindArguments,
+  enumValues,
+  lambdaExpression,
+  lambdaCaptures,
+  isNegativePower,
+  flattenType,
+  keyTypeOf,
+  classNameOf,
+  isArrayType,
+  isAutoType,
+  isListType,
+  isSetType,
+  isMapType,
+  primitiveType,
+  findMethod,
+  C_PRECEDENCE,
+  operandCode,
+  visitIR,
+  someIR,
+  mapIR,
 } from '../ir';
+import { lowerGenerator, generatorName } from '../transforms/generators';
+import { lowerComprehensions, isAggregate } from '../transforms/comprehensions';
+
+// Java sources keep their static main and helper methods on the parsed class
+type WrapperClass = IRClass & { mainMethod?: IRFunction; staticMethods?: IRFunction[] };
+
+const ARITHMETIC_FUNCTIONS: Record<string, string> = { 'floor_div': 'floorDiv', 'floor_mod': 'floorMod', 'pow': 'power' };
+
+// Tuples become generic records named by arity: Pair<A, B>(A first, B second)
+const TUPLE_FIELDS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth'];
+
+export interface JavaGeneratorOptions {
+  // Comprehensions become stream pipelines instead of loops
+  streams?: boolean;
+}
 
 export class JavaGenerator {
   private indent = 0;
   private indentStr = '    ';
   private usesScanner = false;
+  private usesArrayList = false;
+  private usesArrays = false;
+  private usesCollections = false;
+  private usesLinkedHashMap = false;
+  private usesHashSet = false;
+  private usesMapInterface = false;
+  private usesNoSuchElement = false;
+  private usesIterator = false;
+  private usesPattern = false;
+  // Interfaces from java.util.function that declared function types map to
+  private functionInterfaces = new Set<string>();
+  private lists = new Set<string>();
+  private arrays = new Map<string, IRVariable>();
+  // The rows of lists and arrays whose items are lists or arrays themselves
+  private rows = new Map<string, IRType>();
+  private strings = new Set<string>();
+  private chars = new Set<string>();
+  private doubles = new Set<string>();
+  // Values of a type parameter, ordered through compareTo, and the type parameters so compared
+  private generics = new Map<string, string>();
+  private comparables = new Set<string>();
+  private maps = new Map<string, IRVariable>();
+  // Set while writing a Double map value, whose float literals are written as doubles
+  private doubleLiterals = false;
   private className = 'Main';
   private isInsideVoidMain = false;
+  // Catch parameters in scope, innermost last; the IR uses them for the exception message
+  private exceptionNames: string[] = [];
+  private classes = new Map<string, IRClass>();
+  private enumTypes = new Map<string, IREnum>();
+  // Variables holding an enum constant, by enum, printed as their source language prints them
+  private enumVariables = new Map<string, string>();
+  // Structs whose fields are never written become records, read through accessors
+  private structs = new Map<string, IRClass>();
+  private records = new Set<string>();
+  private structVariables = new Map<string, string>();
+  // Struct values, which C copies on assignment, and the structs so copied, built by a copy constructor
+  private structValues = new Set<string>();
+  private copiedStructs = new Set<string>();
+  // Java has no pointers: parameters a function writes through are passed in
+  // one-element arrays, copied back after the call
+  private functions = new Map<string, IRFunction>();
+  private outParams = new Map<string, number[]>();
+  private holders = new Set<string>();
+  private holderNames = new Set<string>();
+  // Locals declared without a value, which Java won't read until they are assigned
+  private unassigned = new Set<string>();
+  // Variables and parameters holding functions, called through their interface's method
+  private functionValues = new Map<string, Extract<IRType, { kind: 'function' }>>();
+  // Statements emitted around the statement being generated
+  private before: string[] = [];
+  private after: string[] = [];
+  // Python's floor division, floor modulo and power, emitted as int and double overloads when used
+  private arithmeticHelpers = new Set<string>();
+  // Slices with a step, keyed by the type sliced: String, ArrayList or an array's element type
+  private sliceHelpers = new Set<string>();
+  // Python indexes that may be negative when the program runs go through wrapIndex
+  private usesWrapIndex = false;
+  private tupleArities = new Set<number>();
+  private useStreams = false;
+  private usesCollectors = false;
+  private usesIntStream = false;
 
-  generate(ir: IRProgram, className = 'Main'): string {
+  generate(ir: IRProgram, className = 'Main', options: JavaGeneratorOptions = {}): string {
+    this.useStreams = !!options.streams;
+    // Pipelines can't give names to both halves of a map entry, so those comprehensions are always loops
+    ir = lowerComprehensions(ir, true, node => this.useStreams && !node.clauses.some(clause => clause.valueIterator));
+    ir = this.renameDiscards(ir);
     this.indent = 0;
     this.usesScanner = false;
+    this.usesArrayList = false;
+    this.usesArrays = false;
+    this.usesCollections = false;
+    this.usesLinkedHashMap = false;
+    this.usesHashSet = false;
+    this.usesMapInterface = false;
+    this.usesNoSuchElement = false;
+    this.usesIterator = false;
+    this.usesPattern = false;
+    this.functionInterfaces = new Set();
+    this.lists = new Set();
+    this.rows = new Map();
+    this.arrays = new Map();
+    this.strings = new Set();
+    this.chars = new Set();
+    this.doubles = new Set();
+    this.maps = new Map();
     this.className = className;
     this.isInsideVoidMain = false;
+    this.exceptionNames = [];
+    this.classes = new Map();
+    this.enumTypes = new Map();
+    this.enumVariables = new Map();
+    this.structs = new Map();
+    this.records = new Set();
+    this.structVariables = new Map();
+    this.structValues = new Set();
+    this.copiedStructs = new Set();
+    this.functions = new Map();
+    this.outParams = new Map();
+    this.holders = new Set();
+    this.holderNames = new Set();
+    this.unassigned = new Set();
+    this.functionValues = new Map();
+    this.before = [];
+    this.after = [];
+    this.arithmeticHelpers = new Set();
+    this.sliceHelpers = new Set();
+    this.usesWrapIndex = false;
+    this.tupleArities = new Set();
+    this.usesCollectors = false;
+    this.usesIntStream = false;
     
     this.analyzeProgram(ir);
     
     const lines: string[] = [];
     
     // Imports
+    if (this.usesScanner) lines.push('import java.util.Scanner;');
+    if (this.usesArrayList) lines.push('import java.util.ArrayList;');
+    if (this.usesArrays) lines.push('import java.util.Arrays;');
+    if (this.usesCollections) lines.push('import java.util.Collections;');
+    if (this.usesHashSet) lines.push('import java.util.HashSet;');
+    if (this.usesIterator) lines.push('import java.util.Iterator;');
+    if (this.usesLinkedHashMap) lines.push('import java.util.LinkedHashMap;');
+    if (this.usesMapInterface) lines.push('import java.util.Map;');
+    if (this.usesNoSuchElement) lines.push('import java.util.NoSuchElementException;');
+    for (const name of [...this.functionInterfaces].sort()) lines.push(`import java.util.function.${name};`);
+    if (this.usesCollectors) lines.push('import java.util.stream.Collectors;');
+    if (this.usesIntStream) lines.push('import java.util.stream.IntStream;');
+    if (this.usesPattern) lines.push('import java.util.regex.Pattern;');
+    if (lines.length > 0) lines.push('');
+    
+    // Everything is wrapped in the Main class; user classes nest inside it as static classes
+    lines.push(`public class ${this.className} {`);
+    this.indent++;
+    
+    // Scanner if needed
     if (this.usesScanner) {
-      lines.push('import java.util.Scanner;');
+      lines.push(`${this.getIndent()}static Scanner scanner = new Scanner(System.in);`);
       lines.push('');
     }
     
-    // Check if there's a class definition
-    const hasClass = ir.body.some(n => isIRClass(n));
+    for (const node of ir.body) {
+      if (!isIREnum(node)) continue;
+      lines.push(this.generateEnum(node));
+      lines.push('');
+    }
     
-    if (hasClass) {
-      // Generate classes directly
-      for (const node of ir.body) {
-        const code = this.generateNode(node);
-        if (code) lines.push(code);
-      }
-    } else {
-      // Wrap in Main class
-      lines.push(`public class ${this.className} {`);
-      this.indent++;
-      
-      // Scanner if needed
-      if (this.usesScanner) {
-        lines.push(`${this.getIndent()}static Scanner scanner = new Scanner(System.in);`);
-        lines.push('');
-      }
-      
-      // Generate functions and main content
-      const functions = ir.body.filter(n => isIRFunction(n));
-      const mainContent = ir.body.filter(n => !isIRFunction(n));
-      
-      // Generate functions
-      for (const func of functions) {
-        const funcNode = func as IRFunction;
-        if (funcNode.name === 'main') {
-          // Generate main method
-          this.isInsideVoidMain = true;
-          lines.push(`${this.getIndent()}public static void main(String[] args) {`);
-          this.indent++;
-          for (const stmt of funcNode.body) {
-            // Skip return 0 in void main
-            if (this.shouldSkipReturnInMain(stmt)) continue;
-            const code = this.generateNode(stmt);
-            if (code) lines.push(code);
-          }
-          this.indent--;
-          lines.push(`${this.getIndent()}}`);
-          this.isInsideVoidMain = false;
-        } else {
-          const code = this.generateFunction(funcNode, true);
-          if (code) lines.push(code);
-        }
-      }
-      
-      // If no main function, generate one with remaining content
-      if (!functions.some(f => (f as IRFunction).name === 'main') && mainContent.length > 0) {
+    for (const arity of [...this.tupleArities].sort()) {
+      lines.push(this.generateTupleRecord(arity));
+      lines.push('');
+    }
+    
+    const classes = ir.body.filter((n): n is WrapperClass => isIRClass(n));
+    const wrapper = classes.find(c => c.name === this.className || c.mainMethod);
+    for (const cls of classes) {
+      if (cls === wrapper) continue;
+      lines.push(this.generateClass(cls));
+      lines.push('');
+    }
+    if (wrapper && (wrapper.members.length > 0 || wrapper.methods.length > 0 || wrapper.constructor)) {
+      lines.push(this.generateClassBody(wrapper));
+    }
+    
+    // Generate functions and main content
+    const functions: IRNode[] = ir.body.filter(n => isIRFunction(n));
+    if (wrapper?.staticMethods) functions.push(...wrapper.staticMethods);
+    if (wrapper?.mainMethod) functions.push(wrapper.mainMethod);
+    const mainContent = ir.body.filter(n => !isIRFunction(n) && !isIRClass(n) && !isIREnum(n));
+    
+    // Generate functions
+    for (const func of functions) {
+      const funcNode = func as IRFunction;
+      if (funcNode.name === 'main') {
+        // Generate main method
         this.isInsideVoidMain = true;
         lines.push(`${this.getIndent()}public static void main(String[] args) {`);
         this.indent++;
-        for (const node of mainContent) {
+        for (const stmt of funcNode.body) {
           // Skip return 0 in void main
-          if (this.shouldSkipReturnInMain(node)) continue;
-          const code = this.generateNode(node);
+          if (this.shouldSkipReturnInMain(stmt)) continue;
+          const code = this.generateNode(stmt);
           if (code) lines.push(code);
         }
         this.indent--;
         lines.push(`${this.getIndent()}}`);
         this.isInsideVoidMain = false;
+      } else {
+        const code = this.generateFunction(funcNode, true);
+        if (code) lines.push(code);
+      }
+    }
+    
+    // If no main function, generate one with remaining content
+    if (!functions.some(f => (f as IRFunction).name === 'main') && mainContent.length > 0) {
+      this.isInsideVoidMain = true;
+      lines.push(`${this.getIndent()}public static void main(String[] args) {`);
+      this.indent++;
+      for (const node of mainContent) {
+        // Skip return 0 in void main
+        if (this.shouldSkipReturnInMain(node)) continue;
+        const code = this.generateNode(node);
+        if (code) lines.push(code);
       }
-      
       this.indent--;
-      lines.push('}');
+      lines.push(`${this.getIndent()}}`);
+      this.isInsideVoidMain = false;
     }
     
+    if (this.arithmeticHelpers.size > 0) lines.push(this.generateArithmeticHelpers());
+    if (this.sliceHelpers.size > 0) lines.push(this.generateSliceHelpers());
+    if (this.usesWrapIndex) lines.push(this.generateWrapIndexHelper());
+    
+    this.indent--;
+    lines.push('}');
+    
     return lines.join('\n');
   }
   
@@ -145,20 +375,393 @@ export class JavaGenerator {
   private analyzeProgram(ir: IRProgram): void {
     const analyze = (node: IRNode) => {
       if (isIRInput(node)) this.usesScanner = true;
-      if (isIRFunction(node)) node.body.forEach(analyze);
+      if (isIRVariable(node) && isArrayType(node.dataType)) this.analyzeArray(node);
+      const scalar = isIRVariable(node) && !isArrayType(node.dataType) && !isMapType(node.dataType) ? flattenType(node.dataType) : undefined;
+      if (isIRVariable(node) && scalar === 'string') this.strings.add(node.name);
+      if (isIRVariable(node) && scalar === 'char') this.chars.add(node.name);
+      if (isIRFor(node) && node.iterator && node.iteratorType && flattenType(node.iteratorType) === 'char') this.chars.add(node.iterator);
+      if (isIRVariable(node) && scalar === 'double') this.doubles.add(node.name);
+      if (isIRVariable(node) && node.dataType.kind === 'type_param') this.generics.set(node.name, node.dataType.name);
+      if (isIRFor(node) && node.iterator && node.iteratorType?.kind === 'type_param') this.generics.set(node.iterator, node.iteratorType.name);
+      if (isIRVariable(node) && classNameOf(node.dataType)) this.structVariables.set(node.name, classNameOf(node.dataType)!);
+      if (isIRVariable(node) && !node.isPointer && !node.isReference && this.structs.has(classNameOf(node.dataType) || '')) this.structValues.add(node.name);
+      const copy = isIRVariable(node) ? { target: node.name, value: node.value } : isIRAssignment(node) ? node : undefined;
+      if (copy?.value && this.copiesStruct(copy.target, copy.value)) this.copiedStructs.add(this.structVariables.get(copy.target)!);
+      if (isIRVariable(node) && node.dataType.kind === 'function') this.functionValues.set(node.name, node.dataType);
+      if (isIRVariable(node) && isMapType(node.dataType)) {
+        this.maps.set(node.name, node);
+        this.usesLinkedHashMap = true;
+      }
+      if (isIRForEach(node)) {
+        if (node.valueIterator) this.usesMapInterface = true;
+        node.body.forEach(analyze);
+      }
+      if (isIRFunction(node)) {
+        if (node.isGenerator) {
+          this.usesIterator = true;
+          this.usesNoSuchElement = true;
+        }
+        node.params.forEach(analyze);
+        node.body.forEach(analyze);
+        this.functions.set(node.name, node);
+        const outs = node.params
+          .map((p, i) => (p.isPointer || p.isReference) && !classNameOf(p.dataType) && this.writes(p.name, node.body) ? i : -1)
+          .filter(i => i >= 0);
+        if (outs.length > 0) this.outParams.set(node.name, outs);
+      }
+      if (isIRClass(node) && node.isStruct) this.structs.set(node.name, node);
+      if (isIREnum(node)) this.enumTypes.set(node.name, node);
       if (isIRClass(node)) {
+        this.classes.set(node.name, node);
+        node.members.forEach(analyze);
         node.methods.forEach(analyze);
         if (node.constructor) node.constructor.body.forEach(analyze);
+        const { mainMethod, staticMethods } = node as WrapperClass;
+        if (mainMethod) analyze(mainMethod);
+        staticMethods?.forEach(analyze);
       }
       if (isIRIf(node)) {
         node.thenBranch.forEach(analyze);
         node.elseBranch?.forEach(analyze);
       }
-      if (isIRFor(node) || isIRWhile(node)) {
+      if (isIRFor(node) || isIRWhile(node) || isIRDoWhile(node)) {
+        node.body.forEach(analyze);
+      }
+      if (isIRTry(node)) {
         node.body.forEach(analyze);
+        node.handlers.forEach(handler => handler.body.forEach(analyze));
+        node.finallyBody?.forEach(analyze);
       }
     };
     ir.body.forEach(analyze);
+    if (this.hasArraySearch(ir.body)) this.usesArrays = true;
+    if (this.hasExceptionType(ir.body, 'KeyError')) this.usesNoSuchElement = true;
+    
+    this.collectArithmetic(ir.body);
+    this.collectDeclaredTypes(ir.body);
+    this.collectTuples(ir.body);
+    this.collectStreams(ir.body);
+    this.collectSlices(ir.body);
+    this.collectStringMethods(ir.body);
+    this.collectRowLiterals(ir.body);
+    
+    const written = new Set<string>();
+    this.collectFieldWrites(ir.body, written);
+    for (const struct of this.structs.values()) {
+      if (!struct.members.some(m => written.has(m.name))) this.records.add(struct.name);
+    }
+  }
+
+  private collectDeclaredTypes(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRVariable(node)) this.noteType(node.dataType);
+      if (isIRFunction(node) || isIRLambda(node)) this.noteType(node.returnType);
+    });
+  }
+
+  // Imports needed by a structured type
+  private noteType(type: IRType): void {
+    switch (type.kind) {
+      case 'array':
+        if (type.isList) this.usesArrayList = true;
+        if (type.isSet) this.usesHashSet = true;
+        this.noteType(type.element);
+        break;
+      case 'map':
+        this.usesLinkedHashMap = true;
+        this.noteType(type.key);
+        this.noteType(type.value);
+        break;
+      case 'class':
+        type.args?.forEach(arg => this.noteType(arg));
+        break;
+      case 'nullable':
+        this.noteType(type.inner);
+        break;
+      case 'function':
+        this.mapFunctionType(type);
+        type.params.forEach(p => this.noteType(p));
+        this.noteType(type.returns);
+        break;
+      case 'tuple':
+        this.tupleArities.add(type.elements.length);
+        type.elements.forEach(e => this.noteType(e));
+        break;
+    }
+  }
+
+  // Imports needed by the stream pipelines of the comprehensions kept for them
+  private collectStreams(value: unknown): void {
+    visitIR(value, node => {
+      // sum(), any() and all() end their pipeline without collecting it
+      const comprehension = isAggregate(node) ? node.args[0] : isIRComprehension(node) ? node : undefined;
+      if (!comprehension) return;
+      if (comprehension === node) this.usesCollectors = true;
+      if (comprehension === node && (comprehension.kind === 'list' || comprehension.kind === 'generator')) this.usesArrayList = true;
+      if (comprehension.kind === 'set') this.usesHashSet = true;
+      if (comprehension.kind === 'dict') {
+        this.usesLinkedHashMap = true;
+        this.usesMapInterface = true;
+      }
+      for (const { iterable } of comprehension.clauses) {
+        if (iterable && isIRCall(iterable) && iterable.callee === 'range') this.usesIntStream = true;
+        if (iterable && isIRIdentifier(iterable) && this.arrays.has(iterable.name)) this.usesArrays = true;
+      }
+      if (comprehension === node) return;
+      this.collectStreams(Object.values(comprehension));
+      return false;
+    });
+  }
+
+  // Slices with a step other than 1 go through helpers; reversing a whole string doesn't need one
+  private collectSlices(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRSlice(node)) {
+        const kind = this.sliceKind(node.object);
+        const byHelper = this.slicesByHelper(node);
+        if (!byHelper && kind === 'array') this.usesArrays = true;
+        if (byHelper) {
+          const array = isIRIdentifier(node.object) ? this.arrays.get(this.stripSelf(node.object.name)) : undefined;
+          this.sliceHelpers.add(kind === 'string' ? 'String' : kind === 'list' ? 'ArrayList' : this.mapType(array?.dataType.kind === 'array' ? array.dataType.element : primitiveType('int')));
+        }
+      }
+      if ((isIRIndex(node) || isIRIndexAssignment(node)) && node.wraps && !this.isMap(node.object)) this.usesWrapIndex = true;
+    });
+  }
+
+  // split() takes a regex: separators only known at runtime are quoted; a split kept as a list is copied into one
+  private collectStringMethods(value: unknown): void {
+    visitIR(value, node => {
+      if (isIRStringMethod(node) && node.method === 'split' && node.args.length > 0 && !isIRLiteral(node.args[0])) {
+        this.usesPattern = true;
+      }
+      if (isIRVariable(node) && isListType(node.dataType) && node.value && isIRStringMethod(node.value)) {
+        this.usesArrays = true;
+        this.usesArrayList = true;
+      }
+    });
+  }
+
+  // Lists appended as values, like the rows a comprehension adds, or looped over on the spot
+  private collectRowLiterals(value: unknown): void {
+    visitIR(value, node => {
+      const row = isIRCall(node) && node.isMethod ? node.args.find(isIRArrayLiteral) :
+                  isIRFor(node) && node.iterable && isIRArrayLiteral(node.iterable) ? node.iterable : undefined;
+      if (row?.isList) {
+        this.usesArrayList = true;
+        if (row.size) this.usesCollections = true;
+        else if (row.elements.length > 0) this.usesArrays = true;
+      }
+    });
+  }
+
+  // Java reserves _, which Python uses for values nobody reads. Loops over _ inside one another number
+  // theirs, since Java doesn't let an inner variable hide an outer one
+  private renameDiscards<T>(value: T, depth = 0): T {
+    return mapIR(value, node => {
+      const binds = ((isIRFor(node) || isIRForEach(node)) && (node.iterator === '_' || node.valueIterator === '_')) ||
+        (isIRComprehension(node) && node.clauses.some(clause => clause.iterator === '_' || clause.valueIterator === '_'));
+      const level = binds ? depth + 1 : depth;
+      const rename = (name: unknown) => name === '_' ? `unused${level > 1 ? level : ''}` : name;
+      return Object.fromEntries(Object.entries(node).map(([key, v]) => [
+        key,
+        ['name', 'iterator', 'valueIterator', 'target'].includes(key) ? rename(v) :
+        key === 'targets' && Array.isArray(v) ? v.map(rename) : this.renameDiscards(v, level),
+      ]));
+    });
+  }
+
+  private collectTuples(value: unknown): void {
+    visitIR(value, node => {
+      // A tuple literal destructured on the spot, as in a swap, is assigned element by element
+      if (isIRDestructure(node) && isIRTupleLiteral(node.value)) {
+        this.collectTuples(node.value.elements);
+        return false;
+      }
+      if (isIRTupleLiteral(node)) this.tupleArities.add(node.elements.length);
+      // Destructuring a call reads the components of the record it returns
+      if (isIRDestructure(node)) this.tupleArities.add(node.targets.length);
+    });
+  }
+
+  private collectArithmetic(value: unknown): void {
+    visitIR(value, node => {
+      // Divisibility tests keep Java's %
+      if (isIRBinaryOp(node) && this.isDivisibilityTest(node)) {
+        const remainder = node.left as IRBinaryOp;
+        this.collectArithmetic([remainder.left, remainder.right]);
+        return false;
+      }
+      if ((isIRBinaryOp(node) || isIRCompoundAssignment(node)) && ARITHMETIC_FUNCTIONS[node.operator]) {
+        this.arithmeticHelpers.add(node.operator);
+      }
+    });
+  }
+
+  private generateArithmeticHelpers(): string {
+    const helpers: Record<string, string[]> = {
+      floor_div: [
+        'static int floorDiv(int a, int b) {',
+        '    return Math.floorDiv(a, b);',
+        '}',
+        '',
+        'static double floorDiv(double a, double b) {',
+        '    return Math.floor(a / b);',
+        '}',
+      ],
+      floor_mod: [
+        'static int floorMod(int a, int b) {',
+        '    return Math.floorMod(a, b);',
+        '}',
+        '',
+        'static double floorMod(double a, double b) {',
+        '    return a - Math.floor(a / b) * b;',
+        '}',
+      ],
+      pow: [
+        'static int power(int base, int exp) {',
+        '    if (exp < 0) return base == 1 || base == -1 ? (exp % 2 == 0 ? 1 : base) : 0;',
+        '    int result = 1;',
+        '    for (int i = 0; i < exp; i++) result *= base;',
+        '    return result;',
+        '}',
+        '',
+        'static double power(double base, double exp) {',
+        '    return Math.pow(base, exp);',
+        '}',
+      ],
+    };
+    const groups = Object.keys(helpers).filter(name => this.arithmeticHelpers.has(name))
+      .map(name => helpers[name].map(line => line && this.getIndent() + line).join('\n'));
+    return ['', `${this.getIndent()}// Python rounds division and modulo toward negative infinity, Java toward zero`, groups.join('\n\n')].join('\n');
+  }
+
+  private generateWrapIndexHelper(): string {
+    const lines = [
+      '// Python\'s negative indexes count from the end',
+      'static int wrapIndex(int index, int length) {',
+      '    return index < 0 ? index + length : index;',
+      '}',
+    ];
+    return ['', ...lines.map(line => this.getIndent() + line)].join('\n');
+  }
+
+  private generateSliceHelpers(): string {
+    const bounds = [
+      '// Python\'s slice bounds: left out, they follow the step\'s direction; negative, they count from the end',
+      'static int sliceBound(Integer bound, int length, boolean isStart, int step) {',
+      '    if (bound == null) return step > 0 ? (isStart ? 0 : length) : (isStart ? length - 1 : -1);',
+      '    int index = bound < 0 ? bound + length : bound;',
+      '    return step > 0 ? Math.max(0, Math.min(index, length)) : Math.max(-1, Math.min(index, length - 1));',
+      '}',
+      '',
+      'static int sliceCount(int first, int stop, int step) {',
+      '    return Math.max(0, (stop - first + step - Integer.signum(step)) / step);',
+      '}',
+    ];
+    const helper = (type: string): string[] => {
+      if (type === 'String') {
+        return [
+          'static String slice(String s, Integer start, Integer end, int step) {',
+          '    int first = sliceBound(start, s.length(), true, step);',
+          '    int count = sliceCount(first, sliceBound(end, s.length(), false, step), step);',
+          '    StringBuilder result = new StringBuilder();',
+          '    for (int i = 0; i < count; i++) result.append(s.charAt(first + i * step));',
+          '    return result.toString();',
+          '}',
+        ];
+      }
+      if (type === 'ArrayList') {
+        return [
+          'static <T> ArrayList<T> slice(ArrayList<T> list, Integer start, Integer end, int step) {',
+          '    int first = sliceBound(start, list.size(), true, step);',
+          '    int count = sliceCount(first, sliceBound(end, list.size(), false, step), step);',
+          '    ArrayList<T> result = new ArrayList<>();',
+          '    for (int i = 0; i < count; i++) result.add(list.get(first + i * step));',
+          '    return result;',
+          '}',
+        ];
+      }
+      return [
+        `static ${type}[] slice(${type}[] a, Integer start, Integer end, int step) {`,
+        '    int first = sliceBound(start, a.length, true, step);',
+        `    ${type}[] result = new ${type}[sliceCount(first, sliceBound(end, a.length, false, step), step)];`,
+        '    for (int i = 0; i < result.length; i++) result[i] = a[first + i * step];',
+        '    return result;',
+        '}',
+      ];
+    };
+    const groups = [bounds, ...[...this.sliceHelpers].map(helper)]
+      .map(group => group.map(line => line && this.getIndent() + line).join('\n'));
+    return ['', groups.join('\n\n')].join('\n');
+  }
+
+  // Whether a pointer or reference parameter is written through
+  private reads(name: string, value: unknown): boolean {
+    return someIR(value, node => isIRIdentifier(node) && node.name === name);
+  }
+
+  private writes(name: string, value: unknown): boolean {
+    const isTarget = (target: IRNode) => isIRDereference(target)
+      ? isIRIdentifier(target.operand) && target.operand.name === name
+      : isIRIdentifier(target) && target.name === name;
+    return someIR(value, node => {
+      if (isIRBinaryOp(node) && node.operator === '=' && isTarget(node.left)) return true;
+      if (isIRCompoundAssignment(node) && isTarget(node.target)) return true;
+      if (node.type === 'unary_op' && ['++', '--', '++_post', '--_post'].includes((node as IRUnaryOp).operator) &&
+          isTarget((node as IRUnaryOp).operand)) return true;
+      return false;
+    });
+  }
+
+  // Names of fields assigned through obj.field anywhere in the program
+  private collectFieldWrites(value: unknown, written: Set<string>): void {
+    visitIR(value, node => {
+      let target: IRNode | undefined;
+      if (isIRAssignment(node)) target = { type: 'identifier', name: node.target } as IRIdentifier;
+      if (isIRBinaryOp(node) && node.operator === '=') target = node.left;
+      if (isIRCompoundAssignment(node)) target = node.target;
+      if (node.type === 'unary_op' && ['++', '--', '++_post', '--_post'].includes((node as IRUnaryOp).operator)) {
+        target = (node as IRUnaryOp).operand;
+      }
+      if (target && isIRIdentifier(target) && target.name.includes('.')) {
+        written.add(target.name.split('.').pop()!);
+      }
+      if (target && isIRFieldAccess(target)) written.add(target.field);
+    });
+  }
+
+  // Membership tests on plain arrays go through java.util.Arrays
+  private hasArraySearch(value: unknown): boolean {
+    return someIR(value, node => isIRContains(node) && isIRIdentifier(node.object) && this.arrays.has(node.object.name));
+  }
+
+  private hasExceptionType(value: unknown, exceptionType: string): boolean {
+    return someIR(value, node => {
+      if (isIRThrow(node) && node.exceptionType === exceptionType) return true;
+      if (isIRTry(node) && node.handlers.some(h => h.exceptionTypes.includes(exceptionType))) return true;
+      return false;
+    });
+  }
+
+  private analyzeArray(node: IRVariable): void {
+    if (node.dataType.kind === 'array' && node.dataType.element.kind === 'array') {
+      this.rows.set(node.name, node.dataType.element);
+    }
+    if (isSetType(node.dataType)) {
+      this.lists.add(node.name);
+      this.usesHashSet = true;
+      return;
+    }
+    if (!isListType(node.dataType)) {
+      this.arrays.set(node.name, node);
+      return;
+    }
+    this.lists.add(node.name);
+    this.usesArrayList = true;
+    const literal = node.value && isIRArrayLiteral(node.value) ? node.value : undefined;
+    if (literal?.size || node.arraySize) this.usesCollections = true;
+    else if (literal && literal.elements.length > 0) this.usesArrays = true;
   }
 
   private getIndent(): string {
@@ -166,21 +769,49 @@ export class JavaGenerator {
   }
 
   private generateNode(node: IRNode): string {
+    const [before, after] = [this.before, this.after];
+    this.before = [];
+    this.after = [];
+    const code = this.generateStatement(node);
+    const indent = this.getIndent();
+    const lines = [...this.before.map(line => indent + line), code, ...this.after.map(line => indent + line)];
+    [this.before, this.after] = [before, after];
+    return lines.filter(line => line).join('\n');
+  }
+
+  private generateStatement(node: IRNode): string {
     if (isIRComment(node)) return this.generateComment(node);
     if (isIRVariable(node)) return this.generateVariable(node);
     if (isIRFunction(node)) return this.generateFunction(node);
     if (isIRClass(node)) return this.generateClass(node);
+    if (isIREnum(node)) return this.generateEnum(node);
     if (isIRIf(node)) return this.generateIf(node);
-    if (isIRFor(node)) return this.generateFor(node);
-    if (isIRWhile(node)) return this.generateWhile(node);
+    if (isIRFor(node)) return this.withLabel(node.label, this.generateFor(node));
+    if (isIRWhile(node)) return this.withLabel(node.label, this.generateWhile(node));
+    if (isIRDoWhile(node)) return this.withLabel(node.label, this.generateDoWhile(node));
     if (isIRSwitch(node)) return this.generateSwitch(node);
+    if (isIRTry(node)) return this.generateTry(node);
+    if (isIRThrow(node)) return this.generateThrow(node);
     if (isIRReturn(node)) return this.generateReturn(node);
     if (isIRPrint(node)) return this.generatePrint(node);
     if (isIRInput(node)) return this.generateInput(node);
     if (isIRAssignment(node)) return this.generateAssignment(node);
+    if (isIRIndexAssignment(node)) return this.generateIndexAssignment(node);
+    if (isIRDestructure(node)) return this.generateDestructure(node);
+    if (isIRRemove(node)) return this.generateRemove(node);
+    if (isIRForEach(node)) return this.withLabel(node.label, this.generateForEach(node));
     if (isIRCall(node)) return `${this.getIndent()}${this.generateCall(node)};`;
-    if (isIRBinaryOp(node)) return `${this.getIndent()}${this.generateBinaryOp(node)};`;
-    if (node.type === 'break') return `${this.getIndent()}break;`;
+    if (isIRSuperCall(node)) return `${this.getIndent()}${this.generateSuperCall(node)};`;
+    if (isIRBinaryOp(node)) {
+      if (node.operator === '=' && isIRIdentifier(node.left)) this.unassigned.delete(node.left.name);
+      return `${this.getIndent()}${this.generateBinaryOp(node)};`;
+    }
+    if (isIRCompoundAssignment(node)) return this.generateCompoundStatement(node);
+    if (node.type === 'unary_op') return `${this.getIndent()}${this.generateExpression(node)};`;
+    if (isIRFree(node)) return '';
+    if (isIRBreak(node) || isIRContinue(node)) {
+      return `${this.getIndent()}${node.type}${node.label ? ' ' + node.label : ''};`;
+    }
     
     return '';
   }
@@ -191,7 +822,9 @@ export class JavaGenerator {
     let code = `${indent}switch (${expr}) {\n`;
     
     for (const c of node.cases) {
-      code += `${indent}    case ${this.generateExpression(c.value)}:\n`;
+      // Java wants enum case labels unqualified
+      const label = isIREnumValue(c.value) ? c.value.member : this.generateExpression(c.value);
+      code += `${indent}    case ${label}:\n`;
       this.indent += 2;
       for (const stmt of c.body) {
         const stmtCode = this.generateNode(stmt);
@@ -225,6 +858,7 @@ export class JavaGenerator {
   private generateVariable(node: IRVariable): string {
     const indent = this.getIndent();
     const type = this.mapType(node.dataType);
+    if (node.dataType.kind === 'enum') this.enumVariables.set(node.name, node.dataType.name);
     
     // Special case: variable initialized from input
     if (node.value && isIRInput(node.value)) {
@@ -235,81 +869,347 @@ export class JavaGenerator {
         code += `${indent}System.out.print("${input.prompt}");\n`;
       }
       
-      const method = node.dataType === 'int' ? 'nextInt()' :
-                    node.dataType === 'float' ? 'nextFloat()' : 'nextLine()';
+      const dataType = flattenType(node.dataType);
+      const method = dataType === 'int' ? 'nextInt()' :
+                    dataType === 'float' ? 'nextFloat()' : 'nextLine()';
       code += `${indent}${type} ${node.name} = scanner.${method};`;
       return code;
     }
     
+    if (isArrayType(node.dataType)) {
+      return this.generateArrayVariable(node);
+    }
+    
+    // Dicts keep their insertion order, so a literal is put in entry by entry
+    if (isMapType(node.dataType)) {
+      if (node.value && isIRMapLiteral(node.value)) {
+        return [`${indent}${type} ${node.name} = new LinkedHashMap<>();`, ...this.generatePuts(node.name, node.value, indent)].join('\n');
+      }
+      const value = node.value && isIRComprehension(node.value) ? this.generateStream(node.value) :
+                    node.value && isIRCall(node.value) ? this.generateExpression(node.value) : 'new LinkedHashMap<>()';
+      return `${indent}${type} ${node.name} = ${value};`;
+    }
+    
+    if ((node.isPointer && node.value && isIRAddressOf(node.value)) || (node.isReference && node.value && !classNameOf(node.dataType))) {
+      this.before.push(`// Note: ${node.name} is a copy of ${this.generateExpression(node.value)}, not an alias to it`);
+    }
+    
+    // Calling a generator function gives its iterator class
+    const generator = node.value && isIRCall(node.value) ? this.functions.get(node.value.callee) : undefined;
+    if (generator?.isGenerator) {
+      return `${indent}${generatorName(generator)} ${node.name} = ${this.generateCall(node.value as IRCall)};`;
+    }
+    
+    // Instances are typed by the class they construct; generic ones by the declared arguments, or
+    // inferred from the constructor's through the diamond
+    if (node.value && isIRCall(node.value) && this.classes.has(node.value.callee)) {
+      const instance = node.dataType.kind === 'class' && node.dataType.args ? type :
+                       this.classes.get(node.value.callee)!.typeParams ? 'var' : node.value.callee;
+      return `${indent}${instance} ${node.name} = ${this.generateCall(node.value)};`;
+    }
+    
+    if (node.value) {
+      return `${indent}${type} ${node.name} = ${this.generateStructValue(node.name, node.value)};`;
+    }
+    this.unassigned.add(node.name);
+    return `${indent}${type} ${node.name};`;
+  }
+
+  private generateArrayVariable(node: IRVariable): string {
+    const indent = this.getIndent();
+    const type = this.mapType(node.dataType);
+    const isList = isListType(node.dataType);
+    if (isSetType(node.dataType)) {
+      const value = node.value && isIRComprehension(node.value) ? this.generateStream(node.value) : 'new HashSet<>()';
+      return `${indent}${type} ${node.name} = ${value};`;
+    }
+    const literal = node.value && isIRArrayLiteral(node.value) ? node.value : undefined;
+    
+    if (literal || node.arraySize) {
+      const value: IRArrayLiteral = literal || {
+        type: 'array_literal',
+        elements: [],
+        elementType: flattenType(node.dataType),
+        size: node.arraySize,
+        isList,
+      };
+      if (isList && value.fill && isIRArrayLiteral(value.fill)) {
+        return `${indent}${type} ${node.name} = new ArrayList<>();\n${indent}${this.generateRowFill(node.name, value)}`;
+      }
+      // Plain array initializers don't need the new T[] prefix, and rows of one are arrays too
+      if (!isList && value.elements.length > 0) {
+        const elements = value.elements.map(e => isIRArrayLiteral(e) ? this.generateArrayLiteral({ ...e, isList: false }) : this.generateExpression(e));
+        return `${indent}${type} ${node.name} = {${elements.join(', ')}};`;
+      }
+      return `${indent}${type} ${node.name} = ${this.generateArrayLiteral({ ...value, isList })};`;
+    }
+    
+    if (node.value && isList && isIRStringMethod(node.value)) {
+      return `${indent}${type} ${node.name} = new ArrayList<>(Arrays.asList(${this.generateExpression(node.value)}));`;
+    }
     if (node.value) {
       return `${indent}${type} ${node.name} = ${this.generateExpression(node.value)};`;
     }
+    if (isList) return `${indent}${type} ${node.name} = new ArrayList<>();`;
     return `${indent}${type} ${node.name};`;
   }
 
+  private generateParam(param: IRVariable): string {
+    const struct = classNameOf(param.dataType);
+    if (struct) this.structVariables.set(param.name, struct);
+    if (param.dataType.kind === 'enum') this.enumVariables.set(param.name, param.dataType.name);
+    if (this.holders.has(param.name)) return `${this.mapType(param.dataType)}[] ${param.name}`;
+    return `${this.mapType(param.dataType, true)} ${param.name}`;
+  }
+
+  private generateEnum(node: IREnum): string {
+    const indent = this.getIndent();
+    const inner = indent + this.indentStr;
+    // Plain constants when the values are just the ordinals, otherwise carry them in a field
+    const values = enumValues(node);
+    if (values.every((value, i) => value === i)) {
+      return `${indent}enum ${node.name} {\n${inner}${node.members.map(m => m.name).join(', ')}\n${indent}}`;
+    }
+    const constants = node.members.map((member, i) => `${member.name}(${values[i]})`).join(', ');
+    let code = `${indent}enum ${node.name} {\n${inner}${constants};\n\n`;
+    code += `${inner}private final int value;\n\n`;
+    code += `${inner}${node.name}(int value) {\n${inner}${this.indentStr}this.value = value;\n${inner}}\n\n`;
+    code += `${inner}public int getValue() {\n${inner}${this.indentStr}return value;\n${inner}}\n`;
+    return code + `${indent}}`;
+  }
+
+  // Constants numbered by their ordinals carry no value field
+  private generateEnumMethod(node: IREnumMethod): string {
+    if (node.method === 'values') return `${node.enumName}.values()`;
+    const value = this.generateExpression(node.object!);
+    const enumNode = this.enumTypes.get(node.enumName);
+    const countsFromZero = !enumNode || enumValues(enumNode).every((v, i) => v === i);
+    return node.method === 'ordinal' || countsFromZero ? `${value}.ordinal()` : `${value}.getValue()`;
+  }
+
   private generateFunction(node: IRFunction, isStatic = false): string {
+    if (node.isGenerator) return this.generateGenerator(node, isStatic);
     const indent = this.getIndent();
-    const returnType = this.mapType(node.returnType, false, true);
-    const params = node.params.map(p => `${this.mapType(p.dataType, true)} ${p.name}`).join(', ');
+    const returnType = `${this.mapType(node.returnType, false, true)}${node.returnsPointer && !classNameOf(node.returnType) ? '[]' : ''}`;
+    this.holders = new Set((this.outParams.get(node.name) || []).map(i => node.params[i].name));
+    this.holderNames = new Set();
+    this.unassigned = new Set();
+    const params = node.params.map(p => this.generateParam(p)).join(', ');
     const staticMod = isStatic ? 'static ' : '';
     
-    let code = `${indent}public ${staticMod}${returnType} ${node.name}(${params}) {\n`;
-    
+    // The body goes first: the type parameters it compares are bounded by Comparable
+    this.comparables = new Set();
+    let body = '';
     this.indent++;
     for (const stmt of node.body) {
       const stmtCode = this.generateNode(stmt);
-      if (stmtCode) code += stmtCode + '\n';
+      if (stmtCode) body += stmtCode + '\n';
     }
     this.indent--;
+    const header = `public ${staticMod}${this.typeParamList(this.boundComparables(node.typeParams), ' ')}${returnType} ${node.name}`;
+    let code = `${indent}${header}(${params}) {\n${body}`;
+    this.holders = new Set();
+    this.holderNames = new Set();
     
+    code += `${indent}}`;
+    const call = returnType === 'void' ? node.name : `return ${node.name}`;
+    return [code, ...this.generateOverloads(header, call, node.params)].join('\n\n');
+  }
+
+  // Java has no default arguments: each trailing default becomes a shorter overload that fills it in
+  private generateOverloads(header: string, call: string, params: IRVariable[]): string[] {
+    const indent = this.getIndent();
+    const overloads: string[] = [];
+    for (let count = params.length - 1; count >= 0; count--) {
+      const defaultValue = params[count].defaultValue;
+      if (!defaultValue) break;
+      const kept = params.slice(0, count);
+      const args = [...kept.map(p => p.name), this.generateExpression(defaultValue)].join(', ');
+      overloads.push(`${indent}${header}(${kept.map(p => this.generateParam(p)).join(', ')}) {\n` +
+        `${indent}${this.indentStr}${call}(${args});\n${indent}}`);
+    }
+    return overloads;
+  }
+
+  // A generator becomes an iterator class running its body as a state machine; hasNext() runs it
+  // ahead to the next yield, and the function itself just constructs one
+  private generateGenerator(node: IRFunction, isStatic: boolean): string {
+    const indent = this.getIndent();
+    const machine = lowerGenerator(node);
+    const inner = indent + this.indentStr;
+    const body = inner + this.indentStr;
+    const element = this.mapBoxedType(node.returnType);
+    const taken = new Set([...machine.fields.map(field => field.name), machine.state, machine.current]);
+    const unique = (base: string) => taken.has(base) ? `${base}_` : base;
+    const ready = unique('ready');
+    const done = unique('done');
+    
+    let code = `${indent}static class ${machine.name} implements Iterator<${element}>, Iterable<${element}> {\n`;
+    for (const field of machine.fields) code += `${inner}private ${this.generateParam(field)};\n`;
+    code += `${inner}private int ${machine.state} = 0;\n`;
+    code += `${inner}private ${this.mapType(node.returnType)} ${machine.current};\n`;
+    code += `${inner}private boolean ${ready} = false;\n`;
+    code += `${inner}private boolean ${done} = false;\n\n`;
+    
+    code += `${inner}${machine.name}(${node.params.map(p => this.generateParam(p)).join(', ')}) {\n`;
+    for (const param of node.params) code += `${body}this.${param.name} = ${param.name};\n`;
+    code += `${inner}}\n\n`;
+    code += `${inner}public Iterator<${element}> iterator() {\n${body}return this;\n${inner}}\n\n`;
+    code += `${inner}public boolean hasNext() {\n`;
+    code += `${body}if (!${ready}) {\n`;
+    code += `${body}${this.indentStr}${done} = !advance();\n`;
+    code += `${body}${this.indentStr}${ready} = true;\n`;
+    code += `${body}}\n`;
+    code += `${body}return !${done};\n`;
+    code += `${inner}}\n\n`;
+    code += `${inner}public ${element} next() {\n`;
+    code += `${body}if (!hasNext()) throw new NoSuchElementException();\n`;
+    code += `${body}${ready} = false;\n`;
+    code += `${body}return ${machine.current};\n`;
+    code += `${inner}}\n\n`;
+    
+    // Each case falls out of the switch to the next state unless it returns
+    code += `${inner}private boolean advance() {\n`;
+    code += `${body}while (true) {\n`;
+    code += `${body}${this.indentStr}switch (${machine.state}) {\n`;
+    const saved = this.indent;
+    this.indent += 5;
+    machine.states.forEach((statements, i) => {
+      code += `${body}${this.indentStr.repeat(2)}case ${i}:\n`;
+      for (const stmt of statements) {
+        const stmtCode = this.generateNode(stmt);
+        if (stmtCode) code += stmtCode + '\n';
+      }
+      if (!isIRReturn(statements[statements.length - 1])) code += `${this.getIndent()}break;\n`;
+    });
+    this.indent = saved;
+    code += `${body}${this.indentStr}}\n`;
+    code += `${body}}\n`;
+    code += `${inner}}\n`;
+    code += `${indent}}\n\n`;
+    
+    const params = node.params.map(p => this.generateParam(p)).join(', ');
+    code += `${indent}public ${isStatic ? 'static ' : ''}${machine.name} ${node.name}(${params}) {\n`;
+    code += `${inner}return new ${machine.name}(${node.params.map(p => p.name).join(', ')});\n`;
     code += `${indent}}`;
     return code;
   }
 
+  // Structs carry no behaviour: a record when nothing assigns their fields, else a plain holder
+  private generateStruct(node: IRClass): string {
+    const indent = this.getIndent();
+    const inner = indent + this.indentStr;
+    const fields = node.members.map(member => ({ name: member.name, type: this.memberType(member) }));
+    const params = fields.map(field => `${field.type} ${field.name}`).join(', ');
+    if (this.records.has(node.name)) return `${indent}record ${node.name}(${params}) {}`;
+    
+    let code = `${indent}static class ${node.name} {\n`;
+    fields.forEach(field => code += `${inner}${field.type} ${field.name};\n`);
+    code += `\n${inner}${node.name}(${params}) {\n`;
+    fields.forEach(field => code += `${inner}${this.indentStr}this.${field.name} = ${field.name};\n`);
+    code += `${inner}}\n`;
+    if (this.copiedStructs.has(node.name)) {
+      code += `\n${inner}${node.name}(${node.name} other) {\n`;
+      node.members.forEach(member => {
+        const copy = isArrayType(member.dataType) && !isListType(member.dataType) ? '.clone()' : '';
+        code += `${inner}${this.indentStr}this.${member.name} = other.${member.name}${copy};\n`;
+      });
+      code += `${inner}}\n`;
+    }
+    return code + `${indent}}`;
+  }
+
+  // struct P b = a; gives b its own copy of a's fields, unless P is a record and can't change
+  private copiesStruct(target: string, value: IRNode): boolean {
+    const struct = this.structVariables.get(target);
+    return this.structValues.has(target) && !!struct && !this.records.has(struct) && (isIRIdentifier(value) || isIRIndex(value));
+  }
+
+  private generateStructValue(target: string, value: IRNode): string {
+    const code = this.generateExpression(value);
+    return this.copiesStruct(target, value) ? `new ${this.structVariables.get(target)}(${code})` : code;
+  }
+
+  private memberType(member: IRVariable): string {
+    return this.mapType(member.dataType);
+  }
+
   private generateClass(node: IRClass): string {
+    if (node.isStruct) return this.generateStruct(node);
     const indent = this.getIndent();
-    let code = `${indent}public class ${node.name} {\n`;
+    const interfaces = node.interfaces?.join(', ');
+    let code: string;
+    if (node.isInterface) {
+      code = `${indent}interface ${node.name}${this.typeParamList(node.typeParams)}${interfaces ? ` extends ${interfaces}` : ''} {\n`;
+    } else {
+      code = `${indent}static ${node.isAbstract ? 'abstract ' : ''}class ${node.name}${this.typeParamList(node.typeParams)}` +
+        `${node.superclass ? ` extends ${node.superclass}` : ''}${interfaces ? ` implements ${interfaces}` : ''} {\n`;
+    }
     
     this.indent++;
+    code += this.generateClassBody(node);
+    this.indent--;
+    code += `${indent}}`;
     
-    // Scanner if needed
-    if (this.usesScanner) {
-      code += `${this.getIndent()}static Scanner scanner = new Scanner(System.in);\n\n`;
-    }
+    return code;
+  }
+
+  private generateClassBody(node: IRClass): string {
+    let code = '';
     
-    // Members
+    // Members stay visible to subclasses
+    const isBase = [...this.classes.values()].some(cls => cls.superclass === node.name);
     for (const member of node.members) {
-      const type = this.mapType(member.dataType);
-      code += `${this.getIndent()}private ${type} ${member.name};\n`;
+      code += `${this.getIndent()}${isBase ? 'protected' : 'private'} ${this.memberType(member)} ${member.name};\n`;
     }
     
     if (node.members.length > 0) code += '\n';
     
-    // Constructor
-    const ctorParams = node.constructor?.params.map(p => `${this.mapType(p.dataType)} ${p.name}`).join(', ') || '';
-    code += `${this.getIndent()}public ${node.name}(${ctorParams}) {\n`;
-    this.indent++;
-    
-    for (const member of node.members) {
-      code += `${this.getIndent()}this.${member.name} = ${this.getDefaultValue(member.dataType)};\n`;
-    }
-    
-    if (node.constructor?.body) {
-      for (const stmt of node.constructor.body) {
+    // Constructor; super(...) has to come before anything else
+    if (!node.isInterface) {
+      const ctor = this.effectiveConstructor(node);
+      const ctorParams = ctor?.params.map(p => this.generateParam(p)).join(', ') || '';
+      const ctorBody = ctor?.body || [];
+      const superCall = ctorBody.find(stmt => isIRSuperCall(stmt) && !stmt.method);
+      code += `${this.getIndent()}public ${node.name}(${ctorParams}) {\n`;
+      this.indent++;
+      
+      if (superCall) code += this.generateNode(superCall) + '\n';
+      for (const member of node.members) {
+        const value = isListType(member.dataType) ? 'new ArrayList<>()' :
+                      isMapType(member.dataType) ? 'new LinkedHashMap<>()' :
+                      isArrayType(member.dataType) ? 'null' : this.getDefaultValue(flattenType(member.dataType));
+        code += `${this.getIndent()}this.${member.name} = ${value};\n`;
+      }
+      
+      for (const stmt of ctorBody) {
+        if (stmt === superCall) continue;
         const stmtCode = this.generateNode(stmt);
         if (stmtCode) code += stmtCode + '\n';
       }
+      
+      this.indent--;
+      code += `${this.getIndent()}}\n`;
+      this.generateOverloads(`public ${node.name}`, 'this', ctor?.params || []).forEach(overload => code += `\n${overload}\n`);
     }
     
-    this.indent--;
-    code += `${this.getIndent()}}\n`;
-    
-    // Methods
+    // Methods; interface methods are implicitly public and abstract
+    const bases = [...(node.superclass ? [node.superclass] : []), ...(node.interfaces || [])];
     for (const method of node.methods) {
-      const returnType = this.mapType(method.returnType);
-      const params = method.params.map(p => `${this.mapType(p.dataType)} ${p.name}`).join(', ');
+      const returnType = this.typeParamList(method.typeParams, ' ') + this.mapType(method.returnType);
+      const params = method.params.map(p => this.generateParam(p)).join(', ');
       
-      code += `\n${this.getIndent()}public ${returnType} ${method.name}(${params}) {\n`;
+      if (code) code += '\n';
+      if (method.isOverride || bases.some(base => findMethod(this.classes, base, method.name))) {
+        code += `${this.getIndent()}@Override\n`;
+      }
+      if (method.isAbstract) {
+        const modifiers = node.isInterface ? '' : 'public abstract ';
+        code += `${this.getIndent()}${modifiers}${returnType} ${method.name}(${params});\n`;
+        continue;
+      }
+      const modifiers = node.isInterface ? 'default' : 'public';
+      code += `${this.getIndent()}${modifiers} ${returnType} ${method.name}(${params}) {\n`;
       this.indent++;
       for (const stmt of method.body) {
         const stmtCode = this.generateNode(stmt);
@@ -317,14 +1217,28 @@ export class JavaGenerator {
       }
       this.indent--;
       code += `${this.getIndent()}}\n`;
+      const call = returnType === 'void' ? method.name : `return ${method.name}`;
+      this.generateOverloads(`${modifiers} ${returnType} ${method.name}`, call, method.params).forEach(overload => code += `\n${overload}\n`);
     }
     
-    this.indent--;
-    code += `${indent}}`;
-    
     return code;
   }
 
+  // Classes without a constructor forward their arguments to the inherited one
+  private effectiveConstructor(node: IRClass): IRFunction | undefined {
+    if (node.constructor) return node.constructor;
+    const seen = new Set<string>([node.name]);
+    let current = node.superclass ? this.classes.get(node.superclass) : undefined;
+    while (current && !current.constructor && !seen.has(current.name)) {
+      seen.add(current.name);
+      current = current.superclass ? this.classes.get(current.superclass) : undefined;
+    }
+    const inherited = current?.constructor;
+    if (!inherited) return undefined;
+    const args = inherited.params.map(p => ({ type: 'identifier', name: p.name }) as IRIdentifier);
+    return { ...inherited, body: [{ type: 'super_call', args } as IRSuperCall] };
+  }
+
   private generateIf(node: IRIf): string {
     const indent = this.getIndent();
     const condition = this.generateExpression(node.condition);
@@ -355,9 +1269,33 @@ export class JavaGenerator {
     return code;
   }
 
+  private withLabel(label: string | undefined, code: string): string {
+    if (!label) return code;
+    const indent = this.getIndent();
+    return `${indent}${label}: ${code.slice(indent.length)}`;
+  }
+
   private generateFor(node: IRFor): string {
     const indent = this.getIndent();
     
+    // Enhanced for; a string's characters come from toCharArray()
+    if (node.iterator && node.iterable) {
+      const array = isIRIdentifier(node.iterable) ? this.arrays.get(this.stripSelf(node.iterable.name)) : undefined;
+      const type = node.iteratorType && !isAutoType(node.iteratorType) ? node.iteratorType :
+                   array && isArrayType(array.dataType) ? array.dataType.element :
+                   primitiveType(this.isString(node.iterable) ? 'char' : 'auto');
+      const iterable = this.generateExpression(node.iterable);
+      const isString = this.isString(node.iterable) || (flattenType(type) === 'char' && this.sliceKind(node.iterable) === 'string');
+      let code = `${indent}for (${this.mapType(type)} ${node.iterator} : ${isString ? `${iterable}.toCharArray()` : iterable}) {\n`;
+      this.indent++;
+      for (const stmt of node.body) {
+        const stmtCode = this.generateNode(stmt);
+        if (stmtCode) code += stmtCode + '\n';
+      }
+      this.indent--;
+      return code + `${indent}}`;
+    }
+    
     // Handle Python range-style for loops
     if (node.iterator && node.rangeEnd) {
       const iterator = node.iterator;
@@ -405,6 +1343,57 @@ export class JavaGenerator {
     return code;
   }
 
+  private generateForEach(node: IRForEach): string {
+    const indent = this.getIndent();
+    const iterable = this.generateExpression(node.iterable);
+    // A map variable, or a call to a function that returns one
+    const called = isIRCall(node.iterable) && !node.iterable.isMethod ? this.functions.get(node.iterable.callee) : undefined;
+    const map = isIRIdentifier(node.iterable) ? this.maps.get(node.iterable.name) :
+                called && isMapType(called.returnType) ? { type: 'variable', name: called.name, dataType: called.returnType } as IRVariable : undefined;
+    const keyType = this.mapBoxedType(map ? keyTypeOf(map.dataType) : 'auto');
+    const valueType = this.mapBoxedType(map ? flattenType(map.dataType) : 'auto');
+    
+    let code: string;
+    if (node.valueIterator) {
+      code = `${indent}for (Map.Entry<${keyType}, ${valueType}> entry : ${iterable}.entrySet()) {\n`;
+      this.indent++;
+      code += `${this.getIndent()}${this.mapType(map ? keyTypeOf(map.dataType) : 'auto')} ${node.iterator} = entry.getKey();\n`;
+      code += `${this.getIndent()}${this.mapType(map ? flattenType(map.dataType) : 'auto')} ${node.valueIterator} = entry.getValue();\n`;
+    } else if (node.overValues) {
+      code = `${indent}for (${valueType} ${node.iterator} : ${iterable}.values()) {\n`;
+      this.indent++;
+    } else {
+      code = `${indent}for (${keyType} ${node.iterator} : ${iterable}.keySet()) {\n`;
+      this.indent++;
+    }
+    
+    for (const stmt of node.body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    this.indent--;
+    code += `${indent}}`;
+    
+    return code;
+  }
+
+  private generateDoWhile(node: IRDoWhile): string {
+    const indent = this.getIndent();
+    const condition = this.generateExpression(node.condition);
+    
+    let code = `${indent}do {\n`;
+    
+    this.indent++;
+    for (const stmt of node.body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    this.indent--;
+    code += `${indent}} while (${condition});`;
+    
+    return code;
+  }
+
   private generateWhile(node: IRWhile): string {
     const indent = this.getIndent();
     const condition = this.generateExpression(node.condition);
@@ -422,6 +1411,69 @@ export class JavaGenerator {
     return code;
   }
 
+  private generateTry(node: IRTry): string {
+    const indent = this.getIndent();
+    let code = `${indent}try {\n${this.generateBlock(node.body)}${indent}}`;
+    
+    for (const handler of node.handlers) {
+      // Alternatives of a multi-catch can't repeat or subclass each other, and Exception covers the rest
+      const mapped = [...new Set(handler.exceptionTypes.map(t => this.mapExceptionType(t)))];
+      const types = mapped.length > 0 && !mapped.includes('Exception') ? mapped.join(' | ') : 'Exception';
+      const name = handler.name || 'e';
+      this.exceptionNames.push(name);
+      code += ` catch (${types} ${name}) {\n${this.generateBlock(handler.body)}${indent}}`;
+      this.exceptionNames.pop();
+      // Anything after a catch-all would be unreachable, which javac rejects
+      if (types === 'Exception') break;
+    }
+    
+    if (node.finallyBody) {
+      code += ` finally {\n${this.generateBlock(node.finallyBody)}${indent}}`;
+    }
+    
+    return code;
+  }
+
+  private generateThrow(node: IRThrow): string {
+    const indent = this.getIndent();
+    
+    if (!node.exceptionType) {
+      const current = this.exceptionNames[this.exceptionNames.length - 1];
+      return current ? `${indent}throw ${current};` : `${indent}throw new RuntimeException();`;
+    }
+    
+    // A plain Exception would be checked, so raise the unchecked equivalent
+    const mapped = this.mapExceptionType(node.exceptionType);
+    const type = mapped === 'Exception' ? 'RuntimeException' : mapped;
+    const message = node.message ? this.generateExpression(node.message) : '';
+    return `${indent}throw new ${type}(${message});`;
+  }
+
+  private mapExceptionType(exceptionType: string): string {
+    const typeMap: Record<string, string> = {
+      'Exception': 'Exception',
+      'RuntimeError': 'RuntimeException',
+      'ValueError': 'NumberFormatException',
+      'ArgumentError': 'IllegalArgumentException',
+      'ZeroDivisionError': 'ArithmeticException',
+      'IndexError': 'IndexOutOfBoundsException',
+      'KeyError': 'NoSuchElementException',
+      'TypeError': 'ClassCastException',
+    };
+    return typeMap[exceptionType] || 'Exception';
+  }
+
+  private generateBlock(body: IRNode[]): string {
+    this.indent++;
+    let code = '';
+    for (const stmt of body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    this.indent--;
+    return code;
+  }
+
   private generateReturn(node: IRReturn): string {
     const indent = this.getIndent();
     
@@ -439,27 +1491,43 @@ export class JavaGenerator {
   private generatePrint(node: IRPrint): string {
     const indent = this.getIndent();
     const method = node.newline ? 'println' : 'print';
+    const end = node.end ? this.generateOperand(node.end, '+', true) : undefined;
     
     if (node.args.length === 0) {
-      return `${indent}System.out.${method}();`;
+      return end ? `${indent}System.out.print(${end});` : `${indent}System.out.${method}();`;
     }
     
     // Build concatenated string with f-string support
     const parts: string[] = [];
     for (const arg of node.args) {
+      const numbered = this.numberedEnum(arg);
       if (isIRLiteral(arg) && arg.dataType === 'string') {
         // Parse f-string interpolation
         const parsed = this.parseFString(String(arg.value));
         parts.push(parsed);
+      } else if (numbered) {
+        parts.push(this.generateEnumMethod({ type: 'enum_method', method: 'value', enumName: numbered, object: arg }));
       } else {
-        parts.push(this.generateExpression(arg));
+        parts.push(node.args.length > 1 ? this.generateOperand(arg, '+', true) : this.generateExpression(arg));
       }
     }
-    const output = parts.join(' + " " + ');
+    // Args printed back to back still have to be joined as strings rather than added
+    const separator = node.separator ? this.generateOperand(node.separator, '+', true) : '" "';
+    const adjoined = separator === '""';
+    let output = parts.join(adjoined ? ' + ' : ` + ${separator} + `);
+    const first = node.args[0];
+    if (adjoined && parts.length > 1 && !(isIRLiteral(first) && first.dataType === 'string')) output = `"" + ${output}`;
     
+    if (end) return `${indent}System.out.print(${output} + ${end});`;
     return `${indent}System.out.${method}(${output});`;
   }
   
+  // A C or C++ enum constant prints as its number, where Java would print its name
+  private numberedEnum(node: IRNode): string | undefined {
+    const enumName = isIREnumValue(node) ? node.enumName : isIRIdentifier(node) ? this.enumVariables.get(node.name) : undefined;
+    return enumName && this.enumTypes.get(enumName)?.printedAs === 'number' ? enumName : undefined;
+  }
+
   private parseFString(str: string): string {
     // Clean up trailing newline
     const cleaned = str.replace(/\\n$/, '');
@@ -489,7 +1557,85 @@ export class JavaGenerator {
   private generateAssignment(node: IRAssignment): string {
     const indent = this.getIndent();
     const target = node.target.replace('self.', 'this.');
-    return `${indent}${target} = ${this.generateExpression(node.value)};`;
+    this.unassigned.delete(node.target);
+    return `${indent}${target} = ${this.generateStructValue(node.target, node.value)};`;
+  }
+
+  // a, b = b, a assigns through temporaries; q, r = divmod(a, b) reads the returned record
+  private generateDestructure(node: IRDestructure): string {
+    const targets = node.targets.map(target => target.replace('self.', 'this.'));
+    const declare = (target: string) => node.isDeclaration || node.declared?.includes(target) ? 'var ' : '';
+    const lines: string[] = [];
+    if (isIRTupleLiteral(node.value)) {
+      // Values reading a target assigned before them are saved first
+      const values = node.value.elements.map((element, i) => {
+        const value = this.generateExpression(element);
+        if (!node.targets.slice(0, i).some(target => this.reads(target, element))) return value;
+        const temp = this.uniqueName('temp');
+        lines.push(`var ${temp} = ${value};`);
+        return temp;
+      });
+      targets.forEach((target, i) => lines.push(`${declare(target)}${target} = ${values[i]};`));
+    } else {
+      const tuple = this.uniqueName(isIRCall(node.value) ? `${node.value.callee}Result` : 'tuple');
+      lines.push(`var ${tuple} = ${this.generateExpression(node.value)};`);
+      targets.forEach((target, i) => lines.push(`${declare(target)}${target} = ${tuple}.${this.tupleField(i)}();`));
+    }
+    return lines.map(line => this.getIndent() + line).join('\n');
+  }
+
+  private uniqueName(base: string): string {
+    let name = base;
+    for (let n = 2; this.holderNames.has(name); n++) name = `${base}${n}`;
+    this.holderNames.add(name);
+    return name;
+  }
+
+  private tupleName(arity: number): string {
+    return arity === 2 ? 'Pair' : arity === 3 ? 'Triple' : `Tuple${arity}`;
+  }
+
+  private tupleField(i: number): string {
+    return TUPLE_FIELDS[i] || `item${i + 1}`;
+  }
+
+  private generateTupleRecord(arity: number): string {
+    const typeParams = Array.from({ length: arity }, (_, i) => String.fromCharCode(65 + i));
+    const components = typeParams.map((param, i) => `${param} ${this.tupleField(i)}`).join(', ');
+    return `${this.getIndent()}record ${this.tupleName(arity)}<${typeParams.join(', ')}>(${components}) {}`;
+  }
+
+  private generateRemove(node: IRRemove): string {
+    return `${this.getIndent()}${this.generateExpression(node.object)}.remove(${this.generateExpression(node.key)});`;
+  }
+
+  // Map and list elements are read, combined and stored back through get and put/set
+  private generateCompoundStatement(node: IRCompoundAssignment): string {
+    if (isIRIndex(node.target) && (this.isMap(node.target.object) || this.isList(node.target.object))) {
+      const value: IRBinaryOp = { type: 'binary_op', operator: node.operator, left: node.target, right: node.value };
+      return this.generateIndexAssignment({ type: 'index_assignment', object: node.target.object, index: node.target.index, value });
+    }
+    return `${this.getIndent()}${this.generateCompoundAssignment(node)};`;
+  }
+
+  private generateCompoundAssignment(node: IRCompoundAssignment): string {
+    const target = this.generateExpression(node.target);
+    if (ARITHMETIC_FUNCTIONS[node.operator]) {
+      return `${target} = ${this.generateBinaryOp({ type: 'binary_op', operator: node.operator, left: node.target, right: node.value })}`;
+    }
+    // Java's compound assignment casts back to the target's type
+    const operator = node.operator === 'true_div' ? '/' : node.operator;
+    return `${target} ${operator}= ${this.generateExpression(node.value)}`;
+  }
+
+  private generateIndexAssignment(node: IRIndexAssignment): string {
+    const indent = this.getIndent();
+    const object = this.generateExpression(node.object);
+    const index = this.isMap(node.object) ? this.generateExpression(node.index) : this.generatePosition(node.object, node.index, node.wraps);
+    if (this.isMap(node.object)) return `${indent}${object}.put(${index}, ${this.generateMapValue(node.object, node.value)});`;
+    const value = this.generateExpression(node.value);
+    if (this.isList(node.object)) return `${indent}${object}.set(${index}, ${value});`;
+    return `${indent}${object}[${index}] = ${value};`;
   }
 
   private generateExpression(node: IRNode): string {
@@ -497,6 +1643,66 @@ export class JavaGenerator {
     if (isIRIdentifier(node)) return this.generateIdentifier(node);
     if (isIRBinaryOp(node)) return this.generateBinaryOp(node);
     if (isIRCall(node)) return this.generateCall(node);
+    if (isIRSuperCall(node)) return this.generateSuperCall(node);
+    if (isIREnumValue(node)) return `${node.enumName}.${node.member}`;
+    if (isIREnumMethod(node)) return this.generateEnumMethod(node);
+    if (isIRAddressOf(node) || isIRDereference(node)) return this.generateExpression(node.operand);
+    if (isIRConditional(node)) return this.generateConditional(node);
+    if (isIRCompoundAssignment(node)) return this.generateCompoundAssignment(node);
+    if (isIRLambda(node)) return this.generateLambda(node);
+    if (isIRFunctionRef(node)) return `${this.className}::${node.name}`;
+    if (isIRComprehension(node)) return this.generateStream(node);
+    if (isIRAllocation(node)) {
+      const type = this.mapType(node.dataType);
+      if (node.count) return `new ${type}[${this.generateExpression(node.count)}]`;
+      return node.value ? this.generateExpression(node.value) : this.getDefaultValue(flattenType(node.dataType));
+    }
+    if (isIRArrayLiteral(node)) return this.generateArrayLiteral(node);
+    if (isIRMapLiteral(node)) return this.generateMapLiteral(node);
+    if (isIRTupleLiteral(node)) {
+      return `new ${this.tupleName(node.elements.length)}<>(${node.elements.map(e => this.generateExpression(e)).join(', ')})`;
+    }
+    if (isIRTupleIndex(node)) return `${this.generateExpression(node.object)}.${this.tupleField(node.index)}()`;
+    if (isIRFieldAccess(node)) {
+      const struct = this.structOf(node.object);
+      return `${this.generateExpression(node.object)}.${node.field}${struct && this.records.has(struct.name) ? '()' : ''}`;
+    }
+    if (isIRIndex(node)) {
+      const object = this.generateExpression(node.object);
+      if (this.isMap(node.object)) {
+        const key = this.generateExpression(node.index);
+        if (node.defaultValue) return `${object}.getOrDefault(${key}, ${this.generateMapValue(node.object, node.defaultValue)})`;
+        return `${object}.get(${key})`;
+      }
+      const index = this.generatePosition(node.object, node.index, node.wraps);
+      if (this.isList(node.object)) return `${object}.get(${index})`;
+      return this.isString(node.object) ? `${object}.charAt(${index})` : `${object}[${index}]`;
+    }
+    if (isIRSlice(node)) return this.generateSlice(node);
+    if (isIRStringMethod(node)) return this.generateStringMethod(node);
+    if (isIRMathCall(node)) return this.generateMathCall(node);
+    if (isIRMathConstant(node)) {
+      const constant = node.name === 'pi' ? 'Math.PI' : 'Math.E';
+      return node.dataType === 'double' ? constant : `(float) ${constant}`;
+    }
+    if (isIRContains(node)) {
+      const object = this.generateExpression(node.object);
+      const key = this.generateExpression(node.key);
+      if (this.isMap(node.object)) return `${object}.containsKey(${key})`;
+      if (isIRIdentifier(node.object) && this.arrays.has(this.stripSelf(node.object.name))) {
+        return `Arrays.asList(${object}).contains(${key})`;
+      }
+      return `${object}.contains(${key})`;
+    }
+    if (isIRLength(node)) {
+      const object = this.generateExpression(node.object);
+      if (this.isList(node.object) || this.isMap(node.object) || isIRComprehension(node.object)) return `${object}.size()`;
+      if (isIRIdentifier(node.object) && this.arrays.has(this.stripSelf(node.object.name))) return `${object}.length`;
+      if (this.rowOf(node.object)?.kind === 'array') return `${object}.length`;
+      // split() gives an array
+      if (isIRStringMethod(node.object) && node.object.method === 'split') return `${object}.length`;
+      return `${object}.length()`;
+    }
     if (isIRInput(node)) {
       const method = node.targetType === 'int' ? 'nextInt()' :
                     node.targetType === 'float' ? 'nextFloat()' : 'nextLine()';
@@ -504,7 +1710,11 @@ export class JavaGenerator {
     }
     if (node.type === 'unary_op') {
       const unary = node as IRUnaryOp;
-      const operand = this.generateExpression(unary.operand);
+      // Every binary operator binds looser than a unary one, except those emitted as calls
+      const binary = isIRBinaryOp(unary.operand) && (C_PRECEDENCE[unary.operand.operator] ?? 0) <= C_PRECEDENCE['*'];
+      const operand = binary || isIRConditional(unary.operand)
+        ? `(${this.generateExpression(unary.operand)})`
+        : this.generateExpression(unary.operand);
       if (unary.operator === '++_post') return `${operand}++`;
       if (unary.operator === '--_post') return `${operand}--`;
       return `${unary.operator}${operand}`;
@@ -512,6 +1722,206 @@ export class JavaGenerator {
     return '';
   }
 
+  // a[-k] counts from the end: a[a.length - k]
+  private generatePosition(object: IRNode, index: IRNode, wraps = false): string {
+    const offset = fromEnd(index);
+    const length = this.generateExpression({ type: 'length', object } as IRLength);
+    if (!offset && wraps) return `wrapIndex(${this.generateExpression(index)}, ${length})`;
+    if (!offset) return this.generateExpression(index);
+    const distance = this.generateExpression(offset);
+    return `${length} - ${isIRBinaryOp(offset) ? `(${distance})` : distance}`;
+  }
+
+  private generateSlice(node: IRSlice): string {
+    const object = this.generateExpression(node.object);
+    const kind = this.sliceKind(node.object);
+    if (kind === 'string' && this.reversesAll(node)) return `new StringBuilder(${object}).reverse().toString()`;
+    if (this.slicesByHelper(node)) {
+      const bound = (part?: IRNode) => part ? this.generateExpression(part) : 'null';
+      return `slice(${object}, ${bound(node.start)}, ${bound(node.end)}, ${node.step ? this.generateExpression(node.step) : '1'})`;
+    }
+    const start = node.start ? this.generatePosition(node.object, node.start) : '0';
+    if (kind === 'string') {
+      return node.end ? `${object}.substring(${start}, ${this.generatePosition(node.object, node.end)})` : `${object}.substring(${start})`;
+    }
+    const end = node.end ? this.generatePosition(node.object, node.end) : this.generateExpression({ type: 'length', object: node.object } as IRLength);
+    if (kind === 'list') return `new ArrayList<>(${object}.subList(${start}, ${end}))`;
+    return `Arrays.copyOfRange(${object}, ${start}, ${end})`;
+  }
+
+  // Characters go through Character's static methods; a whole string passes only when it isn't empty
+  // and every character does
+  private generateStringMethod(node: IRStringMethod): string {
+    const code = this.generateExpression(node.object);
+    const object = isIRBinaryOp(node.object) || isIRConditional(node.object) ? `(${code})` : code;
+    const args = node.args.map(arg => this.generateExpression(arg));
+    const isChar = this.isChar(node.object);
+    switch (node.method) {
+      case 'upper': return isChar ? `Character.toUpperCase(${code})` : `${object}.toUpperCase()`;
+      case 'lower': return isChar ? `Character.toLowerCase(${code})` : `${object}.toLowerCase()`;
+      case 'strip': return `${object}.strip()`;
+      case 'find': return `${object}.indexOf(${args[0]})`;
+      case 'compare': return `${object}.compareTo(${args[0]})`;
+      case 'replace': return `${object}.replace(${args[0]}, ${args[1]})`;
+      case 'startswith': return `${object}.startsWith(${args[0]})`;
+      case 'endswith': return `${object}.endsWith(${args[0]})`;
+      case 'join': return `String.join(${code}, ${args[0]})`;
+      case 'split': {
+        // Without a separator Python splits on runs of whitespace, ignoring it at either end
+        const separator = node.args[0];
+        if (!separator) return `${object}.strip().split("\\\\s+")`;
+        const pattern = isIRLiteral(separator) && typeof separator.value === 'string'
+          ? `"${separator.value.replace(/[\\.[\]{}()*+?^$|]/g, '\\\\$&')}"`
+          : `Pattern.quote(${args[0]})`;
+        // A negative limit keeps trailing empty strings, as Python does
+        return `${object}.split(${pattern}, -1)`;
+      }
+      case 'isdigit':
+      case 'isalpha': {
+        const test = node.method === 'isdigit' ? 'isDigit' : 'isLetter';
+        return isChar ? `Character.${test}(${code})` : `(!${object}.isEmpty() && ${object}.chars().allMatch(Character::${test}))`;
+      }
+    }
+  }
+
+  // Math's floor and ceil give doubles where Python's give ints, rint rounds halves to even as round
+  // does, and its min and max take two arguments. The rest give doubles too, narrowed to the floats
+  // Python's are declared as unless given a double
+  private generateMathCall(node: IRMathCall): string {
+    const args = node.args.map(arg => this.generateExpression(arg));
+    if (node.func === 'floor' || node.func === 'ceil') return `(int) Math.${node.func}(${args[0]})`;
+    if (node.func === 'round') return `(int) Math.rint(${args[0]})`;
+    if (node.func === 'min' || node.func === 'max') return args.reduce((a, b) => `Math.${node.func}(${a}, ${b})`);
+    const call = `Math.${node.func}(${args.join(', ')})`;
+    return node.func === 'abs' || node.args.some(arg => this.isDouble(arg)) ? call : `(float) ${call}`;
+  }
+
+  private isDouble(node: IRNode): boolean {
+    if (isIRLiteral(node)) return node.dataType === 'double';
+    if (isIRIdentifier(node)) return this.doubles.has(this.stripSelf(node.name));
+    if (isIRBinaryOp(node)) return node.operator === 'true_div' || isNegativePower(node) || this.isDouble(node.left) || this.isDouble(node.right);
+    if (node.type === 'unary_op') return this.isDouble((node as IRUnaryOp).operand);
+    if (isIRMathConstant(node)) return node.dataType === 'double';
+    if (isIRMathCall(node) && mathFunctionType(node.func, ['double']) === 'int') return false;
+    return isIRMathCall(node) && node.args.some(arg => this.isDouble(arg));
+  }
+
+  private isChar(node: IRNode): boolean {
+    if (isIRLiteral(node)) return node.dataType === 'char';
+    if (isIRIdentifier(node)) return this.chars.has(this.stripSelf(node.name));
+    if (isIRIndex(node)) return this.isString(node.object);
+    return isIRStringMethod(node) && (node.method === 'upper' || node.method === 'lower') && this.isChar(node.object);
+  }
+
+  // What a slice or index applies to; anything not known to be a collection is taken as a string
+  private sliceKind(node: IRNode): 'string' | 'list' | 'array' {
+    if (isIRSlice(node)) return this.sliceKind(node.object);
+    if (this.isList(node)) return 'list';
+    if (isIRIdentifier(node) && this.arrays.has(this.stripSelf(node.name))) return 'array';
+    if (isIRArrayLiteral(node)) return node.isList ? 'list' : 'array';
+    return 'string';
+  }
+
+  private genericOf(node: IRNode): string | undefined {
+    return isIRIdentifier(node) ? this.generics.get(this.stripSelf(node.name)) : undefined;
+  }
+
+  private isString(node: IRNode): boolean {
+    if (isIRLiteral(node)) return node.dataType === 'string';
+    if (isIRIdentifier(node)) return this.strings.has(this.stripSelf(node.name));
+    if (isIRTupleIndex(node)) return flattenType(node.tupleType.elements[node.index]) === 'string';
+    return isIRSlice(node) && this.sliceKind(node) === 'string';
+  }
+
+  private reversesAll(node: IRSlice): boolean {
+    return sliceStep(node) === -1 && !node.start && !node.end;
+  }
+
+  // Other steps, and Python's bounds, which may fall past either end, go through the slice helpers
+  private slicesByHelper(node: IRSlice): boolean {
+    if (this.sliceKind(node.object) === 'string' && this.reversesAll(node)) return false;
+    return sliceStep(node) !== 1 || (!!node.clamps && (!!node.start || !!node.end));
+  }
+
+  private generateArrayLiteral(node: IRArrayLiteral): string {
+    const elementType = this.mapType(node.elementType);
+    const elements = node.elements.map(e => this.generateExpression(e)).join(', ');
+    
+    if (node.isList) {
+      if (node.size) {
+        const size = this.generateExpression(node.size);
+        if (node.fill && isIRArrayLiteral(node.fill)) {
+          const name = this.uniqueName('rows');
+          this.before.push(`${this.mapType(sizedListType(node))} ${name} = new ArrayList<>();`, this.generateRowFill(name, node));
+          return name;
+        }
+        const fill = node.fill ? this.generateExpression(node.fill) : this.getDefaultValue(node.elementType);
+        return `new ArrayList<>(Collections.nCopies(${size}, ${fill}))`;
+      }
+      return elements ? `new ArrayList<>(Arrays.asList(${elements}))` : 'new ArrayList<>()';
+    }
+    
+    if (node.size) return `new ${elementType}[${this.generateExpression(node.size)}]`;
+    return `new ${elementType}[]{${elements}}`;
+  }
+
+  // Each row is a list of its own, so they're added one at a time
+  private generateRowFill(name: string, node: IRArrayLiteral): string {
+    const index = `${name}Index`;
+    const size = this.generateExpression(node.size!);
+    return `for (int ${index} = 0; ${index} < ${size}; ${index}++) ${name}.add(${this.generateExpression(node.fill!)});`;
+  }
+
+  // Map.of has no order, so a literal used in place is filled in a variable before the statement
+  private generateMapLiteral(node: IRMapLiteral): string {
+    if (node.entries.length === 0) return 'new LinkedHashMap<>()';
+    const name = this.uniqueName('mapEntries');
+    const type = `LinkedHashMap<${this.mapBoxedType(node.keyType)}, ${this.mapBoxedType(node.valueType)}>`;
+    this.before.push(`${type} ${name} = new LinkedHashMap<>();`, ...this.generatePuts(name, node, ''));
+    return name;
+  }
+
+  private generatePuts(name: string, node: IRMapLiteral, indent: string): string[] {
+    const map: IRIdentifier = { type: 'identifier', name };
+    return node.entries.map(e => `${indent}${name}.put(${this.generateExpression(e.key)}, ${this.generateMapValue(map, e.value)});`);
+  }
+
+  // Values box to the map's value type, which a literal of another numeric type doesn't: a Double
+  // takes 2.0 and 2.5 but neither 2 nor 2.5f
+  private generateMapValue(map: IRNode, value: IRNode): string {
+    const variable = isIRIdentifier(map) ? this.maps.get(this.stripSelf(map.name)) : undefined;
+    const type = variable ? flattenType(variable.dataType) : 'auto';
+    if (isIRLiteral(value) && typeof value.value === 'number') {
+      if (type === 'double') return Number.isInteger(value.value) ? `${value.value}.0` : String(value.value);
+      if (type === 'float') return `${value.value}f`;
+      if (type === 'long') return `${value.value}L`;
+    }
+    const outer = this.doubleLiterals;
+    this.doubleLiterals = type === 'double';
+    const code = this.generateExpression(value);
+    this.doubleLiterals = outer;
+    return code;
+  }
+
+  private isMap(node: IRNode): boolean {
+    return isIRIdentifier(node) && this.maps.has(this.stripSelf(node.name));
+  }
+
+  private isList(node: IRNode): boolean {
+    const row = this.rowOf(node);
+    if (row) return row.kind === 'array' && !!row.isList;
+    return isIRIdentifier(node) && this.lists.has(this.stripSelf(node.name));
+  }
+
+  // The type of grid[i] when grid holds rows
+  private rowOf(node: IRNode): IRType | undefined {
+    return isIRIndex(node) && isIRIdentifier(node.object) ? this.rows.get(this.stripSelf(node.object.name)) : undefined;
+  }
+
+  private stripSelf(name: string): string {
+    return name.replace(/^(self|this)\./, '');
+  }
+
   private generateLiteral(node: IRLiteral): string {
     if (node.dataType === 'string') {
       return `"${node.value}"`;
@@ -523,46 +1933,266 @@ export class JavaGenerator {
       return node.value ? 'true' : 'false';
     }
     if (node.value === 'null') return 'null';
-    if (node.dataType === 'float') return `${node.value}f`;
+    if (node.dataType === 'float') return this.doubleLiterals ? String(node.value) : `${node.value}f`;
+    // Integer literals outside int's range only compile as longs
+    if (typeof node.value === 'number' && Number.isInteger(node.value) && Math.abs(node.value) > 2147483647) return `${node.value}L`;
     return String(node.value);
   }
 
   private generateIdentifier(node: IRIdentifier): string {
     if (node.name === 'self') return 'this';
+    if (this.holders.has(node.name)) return `${node.name}[0]`;
+    if (this.exceptionNames.includes(node.name)) return `${node.name}.getMessage()`;
     if (node.name.startsWith('self.')) return node.name.replace('self.', 'this.');
-    return node.name;
+    
+    // Record components are read through their accessor methods
+    const [object, ...fields] = node.name.split('.');
+    let struct = this.structs.get(this.structVariables.get(object) || '');
+    if (!struct || fields.length === 0) return node.name;
+    let path = object;
+    for (const field of fields) {
+      path += struct && this.records.has(struct.name) ? `.${field}()` : `.${field}`;
+      const member = struct?.members.find(m => m.name === field);
+      struct = this.structs.get(member ? classNameOf(member.dataType) || '' : '');
+    }
+    return path;
+  }
+
+  // The struct a value holds: pts[0], make() or a field of another
+  private structOf(node: IRNode): IRClass | undefined {
+    if (isIRIdentifier(node)) return this.structs.get(this.structVariables.get(node.name) || '');
+    if (isIRIndex(node)) return this.structOf(node.object);
+    if (isIRDereference(node)) return this.structOf(node.operand);
+    if (isIRFieldAccess(node)) {
+      const field = this.structOf(node.object)?.members.find(m => m.name === node.field);
+      return this.structs.get(field ? classNameOf(field.dataType) || '' : '');
+    }
+    const fn = isIRCall(node) ? this.functions.get(node.callee) : undefined;
+    return fn && this.structs.get(classNameOf(fn.returnType) || '');
   }
 
   private generateBinaryOp(node: IRBinaryOp): string {
-    const left = this.generateExpression(node.left);
-    const right = this.generateExpression(node.right);
+    // x % n == 0 holds whichever way the remainder rounds
+    if (this.isDivisibilityTest(node)) {
+      return this.generateBinaryOp({ ...node, left: { ...(node.left as IRBinaryOp), operator: '%' } as IRBinaryOp });
+    }
+    const fn = ARITHMETIC_FUNCTIONS[node.operator];
+    // A negative power is fractional, so it takes the double overload
+    const base = isNegativePower(node) ? `(double) ${this.generateOperand(node.left, 'true_div')}` : this.generateExpression(node.left);
+    if (fn) return `${fn}(${base}, ${this.generateExpression(node.right)})`;
+    const left = this.generateOperand(node.left, node.operator);
+    const right = this.generateOperand(node.right, node.operator, true);
+    // Strings and type parameters have no ordering operators
+    if (['<', '>', '<=', '>='].includes(node.operator)) {
+      const generic = this.genericOf(node.left) || this.genericOf(node.right);
+      if (generic) this.comparables.add(generic);
+      if (generic || (this.isString(node.left) && this.isString(node.right))) return `${left}.compareTo(${right}) ${node.operator} 0`;
+    }
+    // == on strings would compare the objects rather than their text
+    if ((node.operator === '==' || node.operator === '!=') && this.isString(node.left) && this.isString(node.right)) {
+      const receiver = isIRBinaryOp(node.left) || isIRConditional(node.left) ? `(${left})` : left;
+      return `${node.operator === '!=' ? '!' : ''}${receiver}.equals(${this.generateExpression(node.right)})`;
+    }
+    if (node.operator === 'true_div') return `(double) ${left} / ${right}`;
     return `${left} ${node.operator} ${right}`;
   }
 
+  private isDivisibilityTest(node: IRBinaryOp): boolean {
+    return (node.operator === '==' || node.operator === '!=') && isIRLiteral(node.right) && node.right.value === 0 &&
+      isIRBinaryOp(node.left) && node.left.operator === 'floor_mod';
+  }
+
+  // Parenthesizes operands that bind looser than their operator, or as loosely on the right
+  private generateOperand(node: IRNode, operator: string, isRight = false): string {
+    return operandCode(node, this.generateExpression(node), operator, isRight);
+  }
+
+  // Only a chain through the else branch reads clearly without parentheses
+  private generateConditional(node: IRConditional): string {
+    const wrap = (value: IRNode) => isIRConditional(value) ? `(${this.generateExpression(value)})` : this.generateExpression(value);
+    return `${wrap(node.condition)} ? ${wrap(node.thenValue)} : ${this.generateExpression(node.elseValue)}`;
+  }
+
   private generateCall(node: IRCall): string {
-    const args = node.args.map(arg => this.generateExpression(arg)).join(', ');
+    if (isAggregate(node)) return this.generateStream(node.args[0], node.callee);
+    const params = this.calleeParams(node);
+    const bound = bindArguments(node, params, false);
+    // A list literal handed to an array parameter is built as an array
+    const argList = bound.map((arg, i) => isIRArrayLiteral(arg) && params?.[i] && isArrayType(params[i].dataType)
+      ? this.generateArrayLiteral({ ...arg, isList: isListType(params[i].dataType) })
+      : this.generateExpression(arg));
+    for (const i of this.outParams.get(node.callee) || []) {
+      if (i < bound.length && !node.isMethod) argList[i] = this.generateHolder(node, bound[i], i);
+    }
+    const args = argList.join(', ');
     
     // Type conversion
     if (node.callee === 'int') return `Integer.parseInt(${args})`;
     if (node.callee === 'float') return `Float.parseFloat(${args})`;
     if (node.callee === 'str') return `String.valueOf(${args})`;
+    if (node.callee === 'next' && argList.length === 1 && !node.isMethod) return `${argList[0]}.next()`;
     
     if (node.isMethod && node.object) {
-      const obj = node.object === 'self' ? 'this' : node.object;
-      return `${obj}.${node.callee}(${args})`;
+      const obj = node.object === 'self' ? 'this' : node.object.replace('self.', 'this.');
+      const method = node.callee === 'append' && this.lists.has(this.stripSelf(node.object)) ? 'add' : node.callee;
+      return `${obj}.${method}(${args})`;
+    }
+    if (node.isMethod && node.receiver) {
+      const method = node.callee === 'append' && !this.calleeParams(node) ? 'add' : node.callee;
+      return `${this.generateExpression(node.receiver)}.${method}(${args})`;
     }
     
+    const fn = this.functions.has(node.callee) ? undefined : this.functionValues.get(node.callee);
+    if (fn) return `${node.callee}.${this.functionMethod(fn)}(${args})`;
+    
     // Constructor call (new ClassName)
-    if (node.callee[0] === node.callee[0].toUpperCase() && !node.isMethod) {
-      return `new ${node.callee}(${args})`;
+    if ((node.callee[0] === node.callee[0].toUpperCase() || this.structs.has(node.callee)) && !node.isMethod) {
+      return `new ${node.callee}${this.classes.get(node.callee)?.typeParams ? '<>' : ''}(${args})`;
     }
     
     return `${node.callee}(${args})`;
   }
 
-  private mapType(type: DataType, isParam = false, isReturnType = false): string {
+  // Wraps an argument written through by the callee, copying it back afterwards
+  private generateHolder(node: IRCall, arg: IRNode, i: number): string {
+    const operand = isIRAddressOf(arg) ? arg.operand : arg;
+    if (isIRIdentifier(operand) && this.holders.has(operand.name)) return operand.name;
+    
+    const target = this.generateExpression(operand);
+    const base = `${isIRIdentifier(operand) ? operand.name.replace(/\W/g, '_') : 'value'}Ref`;
+    let holder = base;
+    for (let n = 2; this.holderNames.has(holder); n++) holder = `${base}${n}`;
+    this.holderNames.add(holder);
+    const param = this.functions.get(node.callee)?.params[i];
+    // An out-parameter's variable may not be set yet, so its holder starts at the type's default
+    const value = isIRIdentifier(operand) && this.unassigned.has(operand.name)
+      ? this.getDefaultValue(param ? flattenType(param.dataType) : 'int') : target;
+    this.before.push(`${this.mapType(param?.dataType || 'int')}[] ${holder} = {${value}};`);
+    this.after.push(`${target} = ${holder}[0];`);
+    return holder;
+  }
+
+  // Parameters of the function, method or constructor being called, when it is known
+  private calleeParams(node: IRCall): IRVariable[] | undefined {
+    if (node.isMethod) return [...this.classes.values()].flatMap(cls => cls.methods).find(m => m.name === node.callee)?.params;
+    const cls = this.classes.get(node.callee);
+    return cls ? this.effectiveConstructor(cls)?.params : this.functions.get(node.callee)?.params;
+  }
+
+  // xs.stream().filter(x -> x > 0).map(x -> x * x).collect(...); sum(), any() and all() end the
+  // pipeline themselves, folded into its last stage when there is a single for clause
+  private generateStream(node: IRComprehension, aggregate?: string): string {
+    const element = this.generateExpression(node.element);
+    const value = node.key ? `Map.entry(${this.generateExpression(node.key)}, ${element})` : element;
+    const single = node.clauses.filter(clause => !clause.condition).length === 1;
+    if (aggregate === 'sum') {
+      const decimal = node.elementType === 'float' || node.elementType === 'double';
+      const toNumber = decimal ? 'mapToDouble' : 'mapToInt';
+      const unbox = single ? '' : `.${toNumber}(${this.mapBoxedType(node.elementType)}::${decimal ? 'double' : 'int'}Value)`;
+      const sum = `${this.streamClauses(node.clauses, 0, value, single ? toNumber : 'map')}${unbox}.sum()`;
+      return node.elementType === 'float' ? `(float) ${sum}` : sum;
+    }
+    if (aggregate) {
+      const match = `${aggregate}Match`;
+      return `${this.streamClauses(node.clauses, 0, value, single ? match : 'map')}${single ? '' : `.${match}(Boolean::booleanValue)`}`;
+    }
+    const collector = node.kind === 'dict' ? 'Collectors.toMap(Map.Entry::getKey, Map.Entry::getValue, (a, b) -> b, LinkedHashMap::new)' :
+                      `Collectors.toCollection(${node.kind === 'set' ? 'HashSet' : 'ArrayList'}::new)`;
+    return `${this.streamClauses(node.clauses, 0, value, 'map')}.collect(${collector})`;
+  }
+
+  // The stream of one for clause, filtered by the if clauses after it; a further for clause is flat-mapped
+  private streamClauses(clauses: IRComprehensionClause[], start: number, value: string, stage: string): string {
+    const clause = clauses[start];
+    const iterator = clause.iterator!;
+    let chain = this.streamSource(clause);
+    let next = start + 1;
+    for (; next < clauses.length && clauses[next].condition; next++) {
+      chain += `.filter(${iterator} -> ${this.generateExpression(clauses[next].condition!)})`;
+    }
+    if (next < clauses.length) return `${chain}.flatMap(${iterator} -> ${this.streamClauses(clauses, next, value, stage)})`;
+    return stage === 'map' && value === iterator ? chain : `${chain}.${stage}(${iterator} -> ${value})`;
+  }
+
+  private streamSource(clause: IRComprehensionClause): string {
+    const iterator = clause.iterator!;
+    const iterable = clause.iterable!;
+    if (isIRCall(iterable) && iterable.callee === 'range' && !iterable.isMethod) {
+      const [first, second, step] = iterable.args.map(arg => this.generateExpression(arg));
+      const [start, end] = second ? [first, second] : ['0', first];
+      if (!step || step === '1') return `IntStream.range(${start}, ${end}).boxed()`;
+      const comparison = step.startsWith('-') ? '>' : '<';
+      return `IntStream.iterate(${start}, ${iterator} -> ${iterator} ${comparison} ${end}, ${iterator} -> ${iterator} + ${step}).boxed()`;
+    }
+    const source = this.generateExpression(iterable);
+    if (clause.overMap) return `${source}.keySet().stream()`;
+    if (isIRIdentifier(iterable) && this.arrays.has(this.stripSelf(iterable.name))) {
+      // Arrays of int, long and double stream their primitives
+      return `Arrays.stream(${source})${['int', 'long', 'double'].includes(clause.iteratorType || '') ? '.boxed()' : ''}`;
+    }
+    if (clause.iteratorType === 'char') return `${source}.chars().mapToObj(${iterator} -> (char) ${iterator})`;
+    return `${source}.stream()`;
+  }
+
+  // x -> x + 1, or a block body; Java captures only effectively final locals
+  private generateLambda(node: IRLambda): string {
+    const params = node.params.length === 1 ? node.params[0].name : `(${node.params.map(p => p.name).join(', ')})`;
+    const shared = node.capturesByReference ? lambdaCaptures(node).filter(name => this.writes(name, node.body) || this.assigns(name, node.body)) : [];
+    if (shared.length > 0) this.before.push(`// Note: Java lambdas can't assign ${shared.join(', ')}; wrap them in a one-element array`);
+    const expression = lambdaExpression(node);
+    if (expression) return `${params} -> ${this.generateExpression(expression)}`;
+    
+    const insideVoidMain = this.isInsideVoidMain;
+    this.isInsideVoidMain = false;
+    this.indent++;
+    const body = node.body.map(stmt => this.generateNode(stmt)).filter(Boolean);
+    this.indent--;
+    this.isInsideVoidMain = insideVoidMain;
+    return `${params} -> {\n${body.join('\n')}\n${this.getIndent()}}`;
+  }
+
+  // Whether name is reassigned, which writes() leaves out since it rebinds rather than writes through
+  private assigns(name: string, value: unknown): boolean {
+    return someIR(value, node => isIRAssignment(node) && node.target === name);
+  }
+
+  // The single abstract method of the interface mapFunctionType picks
+  private functionMethod(type: Extract<IRType, { kind: 'function' }>): string {
+    const returns = !(type.returns.kind === 'primitive' && type.returns.name === 'void');
+    if (type.params.length === 0) return returns ? 'get' : 'run';
+    if (!returns) return 'accept';
+    const predicate = type.params.length === 1 && type.returns.kind === 'primitive' && type.returns.name === 'bool';
+    return predicate ? 'test' : 'apply';
+  }
+
+  private generateSuperCall(node: IRSuperCall): string {
+    const args = node.args.map(arg => this.generateExpression(arg)).join(', ');
+    return node.method ? `super.${node.method}(${args})` : `super(${args})`;
+  }
+
+  private mapType(type: PrimitiveType | IRType, isParam = false, isReturnType = false): string {
+    if (typeof type === 'object') {
+      switch (type.kind) {
+        case 'primitive': return this.mapType(type.name, isParam, isReturnType);
+        case 'array':
+          if (type.isSet) return `HashSet<${this.mapBoxedType(type.element)}>`;
+          return type.isList ? `ArrayList<${this.mapBoxedType(type.element)}>` : `${this.mapType(type.element)}[]`;
+        case 'map': return `LinkedHashMap<${this.mapBoxedType(type.key)}, ${this.mapBoxedType(type.value)}>`;
+        case 'class': return type.args ? `${type.name}<${type.args.map(arg => this.mapBoxedType(arg)).join(', ')}>` : type.name;
+        case 'enum':
+        case 'type_param': return type.name;
+        // Reference types can hold null; primitives need their wrapper class
+        case 'nullable': return this.mapBoxedType(type.inner);
+        case 'function': return this.mapFunctionType(type);
+        case 'tuple': return `${this.tupleName(type.elements.length)}<${type.elements.map(e => this.mapBoxedType(e)).join(', ')}>`;
+      }
+    }
     const typeMap: Record<string, string> = {
       'int': 'int',
+      'long': 'long',
+      'short': 'short',
+      'byte': 'byte',
+      'unsigned': 'long', // Java has no unsigned int; long holds its whole range
       'float': 'float',
       'double': 'double',
       'char': 'char',
@@ -574,9 +2204,59 @@ export class JavaGenerator {
     return typeMap[type] || 'int';
   }
 
-  private getDefaultValue(type: DataType): string {
+  private boundComparables(typeParams: IRTypeParam[] | undefined): IRTypeParam[] | undefined {
+    return typeParams?.map(param => param.bounds || !this.comparables.has(param.name) ? param :
+      { ...param, bounds: [{ kind: 'class', name: 'Comparable', args: [{ kind: 'type_param', name: param.name }] }] });
+  }
+
+  // <T, U> of a generic class or method
+  private typeParamList(typeParams: IRTypeParam[] | undefined, suffix = ''): string {
+    if (!typeParams) return '';
+    const params = typeParams.map(param =>
+      param.bounds ? `${param.name} extends ${param.bounds.map(bound => this.mapType(bound)).join(' & ')}` : param.name);
+    return `<${params.join(', ')}>${suffix}`;
+  }
+
+  // The matching interface from java.util.function, chosen by arity and whether it returns
+  private mapFunctionType(type: Extract<IRType, { kind: 'function' }>): string {
+    const params = type.params.map(p => this.mapBoxedType(p));
+    const returns = type.returns.kind === 'primitive' && type.returns.name === 'void' ? undefined : this.mapBoxedType(type.returns);
+    const predicate = returns === 'Boolean' && params.length === 1;
+    const name = params.length === 0 ? (returns ? 'Supplier' : 'Runnable') :
+                 params.length === 1 ? (predicate ? 'Predicate' : returns ? 'Function' : 'Consumer') :
+                 returns ? 'BiFunction' : 'BiConsumer';
+    if (name !== 'Runnable') this.functionInterfaces.add(name);
+    const args = params.length > 2 ? ['Object[]'] : params;
+    if (returns && !predicate) args.push(returns);
+    return args.length > 0 ? `${name}<${args.join(', ')}>` : name;
+  }
+
+  // Generic type arguments need the wrapper classes
+  private mapBoxedType(type: PrimitiveType | IRType): string {
+    if (typeof type === 'object') return type.kind === 'primitive' ? this.mapBoxedType(type.name) : this.mapType(type);
+    const boxedMap: Record<string, string> = {
+      'int': 'Integer',
+      'long': 'Long',
+      'short': 'Short',
+      'byte': 'Byte',
+      'unsigned': 'Long',
+      'float': 'Float',
+      'double': 'Double',
+      'char': 'Character',
+      'string': 'String',
+      'bool': 'Boolean',
+      'void': 'Void',
+    };
+    return boxedMap[type] || 'Integer';
+  }
+
+  private getDefaultValue(type: PrimitiveType): string {
     switch (type) {
-      case 'int': return '0';
+      case 'int':
+      case 'short':
+      case 'byte': return '0';
+      case 'long':
+      case 'unsigned': return '0L';
       case 'float':
       case 'double': return '0.0';
       case 'string': return '""';
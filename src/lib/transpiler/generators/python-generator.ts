@@ -7,17 +7,38 @@ import {
   IRIf,
   IRFor,
   IRWhile,
+  IRDoWhile,
   IRSwitch,
   IRReturn,
   IRPrint,
   IRInput,
   IRCall,
+  IRLambda,
+  IRComprehension,
   IRBinaryOp,
   IRUnaryOp,
   IRLiteral,
   IRIdentifier,
   IRComment,
   IRAssignment,
+  IRArrayLiteral,
+  IRIndexAssignment,
+  IRMapLiteral,
+  IRForEach,
+  IRBreak,
+  IRContinue,
+  IRTry,
+  IRThrow,
+  IRSuperCall,
+  IREnum,
+  IREnumMethod,
+  IRConditional,
+  IRCompoundAssignment,
+  IRTupleLiteral,
+  IRDestructure,
+  PrimitiveType,
+  IRType,
+  isIntegralType,
   isIRProgram,
   isIRVariable,
   isIRFunction,
@@ -30,25 +51,167 @@ import {
   isIRIf,
   isIRCall,
   isIRReturn,
+  isIRYield,
+  isIRStringMethod,
+  isIRMathCall,
+  isIRMathConstant,
+  mathFunctionType,
   isIRAssignment,
   isIRComment,
   isIRWhile,
+  isIRDoWhile,
   isIRInput,
   isIRSwitch,
+  isIRArrayLiteral,
+  isIRIndex,
+  isIRFieldAccess,
+  isIRSlice,
+  isIRIndexAssignment,
+  isIRLength,
+  isIRMapLiteral,
+  isIRContains,
+  isIRRemove,
+  isIRForEach,
+  isIRBreak,
+  isIRContinue,
+  isIRTry,
+  isIRThrow,
+  isIRSuperCall,
+  isIREnum,
+  isIREnumValue,
+  isIREnumMethod,
+  isIRAddressOf,
+  isIRDereference,
+  isIRAllocation,
+  isIRFree,
+  isIRConditional,
+  isIRCompoundAssignment,
+  isIRTupleLiteral,
+  isIRTupleIndex,
+  isIRDestructure,
+  isIRLambda,
+  isIRFunctionRef,
+  isIRComprehension,
+  lambdaExpression,
+  lambdaCaptures,
+  flattenType,
+  isFlatType,
+  isArrayType,
+  isMapType,
+  classNameOf,
+  visitIR,
+  someIR,
 } from '../ir';
+import { renameOverloads } from '../transforms/overloads';
+
+type IRLoop = IRFor | IRForEach | IRWhile | IRDoWhile;
+
+// Binding strength of Python's operators by IR operator; unlike C, bitwise
+// operators bind tighter than comparisons, and not sits between those and and/or
+const PRECEDENCE: Record<string, number> = {
+  'pow': 12, '*': 11, '/': 11, '%': 11, 'true_div': 11, 'floor_div': 11, 'floor_mod': 11, '+': 10, '-': 10, '<<': 9, '>>': 9, '>>>': 9, '&': 8, '^': 7, '|': 6,
+  '<': 5, '>': 5, '<=': 5, '>=': 5, '==': 5, '!=': 5, '!': 4, '&&': 3, '||': 2,
+};
+
+const OPERATORS: Record<string, string> = {
+  '&&': 'and', '||': 'or', 'true_div': '/', 'floor_div': '//', 'floor_mod': '%', 'pow': '**',
+};
+
+// Python has no labeled jumps: a jump out of a nested loop sets a flag that
+// each enclosing loop checks after its inner loop finishes
+interface LoopContext {
+  label?: string;
+  // Statements that must run before continuing (while-style for updates, do-while conditions)
+  beforeContinue?: () => string;
+  // Flag variables initialized before this loop
+  flags: Set<string>;
+  // Jumps out of this loop that still have to be forwarded to the enclosing one
+  pending: Map<string, IRBreak | IRContinue>;
+}
 
 export class PythonGenerator {
   private indent = 0;
   private indentStr = '    ';
+  private loops: LoopContext[] = [];
+  // Handler names in scope; the IR uses them for the exception message
+  private exceptionNames = new Set<string>();
+  private classes = new Map<string, IRClass>();
+  // Python has no pointers: parameters a function writes through are returned
+  // after its own result, and each call assigns them back
+  private outParams = new Map<string, number[]>();
+  private functions = new Map<string, IRFunction>();
+  private currentOutParams: string[] = [];
+  private notes: string[] = [];
+  // Lambdas with statements in their body become local defs, emitted ahead of the statement using them
+  private hoisted: string[] = [];
+  private lambdaCount = 0;
+  // Declared types decide whether C's / and % have to truncate
+  private variableTypes = new Map<string, PrimitiveType>();
+  // Struct values, which C copies on assignment where Python would share the object
+  private structValues = new Set<string>();
+  // Enums, and the variables holding their constants, which print as their source language prints them
+  private enumTypes = new Map<string, IREnum>();
+  private enumVariables = new Map<string, string>();
+  private usesCopy = false;
+  private usesMath = false;
+  private usesCallable = false;
 
   generate(ir: IRProgram): string {
+    // Python and C have no overloading: each overload gets its own name
+    ir = renameOverloads(ir);
     this.indent = 0;
+    this.loops = [];
+    this.exceptionNames = new Set();
+    this.classes = new Map();
+    this.outParams = new Map();
+    this.functions = new Map();
+    this.currentOutParams = [];
+    this.notes = [];
+    this.hoisted = [];
+    this.lambdaCount = 0;
+    this.variableTypes = new Map();
+    this.structValues = new Set();
+    this.enumTypes = new Map();
+    this.enumVariables = new Map();
+    this.usesCopy = false;
+    this.usesMath = false;
+    this.usesCallable = false;
     const lines: string[] = [];
     
+    for (const node of ir.body) {
+      if (isIRClass(node)) this.classes.set(node.name, node);
+      if (isIRFunction(node)) {
+        this.functions.set(node.name, node);
+        const outs = node.params
+          .map((p, i) => (p.isPointer || p.isReference) && !classNameOf(p.dataType) && this.writes(p.name, node.body) ? i : -1)
+          .filter(i => i >= 0);
+        if (outs.length > 0) this.outParams.set(node.name, outs);
+      }
+    }
+    ir.body.filter(isIREnum).forEach(node => this.enumTypes.set(node.name, node));
+    this.collectTypes(ir.body);
+    
+    const body: string[] = [];
     for (const node of ir.body) {
       const code = this.generateNode(node);
-      if (code) lines.push(code);
+      if (code) body.push(code);
+    }
+    
+    const imports: string[] = [];
+    if (this.usesCopy) imports.push('import copy');
+    if (this.usesMath) imports.push('import math');
+    if (this.usesCallable) imports.push('from collections.abc import Callable');
+    if ([...this.classes.values()].some(cls => cls.isAbstract || cls.isInterface)) {
+      imports.push('from abc import ABC, abstractmethod');
     }
+    if ([...this.classes.values()].some(cls => cls.isStruct)) imports.push('from dataclasses import dataclass');
+    if (ir.body.some(node => isIREnum(node))) imports.push('from enum import Enum');
+    // Generic classes derive from Generic over module-level type variables
+    const typeVars = new Set([...this.classes.values()].flatMap(cls => (cls.typeParams || []).map(param => param.name)));
+    if (typeVars.size > 0) imports.push('from typing import Generic, TypeVar');
+    if (imports.length > 0) lines.push(imports.join('\n') + '\n');
+    if (typeVars.size > 0) lines.push([...typeVars].map(name => `${name} = TypeVar('${name}')`).join('\n') + '\n');
+    lines.push(...body);
     
     return lines.join('\n');
   }
@@ -58,23 +221,47 @@ export class PythonGenerator {
   }
 
   private generateNode(node: IRNode): string {
+    const code = this.generateStatement(node);
+    if (this.notes.length === 0 && this.hoisted.length === 0) return code;
+    const notes = this.notes.map(note => `${this.getIndent()}# Note: ${note}`);
+    const hoisted = this.hoisted;
+    this.notes = [];
+    this.hoisted = [];
+    return [...notes, ...hoisted, code].join('\n');
+  }
+
+  private generateStatement(node: IRNode): string {
     if (isIRComment(node)) return this.generateComment(node);
     if (isIRVariable(node)) return this.generateVariable(node);
     if (isIRFunction(node)) return this.generateFunction(node);
     if (isIRClass(node)) return this.generateClass(node);
+    if (isIREnum(node)) return this.generateEnum(node);
     if (isIRIf(node)) return this.generateIf(node);
-    if (isIRFor(node)) return this.generateFor(node);
-    if (isIRWhile(node)) return this.generateWhile(node);
+    if (isIRFor(node) || isIRForEach(node) || isIRWhile(node) || isIRDoWhile(node)) {
+      return this.generateLoop(node);
+    }
     if (isIRSwitch(node)) return this.generateSwitch(node);
+    if (isIRTry(node)) return this.generateTry(node);
+    if (isIRThrow(node)) return this.generateThrow(node);
     if (isIRReturn(node)) return this.generateReturn(node);
+    if (isIRYield(node)) return `${this.getIndent()}yield ${this.generateExpression(node.value)}`;
     if (isIRPrint(node)) return this.generatePrint(node);
     if (isIRInput(node)) return this.generateInput(node);
     if (isIRAssignment(node)) return this.generateAssignment(node);
-    if (isIRCall(node)) return this.getIndent() + this.generateCall(node);
+    if (isIRIndexAssignment(node)) return this.generateIndexAssignment(node);
+    if (isIRDestructure(node)) return this.generateDestructure(node);
+    if (isIRRemove(node)) {
+      return `${this.getIndent()}del ${this.generateExpression(node.object)}[${this.generateExpression(node.key)}]`;
+    }
+    if (isIRCall(node)) return this.getIndent() + this.generateCallStatement(node);
+    if (isIRSuperCall(node)) return this.getIndent() + this.generateSuperCall(node);
+    if (isIRFree(node)) return '';
     if (isIRBinaryOp(node)) return this.getIndent() + this.generateBinaryOp(node);
+    if (isIRCompoundAssignment(node)) return this.getIndent() + this.generateCompoundAssignment(node);
+    if (node.type === 'unary_op') return this.getIndent() + this.generateUnaryStatement(node as IRUnaryOp);
     if (isIRLiteral(node)) return this.getIndent() + this.generateLiteral(node);
     if (isIRIdentifier(node)) return this.getIndent() + this.generateIdentifier(node);
-    if (node.type === 'break') return `${this.getIndent()}break`;
+    if (isIRBreak(node) || isIRContinue(node)) return this.generateJump(node);
     
     return '';
   }
@@ -94,25 +281,180 @@ export class PythonGenerator {
       const input = node.value as IRInput;
       const prompt = input.prompt ? `"${input.prompt}"` : '';
       
-      if (node.dataType === 'int') {
+      const dataType = flattenType(node.dataType);
+      if (dataType === 'int') {
         return `${indent}${node.name} = int(input(${prompt}))`;
-      } else if (node.dataType === 'float') {
+      } else if (dataType === 'float') {
         return `${indent}${node.name} = float(input(${prompt}))`;
       } else {
         return `${indent}${node.name} = input(${prompt})`;
       }
     }
     
-    const value = node.value ? this.generateExpression(node.value) : this.getDefaultValue(node.dataType);
+    if (isMapType(node.dataType) && !node.value) return `${indent}${node.name} = {}`;
+    
+    // Sized array without initializer like int a[10]
+    if (isArrayType(node.dataType) && !node.value) {
+      if (!node.arraySize) return `${indent}${node.name} = []`;
+      return `${indent}${node.name} = [${this.getDefaultValue(flattenType(node.dataType))}] * ${this.generateExpression(node.arraySize)}`;
+    }
+    
+    if ((node.isPointer && node.value && isIRAddressOf(node.value)) || (node.isReference && node.value && !classNameOf(node.dataType))) {
+      this.notes.push(`${node.name} is a copy of ${this.generateExpression(node.value)}, not an alias to it`);
+    }
+    
+    if (node.value && isIRCall(node.value) && this.outParams.has(node.value.callee)) {
+      return `${indent}${[node.name, ...this.outTargets(node.value)].join(', ')} = ${this.generateCall(node.value)}`;
+    }
+    
+    if (node.value && isIRLambda(node.value) && !lambdaExpression(node.value)) return this.generateLambdaDef(node.name, node.value);
+    
+    const value = node.value ? this.generateStructValue(node.name, node.value) : this.getDefaultValue(flattenType(node.dataType));
     return `${indent}${node.name} = ${value}`;
   }
 
+  // struct P b = a; gives b its own copy of a's fields
+  private generateStructValue(target: string, value: IRNode): string {
+    const code = this.generateExpression(value);
+    if (!this.structValues.has(target) || !(isIRIdentifier(value) || isIRIndex(value))) return code;
+    this.usesCopy = true;
+    return `copy.copy(${code})`;
+  }
+
+  private generateComprehension(node: IRComprehension): string {
+    const clauses = node.clauses.map(clause => {
+      if (clause.condition) return `if ${this.generateExpression(clause.condition)}`;
+      const iterable = this.generateExpression(clause.iterable!);
+      if (clause.overMap && clause.valueIterator) return `for ${clause.iterator}, ${clause.valueIterator} in ${iterable}.items()`;
+      return `for ${clause.iterator} in ${iterable}`;
+    });
+    const element = this.generateExpression(node.element);
+    const body = `${node.key ? `${this.generateExpression(node.key)}: ` : ''}${element} ${clauses.join(' ')}`;
+    if (node.kind === 'list') return `[${body}]`;
+    return node.kind === 'generator' ? `(${body})` : `{${body}}`;
+  }
+
+  private generateLambda(node: IRLambda): string {
+    const value = lambdaExpression(node);
+    if (value) {
+      const params = node.params.map(p => p.name).join(', ');
+      return `lambda${params ? ' ' + params : ''}: ${this.generateExpression(value)}`;
+    }
+    const name = `lambda_${++this.lambdaCount}`;
+    this.hoisted.push(this.generateLambdaDef(name, node));
+    return name;
+  }
+
+  private generateLambdaDef(name: string, node: IRLambda): string {
+    const indent = this.getIndent();
+    const outerHoisted = this.hoisted;
+    this.hoisted = [];
+    let code = `${indent}def ${name}(${node.params.map(p => p.name).join(', ')}):\n`;
+    this.indent++;
+    // Python makes any variable a def assigns local unless it is declared nonlocal (or global at module level)
+    const assigned = lambdaCaptures(node).filter(captured => this.writes(captured, node.body));
+    if (assigned.length > 0) code += `${this.getIndent()}${indent ? 'nonlocal' : 'global'} ${assigned.join(', ')}\n`;
+    for (const stmt of node.body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    if (node.body.length === 0) code += `${this.getIndent()}pass\n`;
+    this.indent--;
+    this.hoisted = outerHoisted;
+    return code.trimEnd();
+  }
+
+  // Whether a pointer or reference parameter is written through
+  private writes(name: string, value: unknown): boolean {
+    const isTarget = (target: IRNode) => isIRDereference(target)
+      ? isIRIdentifier(target.operand) && target.operand.name === name
+      : isIRIdentifier(target) && target.name === name;
+    return someIR(value, node => {
+      if (isIRBinaryOp(node) && node.operator === '=' && isTarget(node.left)) return true;
+      if (isIRCompoundAssignment(node) && isTarget(node.target)) return true;
+      if (node.type === 'unary_op' && ['++', '--', '++_post', '--_post'].includes((node as IRUnaryOp).operator) &&
+          isTarget((node as IRUnaryOp).operand)) return true;
+      return false;
+    });
+  }
+
+  private collectTypes(value: unknown): void {
+    visitIR(value, node => {
+      const record = (name: string, type: PrimitiveType) => {
+        if (type !== 'auto' && !this.variableTypes.has(name)) this.variableTypes.set(name, type);
+      };
+      if (isIRVariable(node)) record(node.name, flattenType(node.dataType));
+      if (isIRFunction(node)) node.params.forEach(p => record(p.name, flattenType(p.dataType)));
+      if (isIRVariable(node) && node.dataType.kind === 'enum') this.enumVariables.set(node.name, node.dataType.name);
+      if (isIRVariable(node) && !node.isPointer && !node.isReference && this.classes.get(classNameOf(node.dataType) || '')?.isStruct) {
+        this.structValues.add(node.name);
+      }
+    });
+  }
+
+  private inferType(node: IRNode): PrimitiveType {
+    if (isIRLiteral(node)) return node.dataType;
+    if (isIRIdentifier(node)) {
+      const member = node.name.split('.').slice(1).join('.');
+      const field = member && [...this.classes.values()].flatMap(cls => cls.members).find(m => m.name === member);
+      return field ? flattenType(field.dataType) : this.variableTypes.get(node.name) || 'auto';
+    }
+    if (isIRFieldAccess(node)) {
+      const field = [...this.classes.values()].flatMap(cls => cls.members).find(m => m.name === node.field);
+      return field ? flattenType(field.dataType) : 'auto';
+    }
+    if (isIRIndex(node) || isIRSlice(node)) return this.inferType(node.object);
+    if (isIRTupleIndex(node)) return flattenType(node.tupleType.elements[node.index]);
+    if (isIRLength(node)) return 'int';
+    if (isIRMathCall(node)) return mathFunctionType(node.func, node.args.map(arg => this.inferType(arg)));
+    if (isIRMathConstant(node)) return 'float';
+    if (isIRCall(node)) {
+      const callee = this.functions.get(node.callee);
+      return callee ? flattenType(callee.returnType) : 'auto';
+    }
+    if (node.type === 'unary_op') return this.inferType((node as IRUnaryOp).operand);
+    if (isIRBinaryOp(node)) {
+      if (['==', '!=', '<', '>', '<=', '>=', '&&', '||'].includes(node.operator)) return 'bool';
+      if (node.operator === 'true_div') return 'float';
+      const types = [this.inferType(node.left), this.inferType(node.right)];
+      if (types.includes('float') || types.includes('double')) return 'float';
+      return types.every(t => isIntegralType(t)) ? 'int' : 'auto';
+    }
+    return 'auto';
+  }
+
+  private isIntegral(left: IRNode, right: IRNode): boolean {
+    return isIntegralType(this.inferType(left)) && isIntegralType(this.inferType(right));
+  }
+
+  // Where a call's written-through arguments are assigned back
+  private outTargets(node: IRCall): string[] {
+    return (this.outParams.get(node.callee) || [])
+      .filter(i => i < node.args.length)
+      .map(i => this.generateExpression(node.args[i]));
+  }
+
+  private generateCallStatement(node: IRCall): string {
+    const targets = this.outTargets(node);
+    if (targets.length === 0) return this.generateCall(node);
+    // A function returning a value returns it first
+    const result = this.returnsValue(node.callee) ? ['_'] : [];
+    return `${[...result, ...targets].join(', ')} = ${this.generateCall(node)}`;
+  }
+
+  private returnsValue(name: string): boolean {
+    const callee = this.functions.get(name);
+    return !callee || flattenType(callee.returnType) !== 'void';
+  }
+
   private generateFunction(node: IRFunction): string {
     const indent = this.getIndent();
-    const params = node.params.map(p => p.name).join(', ');
+    const params = this.generateParams(node.params);
     
     let code = `${indent}def ${node.name}(${params}):\n`;
     
+    const outs = this.outParams.get(node.name) || [];
+    this.currentOutParams = outs.map(i => node.params[i].name);
     this.indent++;
     if (node.body.length === 0) {
       code += `${this.getIndent()}pass\n`;
@@ -122,12 +464,83 @@ export class PythonGenerator {
         if (stmtCode) code += stmtCode + '\n';
       }
     }
+    const last = node.body[node.body.length - 1];
+    if (outs.length > 0 && !(last && isIRReturn(last))) {
+      code += `${this.getIndent()}return ${this.currentOutParams.join(', ')}\n`;
+    }
     this.indent--;
+    this.currentOutParams = [];
     
     return code;
   }
 
+  // Values are always spelled out so they match the C and C++ numbering
+  private generateEnum(node: IREnum): string {
+    let code = `${this.getIndent()}class ${node.name}(Enum):\n`;
+    let next = 0;
+    for (const member of node.members) {
+      const value = member.value ?? next;
+      code += `${this.getIndent()}${this.indentStr}${member.name} = ${value}\n`;
+      next = value + 1;
+    }
+    return code;
+  }
+
+  // Structs are always built with every field, so the fields need no defaults
+  private generateStruct(node: IRClass): string {
+    let code = `${this.getIndent()}@dataclass\n${this.getIndent()}class ${node.name}:\n`;
+    for (const member of node.members) {
+      code += `${this.getIndent()}${this.indentStr}${member.name}: ${this.annotation(member)}\n`;
+    }
+    if (node.members.length === 0) code += `${this.getIndent()}${this.indentStr}pass\n`;
+    return code;
+  }
+
+  // Iterating an Enum class gives its members in order
+  private generateEnumMethod(node: IREnumMethod): string {
+    if (node.method === 'values') return node.enumName;
+    const value = this.generateExpression(node.object!);
+    return node.method === 'value' ? `${value}.value` : `list(${node.enumName}).index(${value})`;
+  }
+
+  private annotation(variable: IRVariable): string {
+    const type = variable.dataType;
+    if (isArrayType(type) && isFlatType(type)) return 'list';
+    // A pointer may be None, and may point to the class being defined, so it's quoted
+    if (type.kind === 'class' && variable.isPointer) return `'${type.name} | None'`;
+    return this.mapType(type);
+  }
+
+  // Python's ints are unbounded, so every sized integer is just int
+  private mapType(type: PrimitiveType | IRType): string {
+    if (typeof type === 'object') {
+      switch (type.kind) {
+        case 'primitive': return this.mapType(type.name);
+        case 'array': return `list[${this.mapType(type.element)}]`;
+        case 'map': return `dict[${this.mapType(type.key)}, ${this.mapType(type.value)}]`;
+        case 'class': return type.args ? `${type.name}[${type.args.map(arg => this.mapType(arg)).join(', ')}]` : type.name;
+        case 'enum':
+        case 'type_param': return type.name;
+        case 'tuple': return `tuple[${type.elements.map(e => this.mapType(e)).join(', ')}]`;
+        case 'nullable': return `${this.mapType(type.inner)} | None`;
+        case 'function':
+          this.usesCallable = true;
+          return `Callable[[${type.params.map(p => this.mapType(p)).join(', ')}], ${this.mapType(type.returns)}]`;
+      }
+    }
+    switch (type) {
+      case 'float':
+      case 'double': return 'float';
+      case 'string':
+      case 'char': return 'str';
+      case 'bool': return 'bool';
+      case 'void': return 'None';
+      default: return 'int';
+    }
+  }
+
   private generateClass(node: IRClass): string {
+    if (node.isStruct) return this.generateStruct(node);
     const indent = this.getIndent();
     
     // Check if this is a Java-style class with only a static main method
@@ -162,43 +575,58 @@ export class PythonGenerator {
       return code.trimEnd();
     }
     
-    let code = `${indent}class ${node.name}:\n`;
+    // Abstract classes derive from ABC unless a base already does
+    const bases = [...(node.superclass ? [node.superclass] : []), ...(node.interfaces || [])];
+    const isAbstract = node.isAbstract || node.isInterface;
+    if (isAbstract && !bases.some(base => this.classes.get(base)?.isAbstract || this.classes.get(base)?.isInterface)) {
+      bases.push('ABC');
+    }
+    if (node.typeParams) bases.push(`Generic[${node.typeParams.map(param => param.name).join(', ')}]`);
+    let code = `${indent}class ${node.name}${bases.length > 0 ? `(${bases.join(', ')})` : ''}:\n`;
     
     this.indent++;
     
     // Constructor
     if (node.constructor || node.members.length > 0) {
-      const params = node.constructor?.params.map(p => p.name).join(', ') || '';
+      const params = this.generateParams(node.constructor?.params || []);
       code += `${this.getIndent()}def __init__(self${params ? ', ' + params : ''}):\n`;
       
       this.indent++;
-      if (node.members.length > 0) {
-        for (const member of node.members) {
-          const value = member.value ? this.generateExpression(member.value) : this.getDefaultValue(member.dataType);
-          code += `${this.getIndent()}self.${member.name} = ${value}\n`;
-        }
+      const body = node.constructor?.body || [];
+      // Members the constructor assigns itself don't need a default first
+      const assigned = new Set(body.map(stmt => this.assignedMember(stmt)).filter(Boolean));
+      let lines = 0;
+      for (const member of node.members) {
+        if (!member.value && assigned.has(member.name)) continue;
+        const defaultValue = isArrayType(member.dataType) ? '[]' : isMapType(member.dataType) ? '{}' : this.getDefaultValue(flattenType(member.dataType));
+        const value = member.value ? this.generateExpression(member.value) : defaultValue;
+        code += `${this.getIndent()}self.${member.name} = ${value}\n`;
+        lines++;
       }
-      if (node.constructor?.body) {
-        for (const stmt of node.constructor.body) {
-          const stmtCode = this.generateNode(stmt);
-          if (stmtCode && !stmtCode.includes('self.')) {
-            code += stmtCode + '\n';
-          }
+      for (const stmt of body) {
+        const stmtCode = this.generateNode(stmt);
+        if (stmtCode) {
+          code += stmtCode + '\n';
+          lines++;
         }
       }
-      if (node.members.length === 0 && (!node.constructor?.body || node.constructor.body.length === 0)) {
+      if (lines === 0) {
         code += `${this.getIndent()}pass\n`;
       }
       this.indent--;
+    } else if (node.methods.length === 0) {
+      code += `${this.getIndent()}pass\n`;
     }
     
     // Methods
     for (const method of node.methods) {
-      const params = method.params.map(p => p.name).join(', ');
-      code += `\n${this.getIndent()}def ${method.name}(self${params ? ', ' + params : ''}):\n`;
+      const params = this.generateParams(method.params);
+      code += '\n';
+      if (method.isAbstract) code += `${this.getIndent()}@abstractmethod\n`;
+      code += `${this.getIndent()}def ${method.name}(self${params ? ', ' + params : ''}):\n`;
       
       this.indent++;
-      if (method.body.length === 0) {
+      if (method.isAbstract || method.body.length === 0) {
         code += `${this.getIndent()}pass\n`;
       } else {
         for (const stmt of method.body) {
@@ -213,6 +641,14 @@ export class PythonGenerator {
     return code;
   }
 
+  // Name of the member a constructor statement like self.x = ... assigns, if any
+  private assignedMember(stmt: IRNode): string | undefined {
+    let target: string | undefined;
+    if (isIRAssignment(stmt)) target = stmt.target;
+    if (isIRBinaryOp(stmt) && stmt.operator === '=' && isIRIdentifier(stmt.left)) target = stmt.left.name;
+    return target?.startsWith('self.') ? target.slice('self.'.length) : undefined;
+  }
+
   private generateIf(node: IRIf): string {
     const indent = this.getIndent();
     const condition = this.generateExpression(node.condition);
@@ -244,10 +680,93 @@ export class PythonGenerator {
     return code.trimEnd();
   }
 
+  private generateLoop(node: IRLoop): string {
+    const context: LoopContext = { label: node.label, flags: new Set(), pending: new Map() };
+    if (isIRFor(node) && !node.rangeEnd && node.update) {
+      const update = node.update;
+      context.beforeContinue = () => this.generateNode(update);
+    }
+    if (isIRDoWhile(node)) {
+      context.beforeContinue = () => this.generateDoWhileExit(node);
+    }
+    
+    this.loops.push(context);
+    let code: string;
+    if (isIRFor(node)) code = this.generateFor(node);
+    else if (isIRForEach(node)) code = this.generateForEach(node);
+    else if (isIRWhile(node)) code = this.generateWhile(node);
+    else code = this.generateDoWhile(node);
+    this.loops.pop();
+    
+    const indent = this.getIndent();
+    for (const flag of context.flags) {
+      code = `${indent}${flag} = False\n${code}`;
+    }
+    for (const [flag, jump] of context.pending) {
+      code += '\n' + this.generateForwardedJump(flag, jump);
+    }
+    return code;
+  }
+
+  private generateJump(node: IRBreak | IRContinue): string {
+    const indent = this.getIndent();
+    const innermost = this.loops[this.loops.length - 1];
+    const target = node.label ? this.loops.find(loop => loop.label === node.label) : innermost;
+    
+    if (!target || target === innermost) {
+      if (isIRContinue(node) && innermost?.beforeContinue) {
+        return `${innermost.beforeContinue()}\n${indent}continue`;
+      }
+      return `${indent}${node.type}`;
+    }
+    
+    const flag = `${node.label}_${node.type}`;
+    target.flags.add(flag);
+    innermost.pending.set(flag, node);
+    return `${indent}${flag} = True\n${indent}break`;
+  }
+
+  // Runs right after an inner loop that may have been left through a flag
+  private generateForwardedJump(flag: string, jump: IRBreak | IRContinue): string {
+    const indent = this.getIndent();
+    const inner = indent + this.indentStr;
+    const enclosing = this.loops[this.loops.length - 1];
+    
+    if (!enclosing || enclosing.label !== jump.label) {
+      enclosing?.pending.set(flag, jump);
+      return `${indent}if ${flag}:\n${inner}break`;
+    }
+    if (isIRBreak(jump)) {
+      return `${indent}if ${flag}:\n${inner}break`;
+    }
+    
+    let code = `${indent}if ${flag}:\n${inner}${flag} = False\n`;
+    if (enclosing.beforeContinue) {
+      this.indent++;
+      code += enclosing.beforeContinue() + '\n';
+      this.indent--;
+    }
+    return code + `${inner}continue`;
+  }
+
   private generateFor(node: IRFor): string {
     const indent = this.getIndent();
     const iterator = node.iterator || 'i';
     
+    if (node.iterable) {
+      let code = `${indent}for ${iterator} in ${this.generateExpression(node.iterable)}:\n`;
+      this.indent++;
+      for (const stmt of node.body) {
+        const stmtCode = this.generateNode(stmt);
+        if (stmtCode) code += stmtCode + '\n';
+      }
+      if (node.body.length === 0) {
+        code += `${this.getIndent()}pass\n`;
+      }
+      this.indent--;
+      return code.trimEnd();
+    }
+    
     // Python-style range loop
     if (node.rangeEnd) {
       let rangeArgs: string;
@@ -300,6 +819,27 @@ export class PythonGenerator {
     return code.trimEnd();
   }
 
+  private generateForEach(node: IRForEach): string {
+    const indent = this.getIndent();
+    const iterable = this.generateExpression(node.iterable);
+    const header = node.valueIterator ? `for ${node.iterator}, ${node.valueIterator} in ${iterable}.items():` :
+                   node.overValues ? `for ${node.iterator} in ${iterable}.values():` :
+                   `for ${node.iterator} in ${iterable}:`;
+    
+    let code = `${indent}${header}\n`;
+    this.indent++;
+    for (const stmt of node.body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    if (node.body.length === 0) {
+      code += `${this.getIndent()}pass\n`;
+    }
+    this.indent--;
+    
+    return code.trimEnd();
+  }
+
   private generateWhile(node: IRWhile): string {
     const indent = this.getIndent();
     const condition = this.generateExpression(node.condition);
@@ -319,6 +859,29 @@ export class PythonGenerator {
     return code.trimEnd();
   }
 
+  // Python has no post-tested loop, so test the condition at the end of the body
+  private generateDoWhile(node: IRDoWhile): string {
+    const indent = this.getIndent();
+    
+    let code = `${indent}while True:\n`;
+    
+    this.indent++;
+    for (const stmt of node.body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    code += this.generateDoWhileExit(node) + '\n';
+    this.indent--;
+    
+    return code.trimEnd();
+  }
+
+  private generateDoWhileExit(node: IRDoWhile): string {
+    const condition = this.generateExpression(node.condition);
+    const negated = isIRBinaryOp(node.condition) ? `not (${condition})` : `not ${condition}`;
+    return `${this.getIndent()}if ${negated}:\n${this.getIndent()}${this.indentStr}break`;
+  }
+
   private generateSwitch(node: IRSwitch): string {
     // Python 3.10+ has match-case, but we'll convert to if-elif for broader compatibility
     const indent = this.getIndent();
@@ -331,11 +894,11 @@ export class PythonGenerator {
       code += `${indent}${keyword} ${expr} == ${this.generateExpression(c.value)}:\n`;
       this.indent++;
       for (const stmt of c.body) {
-        if (stmt.type === 'break') continue; // Skip break in Python
+        if (isIRBreak(stmt) && !stmt.label) continue; // Skip break in Python
         const stmtCode = this.generateNode(stmt);
         if (stmtCode) code += stmtCode + '\n';
       }
-      if (c.body.filter(s => s.type !== 'break').length === 0) {
+      if (c.body.filter(s => !isIRBreak(s) || s.label).length === 0) {
         code += `${this.getIndent()}pass\n`;
       }
       this.indent--;
@@ -345,7 +908,7 @@ export class PythonGenerator {
       code += `${indent}else:\n`;
       this.indent++;
       for (const stmt of node.defaultBody) {
-        if (stmt.type === 'break') continue;
+        if (isIRBreak(stmt) && !stmt.label) continue;
         const stmtCode = this.generateNode(stmt);
         if (stmtCode) code += stmtCode + '\n';
       }
@@ -355,10 +918,61 @@ export class PythonGenerator {
     return code.trimEnd();
   }
 
+  private generateTry(node: IRTry): string {
+    const indent = this.getIndent();
+    let code = `${indent}try:\n${this.generateBlock(node.body)}`;
+    
+    for (const handler of node.handlers) {
+      let clause = 'except';
+      const types = [...new Set(handler.exceptionTypes.map(t => this.mapExceptionType(t)))];
+      if (types.length === 1) clause += ` ${types[0]}`;
+      if (types.length > 1) clause += ` (${types.join(', ')})`;
+      if (handler.name) {
+        if (handler.exceptionTypes.length === 0) clause += ' Exception';
+        clause += ` as ${handler.name}`;
+        this.exceptionNames.add(handler.name);
+      }
+      code += `${indent}${clause}:\n${this.generateBlock(handler.body)}`;
+      if (handler.name) this.exceptionNames.delete(handler.name);
+    }
+    
+    if (node.finallyBody) {
+      code += `${indent}finally:\n${this.generateBlock(node.finallyBody)}`;
+    }
+    
+    return code.trimEnd();
+  }
+
+  private generateThrow(node: IRThrow): string {
+    const indent = this.getIndent();
+    if (!node.exceptionType) return `${indent}raise`;
+    
+    const message = node.message ? this.generateExpression(node.message) : '';
+    return `${indent}raise ${this.mapExceptionType(node.exceptionType)}(${message})`;
+  }
+
+  // Java's IllegalArgumentException has no builtin of its own
+  private mapExceptionType(exceptionType: string): string {
+    return exceptionType === 'ArgumentError' ? 'ValueError' : exceptionType;
+  }
+
+  private generateBlock(body: IRNode[]): string {
+    this.indent++;
+    let code = '';
+    for (const stmt of body) {
+      const stmtCode = this.generateNode(stmt);
+      if (stmtCode) code += stmtCode + '\n';
+    }
+    if (!code) code = `${this.getIndent()}pass\n`;
+    this.indent--;
+    return code;
+  }
+
   private generateReturn(node: IRReturn): string {
     const indent = this.getIndent();
-    if (node.value) {
-      return `${indent}return ${this.generateExpression(node.value)}`;
+    const values = [...(node.value ? [this.generateValues(node.value)] : []), ...this.currentOutParams];
+    if (values.length > 0) {
+      return `${indent}return ${values.join(', ')}`;
     }
     return `${indent}return`;
   }
@@ -382,7 +996,7 @@ export class PythonGenerator {
         }
         return this.generateExpression(arg);
       }
-      return this.generateExpression(arg);
+      return this.generatePrinted(arg);
     }).filter(Boolean);
     
     // If first arg has C format specifiers, convert to f-string
@@ -390,7 +1004,7 @@ export class PythonGenerator {
       const formatStr = String(node.args[0].value);
       if (/%[dsifc]/.test(formatStr)) {
         // Get the variable arguments
-        const varArgs = node.args.slice(1).map(a => this.generateExpression(a));
+        const varArgs = node.args.slice(1).map(a => this.generatePrinted(a));
         let argIndex = 0;
         const converted = formatStr
           .replace(/\\n$/, '')
@@ -406,12 +1020,19 @@ export class PythonGenerator {
       }
     }
     
-    const args = convertedArgs.join(', ');
-    
-    if (!node.newline) {
-      return `${indent}print(${args}, end='')`;
-    }
-    return `${indent}print(${args})`;
+    const keywords: string[] = [];
+    if (node.separator && node.args.length > 1) keywords.push(`sep=${this.generateExpression(node.separator)}`);
+    if (node.end) keywords.push(`end=${this.generateExpression(node.end)}`);
+    else if (!node.newline) keywords.push("end=''");
+    return `${indent}print(${[...convertedArgs, ...keywords].join(', ')})`;
+  }
+
+  // print shows Color.RED, where C and C++ print the constant's number and Java its name
+  private generatePrinted(node: IRNode): string {
+    const value = this.generateExpression(node);
+    const enumName = isIREnumValue(node) ? node.enumName : isIRIdentifier(node) ? this.enumVariables.get(node.name) : undefined;
+    const printedAs = enumName && this.enumTypes.get(enumName)?.printedAs;
+    return printedAs ? `${value}.${printedAs === 'name' ? 'name' : 'value'}` : value;
   }
 
   private generateInput(node: IRInput): string {
@@ -432,15 +1053,84 @@ export class PythonGenerator {
 
   private generateAssignment(node: IRAssignment): string {
     const indent = this.getIndent();
-    const value = this.generateExpression(node.value);
+    const value = this.generateStructValue(node.target, node.value);
     return `${indent}${node.target} = ${value}`;
   }
 
+  private generateDestructure(node: IRDestructure): string {
+    return `${this.getIndent()}${node.targets.join(', ')} = ${this.generateValues(node.value)}`;
+  }
+
+  // Tuples returned or assigned go without parentheses: return a, b
+  private generateValues(node: IRNode): string {
+    if (isIRTupleLiteral(node)) return node.elements.map(e => this.generateExpression(e)).join(', ');
+    return this.generateExpression(node);
+  }
+
+  private generateTupleLiteral(node: IRTupleLiteral): string {
+    const elements = node.elements.map(e => this.generateExpression(e));
+    return elements.length === 1 ? `(${elements[0]},)` : `(${elements.join(', ')})`;
+  }
+
+  private generateIndexAssignment(node: IRIndexAssignment): string {
+    const target = `${this.generateExpression(node.object)}[${this.generateExpression(node.index)}]`;
+    return `${this.getIndent()}${target} = ${this.generateExpression(node.value)}`;
+  }
+
   private generateExpression(node: IRNode): string {
     if (isIRLiteral(node)) return this.generateLiteral(node);
     if (isIRIdentifier(node)) return this.generateIdentifier(node);
     if (isIRBinaryOp(node)) return this.generateBinaryOp(node);
-    if (isIRCall(node)) return this.generateCall(node);
+    if (isIRCall(node)) return this.generateCallExpression(node);
+    if (isIRSuperCall(node)) return this.generateSuperCall(node);
+    if (isIREnumValue(node)) return `${node.enumName}.${node.member}`;
+    if (isIREnumMethod(node)) return this.generateEnumMethod(node);
+    if (isIRAddressOf(node) || isIRDereference(node)) return this.generateExpression(node.operand);
+    if (isIRConditional(node)) return this.generateConditional(node);
+    if (isIRAllocation(node)) {
+      const value = node.value ? this.generateExpression(node.value) : this.getDefaultValue(flattenType(node.dataType));
+      return node.count ? `[${value}] * ${this.generateExpression(node.count)}` : value;
+    }
+    if (isIRArrayLiteral(node)) return this.generateArrayLiteral(node);
+    if (isIRMapLiteral(node)) return this.generateMapLiteral(node);
+    if (isIRTupleLiteral(node)) return this.generateTupleLiteral(node);
+    if (isIRTupleIndex(node)) return `${this.generateExpression(node.object)}[${node.index}]`;
+    if (isIRLambda(node)) return this.generateLambda(node);
+    if (isIRFunctionRef(node)) return node.name;
+    if (isIRComprehension(node)) return this.generateComprehension(node);
+    if (isIRFieldAccess(node)) return `${this.generateExpression(node.object)}.${node.field}`;
+    if (isIRIndex(node)) {
+      const object = this.generateExpression(node.object);
+      const index = this.generateExpression(node.index);
+      if (node.defaultValue) return `${object}.get(${index}, ${this.generateExpression(node.defaultValue)})`;
+      return `${object}[${index}]`;
+    }
+    if (isIRSlice(node)) {
+      const bound = (part?: IRNode) => part ? this.generateExpression(part) : '';
+      const step = node.step ? `:${bound(node.step)}` : '';
+      return `${this.generateExpression(node.object)}[${bound(node.start)}:${bound(node.end)}${step}]`;
+    }
+    if (isIRLength(node)) return `len(${this.generateExpression(node.object)})`;
+    if (isIRStringMethod(node)) {
+      const object = this.generateExpression(node.object);
+      const args = node.args.map(arg => this.generateExpression(arg)).join(', ');
+      const wrapped = isIRBinaryOp(node.object) || isIRConditional(node.object) ? `(${object})` : object;
+      // Comparisons give bools, which subtract as 0 and 1
+      if (node.method === 'compare') return `(${wrapped} > ${args}) - (${wrapped} < ${args})`;
+      return `${wrapped}.${node.method}(${args})`;
+    }
+    // abs, min, max and round are builtins, the rest come from the math module
+    if (isIRMathCall(node)) {
+      const args = node.args.map(arg => this.generateExpression(arg)).join(', ');
+      if (['abs', 'min', 'max', 'round'].includes(node.func)) return `${node.func}(${args})`;
+      this.usesMath = true;
+      return `math.${node.func}(${args})`;
+    }
+    if (isIRMathConstant(node)) {
+      this.usesMath = true;
+      return `math.${node.name}`;
+    }
+    if (isIRContains(node)) return `${this.generateExpression(node.key)} in ${this.generateExpression(node.object)}`;
     if (isIRInput(node)) {
       const prompt = node.prompt ? `"${node.prompt}"` : '""';
       if (node.targetType === 'int') return `int(input(${prompt}))`;
@@ -449,7 +1139,10 @@ export class PythonGenerator {
     }
     if (node.type === 'unary_op') {
       const unary = node as IRUnaryOp;
-      const operand = this.generateExpression(unary.operand);
+      if (unary.operator === '!' && isIRContains(unary.operand)) {
+        return `${this.generateExpression(unary.operand.key)} not in ${this.generateExpression(unary.operand.object)}`;
+      }
+      const operand = this.generateOperand(unary.operand, unary.operator === '!' ? '!' : '*');
       if (unary.operator === '!') return `not ${operand}`;
       if (unary.operator === '++_post' || unary.operator === '++') return `${operand} + 1`;
       if (unary.operator === '--_post' || unary.operator === '--') return `${operand} - 1`;
@@ -472,6 +1165,7 @@ export class PythonGenerator {
       const cleanValue = value.replace(/\\n$/, '');
       return `"${cleanValue}"`;
     }
+    if (node.dataType === 'char') return `'${node.value}'`;
     if (node.dataType === 'bool') {
       return node.value ? 'True' : 'False';
     }
@@ -481,29 +1175,122 @@ export class PythonGenerator {
     return String(node.value);
   }
 
+  private generateArrayLiteral(node: IRArrayLiteral): string {
+    if (node.size && node.elements.length === 0) {
+      const size = this.generateExpression(node.size);
+      // Each row is a list of its own
+      if (node.fill && isIRArrayLiteral(node.fill)) return `[${this.generateExpression(node.fill)} for _ in range(${size})]`;
+      return `[${node.fill ? this.generateExpression(node.fill) : this.getDefaultValue(node.elementType)}] * ${size}`;
+    }
+    return `[${node.elements.map(e => this.generateExpression(e)).join(', ')}]`;
+  }
+
+  private generateMapLiteral(node: IRMapLiteral): string {
+    const entries = node.entries.map(e => `${this.generateExpression(e.key)}: ${this.generateExpression(e.value)}`);
+    return `{${entries.join(', ')}}`;
+  }
+
   private generateIdentifier(node: IRIdentifier): string {
     if (node.name === 'this') return 'self';
+    if (this.exceptionNames.has(node.name)) return `str(${node.name})`;
     return node.name;
   }
 
   private generateBinaryOp(node: IRBinaryOp): string {
-    const left = this.generateExpression(node.left);
-    const right = this.generateExpression(node.right);
+    // x % n == 0 holds whichever way the remainder rounds
+    if ((node.operator === '==' || node.operator === '!=') && isIRBinaryOp(node.left) && node.left.operator === '%' &&
+        isIRLiteral(node.right) && node.right.value === 0) {
+      return this.generateBinaryOp({ ...node, left: { ...node.left, operator: 'floor_mod' } as IRBinaryOp });
+    }
     
-    let op = node.operator;
-    if (op === '&&') op = 'and';
-    if (op === '||') op = 'or';
+    const left = this.generateOperand(node.left, node.operator);
+    const right = this.generateOperand(node.right, node.operator, true);
+    const op = OPERATORS[node.operator] || node.operator;
     
     // Assignment operators
-    if (op === '=' || op === '+=' || op === '-=' || op === '*=' || op === '/=') {
+    if (op === '=' && isIRCall(node.right) && this.outParams.has(node.right.callee)) {
+      return `${[left, ...this.outTargets(node.right)].join(', ')} = ${this.generateCall(node.right)}`;
+    }
+    if (op === '=') {
       return `${left} ${op} ${right}`;
     }
     
+    // None is compared by identity
+    const isNull = (n: IRNode) => isIRLiteral(n) && n.value === 'null';
+    if ((op === '==' || op === '!=') && (isNull(node.left) || isNull(node.right))) {
+      return `${left} ${op === '==' ? 'is' : 'is not'} ${right}`;
+    }
+    
+    // Python ints never overflow, so >>> masks to 32 bits before shifting
+    if (op === '>>>') return `(${this.generateExpression(node.left)} & 0xFFFFFFFF) >> ${right}`;
+    
+    // C's / and % truncate toward zero where Python's floor
+    const integral = this.isIntegral(node.left, node.right);
+    if (node.operator === '/' && integral) return `int(${this.generateExpression(node.left)} / ${this.generateExpression(node.right)})`;
+    if (node.operator === '%') {
+      this.usesMath = true;
+      const remainder = `math.fmod(${this.generateExpression(node.left)}, ${this.generateExpression(node.right)})`;
+      return integral ? `int(${remainder})` : remainder;
+    }
+    
     return `${left} ${op} ${right}`;
   }
 
+  private generateCompoundAssignment(node: IRCompoundAssignment): string {
+    const target = this.generateExpression(node.target);
+    if (node.operator === '>>>') return `${target} = (${target} & 0xFFFFFFFF) >> ${this.generateExpression(node.value)}`;
+    if (node.operator === '%' || (node.operator === '/' && this.isIntegral(node.target, node.value))) {
+      return `${target} = ${this.generateBinaryOp({ type: 'binary_op', operator: node.operator, left: node.target, right: node.value })}`;
+    }
+    return `${target} ${OPERATORS[node.operator] || node.operator}= ${this.generateExpression(node.value)}`;
+  }
+
+  // i++ on its own line
+  private generateUnaryStatement(node: IRUnaryOp): string {
+    const operand = this.generateExpression(node.operand);
+    if (node.operator === '++' || node.operator === '++_post') return `${operand} += 1`;
+    if (node.operator === '--' || node.operator === '--_post') return `${operand} -= 1`;
+    return this.generateExpression(node);
+  }
+
+  // Parenthesizes operands that bind looser than their operator, or as loosely on the right;
+  // comparisons inside comparisons always need them, Python would chain them otherwise
+  private generateOperand(node: IRNode, operator: string, isRight = false): string {
+    const code = this.generateExpression(node);
+    const parent = PRECEDENCE[operator];
+    if (parent === undefined) return code;
+    if (isIRConditional(node)) return `(${code})`;
+    // -2 ** 2 is -(2 ** 2)
+    if (operator === 'pow' && !isRight && node.type === 'unary_op') return `(${code})`;
+    let child: number | undefined;
+    if (isIRBinaryOp(node)) child = PRECEDENCE[node.operator] ?? 0;
+    if (isIRContains(node)) child = PRECEDENCE['=='];
+    if (node.type === 'unary_op' && (node as IRUnaryOp).operator === '!') child = PRECEDENCE['!'];
+    if (child === undefined) return code;
+    const chains = child === PRECEDENCE['=='] && parent === PRECEDENCE['=='];
+    // ** groups from the right
+    const sameLevel = child === parent && isRight !== (operator === 'pow');
+    return child < parent || sameLevel || chains ? `(${code})` : code;
+  }
+
+  // The value comes first; nested conditionals other than the else branch need parentheses
+  private generateConditional(node: IRConditional): string {
+    const wrap = (value: IRNode) => isIRConditional(value) ? `(${this.generateExpression(value)})` : this.generateExpression(value);
+    return `${wrap(node.thenValue)} if ${wrap(node.condition)} else ${this.generateExpression(node.elseValue)}`;
+  }
+
+  // greeting="Hello"
+  private generateParams(params: IRVariable[]): string {
+    return params.map(p => p.defaultValue ? `${p.name}=${this.generateExpression(p.defaultValue)}` : p.name).join(', ');
+  }
+
   private generateCall(node: IRCall): string {
-    const args = node.args.map(arg => this.generateExpression(arg)).join(', ');
+    const keywordArgs = (node.keywordArgs || []).map(arg => `${arg.name}=${this.generateExpression(arg.value)}`);
+    const argList = [...node.args.map(arg => this.generateExpression(arg)), ...keywordArgs];
+    // A generator expression that is the only argument needs no parentheses of its own
+    const only = argList.length === 1 ? node.args[0] : undefined;
+    if (only && isIRComprehension(only) && only.kind === 'generator') argList[0] = argList[0].slice(1, -1);
+    const args = argList.join(', ');
     
     // Type conversion
     if (node.callee === 'int' || node.callee === 'float' || node.callee === 'str') {
@@ -514,13 +1301,31 @@ export class PythonGenerator {
       const obj = node.object === 'this' ? 'self' : node.object;
       return `${obj}.${node.callee}(${args})`;
     }
+    if (node.isMethod && node.receiver) return `${this.generateExpression(node.receiver)}.${node.callee}(${args})`;
     
     return `${node.callee}(${args})`;
   }
 
+  // Inside an expression only the function's own result can be used
+  private generateCallExpression(node: IRCall): string {
+    const targets = this.outTargets(node);
+    if (targets.length === 0 || !this.returnsValue(node.callee)) return this.generateCall(node);
+    this.notes.push(`${node.callee}() no longer updates ${targets.join(', ')} here`);
+    return `${this.generateCall(node)}[0]`;
+  }
+
+  private generateSuperCall(node: IRSuperCall): string {
+    const args = node.args.map(arg => this.generateExpression(arg)).join(', ');
+    return `super().${node.method || '__init__'}(${args})`;
+  }
+
   private getDefaultValue(type: string): string {
     switch (type) {
-      case 'int': return '0';
+      case 'int':
+      case 'long':
+      case 'short':
+      case 'byte':
+      case 'unsigned': return '0';
       case 'float':
       case 'double': return '0.0';
       case 'string': return '""';
@@ -9,6 +9,7 @@ export type IRNodeType =
   | 'else'
   | 'for'
   | 'while'
+  | 'do_while'
   | 'switch'
   | 'return'
   | 'print'
@@ -23,9 +24,63 @@ export type IRNodeType =
   | 'identifier'
   | 'comment'
   | 'break'
-  | 'block';
+  | 'continue'
+  | 'block'
+  | 'array_literal'
+  | 'index'
+  | 'index_assignment'
+  | 'field_access'
+  | 'length'
+  | 'map_literal'
+  | 'contains'
+  | 'remove'
+  | 'for_each'
+  | 'try'
+  | 'throw'
+  | 'super_call'
+  | 'enum'
+  | 'enum_value'
+  | 'enum_method'
+  | 'address_of'
+  | 'dereference'
+  | 'allocation'
+  | 'free'
+  | 'conditional'
+  | 'compound_assignment'
+  | 'tuple_literal'
+  | 'tuple_index'
+  | 'destructure'
+  | 'lambda'
+  | 'function_ref'
+  | 'comprehension'
+  | 'slice'
+  | 'yield'
+  | 'string_method'
+  | 'math_call'
+  | 'math_constant';
 
-export type DataType = 'int' | 'float' | 'double' | 'string' | 'bool' | 'void' | 'char' | 'auto';
+// Names of the primitive types; sized integers keep their width so each target can pick a matching type
+export type PrimitiveType =
+  | 'int' | 'long' | 'short' | 'byte' | 'unsigned'
+  | 'float' | 'double' | 'string' | 'bool' | 'void' | 'char' | 'auto';
+
+// The type of a declaration: a primitive, or built from other types. Literals and the other
+// expression nodes that only ever hold a primitive keep just its name
+export type IRType =
+  | { kind: 'primitive'; name: PrimitiveType }
+  // Growable lists (Python list, std::vector, ArrayList) and sets, which hold each value once
+  | { kind: 'array'; element: IRType; isList?: boolean; isSet?: boolean }
+  | { kind: 'map'; key: IRType; value: IRType }
+  // args instantiate a generic class: Box<Integer>
+  | { kind: 'class'; name: string; args?: IRType[] }
+  // Held as an int by targets without enums
+  | { kind: 'enum'; name: string }
+  | { kind: 'nullable'; inner: IRType }
+  | { kind: 'function'; params: IRType[]; returns: IRType }
+  // A type parameter of the enclosing generic function or class
+  | { kind: 'type_param'; name: string }
+  // Fixed-size group of values, as returned by return a, b
+  | { kind: 'tuple'; elements: IRType[] };
 
 export interface IRNode {
   type: IRNodeType;
@@ -41,9 +96,16 @@ export interface IRProgram extends IRNode {
 export interface IRVariable extends IRNode {
   type: 'variable';
   name: string;
-  dataType: DataType;
+  dataType: IRType;
   value?: IRNode;
   isConst?: boolean;
+  // Fixed-size arrays: the size they are declared with
+  arraySize?: IRNode;
+  // C pointers to dataType; C++ references (int& x) alias the variable they are bound to
+  isPointer?: boolean;
+  isReference?: boolean;
+  // Parameters: the value used when a call leaves the argument out
+  defaultValue?: IRNode;
 }
 
 export interface IRAssignment extends IRNode {
@@ -52,22 +114,64 @@ export interface IRAssignment extends IRNode {
   value: IRNode;
 }
 
+// A generic's type parameter, with any types it must extend: <T extends Comparable<T>>
+export interface IRTypeParam {
+  name: string;
+  bounds?: IRType[];
+}
+
 export interface IRFunction extends IRNode {
   type: 'function';
   name: string;
   params: IRVariable[];
-  returnType: DataType;
+  returnType: IRType;
+  returnsPointer?: boolean;
+  // Generic functions: <T> in Java, template <typename T> in C++, TypeVars in Python
+  typeParams?: IRTypeParam[];
   body: IRNode[];
+  // Set on methods that replace one inherited from the superclass
+  isOverride?: boolean;
+  // Declared without a body; concrete subclasses must implement it
+  isAbstract?: boolean;
+  // Members of an overload set: a name unique among them, for targets without overloading
+  overloadName?: string;
+  // Functions that yield: calling one returns an iterator over values of returnType
+  isGenerator?: boolean;
 }
 
 export interface IRClass extends IRNode {
   type: 'class';
   name: string;
+  superclass?: string;
+  // Interfaces implemented (or, for an interface, extended) by this class
+  interfaces?: string[];
+  // Interfaces only declare methods; abstract classes can't be instantiated
+  isInterface?: boolean;
+  isAbstract?: boolean;
+  // Plain data record (a C struct): no methods, built by calling it with every field in order
+  isStruct?: boolean;
+  typeParams?: IRTypeParam[];
   members: IRVariable[];
   methods: IRFunction[];
   constructor?: IRFunction;
 }
 
+// Looks a method up through the superclass chain and implemented interfaces
+export function findMethod(classes: Map<string, IRClass>, className: string, methodName: string,
+                           seen = new Set<string>()): IRFunction | undefined {
+  const current = classes.get(className);
+  if (!current || seen.has(className)) return undefined;
+  seen.add(className);
+  const method = current.methods.find(m => m.name === methodName);
+  if (method) return method;
+  const bases = [...(current.superclass ? [current.superclass] : []), ...(current.interfaces || [])];
+  for (const base of bases) {
+    const found = findMethod(classes, base, methodName, seen);
+    if (found) return found;
+  }
+  return undefined;
+}
+
 export interface IRIf extends IRNode {
   type: 'if';
   condition: IRNode;
@@ -86,13 +190,27 @@ export interface IRFor extends IRNode {
   rangeEnd?: IRNode;
   rangeStep?: IRNode;
   iterator?: string;
+  // for x in xs, for (int x : xs): each element of a list, array or string in turn
+  iterable?: IRNode;
+  iteratorType?: IRType;
   body: IRNode[];
+  // Loop label targeted by labeled break/continue (Java's outer: for ...)
+  label?: string;
 }
 
 export interface IRWhile extends IRNode {
   type: 'while';
   condition: IRNode;
   body: IRNode[];
+  label?: string;
+}
+
+// Post-tested loop: the body always runs at least once
+export interface IRDoWhile extends IRNode {
+  type: 'do_while';
+  condition: IRNode;
+  body: IRNode[];
+  label?: string;
 }
 
 export interface IRSwitch extends IRNode {
@@ -104,6 +222,13 @@ export interface IRSwitch extends IRNode {
 
 export interface IRBreak extends IRNode {
   type: 'break';
+  // Jumps out of the enclosing loop with this label instead of the innermost one
+  label?: string;
+}
+
+export interface IRContinue extends IRNode {
+  type: 'continue';
+  label?: string;
 }
 
 export interface IRReturn extends IRNode {
@@ -115,23 +240,40 @@ export interface IRPrint extends IRNode {
   type: 'print';
   args: IRNode[];
   newline?: boolean;
+  // What goes between args, a space when omitted; empty for cout and printf, which print them back to back
+  separator?: IRNode;
+  // Written after the args in place of the newline, for Python's end= other than '' or '\n'
+  end?: IRNode;
 }
 
 export interface IRInput extends IRNode {
   type: 'input';
   prompt?: string;
   targetVar?: string;
-  targetType?: DataType;
+  targetType?: PrimitiveType;
 }
 
 export interface IRCall extends IRNode {
   type: 'call';
   callee: string;
   args: IRNode[];
+  // name=value arguments, which follow the positional ones
+  keywordArgs?: IRKeywordArg[];
   isMethod?: boolean;
   object?: string;
+  // What a method is called on when it isn't a variable, like shapes[1] in shapes[1].area()
+  receiver?: IRNode;
+  // The overload picked by argument types when the callee is overloaded
+  overloadName?: string;
+}
+
+export interface IRKeywordArg {
+  name: string;
+  value: IRNode;
 }
 
+// '/' and '%' truncate toward zero on integers as in C and Java; Python's operators are
+// true_div (/), floor_div (//), floor_mod (%) and pow (**)
 export interface IRBinaryOp extends IRNode {
   type: 'binary_op';
   operator: string;
@@ -148,7 +290,7 @@ export interface IRUnaryOp extends IRNode {
 export interface IRLiteral extends IRNode {
   type: 'literal';
   value: string | number | boolean;
-  dataType: DataType;
+  dataType: PrimitiveType;
 }
 
 export interface IRIdentifier extends IRNode {
@@ -167,6 +309,298 @@ export interface IRBlock extends IRNode {
   statements: IRNode[];
 }
 
+export interface IRArrayLiteral extends IRNode {
+  type: 'array_literal';
+  elements: IRNode[];
+  elementType: PrimitiveType;
+  // Sized allocation without elements, like new int[n] or [0] * n
+  size?: IRNode;
+  // What each element of a sized one starts as when it isn't zero, like 7 in vector<int>(n, 7)
+  fill?: IRNode;
+  isList?: boolean;
+}
+
+export interface IRIndex extends IRNode {
+  type: 'index';
+  object: IRNode;
+  index: IRNode;
+  // Map lookup with a fallback for missing keys (dict.get, getOrDefault)
+  defaultValue?: IRNode;
+  // Python's index that may turn out negative at run time, counting from the end then
+  wraps?: boolean;
+}
+
+// A field of a value that isn't a variable: pts[0].x, (*p).x, make().x. A variable's fields are
+// identifiers named by their path instead, like p.x
+export interface IRFieldAccess extends IRNode {
+  type: 'field_access';
+  object: IRNode;
+  field: string;
+  // Reached through a pointer with ->
+  isPointer?: boolean;
+}
+
+export interface IRIndexAssignment extends IRNode {
+  type: 'index_assignment';
+  object: IRNode;
+  index: IRNode;
+  value: IRNode;
+  wraps?: boolean;
+}
+
+// s.upper(), s.split(","), ", ".join(words), s.find("x"): string operations each language spells
+// its own way, named after Python's methods. On a char, upper, lower, isdigit and isalpha test or
+// convert that one character. compare is C's strcmp, which Python has no method for: negative, zero
+// or positive as the string sorts before, with or after its argument
+export interface IRStringMethod extends IRNode {
+  type: 'string_method';
+  method: StringMethod;
+  object: IRNode;
+  args: IRNode[];
+}
+
+export type StringMethod =
+  | 'upper' | 'lower' | 'strip' | 'split' | 'join' | 'find' | 'replace'
+  | 'startswith' | 'endswith' | 'isdigit' | 'isalpha' | 'compare';
+
+// math.sqrt(x), Math.abs(x), fmax(a, b): the standard math functions, named after Python's. floor,
+// ceil and round give ints as in Python, round halving to even; abs, min and max their arguments'
+// type, and the rest floats
+export interface IRMathCall extends IRNode {
+  type: 'math_call';
+  func: MathFunction;
+  args: IRNode[];
+}
+
+export type MathFunction =
+  | 'sqrt' | 'pow' | 'abs' | 'floor' | 'ceil' | 'round' | 'min' | 'max'
+  | 'sin' | 'cos' | 'tan' | 'log' | 'exp';
+
+// math.pi, Math.PI, M_PI and the same for e; dataType is the float type the source gives it
+export interface IRMathConstant extends IRNode {
+  type: 'math_constant';
+  name: MathConstant;
+  dataType: PrimitiveType;
+}
+
+export type MathConstant = 'pi' | 'e';
+
+// yield value: hands the value to the generator's caller, resuming after it on the next request
+export interface IRYield extends IRNode {
+  type: 'yield';
+  value: IRNode;
+}
+
+// s[1:-1], xs[::-1]: bounds left out take Python's defaults for the step's direction, and a
+// negative bound, like a negative index, counts from the end. Python's bounds past either end
+// are clamped, where substring() and the like would take them as they are
+export interface IRSlice extends IRNode {
+  type: 'slice';
+  object: IRNode;
+  start?: IRNode;
+  end?: IRNode;
+  step?: IRNode;
+  clamps?: boolean;
+}
+
+export interface IRLength extends IRNode {
+  type: 'length';
+  object: IRNode;
+}
+
+export interface IRMapLiteral extends IRNode {
+  type: 'map_literal';
+  entries: { key: IRNode; value: IRNode }[];
+  keyType: PrimitiveType;
+  valueType: PrimitiveType;
+}
+
+// Key membership test, like `key in d` or map.containsKey(key)
+export interface IRContains extends IRNode {
+  type: 'contains';
+  object: IRNode;
+  key: IRNode;
+}
+
+export interface IRRemove extends IRNode {
+  type: 'remove';
+  object: IRNode;
+  key: IRNode;
+}
+
+// Iteration over a map's keys, optionally binding each value too, or with overValues over its values alone
+export interface IRForEach extends IRNode {
+  type: 'for_each';
+  iterator: string;
+  valueIterator?: string;
+  overValues?: boolean;
+  iterable: IRNode;
+  body: IRNode[];
+  label?: string;
+}
+
+// Exception types use Python's names (ValueError, ZeroDivisionError, ...) and are mapped per language;
+// ArgumentError stands for Java's IllegalArgumentException, which Python spells ValueError
+export interface IRCatchClause {
+  // Empty for a catch-all handler
+  exceptionTypes: string[];
+  name?: string;
+  body: IRNode[];
+}
+
+export interface IRTry extends IRNode {
+  type: 'try';
+  body: IRNode[];
+  handlers: IRCatchClause[];
+  finallyBody?: IRNode[];
+}
+
+export interface IRThrow extends IRNode {
+  type: 'throw';
+  // Omitted when re-raising the exception being handled
+  exceptionType?: string;
+  message?: IRNode;
+}
+
+// Call into the superclass: its constructor when method is omitted, otherwise the inherited method
+export interface IRSuperCall extends IRNode {
+  type: 'super_call';
+  method?: string;
+  args: IRNode[];
+  overloadName?: string;
+}
+
+// Members without a value follow on from the previous one, starting at 0. Printing a constant
+// shows its name in Java and its number in C and C++; Python's show Color.RED
+export interface IREnum extends IRNode {
+  type: 'enum';
+  name: string;
+  members: { name: string; value?: number }[];
+  printedAs?: 'name' | 'number';
+}
+
+// A qualified enum constant: Color.RED, Color::RED, or plain RED in C
+export interface IREnumValue extends IRNode {
+  type: 'enum_value';
+  enumName: string;
+  member: string;
+}
+
+// l.getValue() or l.value, l.ordinal() and Level.values(): the number an enum constant stands
+// for, its position among the constants, and the constants in order. values has no object
+export interface IREnumMethod extends IRNode {
+  type: 'enum_method';
+  method: 'value' | 'ordinal' | 'values';
+  enumName: string;
+  object?: IRNode;
+}
+
+// &x: where x lives, passed for out-parameters or kept as an alias
+export interface IRAddressOf extends IRNode {
+  type: 'address_of';
+  operand: IRNode;
+}
+
+// *p: the value a pointer points at
+export interface IRDereference extends IRNode {
+  type: 'dereference';
+  operand: IRNode;
+}
+
+// malloc/calloc/new: an array of count elements, or a single value starting at value
+export interface IRAllocation extends IRNode {
+  type: 'allocation';
+  dataType: IRType;
+  count?: IRNode;
+  value?: IRNode;
+}
+
+// free(p), delete p, delete[] p
+export interface IRFree extends IRNode {
+  type: 'free';
+  target: IRNode;
+}
+
+// x += 1, a[i] <<= 2: operator is the binary operator applied in place ('+' for +=)
+export interface IRCompoundAssignment extends IRNode {
+  type: 'compound_assignment';
+  target: IRNode;
+  operator: string;
+  value: IRNode;
+}
+
+// cond ? a : b, or a if cond else b
+export interface IRConditional extends IRNode {
+  type: 'conditional';
+  condition: IRNode;
+  thenValue: IRNode;
+  elseValue: IRNode;
+}
+
+// (a, b), or the a, b of a return or of the right side of a destructuring assignment
+export interface IRTupleLiteral extends IRNode {
+  type: 'tuple_literal';
+  elements: IRNode[];
+}
+
+// p[0] on a tuple: a constant index, which each target turns into a field, get<0>(p) or an accessor
+export interface IRTupleIndex extends IRNode {
+  type: 'tuple_index';
+  object: IRNode;
+  index: number;
+  tupleType: IRTupleType;
+}
+
+// q, r = divmod(a, b), a, b = b, a or auto [q, r] = ...; isDeclaration is set when the
+// targets are new variables, declared lists the new ones when only some are
+export interface IRDestructure extends IRNode {
+  type: 'destructure';
+  targets: string[];
+  value: IRNode;
+  isDeclaration?: boolean;
+  declared?: string[];
+}
+
+// lambda x: x * 2, x -> x * 2 or [](int x) { return x * 2; }; an expression body is a single return
+export interface IRLambda extends IRNode {
+  type: 'lambda';
+  params: IRVariable[];
+  returnType: IRType;
+  body: IRNode[];
+  // C++ [&]: captured variables are shared with the enclosing scope rather than copied
+  capturesByReference?: boolean;
+}
+
+// A named function used as a value: twice, &twice or Main::twice
+export interface IRFunctionRef extends IRNode {
+  type: 'function_ref';
+  name: string;
+}
+
+// [x * x for x in xs if x > 0], {x for ...}, {k: v for ...} or (x for ...). Each for clause nests
+// inside the one before it; an if clause filters what the clauses before it produce
+export interface IRComprehension extends IRNode {
+  type: 'comprehension';
+  kind: 'list' | 'set' | 'dict' | 'generator';
+  element: IRNode;
+  elementType: PrimitiveType;
+  // Dict comprehensions produce key: element entries
+  key?: IRNode;
+  keyType?: PrimitiveType;
+  clauses: IRComprehensionClause[];
+}
+
+// for x in iterable, over a range() call, a list, a string or a dict; or if condition
+export interface IRComprehensionClause {
+  iterator?: string;
+  iteratorType?: PrimitiveType;
+  // for k, v in d.items()
+  valueIterator?: string;
+  iterable?: IRNode;
+  overMap?: boolean;
+  condition?: IRNode;
+}
+
 // Type guards
 export function isIRProgram(node: IRNode): node is IRProgram {
   return node.type === 'program';
@@ -228,6 +662,10 @@ export function isIRWhile(node: IRNode): node is IRWhile {
   return node.type === 'while';
 }
 
+export function isIRDoWhile(node: IRNode): node is IRDoWhile {
+  return node.type === 'do_while';
+}
+
 export function isIRInput(node: IRNode): node is IRInput {
   return node.type === 'input';
 }
@@ -239,3 +677,495 @@ export function isIRSwitch(node: IRNode): node is IRSwitch {
 export function isIRBreak(node: IRNode): node is IRBreak {
   return node.type === 'break';
 }
+
+export function isIRContinue(node: IRNode): node is IRContinue {
+  return node.type === 'continue';
+}
+
+export function isIRArrayLiteral(node: IRNode): node is IRArrayLiteral {
+  return node.type === 'array_literal';
+}
+
+export function isIRIndex(node: IRNode): node is IRIndex {
+  return node.type === 'index';
+}
+
+export function isIRIndexAssignment(node: IRNode): node is IRIndexAssignment {
+  return node.type === 'index_assignment';
+}
+
+export function isIRFieldAccess(node: IRNode): node is IRFieldAccess {
+  return node.type === 'field_access';
+}
+
+export function isIRStringMethod(node: IRNode): node is IRStringMethod {
+  return node.type === 'string_method';
+}
+
+export function isIRMathCall(node: IRNode): node is IRMathCall {
+  return node.type === 'math_call';
+}
+
+export function isIRMathConstant(node: IRNode): node is IRMathConstant {
+  return node.type === 'math_constant';
+}
+
+export function isIRYield(node: IRNode): node is IRYield {
+  return node.type === 'yield';
+}
+
+export function isIRSlice(node: IRNode): node is IRSlice {
+  return node.type === 'slice';
+}
+
+export function isIRLength(node: IRNode): node is IRLength {
+  return node.type === 'length';
+}
+
+export function isIRMapLiteral(node: IRNode): node is IRMapLiteral {
+  return node.type === 'map_literal';
+}
+
+export function isIRContains(node: IRNode): node is IRContains {
+  return node.type === 'contains';
+}
+
+export function isIRRemove(node: IRNode): node is IRRemove {
+  return node.type === 'remove';
+}
+
+export function isIRForEach(node: IRNode): node is IRForEach {
+  return node.type === 'for_each';
+}
+
+export function isIRTry(node: IRNode): node is IRTry {
+  return node.type === 'try';
+}
+
+export function isIRThrow(node: IRNode): node is IRThrow {
+  return node.type === 'throw';
+}
+
+export function isIRSuperCall(node: IRNode): node is IRSuperCall {
+  return node.type === 'super_call';
+}
+
+export function isIREnum(node: IRNode): node is IREnum {
+  return node.type === 'enum';
+}
+
+export function isIREnumValue(node: IRNode): node is IREnumValue {
+  return node.type === 'enum_value';
+}
+
+export function isIREnumMethod(node: IRNode): node is IREnumMethod {
+  return node.type === 'enum_method';
+}
+
+export function isIRAddressOf(node: IRNode): node is IRAddressOf {
+  return node.type === 'address_of';
+}
+
+export function isIRDereference(node: IRNode): node is IRDereference {
+  return node.type === 'dereference';
+}
+
+export function isIRAllocation(node: IRNode): node is IRAllocation {
+  return node.type === 'allocation';
+}
+
+export function isIRFree(node: IRNode): node is IRFree {
+  return node.type === 'free';
+}
+
+export function isIRConditional(node: IRNode): node is IRConditional {
+  return node.type === 'conditional';
+}
+
+export function isIRCompoundAssignment(node: IRNode): node is IRCompoundAssignment {
+  return node.type === 'compound_assignment';
+}
+
+export function isIRTupleLiteral(node: IRNode): node is IRTupleLiteral {
+  return node.type === 'tuple_literal';
+}
+
+export function isIRTupleIndex(node: IRNode): node is IRTupleIndex {
+  return node.type === 'tuple_index';
+}
+
+export function isIRDestructure(node: IRNode): node is IRDestructure {
+  return node.type === 'destructure';
+}
+
+export function isIRLambda(node: IRNode): node is IRLambda {
+  return node.type === 'lambda';
+}
+
+export function isIRFunctionRef(node: IRNode): node is IRFunctionRef {
+  return node.type === 'function_ref';
+}
+
+export function isIRComprehension(node: IRNode): node is IRComprehension {
+  return node.type === 'comprehension';
+}
+
+// Type helpers
+export type IRArrayType = Extract<IRType, { kind: 'array' }>;
+export type IRMapType = Extract<IRType, { kind: 'map' }>;
+export type IRTupleType = Extract<IRType, { kind: 'tuple' }>;
+
+export function primitiveType(name: PrimitiveType): IRType {
+  return { kind: 'primitive', name };
+}
+
+export function arrayType(element: IRType, isList = false): IRArrayType {
+  return isList ? { kind: 'array', element, isList } : { kind: 'array', element };
+}
+
+// What a sized literal builds: a list of rows when it is filled with sized ones, like
+// vector<vector<int>>(2, vector<int>(3))
+export function sizedListType(node: IRArrayLiteral): IRArrayType {
+  const fill = node.fill && isIRArrayLiteral(node.fill) && node.fill.size ? sizedListType(node.fill) : primitiveType(node.elementType);
+  return arrayType(fill, node.isList);
+}
+
+export function mapType(key: IRType, value: IRType): IRMapType {
+  return { kind: 'map', key, value };
+}
+
+// Not known yet, so left to inference
+export function isAutoType(type: IRType): boolean {
+  return type.kind === 'primitive' && type.name === 'auto';
+}
+
+export function isArrayType(type: IRType): type is IRArrayType {
+  return type.kind === 'array';
+}
+
+export function isListType(type: IRType): boolean {
+  return type.kind === 'array' && !!type.isList;
+}
+
+export function isSetType(type: IRType): boolean {
+  return type.kind === 'array' && !!type.isSet;
+}
+
+export function isMapType(type: IRType): type is IRMapType {
+  return type.kind === 'map';
+}
+
+// The primitive a type comes down to: the elements' of an array, the values' of a map. Enums are
+// ints, and classes and everything else unknown
+export function flattenType(type: IRType): PrimitiveType {
+  switch (type.kind) {
+    case 'primitive': return type.name;
+    case 'array': return flattenType(type.element);
+    case 'map': return flattenType(type.value);
+    case 'nullable': return flattenType(type.inner);
+    case 'enum': return 'int';
+    default: return 'auto';
+  }
+}
+
+// A map's key type, flattened
+export function keyTypeOf(type: IRType): PrimitiveType {
+  return type.kind === 'map' ? flattenType(type.key) : 'auto';
+}
+
+// The class an instance, an array of them or a nullable one belongs to
+export function classNameOf(type: IRType): string | undefined {
+  if (type.kind === 'class') return type.name;
+  if (type.kind === 'array') return classNameOf(type.element);
+  if (type.kind === 'nullable') return classNameOf(type.inner);
+  return undefined;
+}
+
+// The same type with its primitive leaf replaced: an array of ints becomes an array of longs
+export function withPrimitive(type: IRType, name: PrimitiveType): IRType {
+  switch (type.kind) {
+    case 'array': return { ...type, element: withPrimitive(type.element, name) };
+    case 'map': return { ...type, value: withPrimitive(type.value, name) };
+    case 'nullable': return { ...type, inner: withPrimitive(type.inner, name) };
+    default: return primitiveType(name);
+  }
+}
+
+// The type of a function or lambda used as a value
+export function functionType(fn: IRFunction | IRLambda): IRType {
+  return { kind: 'function', params: fn.params.map(p => p.dataType), returns: fn.returnType };
+}
+
+// Whether a type is no more than a primitive, a class, or a single array or map of them, the
+// shapes every target declares directly
+export function isFlatType(type: IRType): boolean {
+  switch (type.kind) {
+    case 'primitive': case 'enum': return true;
+    case 'class': return !type.args;
+    case 'array': return ['primitive', 'enum'].includes(type.element.kind) || (type.element.kind === 'class' && isFlatType(type.element));
+    case 'map': return type.key.kind === 'primitive' &&
+      (['primitive', 'enum'].includes(type.value.kind) || (type.value.kind === 'class' && isFlatType(type.value)));
+    default: return false;
+  }
+}
+
+// Replaces type parameters with the types they are bound to
+export function substituteType(type: IRType, bindings: Map<string, IRType>): IRType {
+  switch (type.kind) {
+    case 'type_param': return bindings.get(type.name) || type;
+    case 'array': return { ...type, element: substituteType(type.element, bindings) };
+    case 'map': return { ...type, key: substituteType(type.key, bindings), value: substituteType(type.value, bindings) };
+    case 'class': return type.args ? { ...type, args: type.args.map(arg => substituteType(arg, bindings)) } : type;
+    case 'nullable': return { ...type, inner: substituteType(type.inner, bindings) };
+    case 'tuple': return { ...type, elements: type.elements.map(e => substituteType(e, bindings)) };
+    case 'function': return {
+      ...type, params: type.params.map(p => substituteType(p, bindings)), returns: substituteType(type.returns, bindings),
+    };
+    default: return type;
+  }
+}
+
+// Traversal helpers
+
+// Calls visit on every node in value, parents before their children; visit returning false skips
+// the node's children, as when it walks them itself
+export function visitIR(value: unknown, visit: (node: IRNode) => boolean | void): void {
+  if (Array.isArray(value)) {
+    value.forEach(v => visitIR(v, visit));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+  if (visit(value as IRNode) === false) return;
+  Object.values(value).forEach(v => visitIR(v, visit));
+}
+
+// Whether test holds for any node in value
+export function someIR(value: unknown, test: (node: IRNode) => boolean): boolean {
+  if (Array.isArray(value)) return value.some(v => someIR(v, test));
+  if (!value || typeof value !== 'object') return false;
+  return test(value as IRNode) || Object.values(value).some(v => someIR(v, test));
+}
+
+// A copy of value with each node replaced by what replace gives for it; where that is undefined
+// the node is copied with its children replaced in turn
+export function mapIR<T>(value: T, replace: (node: IRNode) => unknown): T {
+  if (Array.isArray(value)) return value.map(v => mapIR(v, replace)) as T;
+  if (!value || typeof value !== 'object') return value;
+  const replaced = replace(value as unknown as IRNode);
+  if (replaced !== undefined) return replaced as T;
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, mapIR(v, replace)])) as T;
+}
+
+// Generator helpers
+
+// Binding strength of the binary operators of C, C++ and Java, which agree on them; the IR drops the
+// source's parentheses. Python's floor_div, floor_mod and pow become calls, so they never need them
+export const C_PRECEDENCE: Record<string, number> = {
+  'floor_div': 11, 'floor_mod': 11, 'pow': 11, 'true_div': 10, '*': 10, '/': 10, '%': 10, '+': 9, '-': 9, '<<': 8, '>>': 8, '>>>': 8,
+  '<': 7, '>': 7, '<=': 7, '>=': 7, '==': 6, '!=': 6, '&': 5, '^': 4, '|': 3, '&&': 2, '||': 1,
+};
+
+// The code of an operand, parenthesized when it binds looser than its operator, or as loosely on the right
+export function operandCode(node: IRNode, code: string, operator: string, isRight = false): string {
+  const parent = C_PRECEDENCE[operator];
+  if (parent === undefined) return code;
+  if (isIRConditional(node) || isIRCompoundAssignment(node)) return `(${code})`;
+  if (!isIRBinaryOp(node)) return code;
+  const child = C_PRECEDENCE[node.operator] ?? 0;
+  return child < parent || (isRight && child === parent) ? `(${code})` : code;
+}
+
+// Labeled jumps out of nested loops become gotos to labels placed around the target loop, in the
+// targets that have goto
+export interface LoopContext {
+  label?: string;
+  gotos: Set<'break' | 'continue'>;
+}
+
+// Index helpers
+
+// How far from the end a negative index written as -k or a negative literal is; undefined for
+// indexes that count from the start
+export function fromEnd(index: IRNode): IRNode | undefined {
+  if (isIRLiteral(index) && typeof index.value === 'number' && index.value < 0) return { ...index, value: -index.value } as IRLiteral;
+  if (index.type === 'unary_op' && (index as IRUnaryOp).operator === '-') return (index as IRUnaryOp).operand;
+  return undefined;
+}
+
+// x ** -k, which Python works out as a float even for int operands
+export function isNegativePower(node: IRBinaryOp): boolean {
+  return node.operator === 'pow' && fromEnd(node.right) !== undefined;
+}
+
+// A slice's step when it is a constant, 1 when left out
+export function sliceStep(node: IRSlice): number | undefined {
+  if (!node.step) return 1;
+  if (isIRLiteral(node.step) && typeof node.step.value === 'number') return node.step.value;
+  const offset = fromEnd(node.step);
+  return offset && isIRLiteral(offset) && typeof offset.value === 'number' ? -offset.value : undefined;
+}
+
+// Exception helpers
+
+// The number each enum constant stands for; ones without a value follow on from the previous
+export function enumValues(node: IREnum): number[] {
+  const values: number[] = [];
+  for (const member of node.members) {
+    values.push(member.value ?? (values.length > 0 ? values[values.length - 1] + 1 : 0));
+  }
+  return values;
+}
+
+// Whether a handler somewhere would catch a ZeroDivisionError: one naming it or Exception, or a
+// catch-all. Targets where dividing by zero doesn't raise check their divisors only then
+export function catchesZeroDivision(value: unknown): boolean {
+  return someIR(value, node => isIRTry(node) && node.handlers.some(h => h.exceptionTypes.length === 0 ||
+    h.exceptionTypes.some(t => ['ZeroDivisionError', 'ArithmeticError', 'Exception'].includes(t))));
+}
+
+// The divisions Python's operators raise ZeroDivisionError for, and integer / and %, which
+// Java's raise ArithmeticException for; a nonzero literal divisor needs no check
+export function needsDivisorCheck(node: IRBinaryOp, integral: boolean): boolean {
+  const divides = ['floor_div', 'floor_mod', 'true_div'].includes(node.operator) || (integral && ['/', '%'].includes(node.operator));
+  const literal = isIRLiteral(node.right) && typeof node.right.value === 'number' && node.right.value !== 0;
+  return divides && !literal;
+}
+
+// Call helpers
+
+// The arguments of a call in parameter order: keyword arguments move to their parameter's
+// position and parameters left out take their default, up to the last argument given unless
+// fillDefaults asks for all of them
+export function bindArguments(call: IRCall, params: IRVariable[] | undefined, fillDefaults = true): IRNode[] {
+  const keywordArgs = call.keywordArgs || [];
+  if (!params) return [...call.args, ...keywordArgs.map(arg => arg.value)];
+  const given = params.map((p, i) => i < call.args.length ? call.args[i] : keywordArgs.find(arg => arg.name === p.name)?.value);
+  const last = given.reduce((found, arg, i) => arg ? i : found, -1);
+  const bound: IRNode[] = [];
+  params.forEach((p, i) => {
+    const arg = given[i] || (i < last || fillDefaults ? p.defaultValue : undefined);
+    if (arg) bound.push(arg);
+  });
+  return [...bound, ...call.args.slice(params.length)];
+}
+
+// The value of a lambda whose body is a single return, which targets can write as an expression
+export function lambdaExpression(lambda: IRLambda): IRNode | undefined {
+  const only = lambda.body.length === 1 ? lambda.body[0] : undefined;
+  return only && isIRReturn(only) ? only.value : undefined;
+}
+
+// Variables of enclosing scopes a lambda reads or writes: the names it uses without taking or declaring them
+export function lambdaCaptures(lambda: IRLambda): string[] {
+  const declared = new Set(lambda.params.map(p => p.name));
+  const used = new Set<string>();
+  visitIR(lambda.body, node => {
+    if (isIRVariable(node)) declared.add(node.name);
+    if ((isIRFor(node) || isIRForEach(node)) && node.iterator) declared.add(node.iterator);
+    if (isIRIdentifier(node)) used.add(node.name.split('.')[0]);
+    if (isIRAssignment(node)) used.add(node.target.split('.')[0]);
+    if (isIRCall(node) && node.isMethod && node.object) used.add(node.object.split('.')[0]);
+  });
+  return [...used].filter(name => !declared.has(name));
+}
+
+export function isIntegralType(type: PrimitiveType): boolean {
+  return ['int', 'long', 'short', 'byte', 'unsigned', 'char', 'bool'].includes(type);
+}
+
+export function isFloatType(type: PrimitiveType): boolean {
+  return type === 'float' || type === 'double';
+}
+
+// String helpers
+
+// Each source language's names for the string methods: Python's and Java's take the string as their
+// object, Java's Character methods and the <ctype.h> functions the character as their only argument
+export const PYTHON_STRING_METHODS: Record<string, StringMethod> = {
+  upper: 'upper', lower: 'lower', strip: 'strip', split: 'split', join: 'join', find: 'find',
+  replace: 'replace', startswith: 'startswith', endswith: 'endswith', isdigit: 'isdigit', isalpha: 'isalpha',
+};
+
+export const JAVA_STRING_METHODS: Record<string, StringMethod> = {
+  toUpperCase: 'upper', toLowerCase: 'lower', strip: 'strip', trim: 'strip', split: 'split', indexOf: 'find',
+  replace: 'replace', startsWith: 'startswith', endsWith: 'endswith',
+};
+
+export const JAVA_CHARACTER_METHODS: Record<string, StringMethod> = {
+  toUpperCase: 'upper', toLowerCase: 'lower', isDigit: 'isdigit', isLetter: 'isalpha',
+};
+
+// <ctype.h>'s, shared by C and C++
+export const CHARACTER_FUNCTIONS: Record<string, StringMethod> = {
+  toupper: 'upper', tolower: 'lower', isdigit: 'isdigit', isalpha: 'isalpha',
+};
+
+// The string method a language's name stands for, if any
+export function stringMethodNamed(names: Record<string, StringMethod>, name: string): StringMethod | undefined {
+  return Object.prototype.hasOwnProperty.call(names, name) ? names[name] : undefined;
+}
+
+// The type of a string operation's result; split gives an array of strings
+export function stringMethodType(method: StringMethod, objectType: PrimitiveType): PrimitiveType {
+  switch (method) {
+    case 'find': case 'compare': return 'int';
+    case 'startswith': case 'endswith': case 'isdigit': case 'isalpha': return 'bool';
+    case 'upper': case 'lower': return objectType === 'char' ? 'char' : 'string';
+    default: return 'string';
+  }
+}
+
+// Math helpers
+
+// Each source language's names for the math functions: Python's math module and builtins, Java's
+// Math class, and <math.h>'s, which C++'s <cmath> extends with min and max
+export const PYTHON_MATH_FUNCTIONS: Record<string, MathFunction> = {
+  sqrt: 'sqrt', pow: 'pow', fabs: 'abs', floor: 'floor', ceil: 'ceil',
+  sin: 'sin', cos: 'cos', tan: 'tan', log: 'log', exp: 'exp',
+};
+
+export const PYTHON_BUILTIN_MATH_FUNCTIONS: Record<string, MathFunction> = {
+  abs: 'abs', min: 'min', max: 'max', round: 'round',
+};
+
+export const JAVA_MATH_FUNCTIONS: Record<string, MathFunction> = {
+  sqrt: 'sqrt', pow: 'pow', abs: 'abs', floor: 'floor', ceil: 'ceil', round: 'round', rint: 'round',
+  min: 'min', max: 'max', sin: 'sin', cos: 'cos', tan: 'tan', log: 'log', exp: 'exp',
+};
+
+export const C_MATH_FUNCTIONS: Record<string, MathFunction> = {
+  sqrt: 'sqrt', pow: 'pow', abs: 'abs', fabs: 'abs', floor: 'floor', ceil: 'ceil', round: 'round', rint: 'round',
+  fmin: 'min', fmax: 'max', sin: 'sin', cos: 'cos', tan: 'tan', log: 'log', exp: 'exp',
+};
+
+export const CPP_MATH_FUNCTIONS: Record<string, MathFunction> = { ...C_MATH_FUNCTIONS, min: 'min', max: 'max' };
+
+// And their names for the constants: math.pi, Math.PI and <math.h>'s M_PI
+export const PYTHON_MATH_CONSTANTS: Record<string, MathConstant> = { pi: 'pi', e: 'e' };
+
+export const JAVA_MATH_CONSTANTS: Record<string, MathConstant> = { PI: 'pi', E: 'e' };
+
+export const C_MATH_CONSTANTS: Record<string, MathConstant> = { M_PI: 'pi', M_E: 'e' };
+
+export function mathConstantNamed(names: Record<string, MathConstant>, name: string): MathConstant | undefined {
+  return Object.prototype.hasOwnProperty.call(names, name) ? names[name] : undefined;
+}
+
+// The math function a language's name stands for, if it takes that many arguments: pow two,
+// min and max at least two, the rest one
+export function mathFunctionNamed(names: Record<string, MathFunction>, name: string, argCount: number): MathFunction | undefined {
+  const func = Object.prototype.hasOwnProperty.call(names, name) ? names[name] : undefined;
+  if (func === 'pow') return argCount === 2 ? func : undefined;
+  if (func === 'min' || func === 'max') return argCount >= 2 ? func : undefined;
+  return argCount === 1 ? func : undefined;
+}
+
+// The type of a math function's result, from its arguments'
+export function mathFunctionType(func: MathFunction, argTypes: PrimitiveType[]): PrimitiveType {
+  switch (func) {
+    case 'floor': case 'ceil': case 'round': return 'int';
+    case 'abs': case 'min': case 'max':
+      return argTypes.some(isFloatType) ? 'float' : 'int';
+    default: return 'float';
+  }
+}
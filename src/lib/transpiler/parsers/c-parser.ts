@@ -3,9 +3,12 @@ import {
   IRProgram,
   IRVariable,
   IRFunction,
+  IRClass,
   IRIf,
   IRFor,
   IRWhile,
+  IRDoWhile,
+  IRContinue,
   IRReturn,
   IRPrint,
   IRInput,
@@ -14,7 +17,38 @@ import {
   IRLiteral,
   IRIdentifier,
   IRComment,
-  DataType,
+  IRArrayLiteral,
+  IRIndex,
+  IRIndexAssignment,
+  IRFieldAccess,
+  IRLength,
+  IRStringMethod,
+  IRMathCall,
+  IRMathConstant,
+  IREnum,
+  IREnumValue,
+  IRUnaryOp,
+  IRAddressOf,
+  IRDereference,
+  IRAllocation,
+  IRFree,
+  IRConditional,
+  IRCompoundAssignment,
+  IRContains,
+  IRFunctionRef,
+  PrimitiveType,
+  IRType,
+  primitiveType,
+  arrayType,
+  isArrayType,
+  flattenType,
+  CHARACTER_FUNCTIONS,
+  stringMethodNamed,
+  C_MATH_FUNCTIONS,
+  mathFunctionNamed,
+  C_MATH_CONSTANTS,
+  mathConstantNamed,
+  someIR,
 } from '../ir';
 
 interface Token {
@@ -22,13 +56,36 @@ interface Token {
   value: string;
 }
 
+// char* and char[] are strings
+function isCharType(type: IRType): boolean {
+  return type.kind === 'primitive' && type.name === 'char';
+}
+
+function isStringType(type: IRType): boolean {
+  return type.kind === 'primitive' && type.name === 'string';
+}
+
+// Keywords that combine into a primitive type, like unsigned long int
+const TYPE_KEYWORDS = ['int', 'long', 'short', 'unsigned', 'signed', 'float', 'double', 'char', 'void', 'size_t'];
+
 export class CParser {
   private tokens: Token[] = [];
   private pos = 0;
+  // Enums by tag and typedef name; enumerators are global in C, so they're looked up bare
+  private enums = new Map<string, IREnum>();
+  private enumMembers = new Map<string, string>();
+  // Structs by tag and typedef name
+  private structs = new Map<string, IRClass>();
+  // Functions declared so far; naming one without calling it makes a function pointer
+  private functionNames = new Set<string>();
 
   parse(code: string): IRProgram {
     this.tokens = this.tokenize(code);
     this.pos = 0;
+    this.enums = new Map();
+    this.enumMembers = new Map();
+    this.structs = new Map();
+    this.functionNames = new Set();
     
     const body: IRNode[] = [];
     const imports: string[] = [];
@@ -123,7 +180,7 @@ export class CParser {
       }
       
       // Numbers
-      const numMatch = code.slice(i).match(/^\d+\.?\d*[fFlL]?/);
+      const numMatch = code.slice(i).match(/^0[xX][0-9a-fA-F]+[uUlL]*|^\d+\.?\d*[fFuUlL]*/);
       if (numMatch) {
         tokens.push({ type: 'NUMBER', value: numMatch[0] });
         i += numMatch[0].length;
@@ -133,9 +190,9 @@ export class CParser {
       // Keywords and identifiers
       const wordMatch = code.slice(i).match(/^[a-zA-Z_][a-zA-Z0-9_]*/);
       if (wordMatch) {
-        const keywords = ['int', 'float', 'double', 'char', 'void', 'if', 'else', 'for', 
-                         'while', 'switch', 'case', 'default', 'break', 'return', 'struct', 
-                         'typedef', 'const', 'static', 'printf', 'scanf', 'sizeof', 'NULL', 'true', 'false'];
+        const keywords = ['int', 'long', 'short', 'unsigned', 'signed', 'float', 'double', 'char', 'void', 'size_t', 'if', 'else', 'for', 
+                         'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return', 'struct', 
+                         'typedef', 'enum', 'const', 'static', 'printf', 'scanf', 'sizeof', 'NULL', 'true', 'false'];
         const type = keywords.includes(wordMatch[0]) ? 'KEYWORD' : 'IDENTIFIER';
         tokens.push({ type, value: wordMatch[0] });
         i += wordMatch[0].length;
@@ -143,7 +200,7 @@ export class CParser {
       }
       
       // Multi-char operators
-      const opMatch = code.slice(i).match(/^(==|!=|<=|>=|&&|\|\||<<|>>|\+\+|--|->|\+=|-=|\*=|\/=)/);
+      const opMatch = code.slice(i).match(/^(<<=|>>=|==|!=|<=|>=|&&|\|\||<<|>>|\+\+|--|->|\+=|-=|\*=|\/=|%=|&=|\|=|\^=)/);
       if (opMatch) {
         tokens.push({ type: 'OPERATOR', value: opMatch[0] });
         i += opMatch[0].length;
@@ -192,6 +249,18 @@ export class CParser {
       return { type: 'comment', text: token.value.trim(), isMultiline: true } as IRComment;
     }
     
+    // enum Color { ... }; or typedef enum { ... } Color;
+    if ((this.match('KEYWORD', 'typedef') && this.peek(1)?.value === 'enum') ||
+        (this.match('KEYWORD', 'enum') && (this.peek(1)?.value === '{' || this.peek(2)?.value === '{'))) {
+      return this.parseEnum();
+    }
+    
+    // struct Point { ... }; or typedef struct { ... } Point; or a forward typedef struct Node Node;
+    if ((this.match('KEYWORD', 'typedef') && this.peek(1)?.value === 'struct') ||
+        (this.match('KEYWORD', 'struct') && (this.peek(1)?.value === '{' || this.peek(2)?.value === '{'))) {
+      return this.parseStruct();
+    }
+    
     // Check for function or variable
     const typeToken = this.peek();
     if (!typeToken) return null;
@@ -206,8 +275,164 @@ export class CParser {
   }
 
   private isType(token: Token): boolean {
-    return token.type === 'KEYWORD' && 
-           ['int', 'float', 'double', 'char', 'void', 'const', 'static'].includes(token.value);
+    return (token.type === 'KEYWORD' && 
+            [...TYPE_KEYWORDS, 'const', 'static', 'enum', 'struct'].includes(token.value)) ||
+           (token.type === 'IDENTIFIER' && (this.enums.has(token.value) || this.structs.has(token.value)));
+  }
+
+  private parseEnum(): IREnum {
+    const isTypedef = !!this.consume('KEYWORD', 'typedef');
+    this.consume('KEYWORD', 'enum');
+    const tag = this.consume('IDENTIFIER')?.value;
+    this.consume('PUNCTUATION', '{');
+    
+    const members: IREnum['members'] = [];
+    while (this.match('IDENTIFIER')) {
+      const member: IREnum['members'][number] = { name: this.advance()!.value };
+      if (this.consume('PUNCTUATION', '=')) {
+        const value = this.constantValue(this.parseExpression());
+        if (value !== undefined) member.value = value;
+      }
+      members.push(member);
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.consume('PUNCTUATION', '}');
+    
+    const alias = isTypedef ? this.consume('IDENTIFIER')?.value : undefined;
+    this.consume('PUNCTUATION', ';');
+    
+    const result: IREnum = { type: 'enum', name: alias || tag || 'Enum', members, printedAs: 'number' };
+    if (tag) this.enums.set(tag, result);
+    if (alias) this.enums.set(alias, result);
+    members.forEach(member => this.enumMembers.set(member.name, result.name));
+    return result;
+  }
+
+  private parseStruct(): IRClass | null {
+    const isTypedef = !!this.consume('KEYWORD', 'typedef');
+    this.consume('KEYWORD', 'struct');
+    const tag = this.consume('IDENTIFIER')?.value;
+    
+    // A forward typedef registers the name; the body fills in the same record later
+    const struct: IRClass = (tag && this.structs.get(tag)) ||
+      { type: 'class', name: tag || 'Struct', members: [], methods: [], constructor: undefined, isStruct: true };
+    if (tag) this.structs.set(tag, struct);
+    
+    const hasBody = !!this.consume('PUNCTUATION', '{');
+    if (hasBody) {
+      while (!this.match('PUNCTUATION', '}') && this.pos < this.tokens.length) {
+        if (this.match('COMMENT') || this.match('MULTILINE_COMMENT')) {
+          this.advance();
+          continue;
+        }
+        const member = this.parseVariableDecl();
+        delete member.value;
+        struct.members.push(member);
+        // int x, y;
+        while (this.consume('PUNCTUATION', ',')) {
+          struct.members.push({ ...member, name: this.advance()?.value || 'unknown' });
+        }
+        this.consume('PUNCTUATION', ';');
+      }
+      this.consume('PUNCTUATION', '}');
+    }
+    
+    const alias = isTypedef ? this.consume('IDENTIFIER')?.value : undefined;
+    this.consume('PUNCTUATION', ';');
+    if (alias) {
+      struct.name = alias;
+      this.structs.set(alias, struct);
+    }
+    return hasBody ? struct : null;
+  }
+
+  // {1, 2} or {.y = 2, .x = 1}: every field is passed in order, missing ones as zero
+  private parseStructInit(struct: IRClass): IRCall {
+    this.consume('PUNCTUATION', '{');
+    const values = new Map<string, IRNode>();
+    let next = 0;
+    while (!this.match('PUNCTUATION', '}') && this.pos < this.tokens.length) {
+      if (this.match('PUNCTUATION', '.') && this.peek(2)?.value === '=') {
+        this.advance();
+        const name = this.advance()!.value;
+        this.advance();
+        next = struct.members.findIndex(m => m.name === name);
+      }
+      const member = struct.members[next];
+      const nested = member?.dataType.kind === 'class' ? this.structs.get(member.dataType.name) : undefined;
+      const value = nested && this.match('PUNCTUATION', '{') ? this.parseStructInit(nested) : this.parseExpression();
+      if (member) values.set(member.name, value);
+      next++;
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.consume('PUNCTUATION', '}');
+    return { type: 'call', callee: struct.name, args: struct.members.map(m => values.get(m.name) || this.zeroValue(m)) };
+  }
+
+  // Pointers start out NULL; a struct reached again while zeroing itself does too
+  private zeroValue(member: IRVariable, visiting = new Set<IRClass>()): IRNode {
+    if (member.isPointer) return { type: 'literal', value: 'null', dataType: 'void' } as IRLiteral;
+    const struct = member.dataType.kind === 'class' ? this.structs.get(member.dataType.name) : undefined;
+    if (struct && visiting.has(struct)) return { type: 'literal', value: 'null', dataType: 'void' } as IRLiteral;
+    if (struct) {
+      const inner = new Set([...visiting, struct]);
+      return { type: 'call', callee: struct.name, args: struct.members.map(m => this.zeroValue(m, inner)) } as IRCall;
+    }
+    const dataType = flattenType(member.dataType);
+    if (isArrayType(member.dataType)) {
+      return { type: 'array_literal', elements: [], elementType: dataType, size: member.arraySize } as IRArrayLiteral;
+    }
+    if (dataType === 'string') return { type: 'literal', value: '', dataType: 'string' } as IRLiteral;
+    if (dataType === 'bool') return { type: 'literal', value: false, dataType: 'bool' } as IRLiteral;
+    if (dataType === 'float' || dataType === 'double') {
+      return { type: 'literal', value: 0.0, dataType } as IRLiteral;
+    }
+    return { type: 'literal', value: 0, dataType: 'int' } as IRLiteral;
+  }
+
+  private constantValue(node: IRNode): number | undefined {
+    if (node.type === 'literal' && typeof (node as IRLiteral).value === 'number') {
+      return (node as IRLiteral).value as number;
+    }
+    if (node.type === 'unary_op' && (node as IRUnaryOp).operator === '-') {
+      const value = this.constantValue((node as IRUnaryOp).operand);
+      return value === undefined ? undefined : -value;
+    }
+    return undefined;
+  }
+
+  // enum Color or a typedef'd Color: consumes the type and returns the enum's name
+  private consumeEnumType(): string | undefined {
+    if (this.consume('KEYWORD', 'enum')) {
+      const tag = this.advance()?.value || '';
+      return this.enums.get(tag)?.name || tag;
+    }
+    if (this.match('IDENTIFIER') && this.enums.has(this.peek()!.value)) {
+      return this.enums.get(this.advance()!.value)!.name;
+    }
+    return undefined;
+  }
+
+  // struct Point or a typedef'd Point: consumes the type and returns the struct's name
+  private consumeStructType(): string | undefined {
+    if (this.consume('KEYWORD', 'struct')) {
+      const tag = this.advance()?.value || '';
+      return this.structs.get(tag)?.name || tag;
+    }
+    if (this.match('IDENTIFIER') && this.structs.has(this.peek()!.value)) {
+      return this.structs.get(this.advance()!.value)!.name;
+    }
+    return undefined;
+  }
+
+  // enum Color, struct Point or a primitive like unsigned long
+  private consumeType(): IRType | undefined {
+    const enumType = this.consumeEnumType();
+    if (enumType) return { kind: 'enum', name: enumType };
+    const classType = this.consumeStructType();
+    if (classType) return { kind: 'class', name: classType };
+    const typeName = this.consumeTypeName();
+    return typeName ? this.mapCType(typeName) : undefined;
   }
 
   private parseFunctionOrVariable(): IRNode | null {
@@ -216,9 +441,9 @@ export class CParser {
       this.advance();
     }
     
-    const typeToken = this.advance();
-    if (!typeToken) return null;
-    const dataType = this.mapCType(typeToken.value);
+    // Enums are ints underneath
+    const type = this.consumeType();
+    if (!type) return null;
     
     // Check for pointer
     let isPointer = false;
@@ -227,25 +452,39 @@ export class CParser {
       isPointer = true;
     }
     
+    // Global function pointer
+    if (this.match('PUNCTUATION', '(') && this.peek(1)?.value === '*') {
+      return this.parseFunctionPointerDecl(type);
+    }
+    
     const nameToken = this.consume('IDENTIFIER');
     if (!nameToken) return null;
     
     // Function definition
     if (this.match('PUNCTUATION', '(')) {
-      return this.parseFunctionDef(nameToken.value, dataType);
+      const func = this.parseFunctionDef(nameToken.value, isPointer && isCharType(type) ? primitiveType('string') : type);
+      if (isPointer && !isCharType(type)) func.returnsPointer = true;
+      return func;
     }
     
     // Variable declaration
-    return this.parseVariableDecl(nameToken.value, dataType);
+    return this.parseVariableDecl(nameToken.value, type, isPointer);
   }
 
-  private parseFunctionDef(name: string, returnType: DataType): IRFunction {
+  private parseFunctionDef(name: string, returnType: IRType): IRFunction {
+    this.functionNames.add(name);
     this.consume('PUNCTUATION', '(');
     const params = this.parseParams();
     this.consume('PUNCTUATION', ')');
     
     const body = this.parseBlock();
     
+    // Pointer parameters that are indexed are arrays
+    for (const param of params.filter(p => p.isPointer && this.isIndexed(p.name, body))) {
+      delete param.isPointer;
+      param.dataType = arrayType(param.dataType);
+    }
+    
     return {
       type: 'function',
       name,
@@ -255,37 +494,48 @@ export class CParser {
     };
   }
 
+  private isIndexed(name: string, value: unknown): boolean {
+    return someIR(value, node => node.type === 'index' && (node as IRIndex).object.type === 'identifier' &&
+      ((node as IRIndex).object as IRIdentifier).name === name);
+  }
+
   private parseParams(): IRVariable[] {
     const params: IRVariable[] = [];
     
     while (!this.match('PUNCTUATION', ')')) {
-      const typeToken = this.advance();
-      if (!typeToken) break;
-      
-      let dataType = this.mapCType(typeToken.value);
+      const type = this.consumeType();
+      if (!type) break;
       
-      // Skip pointer asterisk
+      // char* is a string, anything else an out-parameter or array
+      let dataType = type;
+      let isPointer = false;
       if (this.consume('PUNCTUATION', '*')) {
-        // It's a pointer, keep track for string handling
-        if (dataType === 'char') dataType = 'string';
+        if (isCharType(type)) dataType = primitiveType('string');
+        else isPointer = true;
+      }
+      
+      if (this.match('PUNCTUATION', '(') && this.peek(1)?.value === '*') {
+        params.push(this.parseFunctionPointer(dataType));
+        if (!this.consume('PUNCTUATION', ',')) break;
+        continue;
       }
       
       const nameToken = this.consume('IDENTIFIER');
       if (nameToken) {
-        // Handle array parameters like char name[]
+        // Handle array parameters like char name[] or int arr[]
+        let isArray = false;
         if (this.match('PUNCTUATION', '[')) {
           while (!this.match('PUNCTUATION', ']') && this.pos < this.tokens.length) {
             this.advance();
           }
           this.consume('PUNCTUATION', ']');
-          if (dataType === 'char') dataType = 'string';
+          if (isCharType(dataType)) dataType = primitiveType('string');
+          else isArray = true;
         }
         
-        params.push({
-          type: 'variable',
-          name: nameToken.value,
-          dataType,
-        });
+        const param: IRVariable = { type: 'variable', name: nameToken.value, dataType: isArray ? arrayType(dataType) : dataType };
+        if (!isArray && isPointer) param.isPointer = true;
+        params.push(param);
       }
       
       if (!this.consume('PUNCTUATION', ',')) break;
@@ -339,6 +589,11 @@ export class CParser {
       return this.parseWhile();
     }
     
+    // Do-while loop
+    if (this.match('KEYWORD', 'do')) {
+      return this.parseDoWhile();
+    }
+    
     // Switch statement
     if (this.match('KEYWORD', 'switch')) {
       return this.parseSwitch();
@@ -351,6 +606,13 @@ export class CParser {
       return { type: 'break' } as IRNode;
     }
     
+    // Continue
+    if (this.match('KEYWORD', 'continue')) {
+      this.advance();
+      this.consume('PUNCTUATION', ';');
+      return { type: 'continue' } as IRContinue;
+    }
+    
     // Return
     if (this.match('KEYWORD', 'return')) {
       return this.parseReturn();
@@ -371,8 +633,10 @@ export class CParser {
       return this.parseVariableDecl();
     }
     
-    // Expression statement
+    // Expression statement; one that reads no tokens would be parsed again forever
+    const start = this.pos;
     const expr = this.parseExpression();
+    if (this.pos === start) throw new Error(`Unexpected '${this.peek()!.value}'`);
     this.consume('PUNCTUATION', ';');
     return expr;
   }
@@ -520,15 +784,15 @@ export class CParser {
       } else if (unary.operator === '--' || unary.operator === '--_post') {
         rangeStep = { type: 'literal', value: -1, dataType: 'int' } as IRLiteral;
       }
-    } else if (update?.type === 'binary_op') {
-      const binOp = update as IRBinaryOp;
-      if (binOp.operator === '+=' || binOp.operator === '-=') {
-        rangeStep = binOp.right;
-        if (binOp.operator === '-=') {
+    } else if (update?.type === 'compound_assignment') {
+      const compound = update as IRCompoundAssignment;
+      if (compound.operator === '+' || compound.operator === '-') {
+        rangeStep = compound.value;
+        if (compound.operator === '-') {
           rangeStep = {
             type: 'unary_op',
             operator: '-',
-            operand: binOp.right
+            operand: compound.value
           } as IRNode & { operator: string; operand: IRNode };
         }
       }
@@ -558,6 +822,19 @@ export class CParser {
     return { type: 'while', condition, body };
   }
 
+  private parseDoWhile(): IRDoWhile {
+    this.consume('KEYWORD', 'do');
+    const body = this.parseBlock();
+    
+    this.consume('KEYWORD', 'while');
+    this.consume('PUNCTUATION', '(');
+    const condition = this.parseExpression();
+    this.consume('PUNCTUATION', ')');
+    this.consume('PUNCTUATION', ';');
+    
+    return { type: 'do_while', condition, body };
+  }
+
   private parseReturn(): IRReturn {
     this.consume('KEYWORD', 'return');
     
@@ -631,7 +908,8 @@ export class CParser {
     this.consume('PUNCTUATION', ')');
     this.consume('PUNCTUATION', ';');
     
-    return { type: 'print', args: args.length > 0 ? args : [{ type: 'literal', value: '', dataType: 'string' } as IRLiteral], newline: hasNewline };
+    const empty: IRLiteral = { type: 'literal', value: '', dataType: 'string' };
+    return { type: 'print', args: args.length > 0 ? args : [empty], newline: hasNewline, separator: empty };
   }
 
   private parsePrintfFormat(format: string): Array<{ text: string; isFormat: boolean }> {
@@ -642,13 +920,15 @@ export class CParser {
     while (i < format.length) {
       if (format[i] === '%' && i + 1 < format.length) {
         const nextChar = format[i + 1];
-        if (['d', 's', 'f', 'c', 'i', 'x', 'X', 'o', 'u', 'e', 'E', 'g', 'G', 'p'].includes(nextChar)) {
+        // Length modifiers such as %ld and %hhu size the argument; the IR only needs the position
+        const conversion = format.slice(i).match(/^%(?:hh|h|ll|l|L|z|j|t)?[dsfcixXoueEgGp]/);
+        if (conversion) {
           if (current) {
             parts.push({ text: current, isFormat: false });
             current = '';
           }
-          parts.push({ text: '%' + nextChar, isFormat: true });
-          i += 2;
+          parts.push({ text: conversion[0], isFormat: true });
+          i += conversion[0].length;
           continue;
         } else if (nextChar === '%') {
           current += '%';
@@ -671,14 +951,14 @@ export class CParser {
     this.consume('KEYWORD', 'scanf');
     this.consume('PUNCTUATION', '(');
     
-    let targetType: DataType = 'string';
+    let targetType: PrimitiveType = 'string';
     let targetVar: string | undefined;
     
     // Format string
     if (this.match('STRING')) {
       const formatStr = this.advance()!.value;
-      if (formatStr.includes('%d') || formatStr.includes('%i')) targetType = 'int';
-      else if (formatStr.includes('%f')) targetType = 'float';
+      if (/%(?:hh|h|ll|l|z)?[diu]/.test(formatStr)) targetType = 'int';
+      else if (/%l?f/.test(formatStr)) targetType = 'float';
     }
     
     // Variable
@@ -695,46 +975,126 @@ export class CParser {
     return { type: 'input', targetVar, targetType };
   }
 
-  private parseVariableDecl(name?: string, dataType?: DataType): IRVariable {
+  private parseVariableDecl(name?: string, dataType?: IRType, isPointer = false): IRVariable {
     if (!name || !dataType) {
       // Skip modifiers
       while (this.match('KEYWORD', 'const') || this.match('KEYWORD', 'static')) {
         this.advance();
       }
       
-      const typeToken = this.advance();
-      dataType = this.mapCType(typeToken?.value || 'int');
+      dataType = this.consumeType() || primitiveType('int');
       
       // Check for pointer
       if (this.consume('PUNCTUATION', '*')) {
-        if (dataType === 'char') dataType = 'string';
+        if (isCharType(dataType)) dataType = primitiveType('string');
+        else isPointer = true;
+      }
+      
+      if (this.match('PUNCTUATION', '(') && this.peek(1)?.value === '*') {
+        return this.parseFunctionPointerDecl(dataType);
       }
       
       const nameToken = this.consume('IDENTIFIER');
       name = nameToken?.value || 'unknown';
     }
     
-    // Check for array
-    if (this.match('PUNCTUATION', '[')) {
+    // Check for array; int m[2][3] holds 2 rows of 3
+    const sizes: (IRNode | undefined)[] = [];
+    while (this.match('PUNCTUATION', '[')) {
       this.advance();
-      // Skip array size
-      while (!this.match('PUNCTUATION', ']') && this.pos < this.tokens.length) {
-        this.advance();
-      }
+      sizes.push(this.match('PUNCTUATION', ']') ? undefined : this.parseExpression());
       this.consume('PUNCTUATION', ']');
-      if (dataType === 'char') dataType = 'string';
     }
+    // char buffers are strings, their size doesn't matter
+    if (sizes.length > 0 && isCharType(dataType)) {
+      sizes.pop();
+      dataType = primitiveType('string');
+    }
+    let isArray = sizes.length > 0;
+    const arraySize = sizes[0];
+    const rowType = sizes.slice(1).reduce<IRType>(row => arrayType(row), dataType);
     
     let value: IRNode | undefined;
+    const pointee = dataType.kind === 'class' ? this.structs.get(dataType.name) : undefined;
+    const struct = !isArray && !isPointer ? pointee : undefined;
     
     if (this.match('PUNCTUATION', '=')) {
       this.advance();
-      value = this.parseExpression();
+      value = struct && this.match('PUNCTUATION', '{') ? this.parseStructInit(struct) : this.parseExpression();
+      if (isArray && value.type === 'array_literal') this.typeArrayLiteral(value as IRArrayLiteral, flattenType(dataType));
+      if (value.type === 'allocation') {
+        // The declaration says what was allocated: an array when there's a count
+        const allocation = value as IRAllocation;
+        allocation.dataType = dataType;
+        if (allocation.count) isArray = true;
+        else if (pointee) allocation.value = this.zeroValue({ type: 'variable', name, dataType });
+        // A char buffer is just a string
+        if (isStringType(dataType)) value = { type: 'literal', value: '', dataType: 'string' } as IRLiteral;
+      }
+    } else if (struct) {
+      // Other languages have no uninitialised records, so start from zero
+      value = this.zeroValue({ type: 'variable', name, dataType });
+    } else if (sizes.length > 1) {
+      value = this.zeroRows(sizes, flattenType(dataType));
+    } else if (pointee && !isPointer && arraySize?.type === 'literal') {
+      // Each element of struct P pts[2] is a record of its own
+      const elements = Array.from({ length: (arraySize as IRLiteral).value as number }, () => this.zeroValue({ type: 'variable', name, dataType }));
+      value = { type: 'array_literal', elements, elementType: flattenType(dataType) } as IRArrayLiteral;
     }
     
     this.consume('PUNCTUATION', ';');
     
-    return { type: 'variable', name, dataType, value };
+    if (isArray) {
+      return { type: 'variable', name, dataType: arrayType(rowType), value, arraySize };
+    }
+    const variable: IRVariable = { type: 'variable', name, dataType, value };
+    if (isPointer) variable.isPointer = true;
+    return variable;
+  }
+
+  // The rows of {{1, 2}, {3, 4}} hold the declared element type too
+  private typeArrayLiteral(literal: IRArrayLiteral, elementType: PrimitiveType): void {
+    literal.elementType = elementType;
+    literal.elements.forEach(row => {
+      if (row.type === 'array_literal') this.typeArrayLiteral(row as IRArrayLiteral, elementType);
+    });
+  }
+
+  // int g[3][4] without an initializer is zeroed row by row, when its row count is known
+  private zeroRows(sizes: (IRNode | undefined)[], elementType: PrimitiveType): IRArrayLiteral | undefined {
+    const [rows, ...columns] = sizes;
+    if (columns.length === 0) return { type: 'array_literal', elements: [], elementType, size: rows } as IRArrayLiteral;
+    if (rows?.type !== 'literal' || typeof (rows as IRLiteral).value !== 'number') return undefined;
+    const elements = Array.from({ length: (rows as IRLiteral).value as number }, () => this.zeroRows(columns, elementType)!);
+    return elements.every(Boolean) ? { type: 'array_literal', elements, elementType } as IRArrayLiteral : undefined;
+  }
+
+  // int (*op)(int, int): a variable or parameter pointing at a function taking two ints
+  private parseFunctionPointer(returns: IRType): IRVariable {
+    this.consume('PUNCTUATION', '(');
+    this.consume('PUNCTUATION', '*');
+    const name = this.consume('IDENTIFIER')?.value || 'unknown';
+    this.consume('PUNCTUATION', ')');
+    this.consume('PUNCTUATION', '(');
+    const params: IRType[] = [];
+    while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+      const classType = this.consumeStructType();
+      const typeName = classType ? undefined : this.consumeTypeName();
+      const isPointer = !!this.consume('PUNCTUATION', '*');
+      this.consume('IDENTIFIER');
+      if (classType) params.push({ kind: 'class', name: classType });
+      else if (typeName !== 'void') params.push(isPointer && typeName === 'char' ? primitiveType('string') : this.mapCType(typeName || 'int'));
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.consume('PUNCTUATION', ')');
+    return { type: 'variable', name, dataType: { kind: 'function', params, returns } };
+  }
+
+  private parseFunctionPointerDecl(returns: IRType): IRVariable {
+    const variable = this.parseFunctionPointer(returns);
+    if (this.consume('PUNCTUATION', '=')) variable.value = this.parseExpression();
+    this.consume('PUNCTUATION', ';');
+    return variable;
   }
 
   private parseExpression(): IRNode {
@@ -742,20 +1102,42 @@ export class CParser {
   }
 
   private parseAssignment(): IRNode {
-    const left = this.parseOr();
+    const left = this.parseTernary();
     
-    const assignOps = ['=', '+=', '-=', '*=', '/='];
-    for (const op of assignOps) {
-      if (this.match('OPERATOR', op) || (op === '=' && this.match('PUNCTUATION', '='))) {
-        this.advance();
-        const right = this.parseAssignment();
-        return { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
+    if (this.match('PUNCTUATION', '=')) {
+      this.advance();
+      const right = this.parseAssignment();
+      
+      // Element assignment like a[i] = value
+      if (left.type === 'index') {
+        const target = left as IRIndex;
+        return { type: 'index_assignment', object: target.object, index: target.index, value: right } as IRIndexAssignment;
       }
+      
+      return { type: 'binary_op', operator: '=', left, right } as IRBinaryOp;
+    }
+    
+    const compoundOps = ['+=', '-=', '*=', '/=', '%=', '<<=', '>>=', '&=', '|=', '^='];
+    if (compoundOps.some(op => this.match('OPERATOR', op))) {
+      const op = this.advance()!.value;
+      const value = this.parseAssignment();
+      return { type: 'compound_assignment', target: left, operator: op.slice(0, -1), value } as IRCompoundAssignment;
     }
     
     return left;
   }
 
+  // Right-associative, so a ? b : c ? d : e nests in the else branch
+  private parseTernary(): IRNode {
+    const condition = this.parseOr();
+    if (!this.match('PUNCTUATION', '?')) return condition;
+    this.advance();
+    const thenValue = this.parseExpression();
+    this.consume('PUNCTUATION', ':');
+    const elseValue = this.parseTernary();
+    return { type: 'conditional', condition, thenValue, elseValue } as IRConditional;
+  }
+
   private parseOr(): IRNode {
     let left = this.parseAnd();
     
@@ -769,36 +1151,98 @@ export class CParser {
   }
 
   private parseAnd(): IRNode {
-    let left = this.parseEquality();
+    let left = this.parseBitOr();
     
     while (this.match('OPERATOR', '&&')) {
       this.advance();
-      const right = this.parseEquality();
+      const right = this.parseBitOr();
       left = { type: 'binary_op', operator: '&&', left, right } as IRBinaryOp;
     }
     
     return left;
   }
 
+  private parseBitOr(): IRNode {
+    let left = this.parseBitXor();
+    
+    while (this.match('PUNCTUATION', '|')) {
+      this.advance();
+      const right = this.parseBitXor();
+      left = { type: 'binary_op', operator: '|', left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
+  private parseBitXor(): IRNode {
+    let left = this.parseBitAnd();
+    
+    while (this.match('PUNCTUATION', '^')) {
+      this.advance();
+      const right = this.parseBitAnd();
+      left = { type: 'binary_op', operator: '^', left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
+  private parseBitAnd(): IRNode {
+    let left = this.parseEquality();
+    
+    while (this.match('PUNCTUATION', '&')) {
+      this.advance();
+      const right = this.parseEquality();
+      left = { type: 'binary_op', operator: '&', left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
   private parseEquality(): IRNode {
     let left = this.parseComparison();
     
     while (this.match('OPERATOR', '==') || this.match('OPERATOR', '!=')) {
       const op = this.advance()!.value;
       const right = this.parseComparison();
-      left = { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
+      left = this.comparison(op, left, right);
     }
     
     return left;
   }
 
   private parseComparison(): IRNode {
-    let left = this.parseAddSub();
+    let left = this.parseShift();
     
     while (this.match('OPERATOR', '<') || this.match('OPERATOR', '>') ||
            this.match('OPERATOR', '<=') || this.match('OPERATOR', '>=') ||
            this.match('PUNCTUATION', '<') || this.match('PUNCTUATION', '>')) {
       const op = this.advance()!.value;
+      const right = this.parseShift();
+      left = this.comparison(op, left, right);
+    }
+    
+    return left;
+  }
+
+  // strcmp(a, b) < 0 compares the strings themselves, and strstr(s, t) != NULL is whether s holds t
+  private comparison(operator: string, left: IRNode, right: IRNode): IRNode {
+    const value = right.type === 'literal' ? (right as IRLiteral).value : undefined;
+    if (left.type === 'string_method' && (left as IRStringMethod).method === 'compare' && value === 0) {
+      const compare = left as IRStringMethod;
+      return { type: 'binary_op', operator, left: compare.object, right: compare.args[0] } as IRBinaryOp;
+    }
+    if (left.type === 'contains' && value === 'null' && operator === '!=') return left;
+    if (left.type === 'contains' && value === 'null' && operator === '==') {
+      return { type: 'unary_op', operator: '!', operand: left } as IRUnaryOp;
+    }
+    return { type: 'binary_op', operator, left, right } as IRBinaryOp;
+  }
+
+  private parseShift(): IRNode {
+    let left = this.parseAddSub();
+    
+    while (this.match('OPERATOR', '<<') || this.match('OPERATOR', '>>')) {
+      const op = this.advance()!.value;
       const right = this.parseAddSub();
       left = { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
     }
@@ -824,17 +1268,59 @@ export class CParser {
     while (this.match('PUNCTUATION', '*') || this.match('PUNCTUATION', '/') || this.match('PUNCTUATION', '%')) {
       const op = this.advance()!.value;
       const right = this.parseUnary();
+      
+      // sizeof(a) / sizeof(a[0]) is the array length idiom
+      const arrayName = op === '/' ? this.getSizeofArrayName(left, right) : null;
+      if (arrayName) {
+        left = { type: 'length', object: { type: 'identifier', name: arrayName } as IRIdentifier } as IRLength;
+        continue;
+      }
+      
       left = { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
     }
     
     return left;
   }
 
+  private getSizeofArrayName(left: IRNode, right: IRNode): string | null {
+    if (left.type !== 'call' || right.type !== 'call') return null;
+    const leftCall = left as IRCall;
+    const rightCall = right as IRCall;
+    if (leftCall.callee !== 'sizeof' || rightCall.callee !== 'sizeof') return null;
+    
+    const array = leftCall.args[0];
+    const element = rightCall.args[0];
+    if (array?.type !== 'identifier' || element?.type !== 'index') return null;
+    
+    const elementArray = (element as IRIndex).object;
+    const name = (array as IRIdentifier).name;
+    if (elementArray.type !== 'identifier' || (elementArray as IRIdentifier).name !== name) return null;
+    return name;
+  }
+
   private parseUnary(): IRNode {
+    // Address-of and dereference
+    if (this.match('PUNCTUATION', '&')) {
+      this.advance();
+      const operand = this.parseUnary();
+      // &twice is the same function pointer as twice
+      if (operand.type === 'function_ref') return operand;
+      return { type: 'address_of', operand } as IRAddressOf;
+    }
+    if (this.match('PUNCTUATION', '*')) {
+      this.advance();
+      return { type: 'dereference', operand: this.parseUnary() } as IRDereference;
+    }
+    
     // Prefix operators
-    if (this.match('PUNCTUATION', '!') || this.match('PUNCTUATION', '-') || this.match('PUNCTUATION', '+')) {
+    if (this.match('PUNCTUATION', '!') || this.match('PUNCTUATION', '-') || this.match('PUNCTUATION', '+') ||
+        this.match('PUNCTUATION', '~')) {
       const op = this.advance()!.value;
       const operand = this.parseUnary();
+      // !strcmp(a, b) holds when the strings are equal
+      if (op === '!' && operand.type === 'string_method' && (operand as IRStringMethod).method === 'compare') {
+        return this.comparison('==', operand, { type: 'literal', value: 0, dataType: 'int' } as IRLiteral);
+      }
       return { type: 'unary_op', operator: op, operand } as IRNode & { operator: string; operand: IRNode };
     }
     
@@ -852,8 +1338,34 @@ export class CParser {
     let expr = this.parsePrimary();
     
     while (true) {
-      // Postfix increment/decrement
-      if (this.match('OPERATOR', '++')) {
+      // Array indexing
+      if (this.match('PUNCTUATION', '[')) {
+        this.advance();
+        const index = this.parseExpression();
+        this.consume('PUNCTUATION', ']');
+        expr = { type: 'index', object: expr, index } as IRIndex;
+      } else if ((this.match('PUNCTUATION', '.') || this.match('OPERATOR', '->')) &&
+                 expr.type === 'identifier' && this.peek(1)?.type === 'IDENTIFIER') {
+        // Struct member access; through a pointer it reads the same
+        this.advance();
+        expr = { type: 'identifier', name: `${(expr as IRIdentifier).name}.${this.advance()!.value}` } as IRIdentifier;
+      } else if ((this.match('PUNCTUATION', '.') || this.match('OPERATOR', '->')) && this.peek(1)?.type === 'IDENTIFIER') {
+        // Members of elements, dereferences and returned structs: pts[0].x, (*p).x, make().x
+        const isPointer = this.advance()!.value === '->';
+        expr = { type: 'field_access', object: expr, field: this.advance()!.value, isPointer } as IRFieldAccess;
+      } else if (this.match('PUNCTUATION', '(') && expr.type === 'dereference' &&
+                 (expr as IRDereference).operand.type === 'identifier') {
+        // (*op)(a, b) calls through a function pointer like op(a, b)
+        this.advance();
+        const args: IRNode[] = [];
+        while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+          args.push(this.parseExpression());
+          if (!this.consume('PUNCTUATION', ',')) break;
+        }
+        this.consume('PUNCTUATION', ')');
+        expr = { type: 'call', callee: ((expr as IRDereference).operand as IRIdentifier).name, args } as IRCall;
+      } else if (this.match('OPERATOR', '++')) {
+        // Postfix increment/decrement
         this.advance();
         expr = { type: 'unary_op', operator: '++_post', operand: expr } as IRNode & { operator: string; operand: IRNode };
       } else if (this.match('OPERATOR', '--')) {
@@ -868,6 +1380,15 @@ export class CParser {
   }
 
   private parsePrimary(): IRNode {
+    // Casts like (int*)malloc(...) or (float)x only matter to C
+    if (this.match('PUNCTUATION', '(') && this.isType(this.peek(1)!)) {
+      while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+        this.advance();
+      }
+      this.consume('PUNCTUATION', ')');
+      return this.parseUnary();
+    }
+    
     // Parentheses
     if (this.match('PUNCTUATION', '(')) {
       this.advance();
@@ -876,11 +1397,39 @@ export class CParser {
       return expr;
     }
     
+    // Initializer list like {1, 2, 3}
+    if (this.match('PUNCTUATION', '{')) {
+      this.advance();
+      const elements: IRNode[] = [];
+      while (!this.match('PUNCTUATION', '}') && this.pos < this.tokens.length) {
+        elements.push(this.parseExpression());
+        if (!this.consume('PUNCTUATION', ',')) break;
+      }
+      this.consume('PUNCTUATION', '}');
+      return { type: 'array_literal', elements, elementType: 'int' } as IRArrayLiteral;
+    }
+    
+    // sizeof(expr) or sizeof(type)
+    if (this.match('KEYWORD', 'sizeof')) {
+      this.advance();
+      this.consume('PUNCTUATION', '(');
+      const structType = this.consumeStructType();
+      const arg = structType || this.isType(this.peek()!)
+        ? { type: 'identifier', name: structType || this.consumeTypeName() } as IRIdentifier
+        : this.parseExpression();
+      this.consume('PUNCTUATION', ')');
+      return { type: 'call', callee: 'sizeof', args: [arg] } as IRCall;
+    }
+    
     // Number
     if (this.match('NUMBER')) {
       const token = this.advance()!;
+      if (/^0[xX]/.test(token.value)) {
+        return { type: 'literal', value: parseInt(token.value.replace(/[uUlL]+$/, ''), 16), dataType: 'int' } as IRLiteral;
+      }
+      // Suffixes like 10u and 9000000000LL only size the literal
       const value = token.value.includes('.') ? parseFloat(token.value) : parseInt(token.value);
-      const dataType: DataType = token.value.includes('.') ? 'float' : 'int';
+      const dataType: PrimitiveType = token.value.includes('.') ? 'float' : 'int';
       return { type: 'literal', value, dataType } as IRLiteral;
     }
     
@@ -915,7 +1464,7 @@ export class CParser {
     // Identifier or function call
     if (this.match('IDENTIFIER')) {
       const token = this.advance()!;
-      let name = token.value;
+      const name = token.value;
       
       // Check for function call
       if (this.match('PUNCTUATION', '(')) {
@@ -926,17 +1475,48 @@ export class CParser {
           if (!this.consume('PUNCTUATION', ',')) break;
         }
         this.consume('PUNCTUATION', ')');
+        
+        if (name === 'strlen' && args.length === 1) {
+          return { type: 'length', object: args[0] } as IRLength;
+        }
+        // strcpy and strcat write into their first string, strcmp and strstr read both
+        if (name === 'strcpy' && args.length === 2) {
+          return { type: 'binary_op', operator: '=', left: args[0], right: args[1] } as IRBinaryOp;
+        }
+        if (name === 'strcat' && args.length === 2) {
+          return { type: 'compound_assignment', target: args[0], operator: '+', value: args[1] } as IRCompoundAssignment;
+        }
+        if (name === 'strcmp' && args.length === 2) {
+          return { type: 'string_method', method: 'compare', object: args[0], args: [args[1]] } as IRStringMethod;
+        }
+        if (name === 'strstr' && args.length === 2) {
+          return { type: 'contains', object: args[0], key: args[1] } as IRContains;
+        }
+        // toupper(c), isdigit(c), ... from <ctype.h>
+        const characterMethod = stringMethodNamed(CHARACTER_FUNCTIONS, name);
+        if (characterMethod && args.length === 1 && !this.functionNames.has(name)) {
+          return { type: 'string_method', method: characterMethod, object: args[0], args: [] } as IRStringMethod;
+        }
+        // sqrt(x), fabs(x), fmax(a, b), ... from <math.h>, and abs(n) from <stdlib.h>
+        const mathFunction = mathFunctionNamed(C_MATH_FUNCTIONS, name, args.length);
+        if (mathFunction && !this.functionNames.has(name)) {
+          return { type: 'math_call', func: mathFunction, args } as IRMathCall;
+        }
+        if (name === 'malloc' && args.length === 1) return this.allocation(args[0]);
+        if (name === 'calloc' && args.length === 2) {
+          return this.allocation({ type: 'binary_op', operator: '*', left: args[0], right: args[1] } as IRBinaryOp);
+        }
+        if (name === 'free' && args.length === 1) return { type: 'free', target: args[0] } as IRFree;
         return { type: 'call', callee: name, args } as IRCall;
       }
       
-      // Check for array access
-      if (this.match('PUNCTUATION', '[')) {
-        this.advance();
-        const index = this.parseExpression();
-        this.consume('PUNCTUATION', ']');
-        // Treat as array access
-        return { type: 'identifier', name: `${name}[${this.generateSimpleExpr(index)}]` } as IRIdentifier;
-      }
+      const enumName = this.enumMembers.get(name);
+      if (enumName) return { type: 'enum_value', enumName, member: name } as IREnumValue;
+      if (this.functionNames.has(name)) return { type: 'function_ref', name } as IRFunctionRef;
+      
+      // M_PI and M_E from <math.h>
+      const mathConstant = mathConstantNamed(C_MATH_CONSTANTS, name);
+      if (mathConstant) return { type: 'math_constant', name: mathConstant, dataType: 'double' } as IRMathConstant;
       
       return { type: 'identifier', name } as IRIdentifier;
     }
@@ -944,21 +1524,54 @@ export class CParser {
     return { type: 'literal', value: 0, dataType: 'int' } as IRLiteral;
   }
 
-  private generateSimpleExpr(node: IRNode): string {
-    if (node.type === 'literal') return String((node as IRLiteral).value);
-    if (node.type === 'identifier') return (node as IRIdentifier).name;
-    return '0';
+  // malloc(n * sizeof(int)) is an array of n; malloc(sizeof(Point)) a single value.
+  // The element type comes from the declaration it initializes.
+  private allocation(size: IRNode): IRAllocation {
+    const isSizeof = (node: IRNode) => node.type === 'call' && (node as IRCall).callee === 'sizeof';
+    const result: IRAllocation = { type: 'allocation', dataType: primitiveType('int') };
+    if (size.type === 'binary_op' && (size as IRBinaryOp).operator === '*') {
+      const { left, right } = size as IRBinaryOp;
+      result.count = isSizeof(right) ? left : isSizeof(left) ? right : size;
+      if (this.constantValue(result.count) === 1) delete result.count;
+    } else if (!isSizeof(size)) {
+      result.count = size;
+    }
+    return result;
+  }
+
+  // unsigned long int, short, char: the keywords of one type joined by spaces
+  private consumeTypeName(): string | undefined {
+    const words: string[] = [];
+    while (this.match('KEYWORD') && TYPE_KEYWORDS.includes(this.peek()!.value)) {
+      words.push(this.advance()!.value);
+    }
+    if (words.length === 0) return this.advance()?.value;
+    return words.join(' ');
   }
 
-  private mapCType(type: string): DataType {
-    const typeMap: Record<string, DataType> = {
+  private mapCType(type: string): IRType {
+    // int is implied by the size and sign keywords
+    const name = type.split(' ').filter(word => word !== 'int').join(' ') || 'int';
+    const typeMap: Record<string, PrimitiveType> = {
       'int': 'int',
+      'signed': 'int',
+      'long': 'long',
+      'long long': 'long',
+      'unsigned long': 'long',
+      'unsigned long long': 'long',
+      'size_t': 'long',
+      'short': 'short',
+      'unsigned short': 'int',
+      'unsigned': 'unsigned',
+      'signed char': 'byte',
+      'unsigned char': 'unsigned',
       'float': 'float',
       'double': 'double',
+      'long double': 'double',
       'char': 'char',
       'void': 'void',
       'bool': 'bool',
     };
-    return typeMap[type] || 'int';
+    return primitiveType(typeMap[name] || 'int');
   }
 }
@@ -7,6 +7,15 @@ import {
   IRIf,
   IRFor,
   IRWhile,
+  IRDoWhile,
+  IRContinue,
+  IRTry,
+  IRThrow,
+  IRCatchClause,
+  IRSuperCall,
+  IREnum,
+  IREnumValue,
+  IRUnaryOp,
   IRReturn,
   IRPrint,
   IRInput,
@@ -15,22 +24,103 @@ import {
   IRLiteral,
   IRIdentifier,
   IRComment,
-  DataType,
+  IRArrayLiteral,
+  IRIndex,
+  IRFieldAccess,
+  IRIndexAssignment,
+  IRLength,
+  IRSlice,
+  IRStringMethod,
+  IRMathCall,
+  IRMathConstant,
+  IRMapLiteral,
+  IRContains,
+  IRRemove,
+  IRForEach,
+  IRAddressOf,
+  IRDereference,
+  IRAllocation,
+  IRFree,
+  IRConditional,
+  IRCompoundAssignment,
+  IRTupleLiteral,
+  IRLambda,
+  IRFunctionRef,
+  IRDestructure,
+  PrimitiveType,
+  IRType,
+  IRMapType,
+  primitiveType,
+  arrayType,
+  flattenType,
+  isAutoType,
+  isArrayType,
+  isListType,
+  isMapType,
+  isFloatType,
+  functionType,
+  CHARACTER_FUNCTIONS,
+  stringMethodNamed,
+  CPP_MATH_FUNCTIONS,
+  mathFunctionNamed,
+  C_MATH_CONSTANTS,
+  mathConstantNamed,
+  findMethod,
+  visitIR,
+  someIR,
 } from '../ir';
+import { resolveOverloads } from '../transforms/overloads';
 
 interface Token {
   type: string;
   value: string;
 }
 
+// Keywords that combine into a primitive type, like unsigned long int
+const TYPE_KEYWORDS = ['int', 'long', 'short', 'unsigned', 'signed', 'float', 'double', 'char', 'void', 'bool', 'size_t'];
+
+const ONE: IRLiteral = { type: 'literal', value: 1, dataType: 'int' };
+
+// Standard library templates that start a declaration
+const STD_TYPES = ['vector', 'map', 'unordered_map', 'optional', 'function', 'pair', 'tuple'];
+
 export class CppParser {
   private tokens: Token[] = [];
   private pos = 0;
+  private maps = new Map<string, IRMapType>();
+  // Names declared as strings, whose find() is a string search rather than a lookup
+  private strings = new Set<string>();
+  // Range-for loop variables over maps, whose .first/.second become key/value names
+  private pairAliases = new Set<string>();
+  // Catch parameters, whose what() is the exception message
+  private exceptionNames = new Set<string>();
+  private classes = new Map<string, IRClass>();
+  // Base of the class being parsed, so Base::method(...) becomes a super call
+  private currentSuperclass: string | undefined;
+  // Enums by name; constants of unscoped enums can also be used bare
+  private enums = new Map<string, IREnum>();
+  private enumMembers = new Map<string, string>();
+  // Type parameters of the template being parsed, and the names of template functions and classes
+  private typeParams = new Set<string>();
+  private templates = new Set<string>();
+  // Free functions parsed so far; naming one without calling it passes it as a value
+  private functions = new Map<string, IRFunction>();
 
   parse(code: string): IRProgram {
     try {
       this.tokens = this.tokenize(code);
       this.pos = 0;
+      this.maps = new Map();
+      this.strings = new Set();
+      this.pairAliases = new Set();
+      this.exceptionNames = new Set();
+      this.classes = new Map();
+      this.currentSuperclass = undefined;
+      this.enums = new Map();
+      this.enumMembers = new Map();
+      this.typeParams = new Set();
+      this.templates = new Set();
+      this.functions = new Map();
       
       const body: IRNode[] = [];
       const imports: string[] = [];
@@ -56,7 +146,9 @@ export class CppParser {
         if (node) body.push(node);
       }
       
-      return { type: 'program', body, imports };
+      const program: IRProgram = { type: 'program', body, imports };
+      resolveOverloads(program);
+      return program;
     } catch (error) {
       console.error('C++ parser error:', error);
       return { type: 'program', body: [], imports: [] };
@@ -134,7 +226,7 @@ export class CppParser {
       }
       
       // Numbers
-      const numMatch = code.slice(i).match(/^\d+\.?\d*[fFlL]?/);
+      const numMatch = code.slice(i).match(/^0[xX][0-9a-fA-F]+[uUlL]*|^\d+\.?\d*[fFuUlL]*/);
       if (numMatch) {
         tokens.push({ type: 'NUMBER', value: numMatch[0] });
         i += numMatch[0].length;
@@ -144,10 +236,10 @@ export class CppParser {
       // Words
       const wordMatch = code.slice(i).match(/^[a-zA-Z_][a-zA-Z0-9_]*/);
       if (wordMatch) {
-        const keywords = ['int', 'float', 'double', 'char', 'void', 'bool', 'auto',
-                         'if', 'else', 'for', 'while', 'switch', 'case', 'default', 'break',
+        const keywords = ['int', 'long', 'short', 'unsigned', 'signed', 'float', 'double', 'char', 'void', 'bool', 'size_t', 'auto',
+                         'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'try', 'catch', 'throw',
                          'return', 'class', 'struct', 'public', 'private', 'protected', 
-                         'const', 'static', 'virtual', 'new', 'delete', 'this', 'nullptr', 
+                         'const', 'static', 'virtual', 'new', 'delete', 'this', 'nullptr', 'template', 'typename',
                          'true', 'false', 'using', 'namespace', 'std', 'cout', 'cin', 'endl', 'string'];
         const type = keywords.includes(wordMatch[0]) ? 'KEYWORD' : 'IDENTIFIER';
         tokens.push({ type, value: wordMatch[0] });
@@ -156,7 +248,7 @@ export class CppParser {
       }
       
       // Operators
-      const opMatch = code.slice(i).match(/^(<<|>>|==|!=|<=|>=|&&|\|\||\+\+|--|->|::|->|\+=|-=|\*=|\/=)/);
+      const opMatch = code.slice(i).match(/^(<<=|>>=|<<|>>|==|!=|<=|>=|&&|\|\||\+\+|--|->|::|->|\+=|-=|\*=|\/=|%=|&=|\|=|\^=)/);
       if (opMatch) {
         tokens.push({ type: 'OPERATOR', value: opMatch[0] });
         i += opMatch[0].length;
@@ -209,6 +301,14 @@ export class CppParser {
       return this.parseClass();
     }
     
+    if (this.match('KEYWORD', 'template')) {
+      return this.parseTemplate();
+    }
+    
+    if (this.match('IDENTIFIER', 'enum')) {
+      return this.parseEnum();
+    }
+    
     // Function or variable
     if (this.isType(this.peek())) {
       return this.parseFunctionOrVariable();
@@ -221,10 +321,175 @@ export class CppParser {
   private isType(token: Token | null): boolean {
     if (!token) return false;
     // Only treat known type keywords as types, NOT arbitrary identifiers
-    const typeKeywords = ['int', 'float', 'double', 'char', 'void', 'bool', 'auto', 'const', 'static', 'string', 'unsigned', 'signed', 'long', 'short'];
+    const typeKeywords = ['int', 'float', 'double', 'char', 'void', 'bool', 'auto', 'const', 'static', 'string', 'unsigned', 'signed', 'long', 'short', 'size_t'];
     return (token.type === 'KEYWORD' && typeKeywords.includes(token.value)) ||
            (token.type === 'IDENTIFIER' && token.value === 'string') ||
-           (token.type === 'IDENTIFIER' && token.value === 'std'); // std:: types
+           (token.type === 'IDENTIFIER' && STD_TYPES.includes(token.value)) ||
+           (token.type === 'IDENTIFIER' && token.value === 'std') || // std:: types
+           (token.value === 'std' && ['string', ...STD_TYPES].includes(this.peek(2)?.value || '')) ||
+           (token.type === 'IDENTIFIER' && this.enums.has(token.value)) ||
+           (token.type === 'IDENTIFIER' && this.typeParams.has(token.value));
+  }
+
+  // template <typename T, class U> before a function or class, whose signature can use T and U
+  private parseTemplate(): IRNode | null {
+    this.consume('KEYWORD', 'template');
+    this.consume('PUNCTUATION', '<');
+    const typeParams: string[] = [];
+    while ((this.consume('KEYWORD', 'typename') || this.consume('KEYWORD', 'class')) && this.match('IDENTIFIER')) {
+      typeParams.push(this.advance()!.value);
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.closeTemplateArgs();
+    
+    this.typeParams = new Set(typeParams);
+    const node = this.parseTopLevel();
+    this.typeParams = new Set();
+    if (node?.type === 'function' || node?.type === 'class') {
+      const generic = node as IRFunction | IRClass;
+      generic.typeParams = typeParams.map(name => ({ name }));
+      this.templates.add(generic.name);
+    }
+    return node;
+  }
+
+  // <int, string> after a template's name
+  private parseTemplateArgs(): IRType[] {
+    const args: IRType[] = [];
+    this.consume('PUNCTUATION', '<');
+    while (!this.match('PUNCTUATION', '>') && !this.match('OPERATOR', '>>') && this.pos < this.tokens.length) {
+      args.push(this.parseTypeSpec().type);
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.closeTemplateArgs();
+    return args;
+  }
+
+  // enum class Color { RED, GREEN = 5 }; or a plain enum, with an optional : int base
+  private parseEnum(): IREnum {
+    this.consume('IDENTIFIER', 'enum');
+    const isScoped = !!(this.consume('KEYWORD', 'class') || this.consume('KEYWORD', 'struct'));
+    const name = this.consume('IDENTIFIER')?.value || 'Enum';
+    while (!this.match('PUNCTUATION', '{') && this.pos < this.tokens.length) {
+      this.advance();
+    }
+    this.consume('PUNCTUATION', '{');
+    
+    const members: IREnum['members'] = [];
+    while (this.match('IDENTIFIER')) {
+      const member: IREnum['members'][number] = { name: this.advance()!.value };
+      if (this.consume('PUNCTUATION', '=')) {
+        const value = this.constantValue(this.parseExpression());
+        if (value !== undefined) member.value = value;
+      }
+      members.push(member);
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.consume('PUNCTUATION', '}');
+    this.consume('PUNCTUATION', ';');
+    
+    const result: IREnum = { type: 'enum', name, members, printedAs: 'number' };
+    this.enums.set(name, result);
+    if (!isScoped) members.forEach(member => this.enumMembers.set(member.name, name));
+    return result;
+  }
+
+  private constantValue(node: IRNode): number | undefined {
+    if (node.type === 'literal' && typeof (node as IRLiteral).value === 'number') {
+      return (node as IRLiteral).value as number;
+    }
+    if (node.type === 'unary_op' && (node as IRUnaryOp).operator === '-') {
+      const value = this.constantValue((node as IRUnaryOp).operand);
+      return value === undefined ? undefined : -value;
+    }
+    return undefined;
+  }
+
+  // Type with optional std:: prefix, vector<T>, map<K, V>, pair<A, B>, tuple<...>, optional<T> or
+  // function<R(A)> wrapper
+  // and pointer/reference suffix
+  private parseTypeSpec(): { type: IRType; isPointer?: boolean; isReference?: boolean } {
+    let typeName = this.consumeTypeName();
+    
+    if (typeName === 'std' && this.match('OPERATOR', '::')) {
+      this.advance();
+      typeName = this.consumeTypeName();
+    }
+    
+    if (this.enums.has(typeName)) {
+      const isReference = !!this.consume('PUNCTUATION', '&');
+      return { type: { kind: 'enum', name: typeName }, isReference };
+    }
+    
+    let type = this.mapCppType(typeName);
+    
+    if (typeName === 'vector' && this.match('PUNCTUATION', '<')) {
+      this.advance();
+      type = { kind: 'array', element: this.parseTypeSpec().type, isList: true };
+      this.closeTemplateArgs();
+    }
+    
+    if ((typeName === 'map' || typeName === 'unordered_map') && this.match('PUNCTUATION', '<')) {
+      this.advance();
+      const key = this.parseTypeSpec().type;
+      this.consume('PUNCTUATION', ',');
+      type = { kind: 'map', key, value: this.parseTypeSpec().type };
+      this.closeTemplateArgs();
+    }
+    
+    // pair<int, int> and tuple<int, string, bool>
+    if ((typeName === 'pair' || typeName === 'tuple') && this.match('PUNCTUATION', '<')) {
+      type = { kind: 'tuple', elements: this.parseTemplateArgs() };
+    }
+    
+    if (typeName === 'optional' && this.match('PUNCTUATION', '<')) {
+      this.advance();
+      type = { kind: 'nullable', inner: this.parseTypeSpec().type };
+      this.closeTemplateArgs();
+    }
+    
+    // function<int(int, int)>
+    if (typeName === 'function' && this.match('PUNCTUATION', '<')) {
+      this.advance();
+      const returns = this.parseTypeSpec().type;
+      const params: IRType[] = [];
+      this.consume('PUNCTUATION', '(');
+      while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+        params.push(this.parseTypeSpec().type);
+        if (!this.consume('PUNCTUATION', ',')) break;
+      }
+      this.consume('PUNCTUATION', ')');
+      type = { kind: 'function', params, returns };
+      this.closeTemplateArgs();
+    }
+    
+    // Box<int> instantiates a class template
+    if (type.kind === 'class' && this.match('PUNCTUATION', '<')) {
+      type = { ...type, args: this.parseTemplateArgs() };
+    }
+    
+    const isPointer = !!this.consume('PUNCTUATION', '*');
+    const isReference = !!this.consume('PUNCTUATION', '&');
+    return { type, isPointer, isReference };
+  }
+
+  // unsigned long int, short, string: the keywords of one type joined by spaces
+  private consumeTypeName(): string {
+    const words: string[] = [];
+    while (this.match('KEYWORD') && TYPE_KEYWORDS.includes(this.peek()!.value)) {
+      words.push(this.advance()!.value);
+    }
+    if (words.length === 0) return this.advance()?.value || '';
+    return words.join(' ');
+  }
+
+  private closeTemplateArgs(): void {
+    if (this.match('OPERATOR', '>>')) {
+      // Closes two template argument lists, leave one '>' for the outer type
+      this.tokens[this.pos] = { type: 'PUNCTUATION', value: '>' };
+    } else {
+      this.consume('PUNCTUATION', '>');
+    }
   }
 
   private parseClass(): IRClass {
@@ -232,6 +497,24 @@ export class CppParser {
     const nameToken = this.consume('IDENTIFIER');
     const name = nameToken?.value || 'Unknown';
     
+    // class Dog : public Animal, public Comparable. Bases already seen to be
+    // interfaces are implemented; only the first other base is kept as the superclass.
+    let superclass: string | undefined;
+    const interfaces: string[] = [];
+    if (this.consume('PUNCTUATION', ':')) {
+      while (!this.match('PUNCTUATION', '{') && this.pos < this.tokens.length) {
+        const token = this.advance()!;
+        if (token.type !== 'IDENTIFIER') continue;
+        if (this.classes.get(token.value)?.isInterface) {
+          interfaces.push(token.value);
+        } else if (!superclass) {
+          superclass = token.value;
+        }
+      }
+    }
+    this.currentSuperclass = superclass;
+    const bases = superclass ? [superclass, ...interfaces] : interfaces;
+    
     this.consume('PUNCTUATION', '{');
     
     const members: IRVariable[] = [];
@@ -248,16 +531,25 @@ export class CppParser {
       }
       
       // Constructor
-      if (this.match('IDENTIFIER', name)) {
+      if (this.match('IDENTIFIER', name) && this.peek(1)?.value === '(') {
         constructor = this.parseConstructor(name);
         continue;
       }
       
+      // Destructors have nothing to translate: virtual ~Shape() = default;
+      if (this.match('PUNCTUATION', '~') ||
+          (this.match('KEYWORD', 'virtual') && this.peek(1)?.value === '~')) {
+        this.skipDestructor();
+        continue;
+      }
+      
       // Member or method
-      if (this.isType(this.peek())) {
+      if (this.isType(this.peek()) || this.match('KEYWORD', 'virtual') || this.isObjectDeclaration()) {
         const memberOrMethod = this.parseMemberOrMethod();
         if (memberOrMethod?.type === 'function') {
-          methods.push(memberOrMethod as IRFunction);
+          const method = memberOrMethod as IRFunction;
+          if (bases.some(base => findMethod(this.classes, base, method.name))) method.isOverride = true;
+          methods.push(method);
         } else if (memberOrMethod?.type === 'variable') {
           members.push(memberOrMethod as IRVariable);
         }
@@ -274,8 +566,85 @@ export class CppParser {
     
     this.consume('PUNCTUATION', '}');
     this.consume('PUNCTUATION', ';');
+    this.currentSuperclass = undefined;
+    
+    const result: IRClass = { type: 'class', name, superclass, members, methods, constructor };
+    if (interfaces.length > 0) result.interfaces = interfaces;
+    // A class of nothing but pure virtual methods is an interface
+    if (methods.some(m => m.isAbstract)) {
+      result.isAbstract = true;
+      if (!superclass && !constructor && members.length === 0 && methods.every(m => m.isAbstract)) {
+        result.isInterface = true;
+      }
+    }
+    this.qualifyMembers(result);
+    this.classes.set(name, result);
+    return result;
+  }
+
+  private skipDestructor(): void {
+    while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+      this.advance();
+    }
+    this.consume('PUNCTUATION', ')');
+    if (this.match('PUNCTUATION', '{')) {
+      this.parseBlock();
+      return;
+    }
+    while (!this.match('PUNCTUATION', ';') && this.pos < this.tokens.length) {
+      this.advance();
+    }
+    this.consume('PUNCTUATION', ';');
+  }
+
+  // Rewrites implicit member and method references (name, speak()) to explicit ones on self
+  private qualifyMembers(cls: IRClass): void {
+    const fields = new Set<string>();
+    const methods = new Set<string>();
+    const seen = new Set<string>();
+    const pending: (IRClass | undefined)[] = [cls];
+    while (pending.length > 0) {
+      const current = pending.pop();
+      if (!current || seen.has(current.name)) continue;
+      seen.add(current.name);
+      current.members.forEach(m => fields.add(m.name));
+      current.methods.forEach(m => methods.add(m.name));
+      if (current.superclass) pending.push(this.classes.get(current.superclass));
+      current.interfaces?.forEach(name => pending.push(this.classes.get(name)));
+    }
     
-    return { type: 'class', name, members, methods, constructor };
+    const functions = cls.constructor ? [...cls.methods, cls.constructor] : cls.methods;
+    for (const func of functions) {
+      const locals = new Set(func.params.map(p => p.name));
+      this.collectLocals(func.body, locals);
+      this.qualifyNode(func.body, fields, methods, locals);
+    }
+  }
+
+  private collectLocals(value: unknown, locals: Set<string>): void {
+    visitIR(value, node => {
+      if (node.type === 'variable') locals.add((node as IRVariable).name);
+      if (node.type === 'for_each') locals.add((node as IRForEach).iterator);
+    });
+  }
+
+  private qualifyNode(value: unknown, fields: Set<string>, methods: Set<string>, locals: Set<string>): void {
+    visitIR(value, node => {
+      if (node.type === 'identifier') {
+        const identifier = node as IRIdentifier;
+        if (fields.has(identifier.name) && !locals.has(identifier.name)) {
+          identifier.name = `self.${identifier.name}`;
+        }
+      } else if (node.type === 'call') {
+        const call = node as IRCall;
+        if (!call.isMethod && methods.has(call.callee)) {
+          call.isMethod = true;
+          call.object = 'self';
+        } else if (call.isMethod && call.object && fields.has(call.object) && !locals.has(call.object)) {
+          call.object = `self.${call.object}`;
+        }
+      }
+    });
   }
 
   private parseConstructor(className: string): IRFunction {
@@ -284,16 +653,32 @@ export class CppParser {
     const params = this.parseParams();
     this.consume('PUNCTUATION', ')');
     
-    // Skip initializer list
-    if (this.match('PUNCTUATION', ':')) {
-      while (!this.match('PUNCTUATION', '{') && this.pos < this.tokens.length) {
-        this.advance();
+    // Initializer list: Base(args) calls the superclass constructor, member(value) assigns
+    const initializers: IRNode[] = [];
+    if (this.consume('PUNCTUATION', ':')) {
+      while (this.match('IDENTIFIER') && this.pos < this.tokens.length) {
+        const target = this.advance()!.value;
+        this.consume('PUNCTUATION', '(');
+        const args: IRNode[] = [];
+        while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+          args.push(this.parseExpression());
+          if (!this.consume('PUNCTUATION', ',')) break;
+        }
+        this.consume('PUNCTUATION', ')');
+        
+        if (target === this.currentSuperclass) {
+          initializers.push({ type: 'super_call', args } as IRSuperCall);
+        } else if (args.length > 0) {
+          const left = { type: 'identifier', name: `self.${target}` } as IRIdentifier;
+          initializers.push({ type: 'binary_op', operator: '=', left, right: args[0] } as IRBinaryOp);
+        }
+        if (!this.consume('PUNCTUATION', ',')) break;
       }
     }
     
-    const body = this.parseBlock();
+    const body = [...initializers, ...this.parseBlock()];
     
-    return { type: 'function', name: '__init__', params, returnType: 'void', body };
+    return { type: 'function', name: '__init__', params, returnType: primitiveType('void'), body };
   }
 
   private parseMemberOrMethod(): IRNode | null {
@@ -303,58 +688,46 @@ export class CppParser {
       this.advance();
     }
     
-    const typeToken = this.advance();
-    if (!typeToken) return null;
-    
-    let dataType = this.mapCppType(typeToken.value);
-    
-    // Handle std::string
-    if (typeToken.value === 'std' && this.match('OPERATOR', '::')) {
-      this.advance();
-      const subType = this.advance();
-      dataType = this.mapCppType(subType?.value || '');
-    }
-    
-    // Pointer/reference
-    this.consume('PUNCTUATION', '*');
-    this.consume('PUNCTUATION', '&');
+    if (!this.peek()) return null;
+    const { type } = this.parseTypeSpec();
     
     const nameToken = this.consume('IDENTIFIER');
     if (!nameToken) return null;
     
     // Method
     if (this.match('PUNCTUATION', '(')) {
-      return this.parseMethod(nameToken.value, dataType);
+      return this.parseMethod(nameToken.value, type);
     }
     
     // Member
-    return this.parseMember(nameToken.value, dataType);
+    return this.parseMember(nameToken.value, type);
   }
 
-  private parseMethod(name: string, returnType: DataType): IRFunction {
+  private parseMethod(name: string, returnType: IRType): IRFunction {
     this.consume('PUNCTUATION', '(');
     const params = this.parseParams();
     this.consume('PUNCTUATION', ')');
     
     // Skip const qualifier
     this.consume('KEYWORD', 'const');
+    const isOverride = !!this.consume('IDENTIFIER', 'override');
     
-    const body = this.parseBlock();
-    
-    return { type: 'function', name, params, returnType, body };
-  }
-
-  private parseMember(name: string, dataType: DataType): IRVariable {
-    let value: IRNode | undefined;
-    
-    if (this.match('PUNCTUATION', '=')) {
+    // Pure virtual: virtual double area() = 0;
+    if (this.consume('PUNCTUATION', '=')) {
       this.advance();
-      value = this.parseExpression();
+      this.consume('PUNCTUATION', ';');
+      return { type: 'function', name, params, returnType, body: [], isAbstract: true };
     }
     
-    this.consume('PUNCTUATION', ';');
+    const body = this.parseBlock();
     
-    return { type: 'variable', name, dataType, value };
+    const method: IRFunction = { type: 'function', name, params, returnType, body };
+    if (isOverride) method.isOverride = true;
+    return method;
+  }
+
+  private parseMember(name: string, type: IRType): IRVariable {
+    return this.parseVariableDecl(name, type);
   }
 
   private parseFunctionOrVariable(): IRNode | null {
@@ -362,64 +735,103 @@ export class CppParser {
       this.advance();
     }
     
-    const typeToken = this.advance();
-    if (!typeToken) return null;
-    
-    let dataType = this.mapCppType(typeToken.value);
-    
-    // std::string
-    if (typeToken.value === 'std' && this.match('OPERATOR', '::')) {
-      this.advance();
-      const subType = this.advance();
-      dataType = this.mapCppType(subType?.value || '');
-    }
-    
-    this.consume('PUNCTUATION', '*');
-    this.consume('PUNCTUATION', '&');
+    if (!this.peek()) return null;
+    const { type, isPointer, isReference } = this.parseTypeSpec();
     
     const nameToken = this.consume('IDENTIFIER');
     if (!nameToken) return null;
     
     // Function
     if (this.match('PUNCTUATION', '(')) {
-      return this.parseFunctionDef(nameToken.value, dataType);
+      const func = this.parseFunctionDef(nameToken.value, type);
+      if (isPointer) func.returnsPointer = true;
+      if (type.kind === 'tuple') this.retypeTupleReturns(func.body);
+      return func;
     }
     
     // Variable
-    return this.parseVariableDecl(nameToken.value, dataType);
+    const variable = this.parseVariableDecl(nameToken.value, type);
+    if (isPointer && !isArrayType(variable.dataType)) variable.isPointer = true;
+    if (isReference) variable.isReference = true;
+    return variable;
   }
 
-  private parseFunctionDef(name: string, returnType: DataType): IRFunction {
+  private parseFunctionDef(name: string, returnType: IRType): IRFunction {
     this.consume('PUNCTUATION', '(');
     const params = this.parseParams();
     this.consume('PUNCTUATION', ')');
     
-    const body = this.parseBlock();
+    const func: IRFunction = { type: 'function', name, params, returnType, body: [] };
+    this.functions.set(name, func);
+    func.body = this.parseBlock();
     
-    return { type: 'function', name, params, returnType, body };
+    // Pointer parameters that are indexed are arrays
+    for (const param of params.filter(p => p.isPointer && this.isIndexed(p.name, func.body))) {
+      delete param.isPointer;
+      param.dataType = arrayType(param.dataType);
+    }
+    
+    return func;
+  }
+
+  // return {q, r}; in a function returning a pair or tuple
+  private retypeTupleReturns(value: unknown): void {
+    visitIR(value, node => {
+      if (node.type === 'return' && (node as IRReturn).value?.type === 'array_literal') {
+        const literal = (node as IRReturn).value as IRArrayLiteral;
+        (node as IRReturn).value = { type: 'tuple_literal', elements: literal.elements } as IRTupleLiteral;
+        return false;
+      }
+    });
+  }
+
+  private isIndexed(name: string, value: unknown): boolean {
+    return someIR(value, node => node.type === 'index' && (node as IRIndex).object.type === 'identifier' &&
+      ((node as IRIndex).object as IRIdentifier).name === name);
+  }
+
+  private trackString(variable: IRVariable): IRVariable {
+    if (variable.dataType.kind === 'primitive' && variable.dataType.name === 'string') this.strings.add(variable.name);
+    else this.strings.delete(variable.name);
+    return variable;
+  }
+
+  // String literals, string variables and fields, and the substrings taken from them
+  private isString(node: IRNode): boolean {
+    if (node.type === 'literal') return (node as IRLiteral).dataType === 'string';
+    if (node.type === 'identifier') return this.strings.has((node as IRIdentifier).name.replace(/^self\./, ''));
+    if (node.type === 'slice') return this.isString((node as IRSlice).object);
+    return false;
   }
 
   private parseParams(): IRVariable[] {
     const params: IRVariable[] = [];
     
     while (!this.match('PUNCTUATION', ')')) {
-      let typeToken = this.advance();
-      if (!typeToken) break;
-      
-      let dataType = this.mapCppType(typeToken.value);
+      const isConst = !!this.consume('KEYWORD', 'const');
+      if (!this.peek()) break;
       
-      if (typeToken.value === 'std' && this.match('OPERATOR', '::')) {
-        this.advance();
-        const subType = this.advance();
-        dataType = this.mapCppType(subType?.value || '');
-      }
-      
-      this.consume('PUNCTUATION', '*');
-      this.consume('PUNCTUATION', '&');
+      const { type, isPointer, isReference } = this.parseTypeSpec();
       
       const nameToken = this.consume('IDENTIFIER');
       if (nameToken) {
-        params.push({ type: 'variable', name: nameToken.value, dataType });
+        const param: IRVariable = { type: 'variable', name: nameToken.value, dataType: type };
+        // Containers are shared anyway; const references are just cheap copies
+        if (isReference && !isConst && !isListType(type) && !isMapType(type)) param.isReference = true;
+        if (isPointer) param.isPointer = true;
+        
+        // Array parameters like int arr[]
+        if (this.match('PUNCTUATION', '[')) {
+          this.advance();
+          this.consume('PUNCTUATION', ']');
+          param.dataType = arrayType(type);
+        }
+        if (isMapType(type)) this.maps.set(param.name, type);
+        this.trackString(param);
+        // int times = 1
+        if (this.consume('PUNCTUATION', '=')) param.defaultValue = this.parseTernary();
+        
+        params.push(param);
       }
       
       if (!this.consume('PUNCTUATION', ',')) break;
@@ -428,17 +840,87 @@ export class CppParser {
     return params;
   }
 
-  private parseVariableDecl(name: string, dataType: DataType): IRVariable {
+  // The (n) or (n, fill) after a vector type: n elements, each zero or fill
+  private parseSizedList(type: IRType): IRArrayLiteral {
+    this.consume('PUNCTUATION', '(');
+    const size = this.parseExpression();
+    const fill = this.consume('PUNCTUATION', ',') ? this.parseExpression() : undefined;
+    this.consume('PUNCTUATION', ')');
+    const literal: IRArrayLiteral = { type: 'array_literal', elements: [], elementType: flattenType(type), size, isList: true };
+    if (fill) literal.fill = fill;
+    return literal;
+  }
+
+  private parseVariableDecl(name: string, type: IRType): IRVariable {
+    if (isMapType(type)) return this.parseMapDecl(name, type);
+    
+    const isList = isListType(type);
+    let dataType = type;
+    let arraySize: IRNode | undefined;
     let value: IRNode | undefined;
     
+    // int a[10]
+    if (this.match('PUNCTUATION', '[')) {
+      this.advance();
+      dataType = arrayType(type);
+      if (!this.match('PUNCTUATION', ']')) {
+        arraySize = this.parseExpression();
+      }
+      this.consume('PUNCTUATION', ']');
+    }
+    
+    // vector<int> v(n) or vector<int> v(n, 7)
+    if (isList && this.match('PUNCTUATION', '(')) {
+      const sized = this.parseSizedList(type);
+      if (sized.fill) value = sized;
+      else arraySize = sized.size;
+    }
+    
     if (this.match('PUNCTUATION', '=')) {
       this.advance();
       value = this.parseExpression();
+    } else if (isArrayType(dataType) && this.match('PUNCTUATION', '{')) {
+      // Brace initialization like vector<int> v{1, 2, 3}
+      value = this.parsePrimary();
     }
     
+    if (value?.type === 'array_literal') {
+      (value as IRArrayLiteral).elementType = flattenType(dataType);
+      (value as IRArrayLiteral).isList = isList;
+    }
+    if (value?.type === 'allocation') {
+      (value as IRAllocation).dataType = type;
+      if ((value as IRAllocation).count) dataType = arrayType(type);
+    }
+    
+    this.consume('PUNCTUATION', ';');
+    
+    if (isArrayType(dataType)) return this.trackString({ type: 'variable', name, dataType, value, arraySize });
+    const variable: IRVariable = this.trackString({ type: 'variable', name, dataType, value });
+    // auto f = [](int x) { ... }; or auto g = twice;
+    const fn = value?.type === 'lambda' ? value as IRLambda :
+               value?.type === 'function_ref' ? this.functions.get((value as IRFunctionRef).name) : undefined;
+    if (fn) variable.dataType = functionType(fn);
+    return variable;
+  }
+
+  // map<string, int> m = {{"a", 1}, {"b", 2}};
+  private parseMapDecl(name: string, type: IRMapType): IRVariable {
+    const entries: { key: IRNode; value: IRNode }[] = [];
+    this.consume('PUNCTUATION', '=');
+    if (this.match('PUNCTUATION', '{')) {
+      const literal = this.parsePrimary() as IRArrayLiteral;
+      for (const element of literal.elements) {
+        if (element.type !== 'array_literal') continue;
+        const [key, value] = (element as IRArrayLiteral).elements;
+        if (key && value) entries.push({ key, value });
+      }
+    }
     this.consume('PUNCTUATION', ';');
+    this.maps.set(name, type);
     
-    return { type: 'variable', name, dataType, value };
+    const value: IRMapLiteral = { type: 'map_literal', entries, keyType: flattenType(type.key), valueType: flattenType(type.value) };
+    return { type: 'variable', name, dataType: type, value };
   }
 
   private parseBlock(): IRNode[] {
@@ -472,13 +954,28 @@ export class CppParser {
     if (this.match('KEYWORD', 'if')) return this.parseIf();
     if (this.match('KEYWORD', 'for')) return this.parseFor();
     if (this.match('KEYWORD', 'while')) return this.parseWhile();
+    if (this.match('KEYWORD', 'do')) return this.parseDoWhile();
     if (this.match('KEYWORD', 'switch')) return this.parseSwitch();
     if (this.match('KEYWORD', 'break')) {
       this.advance();
       this.consume('PUNCTUATION', ';');
       return { type: 'break' } as IRNode;
     }
+    if (this.match('KEYWORD', 'continue')) {
+      this.advance();
+      this.consume('PUNCTUATION', ';');
+      return { type: 'continue' } as IRContinue;
+    }
     if (this.match('KEYWORD', 'return')) return this.parseReturn();
+    if (this.match('KEYWORD', 'delete')) {
+      this.advance();
+      if (this.consume('PUNCTUATION', '[')) this.consume('PUNCTUATION', ']');
+      const target = this.parseExpression();
+      this.consume('PUNCTUATION', ';');
+      return { type: 'free', target } as IRFree;
+    }
+    if (this.match('KEYWORD', 'try')) return this.parseTry();
+    if (this.match('KEYWORD', 'throw')) return this.parseThrow();
     
     // cout
     if (this.match('KEYWORD', 'std')) {
@@ -492,11 +989,17 @@ export class CppParser {
     if (this.match('KEYWORD', 'cout')) return this.parseCout();
     if (this.match('KEYWORD', 'cin')) return this.parseCin();
     
+    if (this.isStructuredBinding()) return this.parseStructuredBinding();
+    
     // Variable declaration
     if (this.isType(this.peek())) {
       return this.parseLocalVariable();
     }
     
+    if (this.isObjectDeclaration()) {
+      return this.parseObjectDeclaration();
+    }
+    
     const expr = this.parseExpression();
     this.consume('PUNCTUATION', ';');
     return expr;
@@ -576,10 +1079,12 @@ export class CppParser {
     return { type: 'if', condition, thenBranch, elseBranch, elseIf };
   }
 
-  private parseFor(): IRFor {
+  private parseFor(): IRFor | IRForEach {
     this.consume('KEYWORD', 'for');
     this.consume('PUNCTUATION', '(');
     
+    if (this.isRangeFor()) return this.parseRangeFor();
+    
     let init: IRNode | undefined;
     if (!this.match('PUNCTUATION', ';')) {
       if (this.isType(this.peek())) {
@@ -638,16 +1143,69 @@ export class CppParser {
       if (unary.operator === '++' || unary.operator === '++_post') {
         rangeStep = { type: 'literal', value: 1, dataType: 'int' } as IRLiteral;
       }
-    } else if (update?.type === 'binary_op') {
-      const binOp = update as IRBinaryOp;
-      if (binOp.operator === '+=') {
-        rangeStep = binOp.right;
+    } else if (update?.type === 'compound_assignment') {
+      const compound = update as IRCompoundAssignment;
+      if (compound.operator === '+') {
+        rangeStep = compound.value;
       }
     }
     
     return { type: 'for', init, condition, update, iterator, rangeStart, rangeEnd, rangeStep, body };
   }
 
+  // A ':' before the closing ')' means for (decl : container)
+  private isRangeFor(): boolean {
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.value === '(') depth++;
+      if (token.value === ')' && depth-- === 0) return false;
+      if (token.value === ';') return false;
+      if (token.type === 'PUNCTUATION' && token.value === ':' && depth === 0) return true;
+    }
+    return false;
+  }
+
+  // for (int x : v) or for (char c : s) walks a vector or string; for (auto& [k, v] : m) or
+  // for (auto& entry : m) walks a map
+  private parseRangeFor(): IRFor | IRForEach {
+    // Skip the declared type, keeping its name when it is a single one like int or string
+    const typeNames: string[] = [];
+    while (!this.match('PUNCTUATION', '[') && !this.match('PUNCTUATION', ':') &&
+           !(this.match('IDENTIFIER') && this.peek(1)?.value === ':') && this.pos < this.tokens.length) {
+      const token = this.advance()!;
+      if (!['const', 'std', '::', '&', '&&'].includes(token.value)) typeNames.push(token.value);
+    }
+    const iteratorType = typeNames.length === 1 ? this.mapCppType(typeNames[0]) : primitiveType('auto');
+    
+    let iterator = 'item';
+    let valueIterator: string | undefined;
+    let alias: string | undefined;
+    if (this.consume('PUNCTUATION', '[')) {
+      iterator = this.consume('IDENTIFIER')?.value || iterator;
+      if (this.consume('PUNCTUATION', ',')) valueIterator = this.consume('IDENTIFIER')?.value;
+      this.consume('PUNCTUATION', ']');
+    } else {
+      alias = this.consume('IDENTIFIER')?.value || iterator;
+      iterator = alias;
+    }
+    this.consume('PUNCTUATION', ':');
+    const iterable = this.parseExpression();
+    this.consume('PUNCTUATION', ')');
+    
+    const isMap = iterable.type === 'identifier' && this.maps.has((iterable as IRIdentifier).name);
+    if (alias && isMap) {
+      iterator = `${alias}_key`;
+      valueIterator = `${alias}_value`;
+      this.pairAliases.add(alias);
+    }
+    const body = this.parseBlock();
+    if (alias) this.pairAliases.delete(alias);
+    
+    if (!isMap && !valueIterator) return { type: 'for', iterator, iteratorType, iterable, body };
+    return { type: 'for_each', iterator, valueIterator, iterable, body };
+  }
+
   private parseWhile(): IRWhile {
     this.consume('KEYWORD', 'while');
     this.consume('PUNCTUATION', '(');
@@ -659,6 +1217,94 @@ export class CppParser {
     return { type: 'while', condition, body };
   }
 
+  private parseDoWhile(): IRDoWhile {
+    this.consume('KEYWORD', 'do');
+    const body = this.parseBlock();
+    
+    this.consume('KEYWORD', 'while');
+    this.consume('PUNCTUATION', '(');
+    const condition = this.parseExpression();
+    this.consume('PUNCTUATION', ')');
+    this.consume('PUNCTUATION', ';');
+    
+    return { type: 'do_while', condition, body };
+  }
+
+  private parseTry(): IRTry {
+    this.consume('KEYWORD', 'try');
+    const body = this.parseBlock();
+    const handlers: IRCatchClause[] = [];
+    
+    // catch (const std::invalid_argument& e) or catch (...)
+    while (this.match('KEYWORD', 'catch')) {
+      this.advance();
+      this.consume('PUNCTUATION', '(');
+      
+      const exceptionTypes: string[] = [];
+      let name: string | undefined;
+      if (this.match('PUNCTUATION', '.')) {
+        while (this.match('PUNCTUATION', '.')) this.advance();
+      } else {
+        if (this.match('KEYWORD', 'const')) this.advance();
+        exceptionTypes.push(this.mapExceptionType(this.parseExceptionTypeName()));
+        if (this.match('PUNCTUATION', '&')) this.advance();
+        name = this.consume('IDENTIFIER')?.value;
+      }
+      this.consume('PUNCTUATION', ')');
+      
+      if (name) this.exceptionNames.add(name);
+      handlers.push({ exceptionTypes, name, body: this.parseBlock() });
+    }
+    
+    return { type: 'try', body, handlers };
+  }
+
+  private parseThrow(): IRThrow {
+    this.consume('KEYWORD', 'throw');
+    
+    // throw; rethrows the exception being handled
+    if (this.match('PUNCTUATION', ';')) {
+      this.advance();
+      return { type: 'throw' };
+    }
+    
+    // throw std::runtime_error("message");
+    if (this.peek(1)?.value === '(' || this.peek(1)?.value === '::') {
+      const typeName = this.parseExceptionTypeName();
+      this.consume('PUNCTUATION', '(');
+      const message = this.match('PUNCTUATION', ')') ? undefined : this.parseExpression();
+      this.consume('PUNCTUATION', ')');
+      this.consume('PUNCTUATION', ';');
+      return { type: 'throw', exceptionType: this.mapExceptionType(typeName), message };
+    }
+    
+    // throw e;
+    this.parseExpression();
+    this.consume('PUNCTUATION', ';');
+    return { type: 'throw' };
+  }
+
+  private parseExceptionTypeName(): string {
+    if (this.match('KEYWORD', 'std') && this.peek(1)?.value === '::') {
+      this.advance();
+      this.advance();
+    }
+    return this.advance()?.value || 'exception';
+  }
+
+  private mapExceptionType(cppType: string): string {
+    const typeMap: Record<string, string> = {
+      'exception': 'Exception',
+      'runtime_error': 'RuntimeError',
+      'logic_error': 'Exception',
+      'invalid_argument': 'ValueError',
+      'domain_error': 'ZeroDivisionError',
+      'out_of_range': 'IndexError',
+      'bad_cast': 'TypeError',
+    };
+    return typeMap[cppType] || 'Exception';
+  }
+
   private parseReturn(): IRReturn {
     this.consume('KEYWORD', 'return');
     
@@ -700,12 +1346,14 @@ export class CppParser {
         }
       }
       
-      args.push(this.parseExpression());
+      // Each << starts a new argument, so stop below shift precedence
+      args.push(this.parseAddSub());
     }
     
     this.consume('PUNCTUATION', ';');
     
-    return { type: 'print', args, newline };
+    const separator: IRLiteral = { type: 'literal', value: '', dataType: 'string' };
+    return { type: 'print', args, newline, separator };
   }
 
   private parseCin(): IRInput {
@@ -727,41 +1375,106 @@ export class CppParser {
     return { type: 'input', targetVar };
   }
 
-  private parseLocalVariable(): IRVariable {
-    while (this.match('KEYWORD', 'const') || this.match('KEYWORD', 'static')) {
-      this.advance();
+  // Class-typed declarations: Animal a(...), Animal a = ..., Animal* a = new Animal(...)
+  private isObjectDeclaration(): boolean {
+    if (!this.match('IDENTIFIER')) return false;
+    let offset = 1;
+    // Skip a class template's arguments
+    if (this.templates.has(this.peek()!.value) && this.peek(1)?.value === '<') {
+      let depth = 0;
+      do {
+        const value = this.peek(offset++)?.value;
+        if (value === '<') depth++;
+        else if (value === '>') depth--;
+        else if (value === '>>') depth -= 2;
+        else if (value === undefined) return false;
+      } while (depth > 0);
     }
+    if (this.peek(offset)?.value === '*' || this.peek(offset)?.value === '&') offset++;
+    return this.peek(offset)?.type === 'IDENTIFIER' &&
+           ['=', ';', '('].includes(this.peek(offset + 1)?.value || '');
+  }
+
+  private parseObjectDeclaration(): IRVariable {
+    const className = this.advance()!.value;
+    const typeArgs = this.match('PUNCTUATION', '<') ? this.parseTemplateArgs() : undefined;
+    const isPointer = !!this.consume('PUNCTUATION', '*');
+    const isReference = !!this.consume('PUNCTUATION', '&');
+    const name = this.consume('IDENTIFIER')?.value || 'unknown';
     
-    const typeToken = this.advance();
-    if (!typeToken) {
-      return { type: 'variable', name: 'unknown', dataType: 'int' };
+    let value: IRNode | undefined;
+    if (this.consume('PUNCTUATION', '=')) {
+      value = this.parseExpression();
+    } else if (this.consume('PUNCTUATION', '(')) {
+      // Animal a("generic") constructs in place
+      const args: IRNode[] = [];
+      while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+        args.push(this.parseExpression());
+        if (!this.consume('PUNCTUATION', ',')) break;
+      }
+      this.consume('PUNCTUATION', ')');
+      value = { type: 'call', callee: className, args } as IRCall;
+    } else if (!isPointer && !isReference) {
+      // Printer p; runs the default constructor, where a bare T* p; points nowhere
+      value = { type: 'call', callee: className, args: [] } as IRCall;
     }
+    this.consume('PUNCTUATION', ';');
     
-    let dataType = this.mapCppType(typeToken.value);
-    
-    if (typeToken.value === 'std' && this.match('OPERATOR', '::')) {
+    const dataType: IRType = typeArgs ? { kind: 'class', name: className, args: typeArgs } : { kind: 'class', name: className };
+    const variable: IRVariable = { type: 'variable', name, dataType, value };
+    if (isPointer) variable.isPointer = true;
+    if (isReference) variable.isReference = true;
+    return variable;
+  }
+
+  // auto [q, r] = ..., also const auto& [q, r]
+  private isStructuredBinding(): boolean {
+    let offset = this.match('KEYWORD', 'const') ? 1 : 0;
+    if (this.peek(offset)?.value !== 'auto') return false;
+    offset++;
+    if (this.peek(offset)?.value === '&') offset++;
+    return this.peek(offset)?.value === '[';
+  }
+
+  private parseStructuredBinding(): IRDestructure {
+    while (!this.match('PUNCTUATION', '[') && this.pos < this.tokens.length) this.advance();
+    this.consume('PUNCTUATION', '[');
+    const targets: string[] = [];
+    while (this.match('IDENTIFIER')) {
+      targets.push(this.advance()!.value);
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.consume('PUNCTUATION', ']');
+    this.consume('PUNCTUATION', '=');
+    const value = this.parseExpression();
+    this.consume('PUNCTUATION', ';');
+    return { type: 'destructure', targets, value, isDeclaration: true };
+  }
+
+  private parseLocalVariable(): IRVariable {
+    while (this.match('KEYWORD', 'const') || this.match('KEYWORD', 'static')) {
       this.advance();
-      const subType = this.advance();
-      dataType = this.mapCppType(subType?.value || '');
     }
     
-    this.consume('PUNCTUATION', '*');
-    this.consume('PUNCTUATION', '&');
+    if (!this.peek()) {
+      return { type: 'variable', name: 'unknown', dataType: primitiveType('int') };
+    }
+    
+    const { type, isPointer, isReference } = this.parseTypeSpec();
     
     const nameToken = this.consume('IDENTIFIER');
     if (!nameToken) {
-      return { type: 'variable', name: 'unknown', dataType };
+      return { type: 'variable', name: 'unknown', dataType: type };
     }
     
-    let value: IRNode | undefined;
-    if (this.match('PUNCTUATION', '=')) {
-      this.advance();
-      value = this.parseExpression();
+    const variable = this.parseVariableDecl(nameToken.value, type);
+    if (isPointer && !isArrayType(variable.dataType)) variable.isPointer = true;
+    if (isReference) variable.isReference = true;
+    // pair<int, int> p = {1, 2};
+    if (type.kind === 'tuple' && variable.value?.type === 'array_literal') {
+      variable.value = { type: 'tuple_literal', elements: (variable.value as IRArrayLiteral).elements } as IRTupleLiteral;
     }
-    
-    this.consume('PUNCTUATION', ';');
-    
-    return { type: 'variable', name: nameToken.value, dataType, value };
+    return variable;
   }
 
   private parseExpression(): IRNode {
@@ -769,19 +1482,64 @@ export class CppParser {
   }
 
   private parseAssignment(): IRNode {
-    const left = this.parseLogicalOr();
+    const left = this.parseTernary();
     
-    if (this.match('PUNCTUATION', '=') || this.match('OPERATOR', '+=') ||
-        this.match('OPERATOR', '-=') || this.match('OPERATOR', '*=') ||
-        this.match('OPERATOR', '/=')) {
-      const op = this.advance()!.value;
+    if (this.match('PUNCTUATION', '=')) {
+      this.advance();
       const right = this.parseAssignment();
-      return { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
+      
+      // tie(a, b) = f(); assigns each element
+      if (left.type === 'call' && (left as IRCall).callee === 'tie') {
+        const targets = (left as IRCall).args.map(arg => (arg as IRIdentifier).name);
+        return { type: 'destructure', targets, value: right } as IRDestructure;
+      }
+      
+      // Element assignment like v[i] = value
+      if (left.type === 'index') {
+        const target = left as IRIndex;
+        return { type: 'index_assignment', object: target.object, index: target.index, value: right } as IRIndexAssignment;
+      }
+      
+      return { type: 'binary_op', operator: '=', left, right } as IRBinaryOp;
+    }
+    
+    const compoundOps = ['+=', '-=', '*=', '/=', '%=', '<<=', '>>=', '&=', '|=', '^='];
+    if (compoundOps.some(op => this.match('OPERATOR', op))) {
+      const op = this.advance()!.value;
+      const value = this.parseAssignment();
+      return this.mapUpdate(left, op.slice(0, -1), value) ||
+        { type: 'compound_assignment', target: left, operator: op.slice(0, -1), value } as IRCompoundAssignment;
     }
     
     return left;
   }
 
+  // counts[w]++ or counts[w] += n: operator[] inserts a zero for a missing key first, which the
+  // other targets spell as a lookup with a default and a store
+  private mapUpdate(target: IRNode, operator: string, value: IRNode): IRIndexAssignment | undefined {
+    if (target.type !== 'index') return undefined;
+    const { object, index } = target as IRIndex;
+    const type = object.type === 'identifier' ? this.maps.get((object as IRIdentifier).name) : undefined;
+    if (!type) return undefined;
+    const valueType = flattenType(type.value);
+    const zero: IRLiteral = isFloatType(valueType)
+      ? { type: 'literal', value: 0.0, dataType: valueType }
+      : { type: 'literal', value: 0, dataType: 'int' };
+    const current: IRIndex = { type: 'index', object, index, defaultValue: zero };
+    return { type: 'index_assignment', object, index, value: { type: 'binary_op', operator, left: current, right: value } as IRBinaryOp };
+  }
+
+  // Right-associative, so a ? b : c ? d : e nests in the else branch
+  private parseTernary(): IRNode {
+    const condition = this.parseLogicalOr();
+    if (!this.match('PUNCTUATION', '?')) return condition;
+    this.advance();
+    const thenValue = this.parseExpression();
+    this.consume('PUNCTUATION', ':');
+    const elseValue = this.parseTernary();
+    return { type: 'conditional', condition, thenValue, elseValue } as IRConditional;
+  }
+
   private parseLogicalOr(): IRNode {
     let left = this.parseLogicalAnd();
     while (this.match('OPERATOR', '||')) {
@@ -792,20 +1550,76 @@ export class CppParser {
   }
 
   private parseLogicalAnd(): IRNode {
-    let left = this.parseComparison();
+    let left = this.parseBitOr();
     while (this.match('OPERATOR', '&&')) {
       this.advance();
-      left = { type: 'binary_op', operator: '&&', left, right: this.parseComparison() } as IRBinaryOp;
+      left = { type: 'binary_op', operator: '&&', left, right: this.parseBitOr() } as IRBinaryOp;
     }
     return left;
   }
 
+  private parseBitOr(): IRNode {
+    let left = this.parseBitXor();
+    while (this.match('PUNCTUATION', '|')) {
+      this.advance();
+      left = { type: 'binary_op', operator: '|', left, right: this.parseBitXor() } as IRBinaryOp;
+    }
+    return left;
+  }
+
+  private parseBitXor(): IRNode {
+    let left = this.parseBitAnd();
+    while (this.match('PUNCTUATION', '^')) {
+      this.advance();
+      left = { type: 'binary_op', operator: '^', left, right: this.parseBitAnd() } as IRBinaryOp;
+    }
+    return left;
+  }
+
+  private parseBitAnd(): IRNode {
+    let left = this.parseEquality();
+    while (this.match('PUNCTUATION', '&')) {
+      this.advance();
+      left = { type: 'binary_op', operator: '&', left, right: this.parseEquality() } as IRBinaryOp;
+    }
+    return left;
+  }
+
+  private parseEquality(): IRNode {
+    let left = this.parseComparison();
+    while (this.match('OPERATOR', '==') || this.match('OPERATOR', '!=')) {
+      const op = this.advance()!.value;
+      const right = this.parseComparison();
+      left = this.mapLookup(left, op, right) || { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
+    }
+    return left;
+  }
+
+  // m.find(k) != m.end() tests whether m has k
+  private mapLookup(left: IRNode, op: string, right: IRNode): IRNode | undefined {
+    const method = (node: IRNode, name: string) => node.type === 'call' && (node as IRCall).isMethod &&
+      (node as IRCall).callee === name && this.maps.has((node as IRCall).object || '') ? node as IRCall : undefined;
+    const find = method(left, 'find');
+    const end = method(right, 'end');
+    if (!find || !end || find.object !== end.object || find.args.length !== 1) return undefined;
+    const contains = { type: 'contains', object: { type: 'identifier', name: find.object }, key: find.args[0] } as IRContains;
+    return op === '!=' ? contains : { type: 'unary_op', operator: '!', operand: contains } as IRNode & { operator: string; operand: IRNode };
+  }
+
   private parseComparison(): IRNode {
-    let left = this.parseAddSub();
-    while (this.match('OPERATOR', '==') || this.match('OPERATOR', '!=') ||
-           this.match('PUNCTUATION', '<') || this.match('PUNCTUATION', '>') ||
+    let left = this.parseShift();
+    while (this.match('PUNCTUATION', '<') || this.match('PUNCTUATION', '>') ||
            this.match('OPERATOR', '<=') || this.match('OPERATOR', '>=')) {
       const op = this.advance()!.value;
+      left = { type: 'binary_op', operator: op, left, right: this.parseShift() } as IRBinaryOp;
+    }
+    return left;
+  }
+
+  private parseShift(): IRNode {
+    let left = this.parseAddSub();
+    while (this.match('OPERATOR', '<<') || this.match('OPERATOR', '>>')) {
+      const op = this.advance()!.value;
       left = { type: 'binary_op', operator: op, left, right: this.parseAddSub() } as IRBinaryOp;
     }
     return left;
@@ -831,24 +1645,135 @@ export class CppParser {
   }
 
   private parseUnary(): IRNode {
-    if (this.match('PUNCTUATION', '!') || this.match('PUNCTUATION', '-') ||
+    if (this.match('PUNCTUATION', '&')) {
+      this.advance();
+      const operand = this.parseUnary();
+      // &twice is the same function pointer as twice
+      if (operand.type === 'function_ref') return operand;
+      return { type: 'address_of', operand } as IRAddressOf;
+    }
+    if (this.match('PUNCTUATION', '*')) {
+      this.advance();
+      return { type: 'dereference', operand: this.parseUnary() } as IRDereference;
+    }
+    if (this.match('PUNCTUATION', '!') || this.match('PUNCTUATION', '-') || this.match('PUNCTUATION', '~') ||
         this.match('OPERATOR', '++') || this.match('OPERATOR', '--')) {
       const op = this.advance()!.value;
-      return { type: 'unary_op', operator: op, operand: this.parseUnary() } as IRNode & { operator: string; operand: IRNode };
+      const operand = this.parseUnary();
+      return (op === '++' || op === '--' ? this.mapUpdate(operand, op[0], ONE) : undefined) ||
+        { type: 'unary_op', operator: op, operand } as IRNode & { operator: string; operand: IRNode };
     }
     return this.parsePostfix();
   }
 
   private parsePostfix(): IRNode {
     let expr = this.parsePrimary();
-    while (this.match('OPERATOR', '++') || this.match('OPERATOR', '--')) {
-      const op = this.advance()!.value;
-      expr = { type: 'unary_op', operator: op + '_post', operand: expr } as IRNode & { operator: string; operand: IRNode };
+    
+    while (true) {
+      if (this.match('OPERATOR', '++') || this.match('OPERATOR', '--')) {
+        const op = this.advance()!.value;
+        expr = this.mapUpdate(expr, op[0], ONE) ||
+          { type: 'unary_op', operator: op + '_post', operand: expr } as IRNode & { operator: string; operand: IRNode };
+      } else if (this.match('PUNCTUATION', '[')) {
+        this.advance();
+        const index = this.parseExpression();
+        this.consume('PUNCTUATION', ']');
+        expr = { type: 'index', object: expr, index } as IRIndex;
+      } else if ((this.match('PUNCTUATION', '.') || this.match('OPERATOR', '->')) && this.peek(2)?.value === '(') {
+        this.advance();
+        const member = this.advance()?.value || '';
+        this.consume('PUNCTUATION', '(');
+        const args: IRNode[] = [];
+        while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+          args.push(this.parseExpression());
+          if (!this.consume('PUNCTUATION', ',')) break;
+        }
+        this.consume('PUNCTUATION', ')');
+        
+        // e.what() on a catch parameter
+        if (member === 'what' && expr.type === 'identifier' && this.exceptionNames.has((expr as IRIdentifier).name)) {
+          continue;
+        }
+        
+        // size() and length() on vectors and strings
+        if ((member === 'size' || member === 'length') && args.length === 0) {
+          expr = { type: 'length', object: expr } as IRLength;
+          continue;
+        }
+        
+        // count(), contains(), erase() and at() on maps
+        if (expr.type === 'identifier' && this.maps.has((expr as IRIdentifier).name) && args.length === 1) {
+          if (member === 'count' || member === 'contains') {
+            expr = { type: 'contains', object: expr, key: args[0] } as IRContains;
+            continue;
+          }
+          if (member === 'erase') {
+            expr = { type: 'remove', object: expr, key: args[0] } as IRRemove;
+            continue;
+          }
+          if (member === 'at') {
+            expr = { type: 'index', object: expr, index: args[0] } as IRIndex;
+            continue;
+          }
+        }
+        
+        // find(), substr() and at() on strings, unless a class of ours defines a method of that name
+        if (![...this.classes.values()].some(cls => cls.methods.some(m => m.name === member))) {
+          if (member === 'find' && args.length === 1 && this.isString(expr)) {
+            expr = { type: 'string_method', method: 'find', object: expr, args } as IRStringMethod;
+            continue;
+          }
+          if (member === 'substr' && (args.length === 1 || args.length === 2)) {
+            // substr(start, count) ends at start + count
+            const fromStart = args[0].type === 'literal' && (args[0] as IRLiteral).value === 0;
+            const end = args[1] && (fromStart ? args[1] :
+              { type: 'binary_op', operator: '+', left: args[0], right: args[1] } as IRBinaryOp);
+            expr = { type: 'slice', object: expr, start: args[0], end } as IRSlice;
+            continue;
+          }
+          if (member === 'at' && args.length === 1) {
+            expr = { type: 'index', object: expr, index: args[0] } as IRIndex;
+            continue;
+          }
+        }
+        
+        // arr[1].area() and m["a"].push_back(4) are called on the element itself
+        expr = {
+          type: 'call',
+          callee: member === 'push_back' ? 'append' : member,
+          args,
+          isMethod: true,
+          ...(expr.type === 'identifier' ? { object: (expr as IRIdentifier).name } : { receiver: expr }),
+        } as IRCall;
+      } else if (this.match('PUNCTUATION', '.') && expr.type === 'identifier' &&
+                 this.pairAliases.has((expr as IRIdentifier).name)) {
+        // entry.first / entry.second inside a range-for over a map
+        this.advance();
+        const field = this.advance()?.value;
+        const alias = (expr as IRIdentifier).name;
+        expr = { type: 'identifier', name: field === 'first' ? `${alias}_key` : `${alias}_value` } as IRIdentifier;
+      } else if ((this.match('PUNCTUATION', '.') || this.match('OPERATOR', '->')) && expr.type === 'identifier' &&
+                 this.peek(1)?.type === 'IDENTIFIER') {
+        // Member access: this->name becomes self.name like Python's attributes
+        this.advance();
+        const field = this.advance()!.value;
+        const objName = (expr as IRIdentifier).name;
+        expr = { type: 'identifier', name: `${objName === 'this' ? 'self' : objName}.${field}` } as IRIdentifier;
+      } else if ((this.match('PUNCTUATION', '.') || this.match('OPERATOR', '->')) && this.peek(1)?.type === 'IDENTIFIER') {
+        // Members of elements and returned values: pts[0].x
+        const isPointer = this.advance()!.value === '->';
+        expr = { type: 'field_access', object: expr, field: this.advance()!.value, isPointer } as IRFieldAccess;
+      } else {
+        break;
+      }
     }
+    
     return expr;
   }
 
   private parsePrimary(): IRNode {
+    if (this.match('PUNCTUATION', '[')) return this.parseLambda();
+    
     if (this.match('PUNCTUATION', '(')) {
       this.advance();
       const expr = this.parseExpression();
@@ -856,6 +1781,18 @@ export class CppParser {
       return expr;
     }
     
+    // Initializer list like {1, 2, 3}
+    if (this.match('PUNCTUATION', '{')) {
+      this.advance();
+      const elements: IRNode[] = [];
+      while (!this.match('PUNCTUATION', '}') && this.pos < this.tokens.length) {
+        elements.push(this.parseExpression());
+        if (!this.consume('PUNCTUATION', ',')) break;
+      }
+      this.consume('PUNCTUATION', '}');
+      return { type: 'array_literal', elements, elementType: 'auto' } as IRArrayLiteral;
+    }
+    
     if (this.match('STRING')) {
       const token = this.advance()!;
       return { type: 'literal', value: token.value.slice(1, -1), dataType: 'string' } as IRLiteral;
@@ -868,7 +1805,10 @@ export class CppParser {
     
     if (this.match('NUMBER')) {
       const token = this.advance()!;
-      const value = token.value.replace(/[fFlL]/g, '');
+      if (/^0[xX]/.test(token.value)) {
+        return { type: 'literal', value: parseInt(token.value.replace(/[uUlL]+$/, ''), 16), dataType: 'int' } as IRLiteral;
+      }
+      const value = token.value.replace(/[fFuUlL]+$/, '');
       const isFloat = value.includes('.');
       return { type: 'literal', value: isFloat ? parseFloat(value) : parseInt(value), dataType: isFloat ? 'float' : 'int' } as IRLiteral;
     }
@@ -886,9 +1826,71 @@ export class CppParser {
       return { type: 'literal', value: 'null', dataType: 'void' } as IRLiteral;
     }
     
+    // new int[n] and new int(5) allocate; new Animal(args) is just the constructor call
+    if (this.match('KEYWORD', 'new')) {
+      this.advance();
+      if (this.isType(this.peek())) return this.parseAllocation();
+      return this.parsePrimary();
+    }
+    
+    // Base::method(args) inside a subclass
+    if (this.currentSuperclass && this.match('IDENTIFIER', this.currentSuperclass) &&
+        this.peek(1)?.value === '::' && this.peek(3)?.value === '(') {
+      this.advance();
+      this.advance();
+      const method = this.advance()!.value;
+      this.consume('PUNCTUATION', '(');
+      const args: IRNode[] = [];
+      while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+        args.push(this.parseExpression());
+        if (!this.consume('PUNCTUATION', ',')) break;
+      }
+      this.consume('PUNCTUATION', ')');
+      return { type: 'super_call', method, args } as IRSuperCall;
+    }
+    
+    // Color::RED
+    if (this.match('IDENTIFIER') && this.enums.has(this.peek()!.value) && this.peek(1)?.value === '::') {
+      const enumName = this.advance()!.value;
+      this.advance();
+      return { type: 'enum_value', enumName, member: this.advance()?.value || '' } as IREnumValue;
+    }
+    
+    // std::make_pair(a, b), std::swap(a, b)
+    if (this.match('KEYWORD', 'std') && this.peek(1)?.value === '::') {
+      this.advance();
+      this.advance();
+    }
+    
+    // string::npos is what a failed find() returns, -1 like the other languages' searches
+    if (this.match('KEYWORD', 'string') && this.peek(1)?.value === '::' && this.peek(2)?.value === 'npos') {
+      this.pos += 3;
+      return { type: 'literal', value: -1, dataType: 'int' } as IRLiteral;
+    }
+    
+    // vector<int>(n, fill) builds a list in place
+    if (this.peek()?.value === 'vector' && this.peek(1)?.value === '<') {
+      const type = this.parseTypeSpec().type;
+      if (this.match('PUNCTUATION', '(')) return this.parseSizedList(type);
+      const literal = this.parsePrimary();
+      if (literal.type === 'array_literal') {
+        (literal as IRArrayLiteral).elementType = flattenType(type);
+        (literal as IRArrayLiteral).isList = true;
+      }
+      return literal;
+    }
+    
     if (this.match('IDENTIFIER') || this.match('KEYWORD')) {
       const token = this.advance()!;
       
+      const enumName = token.type === 'IDENTIFIER' ? this.enumMembers.get(token.value) : undefined;
+      if (enumName && !this.match('PUNCTUATION', '(')) {
+        return { type: 'enum_value', enumName, member: token.value } as IREnumValue;
+      }
+      
+      // maximum<int>(a, b) or new Box<int>(5): the types are inferred from the arguments again
+      if (this.templates.has(token.value) && this.match('PUNCTUATION', '<')) this.parseTemplateArgs();
+      
       if (this.match('PUNCTUATION', '(')) {
         this.advance();
         const args: IRNode[] = [];
@@ -897,9 +1899,31 @@ export class CppParser {
           if (!this.consume('PUNCTUATION', ',')) break;
         }
         this.consume('PUNCTUATION', ')');
+        if (token.value === 'make_pair' || token.value === 'make_tuple') {
+          return { type: 'tuple_literal', elements: args } as IRTupleLiteral;
+        }
+        // swap(a, b) is a, b = b, a
+        if (token.value === 'swap' && args.length === 2 && args.every(arg => arg.type === 'identifier')) {
+          const targets = args.map(arg => (arg as IRIdentifier).name);
+          return { type: 'destructure', targets, value: { type: 'tuple_literal', elements: [args[1], args[0]] } } as IRDestructure;
+        }
+        // toupper(c), isdigit(c), ... from <cctype>
+        const characterMethod = stringMethodNamed(CHARACTER_FUNCTIONS, token.value);
+        if (characterMethod && args.length === 1 && !this.functions.has(token.value)) {
+          return { type: 'string_method', method: characterMethod, object: args[0], args: [] } as IRStringMethod;
+        }
+        // sqrt(x), fabs(x), max(a, b), ... from <cmath> and <algorithm>
+        const mathFunction = mathFunctionNamed(CPP_MATH_FUNCTIONS, token.value, args.length);
+        if (mathFunction && !this.functions.has(token.value)) {
+          return { type: 'math_call', func: mathFunction, args } as IRMathCall;
+        }
         return { type: 'call', callee: token.value, args } as IRCall;
       }
       
+      if (this.functions.has(token.value)) return { type: 'function_ref', name: token.value } as IRFunctionRef;
+      // M_PI and M_E from <cmath>
+      const mathConstant = mathConstantNamed(C_MATH_CONSTANTS, token.value);
+      if (mathConstant) return { type: 'math_constant', name: mathConstant, dataType: 'double' } as IRMathConstant;
       return { type: 'identifier', name: token.value } as IRIdentifier;
     }
     
@@ -908,17 +1932,81 @@ export class CppParser {
     return { type: 'literal', value: '', dataType: 'string' } as IRLiteral;
   }
 
-  private mapCppType(type: string): DataType {
-    const typeMap: Record<string, DataType> = {
+  // [](int x) { return x * 2; }, [&] { total++; } or [=](int x) -> int { ... }
+  private parseLambda(): IRLambda {
+    this.consume('PUNCTUATION', '[');
+    let capturesByReference = false;
+    while (!this.match('PUNCTUATION', ']') && this.pos < this.tokens.length) {
+      if (this.advance()!.value === '&') capturesByReference = true;
+    }
+    this.consume('PUNCTUATION', ']');
+    let params: IRVariable[] = [];
+    if (this.consume('PUNCTUATION', '(')) {
+      params = this.parseParams();
+      this.consume('PUNCTUATION', ')');
+    }
+    if (this.peek()?.value === 'mutable') this.advance();
+    const lambda: IRLambda = { type: 'lambda', params, returnType: primitiveType('auto'), body: [] };
+    if (this.consume('OPERATOR', '->')) lambda.returnType = this.parseTypeSpec().type;
+    lambda.body = this.parseBlock();
+    // Without a trailing return type, a body that never returns a value makes it void
+    if (isAutoType(lambda.returnType) && !this.returnsValue(lambda.body)) lambda.returnType = primitiveType('void');
+    if (capturesByReference) lambda.capturesByReference = true;
+    return lambda;
+  }
+
+  private returnsValue(value: unknown): boolean {
+    let returns = false;
+    visitIR(value, node => {
+      if (returns || node.type === 'lambda') return false;
+      if (node.type === 'return' && (node as IRReturn).value) returns = true;
+    });
+    return returns;
+  }
+
+  private parseAllocation(): IRAllocation {
+    const allocation: IRAllocation = { type: 'allocation', dataType: this.parseTypeSpec().type };
+    if (this.consume('PUNCTUATION', '[')) {
+      allocation.count = this.parseExpression();
+      this.consume('PUNCTUATION', ']');
+    }
+    // new int(5), new int[n]() or new int[n]{}
+    const close = this.consume('PUNCTUATION', '(') ? ')' : this.consume('PUNCTUATION', '{') ? '}' : undefined;
+    if (close) {
+      if (!this.match('PUNCTUATION', close) && !allocation.count) allocation.value = this.parseExpression();
+      while (!this.match('PUNCTUATION', close) && this.pos < this.tokens.length) this.advance();
+      this.consume('PUNCTUATION', close);
+    }
+    return allocation;
+  }
+
+  private mapCppType(type: string): IRType {
+    // int is implied by the size and sign keywords
+    const name = type.split(' ').filter(word => word !== 'int').join(' ') || 'int';
+    const typeMap: Record<string, PrimitiveType> = {
       'int': 'int',
+      'signed': 'int',
+      'long': 'long',
+      'long long': 'long',
+      'unsigned long': 'long',
+      'unsigned long long': 'long',
+      'size_t': 'long',
+      'short': 'short',
+      'unsigned short': 'int',
+      'unsigned': 'unsigned',
+      'signed char': 'byte',
+      'unsigned char': 'unsigned',
       'float': 'float',
       'double': 'double',
+      'long double': 'double',
       'char': 'char',
       'void': 'void',
       'bool': 'bool',
       'auto': 'auto',
       'string': 'string',
     };
-    return typeMap[type] || 'auto';
+    if (typeMap[name]) return primitiveType(typeMap[name]);
+    if (this.typeParams.has(type)) return { kind: 'type_param', name: type };
+    return this.classes.has(type) ? { kind: 'class', name: type } : primitiveType('auto');
   }
 }
@@ -7,16 +7,64 @@ import {
   IRIf,
   IRFor,
   IRWhile,
+  IRDoWhile,
+  IRBreak,
+  IRContinue,
+  IRTry,
+  IRThrow,
+  IRCatchClause,
+  IRSuperCall,
+  IREnum,
+  IREnumValue,
+  IREnumMethod,
+  IRUnaryOp,
   IRReturn,
   IRPrint,
+  IRLambda,
+  IRFunctionRef,
   IRInput,
   IRCall,
   IRBinaryOp,
   IRLiteral,
   IRIdentifier,
   IRComment,
-  DataType,
+  IRArrayLiteral,
+  IRIndex,
+  IRFieldAccess,
+  IRIndexAssignment,
+  IRLength,
+  IRSlice,
+  IRStringMethod,
+  IRMathCall,
+  IRMathConstant,
+  IRMapLiteral,
+  IRContains,
+  IRRemove,
+  IRForEach,
+  IRConditional,
+  IRCompoundAssignment,
+  PrimitiveType,
+  IRType,
+  IRTypeParam,
+  primitiveType,
+  flattenType,
+  isAutoType,
+  arrayType,
+  isArrayType,
+  isListType,
+  isMapType,
+  keyTypeOf,
+  JAVA_STRING_METHODS,
+  JAVA_CHARACTER_METHODS,
+  stringMethodNamed,
+  JAVA_MATH_FUNCTIONS,
+  mathFunctionNamed,
+  JAVA_MATH_CONSTANTS,
+  mathConstantNamed,
+  findMethod,
+  visitIR,
 } from '../ir';
+import { resolveOverloads } from '../transforms/overloads';
 
 interface Token {
   type: string;
@@ -24,13 +72,54 @@ interface Token {
 }
 
 export class JavaParser {
+  private static readonly MAP_TYPES = ['HashMap', 'Map', 'TreeMap', 'LinkedHashMap'];
+  // java.util.function interfaces by the positions of their parameter and return type arguments
+  private static readonly FUNCTION_TYPES: Record<string, { params: number[]; returns?: number | PrimitiveType }> = {
+    'Function': { params: [0], returns: 1 },
+    'BiFunction': { params: [0, 1], returns: 2 },
+    'Supplier': { params: [], returns: 0 },
+    'Consumer': { params: [0], returns: 'void' },
+    'BiConsumer': { params: [0, 1], returns: 'void' },
+    'Predicate': { params: [0], returns: 'bool' },
+    'UnaryOperator': { params: [0], returns: 0 },
+    'BinaryOperator': { params: [0, 0], returns: 0 },
+  };
+  // The single abstract method each of those interfaces is called through
+  private static readonly FUNCTION_METHODS = ['apply', 'accept', 'test', 'get', 'run'];
   private tokens: Token[] = [];
   private pos = 0;
+  private listNames = new Set<string>();
+  private mapNames = new Set<string>();
+  // Enhanced-for variables over entrySet(), whose getKey()/getValue() become key/value names
+  private entryAliases = new Set<string>();
+  // Catch parameters, whose getMessage() is the exception message
+  private exceptionNames = new Set<string>();
+  // Nested classes and enums are hoisted to the top level, ahead of their enclosing class
+  private nestedClasses: (IRClass | IREnum)[] = [];
+  private classes = new Map<string, IRClass>();
+  // Enum constants by enum name, collected up front since enums are often declared after use
+  private enums = new Map<string, string[]>();
+  // Variables and params holding an enum constant, by enum name
+  private enumNames = new Map<string, string>();
+  // Type parameters of the generic classes and methods being parsed
+  private typeParams = new Set<string>();
+  // Variables and params holding a lambda or method reference: f.apply(x) is a plain call to f
+  private functionValues = new Set<string>();
 
   parse(code: string): IRProgram {
     try {
       this.tokens = this.tokenize(code);
       this.pos = 0;
+      this.listNames = new Set();
+      this.mapNames = new Set();
+      this.entryAliases = new Set();
+      this.exceptionNames = new Set();
+      this.nestedClasses = [];
+      this.classes = new Map();
+      this.enums = this.scanEnums();
+      this.typeParams = new Set();
+      this.functionValues = new Set();
+      this.enumNames = new Map();
       
       const body: IRNode[] = [];
       const imports: string[] = [];
@@ -44,10 +133,14 @@ export class JavaParser {
         }
         
         const node = this.parseTopLevel();
+        body.push(...this.nestedClasses);
+        this.nestedClasses = [];
         if (node) body.push(node);
       }
       
-      return { type: 'program', body, imports };
+      const program: IRProgram = { type: 'program', body, imports };
+      resolveOverloads(program);
+      return program;
     } catch (error) {
       console.error('Java parser error:', error);
       return { type: 'program', body: [], imports: [] };
@@ -117,7 +210,7 @@ export class JavaParser {
       }
       
       // Numbers
-      const numMatch = code.slice(i).match(/^\d+\.?\d*[fFdDlL]?/);
+      const numMatch = code.slice(i).match(/^0[xX][0-9a-fA-F]+[lL]?|^\d+\.?\d*[fFdDlL]?/);
       if (numMatch) {
         tokens.push({ type: 'NUMBER', value: numMatch[0] });
         i += numMatch[0].length;
@@ -130,7 +223,7 @@ export class JavaParser {
         const keywords = ['public', 'private', 'protected', 'static', 'final', 'abstract',
                          'class', 'interface', 'extends', 'implements', 'new', 'this', 'super',
                          'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break',
-                         'continue', 'return', 'void', 'int', 'float', 'double', 'boolean',
+                         'continue', 'return', 'void', 'int', 'long', 'short', 'byte', 'float', 'double', 'boolean',
                          'char', 'String', 'true', 'false', 'null', 'package', 'import',
                          'try', 'catch', 'finally', 'throw', 'throws'];
         const type = keywords.includes(wordMatch[0]) ? 'KEYWORD' : 'IDENTIFIER';
@@ -140,7 +233,7 @@ export class JavaParser {
       }
       
       // Multi-char operators
-      const opMatch = code.slice(i).match(/^(==|!=|<=|>=|&&|\|\||<<|>>|\+\+|--|->|\+=|-=|\*=|\/=)/);
+      const opMatch = code.slice(i).match(/^(>>>=|<<=|>>=|>>>|==|!=|<=|>=|&&|\|\||<<|>>|\+\+|--|->|::|\+=|-=|\*=|\/=|%=|&=|\|=|\^=)/);
       if (opMatch) {
         tokens.push({ type: 'OPERATOR', value: opMatch[0] });
         i += opMatch[0].length;
@@ -202,15 +295,19 @@ export class JavaParser {
     }
     
     // Skip access modifiers
+    let isAbstract = false;
     while (this.match('KEYWORD', 'public') || this.match('KEYWORD', 'private') ||
            this.match('KEYWORD', 'protected') || this.match('KEYWORD', 'static') ||
            this.match('KEYWORD', 'final') || this.match('KEYWORD', 'abstract')) {
-      this.advance();
+      if (this.advance()?.value === 'abstract') isAbstract = true;
     }
     
-    // Class definition
-    if (this.match('KEYWORD', 'class')) {
-      return this.parseClass();
+    // Class or interface definition
+    if (this.match('KEYWORD', 'class') || this.match('KEYWORD', 'interface')) {
+      return this.parseClass(isAbstract);
+    }
+    if (this.match('IDENTIFIER', 'enum')) {
+      return this.parseEnum();
     }
     
     // Method or field
@@ -228,19 +325,218 @@ export class JavaParser {
     // Only recognize actual Java type keywords, NOT arbitrary identifiers (which could be function calls)
     const typeKeywords = ['int', 'float', 'double', 'boolean', 'char', 'void', 'String', 'byte', 'short', 'long'];
     return (token.type === 'KEYWORD' && typeKeywords.includes(token.value)) ||
-           (token.type === 'IDENTIFIER' && token.value === 'String');
+           (token.type === 'IDENTIFIER' && token.value === 'String') ||
+           (token.type === 'IDENTIFIER' && ['ArrayList', 'List'].includes(token.value) && this.peek(1)?.value === '<') ||
+           (token.type === 'IDENTIFIER' && JavaParser.MAP_TYPES.includes(token.value) && this.peek(1)?.value === '<') ||
+           (token.type === 'IDENTIFIER' && (token.value === 'Optional' || token.value in JavaParser.FUNCTION_TYPES) &&
+            this.peek(1)?.value === '<') ||
+           (token.type === 'IDENTIFIER' && this.typeParams.has(token.value)) ||
+           (token.type === 'IDENTIFIER' && this.classes.has(token.value) && this.peek(1)?.value === '<');
   }
 
-  private parseClass(): IRClass {
-    this.consume('KEYWORD', 'class');
-    const nameToken = this.consume('IDENTIFIER');
-    const name = nameToken?.value || 'Unknown';
+  // Class-typed declarations: Animal pet = ..., Animal pet;, Animal create(...) or Animal[] pets = ...
+  private isObjectDeclaration(): boolean {
+    if (!this.match('IDENTIFIER')) return false;
+    let offset = 1;
+    while (this.peek(offset)?.value === '[' && this.peek(offset + 1)?.value === ']') offset += 2;
+    return this.peek(offset)?.type === 'IDENTIFIER' && ['=', ';', '('].includes(this.peek(offset + 1)?.value || '');
+  }
+
+  // Type with optional [] suffix, List<T>, Map<K, V>, Optional<T> or functional interface wrapper
+  private parseTypeSpec(): IRType {
+    const typeName = this.advance()?.value || '';
+    let type: IRType = this.enums.has(typeName) ? { kind: 'enum', name: typeName } : this.mapJavaType(typeName);
+    
+    if ((typeName === 'ArrayList' || typeName === 'List') && this.match('PUNCTUATION', '<')) {
+      type = { kind: 'array', element: this.parseTypeArgs()[0], isList: true };
+    }
+    
+    if (JavaParser.MAP_TYPES.includes(typeName) && this.match('PUNCTUATION', '<')) {
+      const [key, value] = this.parseTypeArgs();
+      type = { kind: 'map', key, value };
+    }
+    
+    if (typeName === 'Optional' && this.match('PUNCTUATION', '<')) {
+      type = { kind: 'nullable', inner: this.parseTypeArgs()[0] };
+    }
+    
+    const signature = JavaParser.FUNCTION_TYPES[typeName];
+    if (signature && this.match('PUNCTUATION', '<')) {
+      const args = this.parseTypeArgs();
+      const returns = typeof signature.returns === 'number' ? args[signature.returns] : primitiveType(signature.returns || 'void');
+      type = { kind: 'function', params: signature.params.map(i => args[i]), returns };
+    }
     
-    // Skip extends/implements
-    while (this.match('KEYWORD', 'extends') || this.match('KEYWORD', 'implements')) {
+    // Box<Integer> instantiates a generic class; the arguments of unknown generic types are dropped
+    if (this.match('PUNCTUATION', '<') && (type.kind === 'class' || (type.kind === 'primitive' && type.name === 'auto'))) {
+      const args = this.parseTypeArgs(0);
+      if (type.kind === 'class' && args.length > 0) type = { ...type, args };
+    }
+    
+    while (this.match('PUNCTUATION', '[') && this.peek(1)?.value === ']') {
+      this.advance();
+      this.advance();
+      type = arrayType(type);
+    }
+    return type;
+  }
+
+  // <A, B>; missing arguments (a diamond) are unknown
+  private parseTypeArgs(minimum = 2): IRType[] {
+    const args: IRType[] = [];
+    this.consume('PUNCTUATION', '<');
+    while (!this.match('PUNCTUATION', '>') && !this.match('OPERATOR', '>>') && !this.match('OPERATOR', '>>>') &&
+           this.pos < this.tokens.length) {
+      args.push(this.parseTypeSpec());
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.closeTypeArgs();
+    while (args.length < minimum) args.push(primitiveType('auto'));
+    return args;
+  }
+
+  // <T, U extends Comparable<U> & Serializable>
+  private parseTypeParams(): IRTypeParam[] {
+    const params: IRTypeParam[] = [];
+    this.consume('PUNCTUATION', '<');
+    while (this.match('IDENTIFIER')) {
+      const param: IRTypeParam = { name: this.advance()!.value };
+      // Bounds can refer to the parameters themselves
+      const outerTypeParams = this.typeParams;
+      this.typeParams = new Set([...outerTypeParams, ...params.map(p => p.name), param.name]);
+      if (this.consume('KEYWORD', 'extends')) {
+        param.bounds = [this.parseBound()];
+        while (this.consume('PUNCTUATION', '&')) param.bounds.push(this.parseBound());
+      }
+      this.typeParams = outerTypeParams;
+      params.push(param);
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.closeTypeArgs();
+    return params;
+  }
+
+  // Bounds are reference types, often library interfaces such as Comparable<T> that aren't parsed classes
+  private parseBound(): IRType {
+    const name = this.advance()?.value || '';
+    const args = this.match('PUNCTUATION', '<') ? this.parseTypeArgs(0) : [];
+    return args.length > 0 ? { kind: 'class', name, args } : { kind: 'class', name };
+  }
+
+  private closeTypeArgs(): void {
+    if (this.match('OPERATOR', '>>>')) {
+      this.tokens[this.pos] = { type: 'OPERATOR', value: '>>' };
+    } else if (this.match('OPERATOR', '>>')) {
+      // Closes two type argument lists, leave one '>' for the outer type
+      this.tokens[this.pos] = { type: 'PUNCTUATION', value: '>' };
+    } else {
+      this.consume('PUNCTUATION', '>');
+    }
+  }
+
+  // Finds every enum declaration with its constants, skipping constructor arguments
+  private scanEnums(): Map<string, string[]> {
+    const enums = new Map<string, string[]>();
+    for (let i = 0; i < this.tokens.length - 2; i++) {
+      if (this.tokens[i].value !== 'enum' || this.tokens[i + 1].type !== 'IDENTIFIER') continue;
+      const members: string[] = [];
+      let j = i + 2;
+      while (j < this.tokens.length && this.tokens[j].value !== '{') j++;
+      let depth = 0;
+      for (j++; j < this.tokens.length; j++) {
+        const token = this.tokens[j];
+        if (token.value === '(') depth++;
+        else if (token.value === ')') depth--;
+        else if (depth === 0 && (token.value === ';' || token.value === '}')) break;
+        else if (depth === 0 && token.type === 'IDENTIFIER') members.push(token.value);
+      }
+      enums.set(this.tokens[i + 1].value, members);
+    }
+    return enums;
+  }
+
+  // enum Color { RED, GREEN } or enum Level { LOW(1), HIGH(10); ... }. Only the
+  // constants are kept, valued by their first constructor argument if it's a number.
+  private parseEnum(): IREnum {
+    this.consume('IDENTIFIER', 'enum');
+    const name = this.consume('IDENTIFIER')?.value || 'Unknown';
+    while (!this.match('PUNCTUATION', '{') && this.pos < this.tokens.length) {
       this.advance();
-      this.consume('IDENTIFIER');
     }
+    this.consume('PUNCTUATION', '{');
+    
+    const members: IREnum['members'] = [];
+    while (this.match('IDENTIFIER')) {
+      const member: IREnum['members'][number] = { name: this.advance()!.value };
+      if (this.consume('PUNCTUATION', '(')) {
+        const args: IRNode[] = [];
+        while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+          args.push(this.parseExpression());
+          if (!this.consume('PUNCTUATION', ',')) break;
+        }
+        this.consume('PUNCTUATION', ')');
+        const value = this.constantValue(args[0]);
+        if (value !== undefined) member.value = value;
+      }
+      members.push(member);
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    
+    // Fields, constructor and methods of the enum are dropped
+    let depth = 1;
+    while (depth > 0 && this.pos < this.tokens.length) {
+      const token = this.advance()!;
+      if (token.type === 'PUNCTUATION' && token.value === '{') depth++;
+      if (token.type === 'PUNCTUATION' && token.value === '}') depth--;
+    }
+    
+    return { type: 'enum', name, members, printedAs: 'name' };
+  }
+
+  private constantValue(node: IRNode | undefined): number | undefined {
+    if (node?.type === 'literal' && typeof (node as IRLiteral).value === 'number') {
+      return (node as IRLiteral).value as number;
+    }
+    if (node?.type === 'unary_op' && (node as IRUnaryOp).operator === '-') {
+      const value = this.constantValue((node as IRUnaryOp).operand);
+      return value === undefined ? undefined : -value;
+    }
+    return undefined;
+  }
+
+  // case RED: names a constant of the switched-on enum without qualifying it
+  private caseValue(value: IRNode): IRNode {
+    if (value.type !== 'identifier') return value;
+    const member = (value as IRIdentifier).name;
+    for (const [enumName, members] of this.enums) {
+      if (members.includes(member)) return { type: 'enum_value', enumName, member } as IREnumValue;
+    }
+    return value;
+  }
+
+  private parseClass(isAbstract = false): IRClass {
+    const isInterface = this.advance()?.value === 'interface';
+    const nameToken = this.consume('IDENTIFIER');
+    const name = nameToken?.value || 'Unknown';
+    const typeParams = this.match('PUNCTUATION', '<') ? this.parseTypeParams() : [];
+    const outerTypeParams = this.typeParams;
+    this.typeParams = new Set([...outerTypeParams, ...typeParams.map(param => param.name)]);
+    
+    // An interface's extends list holds interfaces, like a class's implements list
+    let superclass: string | undefined;
+    const interfaces: string[] = [];
+    if (this.consume('KEYWORD', 'extends')) {
+      if (isInterface) {
+        interfaces.push(...this.parseNameList());
+      } else {
+        superclass = this.consume('IDENTIFIER')?.value;
+        if (this.match('PUNCTUATION', '<')) this.parseTypeArgs(0);
+      }
+    }
+    if (this.consume('KEYWORD', 'implements')) {
+      interfaces.push(...this.parseNameList());
+    }
+    const bases = superclass ? [superclass, ...interfaces] : interfaces;
     
     this.consume('PUNCTUATION', '{');
     
@@ -253,28 +549,60 @@ export class JavaParser {
     while (!this.match('PUNCTUATION', '}') && this.pos < this.tokens.length) {
       // Track modifiers to detect static
       let isStatic = false;
+      let isOverride = false;
+      let isAbstractMember = false;
+      
+      // @Override marks a method replacing the superclass's; other annotations are dropped
+      while (this.match('PUNCTUATION', '@')) {
+        this.advance();
+        if (this.advance()?.value === 'Override') isOverride = true;
+      }
       
       // Skip modifiers but track static
       while (this.match('KEYWORD', 'public') || this.match('KEYWORD', 'private') ||
              this.match('KEYWORD', 'protected') || this.match('KEYWORD', 'static') ||
-             this.match('KEYWORD', 'final')) {
+             this.match('KEYWORD', 'final') || this.match('KEYWORD', 'abstract') ||
+             this.match('KEYWORD', 'default')) {
         if (this.peek()?.value === 'static') {
           isStatic = true;
         }
+        if (this.peek()?.value === 'abstract') {
+          isAbstractMember = true;
+        }
         this.advance();
       }
       
+      // Nested class, interface or enum
+      if (this.match('KEYWORD', 'class') || this.match('KEYWORD', 'interface')) {
+        this.nestedClasses.push(this.parseClass(isAbstractMember));
+        continue;
+      }
+      if (this.match('IDENTIFIER', 'enum')) {
+        this.nestedClasses.push(this.parseEnum());
+        continue;
+      }
+      
       // Constructor
-      if (this.match('IDENTIFIER', name)) {
+      if (this.match('IDENTIFIER', name) && this.peek(1)?.value === '(') {
         constructor = this.parseConstructor(name);
         continue;
       }
       
+      // Generic methods: <T> T first(List<T> items)
+      const methodTypeParams = this.match('PUNCTUATION', '<') ? this.parseTypeParams() : [];
+      const classTypeParams = this.typeParams;
+      this.typeParams = new Set([...classTypeParams, ...methodTypeParams.map(param => param.name)]);
+      
       // Method or field
-      if (this.isType(this.peek())) {
+      if (this.isType(this.peek()) || this.isObjectDeclaration()) {
         const memberOrMethod = this.parseMethodOrField();
+        this.typeParams = classTypeParams;
         if (memberOrMethod?.type === 'function') {
           const func = memberOrMethod as IRFunction;
+          if (methodTypeParams.length > 0) func.typeParams = methodTypeParams;
+          if (isOverride || bases.some(base => findMethod(this.classes, base, func.name))) {
+            func.isOverride = true;
+          }
           // Check for main method
           if (func.name === 'main' && isStatic) {
             mainMethod = func;
@@ -289,6 +617,7 @@ export class JavaParser {
         }
         continue;
       }
+      this.typeParams = classTypeParams;
       
       // Comments
       if (this.match('COMMENT') || this.match('MULTILINE_COMMENT')) {
@@ -300,10 +629,17 @@ export class JavaParser {
     }
     
     this.consume('PUNCTUATION', '}');
+    this.typeParams = outerTypeParams;
     
     // For Java classes with static main, we convert to a simpler structure
     // The main method content becomes the "constructor" body for procedural conversion
-    const result: IRClass = { type: 'class', name, members, methods, constructor };
+    const result: IRClass = { type: 'class', name, superclass, members, methods, constructor };
+    if (typeParams.length > 0) result.typeParams = typeParams;
+    if (interfaces.length > 0) result.interfaces = interfaces;
+    if (isInterface) result.isInterface = true;
+    if (isAbstract || isInterface) result.isAbstract = true;
+    this.qualifyMembers(result);
+    this.classes.set(name, result);
     
     // If there's a main method, attach it for generators to handle
     if (mainMethod) {
@@ -318,6 +654,70 @@ export class JavaParser {
     return result;
   }
 
+  // Comma-separated type names, ignoring type arguments: A, B<T>
+  private parseNameList(): string[] {
+    const names: string[] = [];
+    let depth = 0;
+    while (!this.match('PUNCTUATION', '{') && this.pos < this.tokens.length) {
+      const token = this.advance()!;
+      if (token.value === '<') depth++;
+      else if (token.value === '>') depth--;
+      else if (token.value === '>>') depth -= 2;
+      else if (depth === 0 && token.type === 'IDENTIFIER') names.push(token.value);
+    }
+    return names;
+  }
+
+  // Rewrites implicit field and method references (name, speak()) to explicit ones on self
+  private qualifyMembers(cls: IRClass): void {
+    const fields = new Set<string>();
+    const methods = new Set<string>();
+    const seen = new Set<string>();
+    const pending: (IRClass | undefined)[] = [cls];
+    while (pending.length > 0) {
+      const current = pending.pop();
+      if (!current || seen.has(current.name)) continue;
+      seen.add(current.name);
+      current.members.forEach(m => fields.add(m.name));
+      current.methods.forEach(m => methods.add(m.name));
+      if (current.superclass) pending.push(this.classes.get(current.superclass));
+      current.interfaces?.forEach(name => pending.push(this.classes.get(name)));
+    }
+    
+    const functions = cls.constructor ? [...cls.methods, cls.constructor] : cls.methods;
+    for (const func of functions) {
+      const locals = new Set(func.params.map(p => p.name));
+      this.collectLocals(func.body, locals);
+      this.qualifyNode(func.body, fields, methods, locals);
+    }
+  }
+
+  private collectLocals(value: unknown, locals: Set<string>): void {
+    visitIR(value, node => {
+      if (node.type === 'variable') locals.add((node as IRVariable).name);
+      if (node.type === 'for_each') locals.add((node as IRForEach).iterator);
+    });
+  }
+
+  private qualifyNode(value: unknown, fields: Set<string>, methods: Set<string>, locals: Set<string>): void {
+    visitIR(value, node => {
+      if (node.type === 'identifier') {
+        const identifier = node as IRIdentifier;
+        if (fields.has(identifier.name) && !locals.has(identifier.name)) {
+          identifier.name = `self.${identifier.name}`;
+        }
+      } else if (node.type === 'call') {
+        const call = node as IRCall;
+        if (!call.isMethod && methods.has(call.callee)) {
+          call.isMethod = true;
+          call.object = 'self';
+        } else if (call.isMethod && call.object && fields.has(call.object) && !locals.has(call.object)) {
+          call.object = `self.${call.object}`;
+        }
+      }
+    });
+  }
+
   private parseConstructor(className: string): IRFunction {
     this.consume('IDENTIFIER');
     this.consume('PUNCTUATION', '(');
@@ -330,39 +730,71 @@ export class JavaParser {
       type: 'function',
       name: '__init__',
       params,
-      returnType: 'void',
+      returnType: primitiveType('void'),
       body,
     };
   }
 
   private parseMethodOrField(): IRNode | null {
-    const typeToken = this.advance();
-    if (!typeToken) return null;
-    const dataType = this.mapJavaType(typeToken.value);
+    if (!this.peek()) return null;
+    const dataType = this.parseTypeSpec();
     
     const nameToken = this.consume('IDENTIFIER');
     if (!nameToken) return null;
     
     // Method
-    if (this.match('PUNCTUATION', '(')) {
-      return this.parseMethod(nameToken.value, dataType);
-    }
+    if (this.match('PUNCTUATION', '(')) return this.parseMethod(nameToken.value, dataType);
     
     // Field
-    return this.parseField(nameToken.value, dataType);
+    return this.declare(this.parseField(nameToken.value, dataType));
+  }
+
+  // Lists and maps are recorded by name, and the literals initializing them take their declared
+  // types. A boxed Integer, Double, ... that starts out null is nullable
+  private declare(variable: IRVariable): IRVariable {
+    const type = variable.dataType;
+    if (isListType(type)) this.listNames.add(variable.name);
+    if (isMapType(type)) this.mapNames.add(variable.name);
+    if (type.kind === 'enum') this.enumNames.set(variable.name, type.name);
+    
+    if (isArrayType(type) && variable.value?.type === 'array_literal') {
+      const literal = variable.value as IRArrayLiteral;
+      literal.elementType = flattenType(type);
+      literal.isList = isListType(type);
+    }
+    if (isMapType(type) && variable.value?.type === 'map_literal') {
+      const literal = variable.value as IRMapLiteral;
+      literal.keyType = keyTypeOf(type);
+      literal.valueType = flattenType(type);
+    }
+    const isNull = variable.value?.type === 'literal' && (variable.value as IRLiteral).value === 'null';
+    if (isNull && type.kind === 'primitive' && type.name !== 'string') variable.dataType = { kind: 'nullable', inner: type };
+    return variable;
   }
 
-  private parseMethod(name: string, returnType: DataType): IRFunction {
+  private parseMethod(name: string, returnType: IRType): IRFunction {
     this.consume('PUNCTUATION', '(');
     const params = this.parseParams();
     this.consume('PUNCTUATION', ')');
     
+    // throws clause
+    if (this.match('KEYWORD', 'throws')) {
+      while (!this.match('PUNCTUATION', '{') && !this.match('PUNCTUATION', ';') && this.pos < this.tokens.length) {
+        this.advance();
+      }
+    }
+    
+    // Abstract and interface methods end at the signature
+    if (this.consume('PUNCTUATION', ';')) {
+      return { type: 'function', name, params, returnType, body: [], isAbstract: true };
+    }
+    
     const body = this.parseBlock();
     
     return { type: 'function', name, params, returnType, body };
   }
 
-  private parseField(name: string, dataType: DataType): IRVariable {
+  private parseField(name: string, dataType: IRType): IRVariable {
     let value: IRNode | undefined;
     
     if (this.match('PUNCTUATION', '=')) {
@@ -379,22 +811,15 @@ export class JavaParser {
     const params: IRVariable[] = [];
     
     while (!this.match('PUNCTUATION', ')')) {
-      const typeToken = this.advance();
-      if (!typeToken) break;
+      if (!this.peek()) break;
       
-      // Handle array params like String[]
-      if (this.match('PUNCTUATION', '[')) {
-        this.advance();
-        this.consume('PUNCTUATION', ']');
-      }
+      // Handles array params like String[] and List<Integer>
+      const dataType = this.parseTypeSpec();
       
       const nameToken = this.consume('IDENTIFIER');
       if (nameToken) {
-        params.push({
-          type: 'variable',
-          name: nameToken.value,
-          dataType: this.mapJavaType(typeToken.value),
-        });
+        if (dataType.kind === 'function') this.functionValues.add(nameToken.value);
+        params.push(this.declare({ type: 'variable', name: nameToken.value, dataType }));
       }
       
       if (!this.consume('PUNCTUATION', ',')) break;
@@ -432,6 +857,17 @@ export class JavaParser {
       return { type: 'comment', text: token.value.trim(), isMultiline: true } as IRComment;
     }
     
+    // Labeled loop: outer: for (...)
+    if (this.match('IDENTIFIER') && this.peek(1)?.value === ':') {
+      const label = this.advance()!.value;
+      this.advance();
+      const stmt = this.parseStatement();
+      if (stmt && ['for', 'for_each', 'while', 'do_while'].includes(stmt.type)) {
+        (stmt as IRFor | IRForEach | IRWhile | IRDoWhile).label = label;
+      }
+      return stmt;
+    }
+    
     // If
     if (this.match('KEYWORD', 'if')) {
       return this.parseIf();
@@ -447,16 +883,22 @@ export class JavaParser {
       return this.parseWhile();
     }
     
+    // Do-while
+    if (this.match('KEYWORD', 'do')) {
+      return this.parseDoWhile();
+    }
+    
     // Switch
     if (this.match('KEYWORD', 'switch')) {
       return this.parseSwitch();
     }
     
-    // Break
-    if (this.match('KEYWORD', 'break')) {
-      this.advance();
+    // Break and continue, optionally labeled
+    if (this.match('KEYWORD', 'break') || this.match('KEYWORD', 'continue')) {
+      const keyword = this.advance()!.value as 'break' | 'continue';
+      const label = this.match('IDENTIFIER') ? this.advance()!.value : undefined;
       this.consume('PUNCTUATION', ';');
-      return { type: 'break' } as IRNode;
+      return { type: keyword, label } as IRBreak | IRContinue;
     }
     
     // Return
@@ -464,6 +906,14 @@ export class JavaParser {
       return this.parseReturn();
     }
     
+    // Exceptions
+    if (this.match('KEYWORD', 'try')) {
+      return this.parseTry();
+    }
+    if (this.match('KEYWORD', 'throw')) {
+      return this.parseThrow();
+    }
+    
     // System.out.println
     if (this.match('IDENTIFIER', 'System')) {
       return this.parsePrintln();
@@ -484,6 +934,10 @@ export class JavaParser {
       return null;
     }
     
+    if (this.isObjectDeclaration()) {
+      return this.parseLocalVariable();
+    }
+    
     // Expression statement
     const expr = this.parseExpression();
     this.consume('PUNCTUATION', ';');
@@ -503,7 +957,7 @@ export class JavaParser {
     while (!this.match('PUNCTUATION', '}') && this.pos < this.tokens.length) {
       if (this.match('KEYWORD', 'case')) {
         this.advance();
-        const value = this.parseExpression();
+        const value = this.caseValue(this.parseExpression());
         this.consume('PUNCTUATION', ':');
         
         const body: IRNode[] = [];
@@ -564,10 +1018,12 @@ export class JavaParser {
     return { type: 'if', condition, thenBranch, elseBranch, elseIf };
   }
 
-  private parseFor(): IRFor {
+  private parseFor(): IRFor | IRForEach {
     this.consume('KEYWORD', 'for');
     this.consume('PUNCTUATION', '(');
     
+    if (this.isEnhancedFor()) return this.parseEnhancedFor();
+    
     // Init
     let init: IRNode | undefined;
     if (!this.match('PUNCTUATION', ';')) {
@@ -630,10 +1086,10 @@ export class JavaParser {
       if (unary.operator === '++' || unary.operator === '++_post') {
         rangeStep = { type: 'literal', value: 1, dataType: 'int' } as IRLiteral;
       }
-    } else if (update?.type === 'binary_op') {
-      const binOp = update as IRBinaryOp;
-      if (binOp.operator === '+=') {
-        rangeStep = binOp.right;
+    } else if (update?.type === 'compound_assignment') {
+      const compound = update as IRCompoundAssignment;
+      if (compound.operator === '+') {
+        rangeStep = compound.value;
       }
     }
     
@@ -650,6 +1106,69 @@ export class JavaParser {
     };
   }
 
+  // A ':' before the closing ')' means for (Type name : collection)
+  private isEnhancedFor(): boolean {
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.value === '(') depth++;
+      if (token.value === ')' && depth-- === 0) return false;
+      if (token.value === ';') return false;
+      if (token.value === ':' && depth === 0) return true;
+    }
+    return false;
+  }
+
+  // for (int x : items) walks an array or list; for (String key : map.keySet()),
+  // for (int value : map.values()) or for (Map.Entry<K, V> entry : map.entrySet()) walks a map
+  private parseEnhancedFor(): IRFor | IRForEach {
+    if (this.match('KEYWORD', 'final')) this.advance();
+    // The element type, when it is a single name like int or String
+    const typeName = this.peek()?.value || '';
+    const iteratorType: IRType = this.peek(2)?.value !== ':' ? primitiveType('auto') :
+      this.enums.has(typeName) ? { kind: 'enum', name: typeName } : this.mapJavaType(typeName);
+    if (iteratorType.kind === 'enum') this.enumNames.set(this.peek(1)?.value || '', iteratorType.name);
+    // Skip the declared type
+    while (!(this.match('IDENTIFIER') && this.peek(1)?.value === ':') && this.pos < this.tokens.length) {
+      this.advance();
+    }
+    let iterator = this.consume('IDENTIFIER')?.value || 'item';
+    this.consume('PUNCTUATION', ':');
+    let iterable = this.parseExpression();
+    this.consume('PUNCTUATION', ')');
+    
+    let valueIterator: string | undefined;
+    let alias: string | undefined;
+    let overMap = false;
+    let overValues = false;
+    if (iterable.type === 'call') {
+      const call = iterable as IRCall;
+      // A string's characters are walked through the string itself
+      if (call.isMethod && call.object && call.callee === 'toCharArray' && call.args.length === 0) {
+        iterable = { type: 'identifier', name: call.object } as IRIdentifier;
+      }
+      if (call.isMethod && call.object && this.mapNames.has(call.object) &&
+          ['keySet', 'values', 'entrySet'].includes(call.callee)) {
+        overMap = true;
+        overValues = call.callee === 'values';
+        iterable = { type: 'identifier', name: call.object } as IRIdentifier;
+        if (call.callee === 'entrySet') {
+          alias = iterator;
+          iterator = `${alias}_key`;
+          valueIterator = `${alias}_value`;
+          this.entryAliases.add(alias);
+        }
+      }
+    }
+    const body = this.parseBlock();
+    if (alias) this.entryAliases.delete(alias);
+    
+    if (!overMap) return { type: 'for', iterator, iteratorType, iterable, body };
+    const loop: IRForEach = { type: 'for_each', iterator, valueIterator, iterable, body };
+    if (overValues) loop.overValues = true;
+    return loop;
+  }
+
   private parseWhile(): IRWhile {
     this.consume('KEYWORD', 'while');
     this.consume('PUNCTUATION', '(');
@@ -661,6 +1180,99 @@ export class JavaParser {
     return { type: 'while', condition, body };
   }
 
+  private parseDoWhile(): IRDoWhile {
+    this.consume('KEYWORD', 'do');
+    const body = this.parseBlock();
+    
+    this.consume('KEYWORD', 'while');
+    this.consume('PUNCTUATION', '(');
+    const condition = this.parseExpression();
+    this.consume('PUNCTUATION', ')');
+    this.consume('PUNCTUATION', ';');
+    
+    return { type: 'do_while', condition, body };
+  }
+
+  private parseTry(): IRTry {
+    this.consume('KEYWORD', 'try');
+    const body = this.parseBlock();
+    const handlers: IRCatchClause[] = [];
+    let finallyBody: IRNode[] | undefined;
+    
+    // catch (NumberFormatException | ArithmeticException e)
+    while (this.match('KEYWORD', 'catch')) {
+      this.advance();
+      this.consume('PUNCTUATION', '(');
+      if (this.match('KEYWORD', 'final')) this.advance();
+      
+      const exceptionTypes: string[] = [];
+      let name: string | undefined;
+      while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+        let typeName = this.advance()!.value;
+        // Qualified names such as java.util.NoSuchElementException
+        while (this.match('PUNCTUATION', '.')) {
+          this.advance();
+          typeName = this.advance()?.value || typeName;
+        }
+        exceptionTypes.push(this.mapExceptionType(typeName));
+        if (this.match('PUNCTUATION', '|')) {
+          this.advance();
+          continue;
+        }
+        name = this.consume('IDENTIFIER')?.value;
+      }
+      this.consume('PUNCTUATION', ')');
+      
+      if (name) this.exceptionNames.add(name);
+      handlers.push({ exceptionTypes, name, body: this.parseBlock() });
+    }
+    
+    if (this.match('KEYWORD', 'finally')) {
+      this.advance();
+      finallyBody = this.parseBlock();
+    }
+    
+    return { type: 'try', body, handlers, finallyBody };
+  }
+
+  private parseThrow(): IRThrow {
+    this.consume('KEYWORD', 'throw');
+    
+    // throw new IllegalArgumentException("message");
+    if (this.match('KEYWORD', 'new')) {
+      this.advance();
+      const typeName = this.advance()?.value || 'Exception';
+      this.consume('PUNCTUATION', '(');
+      const message = this.match('PUNCTUATION', ')') ? undefined : this.parseExpression();
+      this.consume('PUNCTUATION', ')');
+      this.consume('PUNCTUATION', ';');
+      return { type: 'throw', exceptionType: this.mapExceptionType(typeName), message };
+    }
+    
+    // throw e; rethrows a caught exception
+    this.parseExpression();
+    this.consume('PUNCTUATION', ';');
+    return { type: 'throw' };
+  }
+
+  private mapExceptionType(javaType: string): string {
+    const typeMap: Record<string, string> = {
+      'Exception': 'Exception',
+      'Throwable': 'Exception',
+      'RuntimeException': 'RuntimeError',
+      'IllegalStateException': 'RuntimeError',
+      'NumberFormatException': 'ValueError',
+      'IllegalArgumentException': 'ArgumentError',
+      'ArithmeticException': 'ZeroDivisionError',
+      'IndexOutOfBoundsException': 'IndexError',
+      'ArrayIndexOutOfBoundsException': 'IndexError',
+      'StringIndexOutOfBoundsException': 'IndexError',
+      'NoSuchElementException': 'KeyError',
+      'ClassCastException': 'TypeError',
+    };
+    return typeMap[javaType] || 'Exception';
+  }
+
   private parseReturn(): IRReturn {
     this.consume('KEYWORD', 'return');
     
@@ -699,12 +1311,11 @@ export class JavaParser {
   }
 
   private parseLocalVariable(): IRVariable {
-    const typeToken = this.advance();
-    if (!typeToken) {
-      return { type: 'variable', name: 'unknown', dataType: 'int' };
+    if (!this.peek()) {
+      return { type: 'variable', name: 'unknown', dataType: primitiveType('int') };
     }
     
-    const dataType = this.mapJavaType(typeToken.value);
+    const dataType = this.parseTypeSpec();
     
     const nameToken = this.consume('IDENTIFIER');
     if (!nameToken) {
@@ -719,7 +1330,11 @@ export class JavaParser {
     
     this.consume('PUNCTUATION', ';');
     
-    return { type: 'variable', name: nameToken.value, dataType, value };
+    if (dataType.kind === 'function') {
+      this.functionValues.add(nameToken.value);
+      if (value?.type === 'lambda') this.typeLambda(value as IRLambda, dataType);
+    }
+    return this.declare({ type: 'variable', name: nameToken.value, dataType, value });
   }
 
   private parseExpression(): IRNode {
@@ -727,19 +1342,42 @@ export class JavaParser {
   }
 
   private parseAssignment(): IRNode {
-    const left = this.parseLogicalOr();
+    const left = this.parseTernary();
     
-    if (this.match('PUNCTUATION', '=') || this.match('OPERATOR', '+=') ||
-        this.match('OPERATOR', '-=') || this.match('OPERATOR', '*=') ||
-        this.match('OPERATOR', '/=')) {
-      const op = this.advance()!.value;
+    if (this.match('PUNCTUATION', '=')) {
+      this.advance();
       const right = this.parseAssignment();
-      return { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
+      
+      // Element assignment like arr[i] = value
+      if (left.type === 'index') {
+        const target = left as IRIndex;
+        return { type: 'index_assignment', object: target.object, index: target.index, value: right } as IRIndexAssignment;
+      }
+      
+      return { type: 'binary_op', operator: '=', left, right } as IRBinaryOp;
+    }
+    
+    const compoundOps = ['+=', '-=', '*=', '/=', '%=', '<<=', '>>=', '&=', '|=', '^=', '>>>='];
+    if (compoundOps.some(op => this.match('OPERATOR', op))) {
+      const op = this.advance()!.value;
+      const value = this.parseAssignment();
+      return { type: 'compound_assignment', target: left, operator: op.slice(0, -1), value } as IRCompoundAssignment;
     }
     
     return left;
   }
 
+  // Right-associative, so a ? b : c ? d : e nests in the else branch
+  private parseTernary(): IRNode {
+    const condition = this.parseLogicalOr();
+    if (!this.match('PUNCTUATION', '?')) return condition;
+    this.advance();
+    const thenValue = this.parseExpression();
+    this.consume('PUNCTUATION', ':');
+    const elseValue = this.parseTernary();
+    return { type: 'conditional', condition, thenValue, elseValue } as IRConditional;
+  }
+
   private parseLogicalOr(): IRNode {
     let left = this.parseLogicalAnd();
     
@@ -753,24 +1391,93 @@ export class JavaParser {
   }
 
   private parseLogicalAnd(): IRNode {
-    let left = this.parseComparison();
+    let left = this.parseBitOr();
     
     while (this.match('OPERATOR', '&&')) {
       this.advance();
-      const right = this.parseComparison();
+      const right = this.parseBitOr();
       left = { type: 'binary_op', operator: '&&', left, right } as IRBinaryOp;
     }
     
     return left;
   }
 
+  private parseBitOr(): IRNode {
+    let left = this.parseBitXor();
+    
+    while (this.match('PUNCTUATION', '|')) {
+      this.advance();
+      const right = this.parseBitXor();
+      left = { type: 'binary_op', operator: '|', left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
+  private parseBitXor(): IRNode {
+    let left = this.parseBitAnd();
+    
+    while (this.match('PUNCTUATION', '^')) {
+      this.advance();
+      const right = this.parseBitAnd();
+      left = { type: 'binary_op', operator: '^', left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
+  private parseBitAnd(): IRNode {
+    let left = this.parseEquality();
+    
+    while (this.match('PUNCTUATION', '&')) {
+      this.advance();
+      const right = this.parseEquality();
+      left = { type: 'binary_op', operator: '&', left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
+  private parseEquality(): IRNode {
+    let left = this.parseComparison();
+    
+    while (this.match('OPERATOR', '==') || this.match('OPERATOR', '!=')) {
+      const op = this.advance()!.value;
+      const right = this.parseComparison();
+      left = this.comparison(left, op, right);
+    }
+    
+    return left;
+  }
+
+  // a.compareTo(b) > 0 compares a and b directly, unless a class of ours defines compareTo
+  private comparison(left: IRNode, op: string, right: IRNode): IRBinaryOp {
+    const call = left.type === 'call' ? left as IRCall : undefined;
+    const isZero = right.type === 'literal' && (right as IRLiteral).value === 0;
+    const ours = [...this.classes.values()].some(cls => cls.methods.some(m => m.name === 'compareTo'));
+    if (call?.isMethod && call.callee === 'compareTo' && call.object && call.args.length === 1 && isZero && !ours) {
+      return { type: 'binary_op', operator: op, left: { type: 'identifier', name: call.object } as IRIdentifier, right: call.args[0] } as IRBinaryOp;
+    }
+    return { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
+  }
+
   private parseComparison(): IRNode {
-    let left = this.parseAddSub();
+    let left = this.parseShift();
     
-    while (this.match('OPERATOR', '==') || this.match('OPERATOR', '!=') ||
-           this.match('PUNCTUATION', '<') || this.match('PUNCTUATION', '>') ||
+    while (this.match('PUNCTUATION', '<') || this.match('PUNCTUATION', '>') ||
            this.match('OPERATOR', '<=') || this.match('OPERATOR', '>=')) {
       const op = this.advance()!.value;
+      left = this.comparison(left, op, this.parseShift());
+    }
+    
+    return left;
+  }
+
+  private parseShift(): IRNode {
+    let left = this.parseAddSub();
+    
+    while (this.match('OPERATOR', '<<') || this.match('OPERATOR', '>>') || this.match('OPERATOR', '>>>')) {
+      const op = this.advance()!.value;
       const right = this.parseAddSub();
       left = { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
     }
@@ -804,7 +1511,7 @@ export class JavaParser {
   }
 
   private parseUnary(): IRNode {
-    if (this.match('PUNCTUATION', '!') || this.match('PUNCTUATION', '-') ||
+    if (this.match('PUNCTUATION', '!') || this.match('PUNCTUATION', '-') || this.match('PUNCTUATION', '~') ||
         this.match('OPERATOR', '++') || this.match('OPERATOR', '--')) {
       const op = this.advance()!.value;
       const operand = this.parseUnary();
@@ -821,10 +1528,21 @@ export class JavaParser {
       if (this.match('OPERATOR', '++') || this.match('OPERATOR', '--')) {
         const op = this.advance()!.value;
         expr = { type: 'unary_op', operator: op + '_post', operand: expr } as IRNode & { operator: string; operand: IRNode };
+      } else if (this.match('PUNCTUATION', '[')) {
+        this.advance();
+        const index = this.parseExpression();
+        this.consume('PUNCTUATION', ']');
+        expr = { type: 'index', object: expr, index } as IRIndex;
       } else if (this.match('PUNCTUATION', '.')) {
         this.advance();
         const member = this.consume('IDENTIFIER');
         
+        // arr.length
+        if (member?.value === 'length' && !this.match('PUNCTUATION', '(')) {
+          expr = { type: 'length', object: expr } as IRLength;
+          continue;
+        }
+        
         if (this.match('PUNCTUATION', '(')) {
           this.advance();
           const args: IRNode[] = [];
@@ -834,15 +1552,40 @@ export class JavaParser {
           }
           this.consume('PUNCTUATION', ')');
           
-          const objName = expr.type === 'identifier' ? (expr as IRIdentifier).name : 'obj';
+          const objName = expr.type === 'identifier' ? (expr as IRIdentifier).name : '';
+          // f.apply(x) on a Function, p.test(x) on a Predicate, ...
+          if (this.functionValues.has(objName) && JavaParser.FUNCTION_METHODS.includes(member?.value || '')) {
+            expr = { type: 'call', callee: objName, args } as IRCall;
+            continue;
+          }
+          const collectionOp = this.parseCollectionMethod(expr, objName, member?.value || '', args);
+          if (collectionOp) {
+            expr = collectionOp;
+            continue;
+          }
+          
+          // arr[1].area() is called on the element itself
           expr = {
             type: 'call',
             callee: member?.value || '',
             args,
             isMethod: true,
-            object: objName,
+            ...(objName ? { object: objName } : { receiver: expr }),
           } as IRCall;
+        } else if (member && expr.type === 'identifier' && (expr as IRIdentifier).name === 'Math' && mathConstantNamed(JAVA_MATH_CONSTANTS, member.value)) {
+          // Math.PI and Math.E
+          expr = { type: 'math_constant', name: mathConstantNamed(JAVA_MATH_CONSTANTS, member.value), dataType: 'double' } as IRMathConstant;
+        } else if (member && expr.type === 'identifier' && this.enums.has((expr as IRIdentifier).name)) {
+          expr = { type: 'enum_value', enumName: (expr as IRIdentifier).name, member: member.value } as IREnumValue;
+        } else if (member && expr.type === 'identifier') {
+          // Field access: this.name becomes self.name like Python's attributes
+          const objName = (expr as IRIdentifier).name;
+          expr = { type: 'identifier', name: `${objName === 'this' ? 'self' : objName}.${member.value}` } as IRIdentifier;
+        } else if (member) {
+          expr = { type: 'field_access', object: expr, field: member.value } as IRFieldAccess;
         }
+      } else if (this.match('OPERATOR', '::') && expr.type === 'identifier') {
+        expr = this.parseMethodReference((expr as IRIdentifier).name);
       } else {
         break;
       }
@@ -851,7 +1594,181 @@ export class JavaParser {
     return expr;
   }
 
+  // System.out::println prints its argument; Main::twice names a static method
+  private parseMethodReference(owner: string): IRNode {
+    this.consume('OPERATOR', '::');
+    const name = this.advance()?.value || '';
+    if (owner === 'System.out' && name.startsWith('print')) {
+      const value = { type: 'identifier', name: 'value' } as IRIdentifier;
+      const print: IRPrint = { type: 'print', args: [value], newline: name === 'println' };
+      const params: IRVariable[] = [{ type: 'variable', name: 'value', dataType: primitiveType('auto') }];
+      return { type: 'lambda', params, returnType: primitiveType('void'), body: [print] } as IRLambda;
+    }
+    return { type: 'function_ref', name } as IRFunctionRef;
+  }
+
+  // x -> x * 2, (a, b) -> a + b or (int a, int b) -> { ... }
+  private isLambda(): boolean {
+    if (this.match('IDENTIFIER') && this.peek(1)?.value === '->') return true;
+    if (!this.match('PUNCTUATION', '(')) return false;
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.value === '(') depth++;
+      if (token.value === ')' && --depth === 0) return this.tokens[i + 1]?.value === '->';
+    }
+    return false;
+  }
+
+  private parseLambda(): IRLambda {
+    const params: IRVariable[] = [];
+    if (this.match('IDENTIFIER')) {
+      params.push({ type: 'variable', name: this.advance()!.value, dataType: primitiveType('auto') });
+    } else {
+      this.consume('PUNCTUATION', '(');
+      while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+        const typed = this.peek(1)?.value !== ',' && this.peek(1)?.value !== ')';
+        const dataType = typed ? this.parseTypeSpec() : primitiveType('auto');
+        params.push({ type: 'variable', name: this.consume('IDENTIFIER')?.value || 'arg', dataType });
+        if (!this.consume('PUNCTUATION', ',')) break;
+      }
+      this.consume('PUNCTUATION', ')');
+    }
+    this.consume('OPERATOR', '->');
+    const body = this.match('PUNCTUATION', '{') ? this.parseBlock() : [{ type: 'return', value: this.parseExpression() } as IRReturn];
+    return { type: 'lambda', params, returnType: primitiveType('auto'), body };
+  }
+
+  // Untyped lambda params and the result take their types from the interface the lambda is assigned to
+  private typeLambda(lambda: IRLambda, type: Extract<IRType, { kind: 'function' }>): void {
+    lambda.params.forEach((p, i) => {
+      const paramType = type.params[i];
+      if (paramType && isAutoType(p.dataType)) p.dataType = paramType;
+    });
+    lambda.returnType = type.returns;
+  }
+
+  // Maps list/string methods onto the language-neutral IR nodes
+  private parseCollectionMethod(object: IRNode, objName: string, method: string, args: IRNode[]): IRNode | null {
+    // Arrays.asList(...) and List.of(...)
+    if ((objName === 'Arrays' && method === 'asList') || (objName === 'List' && method === 'of')) {
+      return { type: 'array_literal', elements: args, elementType: 'auto', isList: true } as IRArrayLiteral;
+    }
+    
+    // Math.sqrt(x), Math.max(a, b), ...
+    const mathFunction = objName === 'Math' ? mathFunctionNamed(JAVA_MATH_FUNCTIONS, method, args.length) : undefined;
+    if (mathFunction) return { type: 'math_call', func: mathFunction, args } as IRMathCall;
+    
+    // Map.of(k1, v1, k2, v2, ...)
+    if (objName === 'Map' && method === 'of') {
+      const entries: { key: IRNode; value: IRNode }[] = [];
+      for (let i = 0; i + 1 < args.length; i += 2) {
+        entries.push({ key: args[i], value: args[i + 1] });
+      }
+      return { type: 'map_literal', entries, keyType: 'auto', valueType: 'auto' } as IRMapLiteral;
+    }
+    
+    // l.getValue() and l.ordinal() on an enum constant, Level.values() for all of them
+    const enumName = object.type === 'enum_value' ? (object as IREnumValue).enumName : this.enumNames.get(objName);
+    if (enumName && (method === 'getValue' || method === 'ordinal') && args.length === 0) {
+      return { type: 'enum_method', method: method === 'ordinal' ? 'ordinal' : 'value', enumName, object } as IREnumMethod;
+    }
+    if (this.enums.has(objName) && method === 'values' && args.length === 0) {
+      return { type: 'enum_method', method: 'values', enumName: objName } as IREnumMethod;
+    }
+    
+    // size() on lists, length() on strings
+    if ((method === 'size' || method === 'length') && args.length === 0) {
+      return { type: 'length', object } as IRLength;
+    }
+    
+    // e.getMessage() on a catch parameter
+    if (this.exceptionNames.has(objName) && method === 'getMessage' && args.length === 0) {
+      return object;
+    }
+    
+    // entry.getKey() / entry.getValue() inside an enhanced for over entrySet()
+    if (this.entryAliases.has(objName) && args.length === 0) {
+      if (method === 'getKey') return { type: 'identifier', name: `${objName}_key` } as IRIdentifier;
+      if (method === 'getValue') return { type: 'identifier', name: `${objName}_value` } as IRIdentifier;
+    }
+    
+    if (this.mapNames.has(objName)) {
+      if (method === 'get' && args.length === 1) {
+        return { type: 'index', object, index: args[0] } as IRIndex;
+      }
+      if (method === 'getOrDefault' && args.length === 2) {
+        return { type: 'index', object, index: args[0], defaultValue: args[1] } as IRIndex;
+      }
+      if (method === 'put' && args.length === 2) {
+        return { type: 'index_assignment', object, index: args[0], value: args[1] } as IRIndexAssignment;
+      }
+      if (method === 'containsKey' && args.length === 1) {
+        return { type: 'contains', object, key: args[0] } as IRContains;
+      }
+      if (method === 'remove' && args.length === 1) {
+        return { type: 'remove', object, key: args[0] } as IRRemove;
+      }
+      return null;
+    }
+    
+    // lists.get(0).add(x) appends to a list that isn't a variable
+    const isClassMethod = [...this.classes.values()].some(cls => cls.methods.some(m => m.name === method));
+    if (!objName && method === 'add' && args.length === 1 && !isClassMethod) {
+      return { type: 'call', callee: 'append', args, isMethod: true, receiver: object } as IRCall;
+    }
+    if (!this.listNames.has(objName)) return this.parseStringMethod(object, objName, method, args);
+    
+    if (method === 'get' && args.length === 1) {
+      return { type: 'index', object, index: args[0] } as IRIndex;
+    }
+    if (method === 'set' && args.length === 2) {
+      return { type: 'index_assignment', object, index: args[0], value: args[1] } as IRIndexAssignment;
+    }
+    if (method === 'add' && args.length === 1) {
+      return { type: 'call', callee: 'append', args, isMethod: true, object: objName } as IRCall;
+    }
+    return null;
+  }
+
+  // String's methods, String.join and Character's, unless a class of ours defines a method of that name
+  private parseStringMethod(object: IRNode, objName: string, method: string, args: IRNode[]): IRNode | null {
+    if (objName === 'String' && method === 'join' && args.length === 2) {
+      return { type: 'string_method', method: 'join', object: args[0], args: [args[1]] } as IRStringMethod;
+    }
+    if (objName === 'Character') {
+      const characterMethod = stringMethodNamed(JAVA_CHARACTER_METHODS, method);
+      if (!characterMethod || args.length !== 1) return null;
+      return { type: 'string_method', method: characterMethod, object: args[0], args: [] } as IRStringMethod;
+    }
+    if ([...this.classes.values()].some(cls => cls.methods.some(m => m.name === method))) return null;
+    
+    if (method === 'charAt' && args.length === 1) {
+      return { type: 'index', object, index: args[0] } as IRIndex;
+    }
+    if (method === 'substring' && (args.length === 1 || args.length === 2)) {
+      return { type: 'slice', object, start: args[0], end: args[1] } as IRSlice;
+    }
+    const stringMethod = stringMethodNamed(JAVA_STRING_METHODS, method);
+    if (!stringMethod) return null;
+    if (stringMethod === 'split') {
+      return { type: 'string_method', method: stringMethod, object, args: this.splitSeparator(args[0]) } as IRStringMethod;
+    }
+    return { type: 'string_method', method: stringMethod, object, args } as IRStringMethod;
+  }
+  
+  // split takes a regex: "\\s+" splits on whitespace like Python's split(), and an escaped
+  // literal like "\\." stands for its character; a limit argument is dropped
+  private splitSeparator(regex: IRNode | undefined): IRNode[] {
+    if (regex?.type !== 'literal' || (regex as IRLiteral).dataType !== 'string') return regex ? [regex] : [];
+    const value = String((regex as IRLiteral).value);
+    if (value === '\\\\s+' || value === '\\\\s') return [];
+    return [{ ...regex, value: value.replace(/\\\\([^\w\s])/g, '$1') } as IRLiteral];
+  }
+
   private parsePrimary(): IRNode {
+    if (this.isLambda()) return this.parseLambda();
+    
     // Parenthesized
     if (this.match('PUNCTUATION', '(')) {
       this.advance();
@@ -860,10 +1777,73 @@ export class JavaParser {
       return expr;
     }
     
+    // Array initializer like {1, 2, 3}
+    if (this.match('PUNCTUATION', '{')) {
+      this.advance();
+      const elements: IRNode[] = [];
+      while (!this.match('PUNCTUATION', '}') && this.pos < this.tokens.length) {
+        elements.push(this.parseExpression());
+        if (!this.consume('PUNCTUATION', ',')) break;
+      }
+      this.consume('PUNCTUATION', '}');
+      return { type: 'array_literal', elements, elementType: 'auto' } as IRArrayLiteral;
+    }
+    
+    // new int[n] or new int[]{1, 2, 3}
+    if (this.match('KEYWORD', 'new') && this.peek(2)?.value === '[') {
+      this.advance();
+      const elementType = flattenType(this.mapJavaType(this.advance()!.value));
+      this.consume('PUNCTUATION', '[');
+      const size = this.match('PUNCTUATION', ']') ? undefined : this.parseExpression();
+      this.consume('PUNCTUATION', ']');
+      
+      if (this.match('PUNCTUATION', '{')) {
+        const literal = this.parsePrimary() as IRArrayLiteral;
+        literal.elementType = elementType;
+        return literal;
+      }
+      return { type: 'array_literal', elements: [], elementType, size } as IRArrayLiteral;
+    }
+    
+    // new HashMap<>() or new HashMap<>(Map.of(...))
+    if (this.match('KEYWORD', 'new') && JavaParser.MAP_TYPES.includes(this.peek(1)?.value || '')) {
+      this.advance();
+      this.advance();
+      while (!this.match('PUNCTUATION', '(') && this.pos < this.tokens.length) {
+        this.advance();
+      }
+      this.consume('PUNCTUATION', '(');
+      const source = this.match('PUNCTUATION', ')') ? undefined : this.parseExpression();
+      this.consume('PUNCTUATION', ')');
+      
+      const entries = source?.type === 'map_literal' ? (source as IRMapLiteral).entries : [];
+      return { type: 'map_literal', entries, keyType: 'auto', valueType: 'auto' } as IRMapLiteral;
+    }
+    
+    // new ArrayList<>() or new ArrayList<>(Arrays.asList(...))
+    if (this.match('KEYWORD', 'new') && this.peek(1)?.value === 'ArrayList') {
+      this.advance();
+      this.advance();
+      let elementType: PrimitiveType = 'auto';
+      this.consume('PUNCTUATION', '<');
+      if (!this.match('PUNCTUATION', '>')) {
+        elementType = flattenType(this.parseTypeSpec());
+      }
+      this.consume('PUNCTUATION', '>');
+      this.consume('PUNCTUATION', '(');
+      const source = this.match('PUNCTUATION', ')') ? undefined : this.parseExpression();
+      this.consume('PUNCTUATION', ')');
+      
+      const elements = source?.type === 'array_literal' ? (source as IRArrayLiteral).elements : [];
+      return { type: 'array_literal', elements, elementType, isList: true } as IRArrayLiteral;
+    }
+    
     // new keyword
     if (this.match('KEYWORD', 'new')) {
       this.advance();
       const className = this.consume('IDENTIFIER')?.value || 'Object';
+      // new Box<>(value): the declaration carries the type arguments
+      if (this.match('PUNCTUATION', '<')) this.parseTypeArgs(0);
       this.consume('PUNCTUATION', '(');
       const args: IRNode[] = [];
       while (!this.match('PUNCTUATION', ')')) {
@@ -883,7 +1863,7 @@ export class JavaParser {
       this.consume('PUNCTUATION', '(');
       this.consume('PUNCTUATION', ')');
       
-      let targetType: DataType = 'string';
+      let targetType: PrimitiveType = 'string';
       if (method === 'nextInt') targetType = 'int';
       else if (method === 'nextFloat' || method === 'nextDouble') targetType = 'float';
       
@@ -905,6 +1885,9 @@ export class JavaParser {
     // Number
     if (this.match('NUMBER')) {
       const token = this.advance()!;
+      if (/^0[xX]/.test(token.value)) {
+        return { type: 'literal', value: parseInt(token.value.replace(/[lL]$/, ''), 16), dataType: 'int' } as IRLiteral;
+      }
       const value = token.value.replace(/[fFdDlL]/g, '');
       const isFloat = value.includes('.') || token.value.toLowerCase().includes('f');
       return {
@@ -930,6 +1913,23 @@ export class JavaParser {
       return { type: 'literal', value: 'null', dataType: 'void' } as IRLiteral;
     }
     
+    // super(args) and super.method(args)
+    if (this.match('KEYWORD', 'super')) {
+      this.advance();
+      let method: string | undefined;
+      if (this.consume('PUNCTUATION', '.')) {
+        method = this.consume('IDENTIFIER')?.value;
+      }
+      this.consume('PUNCTUATION', '(');
+      const args: IRNode[] = [];
+      while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+        args.push(this.parseExpression());
+        if (!this.consume('PUNCTUATION', ',')) break;
+      }
+      this.consume('PUNCTUATION', ')');
+      return { type: 'super_call', method, args } as IRSuperCall;
+    }
+    
     // this
     if (this.match('KEYWORD', 'this')) {
       this.advance();
@@ -959,16 +1959,29 @@ export class JavaParser {
     return { type: 'literal', value: '', dataType: 'string' } as IRLiteral;
   }
 
-  private mapJavaType(type: string): DataType {
-    const typeMap: Record<string, DataType> = {
+  private mapJavaType(type: string): IRType {
+    const typeMap: Record<string, PrimitiveType> = {
       'int': 'int',
+      'long': 'long',
+      'short': 'short',
+      'byte': 'byte',
       'float': 'float',
       'double': 'double',
       'boolean': 'bool',
       'char': 'char',
       'void': 'void',
       'String': 'string',
+      'Integer': 'int',
+      'Long': 'long',
+      'Short': 'short',
+      'Byte': 'byte',
+      'Float': 'float',
+      'Double': 'double',
+      'Boolean': 'bool',
+      'Character': 'char',
     };
-    return typeMap[type] || 'auto';
+    if (typeMap[type]) return primitiveType(typeMap[type]);
+    if (this.typeParams.has(type)) return { kind: 'type_param', name: type };
+    return this.classes.has(type) ? { kind: 'class', name: type } : primitiveType('auto');
   }
 }
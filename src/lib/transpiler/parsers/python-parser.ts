@@ -16,8 +16,75 @@ import {
   IRIdentifier,
   IRComment,
   IRAssignment,
-  DataType,
+  IRArrayLiteral,
+  IRIndex,
+  IRFieldAccess,
+  IRSlice,
+  IRYield,
+  IRStringMethod,
+  IRMathCall,
+  IRMathConstant,
+  MathFunction,
+  IRIndexAssignment,
+  IRLength,
+  IRMapLiteral,
+  IRContains,
+  IRRemove,
+  IRForEach,
+  IRContinue,
+  IRTry,
+  IRThrow,
+  IRCatchClause,
+  IRSuperCall,
+  IRSwitch,
+  IREnum,
+  IREnumValue,
+  IREnumMethod,
+  IRUnaryOp,
+  IRConditional,
+  IRCompoundAssignment,
+  IRTupleLiteral,
+  IRTupleIndex,
+  IRTupleType,
+  IRDestructure,
+  IRKeywordArg,
+  IRComprehension,
+  IRComprehensionClause,
+  IRLambda,
+  IRFunctionRef,
+  PrimitiveType,
+  IRType,
+  IRMapType,
+  primitiveType,
+  flattenType,
+  isNegativePower,
+  isFlatType,
+  withPrimitive,
+  isAutoType,
+  arrayType,
+  mapType,
+  isArrayType,
+  isListType,
+  isMapType,
+  keyTypeOf,
+  functionType,
+  PYTHON_STRING_METHODS,
+  stringMethodNamed,
+  stringMethodType,
+  PYTHON_MATH_FUNCTIONS,
+  PYTHON_BUILTIN_MATH_FUNCTIONS,
+  mathFunctionNamed,
+  mathFunctionType,
+  PYTHON_MATH_CONSTANTS,
+  mathConstantNamed,
+  fromEnd,
+  findMethod,
+  visitIR,
 } from '../ir';
+import { comprehensionRowsType } from '../transforms/comprehensions';
+
+// Python's division, modulo and power floor where C truncates, so they get their own IR operators
+const ARITHMETIC_OPERATORS: Record<string, string> = { '/': 'true_div', '//': 'floor_div', '%': 'floor_mod', '**': 'pow' };
 
 interface Token {
   type: string;
@@ -32,12 +99,56 @@ export class PythonParser {
   private pos = 0;
   private lines: string[] = [];
   private maxIterations = 10000; // Prevent infinite loops
+  private growableLists = new Set<string>();
+  private maps = new Map<string, IRVariable>();
+  private arrays = new Map<string, IRVariable>();
+  // Variables and params holding a tuple, whose constant indexes pick an element
+  private tuples = new Map<string, IRTupleType>();
+  // Counters of the range loops being parsed that never go below zero, safe to index with as they are
+  private counters = new Set<string>();
+  private variableTypes = new Map<string, PrimitiveType>();
+  // Names bound by `except ... as name`; str(name) is the exception message
+  private exceptionNames = new Set<string>();
+  // Classes parsed so far, used to mark methods that override a superclass method
+  private classes = new Map<string, IRClass>();
+  // Enum classes, found up front so functions defined above them still see Color.RED
+  private enums = new Set<string>();
+  // Variables holding an enum member, by enum name, so their .value is the member's number
+  private enumVariables = new Map<string, string>();
+  // Names declared with TypeVar or in [T] brackets, and those of the generic class being parsed
+  private typeVars = new Set<string>();
+  private classTypeParams: string[] = [];
+  // Names assigned so far in the function being parsed, to tell a, b = b, a from new variables
+  private localNames = new Set<string>();
+  // Scalars declared in the block being parsed or the blocks around it, which the targets' block
+  // scoping lets a later assignment reuse
+  private declaredNames = new Map<string, IRVariable>();
+  // Top-level functions, found up front so they can be passed as values before their def;
+  // those parsed so far give a variable holding one its type
+  private functionNames = new Set<string>();
+  private functions = new Map<string, IRFunction>();
 
   parse(code: string): IRProgram {
     try {
       this.lines = code.split('\n');
       this.tokens = this.tokenize(code);
       this.pos = 0;
+      this.growableLists = this.detectGrowableLists(code);
+      this.maps = new Map();
+      this.arrays = new Map();
+      this.tuples = new Map();
+      this.counters = new Set();
+      this.variableTypes = new Map();
+      this.exceptionNames = new Set();
+      this.classes = new Map();
+      this.enums = this.detectEnums(code);
+      this.enumVariables = new Map();
+      this.functionNames = this.detectFunctions(code);
+      this.functions = new Map();
+      this.typeVars = new Set();
+      this.classTypeParams = [];
+      this.localNames = new Set();
+      this.declaredNames = new Map();
       
       const body: IRNode[] = [];
       let iterations = 0;
@@ -47,6 +158,7 @@ export class PythonParser {
         const node = this.parseStatement(0);
         if (node) body.push(node);
       }
+      this.typeParamsFromCalls(body);
       
       return {
         type: 'program',
@@ -118,7 +230,7 @@ export class PythonParser {
         }
         
         // Numbers
-        const numMatch = remaining.match(/^\d+\.?\d*/);
+        const numMatch = remaining.match(/^0[xX][0-9a-fA-F]+|^\d+\.?\d*/);
         if (numMatch) {
           tokens.push({ type: 'NUMBER', value: numMatch[0], line: lineNum, column: col, indent: lineIndent });
           col += numMatch[0].length;
@@ -130,7 +242,7 @@ export class PythonParser {
         if (wordMatch) {
           const keywords = ['def', 'class', 'if', 'elif', 'else', 'for', 'while', 'return', 
                           'print', 'input', 'in', 'range', 'True', 'False', 'None', 'and', 
-                          'or', 'not', 'self', 'int', 'float', 'str', 'bool'];
+                          'or', 'not', 'self', 'int', 'float', 'str', 'bool', 'lambda', 'yield'];
           const type = keywords.includes(wordMatch[0]) ? 'KEYWORD' : 'IDENTIFIER';
           tokens.push({ type, value: wordMatch[0], line: lineNum, column: col, indent: lineIndent });
           col += wordMatch[0].length;
@@ -138,7 +250,7 @@ export class PythonParser {
         }
         
         // Operators
-        const opMatch = remaining.match(/^(==|!=|<=|>=|<<|>>|\+=|-=|\*=|\/=|->|::|[+\-*/%<>=!&|^~])/);
+        const opMatch = remaining.match(/^(\*\*=|\/\/=|<<=|>>=|\*\*|\/\/|==|!=|<=|>=|<<|>>|\+=|-=|\*=|\/=|%=|&=|\|=|\^=|->|[+\-*/%<>=!&|^~])/);
         if (opMatch) {
           tokens.push({ type: 'OPERATOR', value: opMatch[0], line: lineNum, column: col, indent: lineIndent });
           col += opMatch[0].length;
@@ -146,7 +258,7 @@ export class PythonParser {
         }
         
         // Punctuation
-        const punctMatch = remaining.match(/^[()[\]{},;:.]/);
+        const punctMatch = remaining.match(/^[()[\]{},;:.@]/);
         if (punctMatch) {
           tokens.push({ type: 'PUNCTUATION', value: punctMatch[0], line: lineNum, column: col, indent: lineIndent });
           col += 1;
@@ -187,6 +299,12 @@ export class PythonParser {
     return null;
   }
 
+  private skipLine(): void {
+    while (!this.match('NEWLINE') && this.pos < this.tokens.length) {
+      this.advance();
+    }
+  }
+
   private skipNewlines(): void {
     let count = 0;
     while (this.match('NEWLINE') && count < 100) {
@@ -221,6 +339,36 @@ export class PythonParser {
       } as IRComment;
     }
     
+    // Imports are collected from the source text by detectImports
+    if (this.match('IDENTIFIER', 'import') || this.match('IDENTIFIER', 'from')) {
+      this.skipLine();
+      return this.parseStatement(minIndent);
+    }
+    if (this.match('IDENTIFIER', 'pass')) {
+      this.advance();
+      return this.parseStatement(minIndent);
+    }
+    // T = TypeVar('T') only declares a type parameter
+    if (this.match('IDENTIFIER') && this.peek(1)?.value === '=' && this.peek(2)?.value === 'TypeVar') {
+      this.typeVars.add(this.advance()!.value);
+      this.skipLine();
+      return this.parseStatement(minIndent);
+    }
+    
+    // Decorators; only @abstractmethod carries meaning for the other languages
+    if (this.match('PUNCTUATION', '@')) {
+      this.advance();
+      const start = this.pos;
+      this.skipLine();
+      const decorator = this.tokens.slice(start, this.pos).map(t => t.value).join('');
+      const decorated = this.parseStatement(minIndent);
+      if (decorated?.type === 'function' && /(^|\.)abstractmethod$/.test(decorator)) {
+        (decorated as IRFunction).isAbstract = true;
+        (decorated as IRFunction).body = [];
+      }
+      return decorated;
+    }
+    
     // Function definition
     if (this.match('KEYWORD', 'def')) {
       return this.parseFunctionDef();
@@ -251,6 +399,11 @@ export class PythonParser {
       return this.parseReturn();
     }
     
+    // yield value
+    if (this.match('KEYWORD', 'yield')) {
+      return this.parseYield();
+    }
+    
     // Print statement
     if (this.match('KEYWORD', 'print')) {
       return this.parsePrint();
@@ -261,6 +414,40 @@ export class PythonParser {
       return this.parseInput();
     }
     
+    // break and continue are plain identifiers to the tokenizer
+    if (this.match('IDENTIFIER', 'break')) {
+      this.advance();
+      return { type: 'break' } as IRNode;
+    }
+    if (this.match('IDENTIFIER', 'continue')) {
+      this.advance();
+      return { type: 'continue' } as IRContinue;
+    }
+    
+    // match is only a keyword at the start of a block header
+    if (this.match('IDENTIFIER', 'match') && this.isBlockHeader()) {
+      return this.parseMatch();
+    }
+    
+    // Exception handling
+    if (this.match('IDENTIFIER', 'try') && this.peek(1)?.value === ':') {
+      return this.parseTry();
+    }
+    if (this.match('IDENTIFIER', 'raise')) {
+      return this.parseRaise();
+    }
+    
+    // del d[key]
+    if (this.match('IDENTIFIER', 'del')) {
+      this.advance();
+      const target = this.parseExpression();
+      if (target.type === 'index') {
+        const { object, index } = target as IRIndex;
+        return { type: 'remove', object, key: index } as IRRemove;
+      }
+      return null;
+    }
+    
     // Assignment or expression
     return this.parseAssignmentOrExpression();
   }
@@ -271,35 +458,126 @@ export class PythonParser {
     
     const nameToken = this.consume('IDENTIFIER');
     const name = nameToken?.value || 'unknown';
+    if (this.match('PUNCTUATION', '[')) this.parseTypeParamList();
     
     this.consume('PUNCTUATION', '(');
     const params = this.parseParams();
     this.consume('PUNCTUATION', ')');
+    const outerNames = this.localNames;
+    const outerDeclared = this.declaredNames;
+    this.localNames = new Set(params.map(p => p.name));
+    this.declaredNames = new Map(params.map(p => [p.name, p]));
+    
+    // -> float
+    let annotatedType: IRType | undefined;
+    if (this.match('OPERATOR', '->')) {
+      this.advance();
+      annotatedType = this.parseTypeAnnotation();
+      while (!this.match('PUNCTUATION', ':') && !this.match('NEWLINE') && this.pos < this.tokens.length) {
+        this.advance();
+      }
+    }
     this.consume('PUNCTUATION', ':');
     this.skipNewlines();
     
     // Parse function body - only statements with indent > functionIndent
     const body = this.parseBlock(functionIndent);
-    
-    // Infer return type from return statements
-    let returnType: DataType = 'void';
-    for (const stmt of body) {
-      if (stmt.type === 'return') {
-        const retStmt = stmt as IRReturn;
-        if (retStmt.value) {
-          returnType = this.inferType(retStmt.value);
-        }
-        break;
-      }
+    this.localNames = outerNames;
+    this.declaredNames = outerDeclared;
+    this.markParamTypes(params, body);
+    
+    // Infer return type from return statements, including those nested in blocks
+    let returnType = annotatedType || primitiveType('void');
+    const retStmt = this.findReturn(body, true) || this.findReturn(body);
+    if (retStmt?.value && !annotatedType) {
+      // return a, b
+      returnType = retStmt.value.type === 'tuple_literal'
+        ? this.tupleType(retStmt.value as IRTupleLiteral)
+        : primitiveType(this.inferType(retStmt.value));
+      // return counts, where counts is a dict
+      const map = retStmt.value.type === 'identifier' && this.maps.get((retStmt.value as IRIdentifier).name);
+      if (map) returnType = map.dataType;
     }
+    // A function that yields produces its values one at a time
+    const yieldStmt = this.findYield(body);
+    if (yieldStmt && !annotatedType) returnType = primitiveType(this.inferType(yieldStmt.value));
     
-    return {
+    const func: IRFunction = {
       type: 'function',
       name,
       params,
       returnType,
       body,
     };
+    if (yieldStmt) func.isGenerator = true;
+    this.functions.set(name, func);
+    // Type variables in the signature make the function generic, unless they belong to its class
+    const typeParams = new Set<string>();
+    this.collectTypeParams([params.map(p => p.dataType), returnType], typeParams);
+    this.classTypeParams.forEach(name => typeParams.delete(name));
+    if (typeParams.size > 0) func.typeParams = [...typeParams].map(name => ({ name }));
+    return func;
+  }
+
+  // [T, U] after a function or class name
+  private parseTypeParamList(): string[] {
+    const names: string[] = [];
+    this.consume('PUNCTUATION', '[');
+    while (this.match('IDENTIFIER')) {
+      names.push(this.advance()!.value);
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.consume('PUNCTUATION', ']');
+    names.forEach(name => this.typeVars.add(name));
+    return names;
+  }
+
+  private collectTypeParams(value: unknown, names: Set<string>): void {
+    visitIR(value, node => {
+      const type = node as unknown as IRType;
+      if (type.kind === 'type_param') names.add(type.name);
+    });
+  }
+
+  // With typed set, only a return whose value has a known type counts, so return -1 types
+  // a function that also returns a loop index
+  private findReturn(value: unknown, typed = false): IRReturn | undefined {
+    let found: IRReturn | undefined;
+    visitIR(value, node => {
+      if (found || node.type === 'function' || node.type === 'class') return false;
+      if (node.type !== 'return') return;
+      const returned = (node as IRReturn).value;
+      if (!typed || (returned && this.inferType(returned) !== 'auto')) found = node as IRReturn;
+      return false;
+    });
+    return found;
+  }
+
+  private findCall(value: unknown, callee: string): IRCall | undefined {
+    let found: IRCall | undefined;
+    visitIR(value, node => {
+      if (found) return false;
+      if (node.type === 'call' && (node as IRCall).callee === callee && !(node as IRCall).isMethod) found = node as IRCall;
+    });
+    return found;
+  }
+
+  private findVariable(value: unknown, name: string): IRVariable | undefined {
+    let found: IRVariable | undefined;
+    visitIR(value, node => {
+      if (found || node.type === 'function' || node.type === 'class' || node.type === 'lambda') return false;
+      if (node.type === 'variable' && (node as IRVariable).name === name) found = node as IRVariable;
+    });
+    return found;
+  }
+
+  private findYield(value: unknown): IRYield | undefined {
+    let found: IRYield | undefined;
+    visitIR(value, node => {
+      if (found || node.type === 'function' || node.type === 'class' || node.type === 'lambda') return false;
+      if (node.type === 'yield') found = node as IRYield;
+    });
+    return found;
   }
 
   private parseParams(): IRVariable[] {
@@ -314,22 +592,41 @@ export class PythonParser {
       
       const nameToken = this.consume('IDENTIFIER');
       if (nameToken) {
-        let dataType: DataType = 'auto';
+        let dataType = primitiveType('auto');
         
         // Type annotation
         if (this.match('PUNCTUATION', ':')) {
           this.advance();
-          const typeToken = this.consume('KEYWORD') || this.consume('IDENTIFIER');
-          if (typeToken) {
-            dataType = this.mapPythonType(typeToken.value);
+          if (this.enums.has(this.peek()?.value || '')) {
+            dataType = { kind: 'enum', name: this.advance()!.value };
+          } else {
+            dataType = this.parseTypeAnnotation();
+            // A list param takes any sequence, as an array does
+            if (isArrayType(dataType)) dataType = arrayType(dataType.element);
           }
         }
         
-        params.push({
+        // greeting="Hello"; the default gives an unannotated parameter its type. A None default
+        // makes it nullable, of the type its calls or its function's returns give it
+        let defaultValue: IRNode | undefined;
+        if (this.consume('OPERATOR', '=')) {
+          defaultValue = this.parseExpression();
+          const isNone = defaultValue.type === 'literal' && (defaultValue as IRLiteral).value === 'null';
+          if (isAutoType(dataType)) dataType = isNone ? { kind: 'nullable', inner: dataType } : primitiveType(this.inferType(defaultValue));
+        }
+        
+        const param: IRVariable = {
           type: 'variable',
           name: nameToken.value,
           dataType,
-        });
+        };
+        if (defaultValue) param.defaultValue = defaultValue;
+        if (flattenType(dataType) !== 'auto' && !isArrayType(dataType) && !isMapType(dataType)) {
+          this.variableTypes.set(nameToken.value, flattenType(dataType));
+        }
+        if (isMapType(dataType)) this.maps.set(param.name, param);
+        if (dataType.kind === 'tuple') this.tuples.set(param.name, dataType);
+        params.push(param);
       }
       
       if (!this.consume('PUNCTUATION', ',')) break;
@@ -341,6 +638,7 @@ export class PythonParser {
   private parseBlock(parentIndent: number): IRNode[] {
     const statements: IRNode[] = [];
     const blockIndent = parentIndent + 4; // Python standard indent
+    const outerDeclared = new Map(this.declaredNames);
     let iterations = 0;
     
     while (this.pos < this.tokens.length && iterations < this.maxIterations) {
@@ -363,25 +661,89 @@ export class PythonParser {
       }
     }
     
+    this.declaredNames = outerDeclared;
     return statements;
   }
 
-  private parseClassDef(): IRClass {
+  private isBlockHeader(): boolean {
+    let offset = 0;
+    while (this.peek(offset + 1) && this.peek(offset + 1)!.type !== 'NEWLINE') offset++;
+    return this.peek(offset)?.value === ':';
+  }
+
+  // match/case with value patterns (literals, Color.RED); case _ is the default
+  private parseMatch(): IRSwitch {
+    const matchToken = this.consume('IDENTIFIER', 'match')!;
+    const expression = this.parseExpression();
+    this.consume('PUNCTUATION', ':');
+    this.skipNewlines();
+    
+    const cases: { value: IRNode; body: IRNode[] }[] = [];
+    let defaultBody: IRNode[] | undefined;
+    while (this.match('IDENTIFIER', 'case') && this.peek()!.indent > matchToken.indent) {
+      const caseToken = this.advance()!;
+      const isDefault = this.match('IDENTIFIER', '_') && this.peek(1)?.value === ':';
+      if (isDefault) this.advance();
+      const value = isDefault ? undefined : this.parseExpression();
+      this.consume('PUNCTUATION', ':');
+      this.skipNewlines();
+      const body = this.parseBlock(caseToken.indent);
+      if (value) cases.push({ value, body });
+      else defaultBody = body;
+    }
+    
+    return { type: 'switch', expression, cases, defaultBody } as IRSwitch;
+  }
+
+  private parseClassDef(): IRClass | IREnum {
     const classToken = this.consume('KEYWORD', 'class')!;
     const classIndent = classToken.indent;
     
     const nameToken = this.consume('IDENTIFIER');
     const name = nameToken?.value || 'Unknown';
+    const typeParams = this.match('PUNCTUATION', '[') ? this.parseTypeParamList() : [];
+    
+    // class Dog(Animal, Comparable): known interfaces are implemented, and the
+    // first other base is the superclass. ABC only marks the class abstract; Generic[T] makes it generic.
+    let superclass: string | undefined;
+    const interfaces: string[] = [];
+    let isAbstract = false;
+    const isEnum = this.enums.has(name);
+    if (this.match('PUNCTUATION', '(')) {
+      this.advance();
+      while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+        const base = this.advance()!;
+        if (base.type !== 'IDENTIFIER' || base.value === 'object') continue;
+        // metaclass=ABCMeta
+        if (this.match('OPERATOR', '=')) {
+          this.advance();
+          if (this.advance()?.value === 'ABCMeta') isAbstract = true;
+        } else if (base.value === 'ABC') {
+          isAbstract = true;
+        } else if (base.value === 'Generic' && this.match('PUNCTUATION', '[')) {
+          typeParams.push(...this.parseTypeParamList());
+        } else if (this.classes.get(base.value)?.isInterface) {
+          interfaces.push(base.value);
+        } else if (!superclass) {
+          superclass = base.value;
+        }
+      }
+      this.consume('PUNCTUATION', ')');
+    }
     
     this.consume('PUNCTUATION', ':');
     this.skipNewlines();
+    if (isEnum) return this.parseEnumBody(name, classIndent);
     
     const members: IRVariable[] = [];
     const methods: IRFunction[] = [];
     let constructor: IRFunction | undefined;
     
     // Parse class body
+    const outerTypeParams = this.classTypeParams;
+    this.classTypeParams = typeParams;
     const body = this.parseBlock(classIndent);
+    this.classTypeParams = outerTypeParams;
     
     for (const node of body) {
       if (node.type === 'function') {
@@ -393,27 +755,95 @@ export class PythonParser {
             if (stmt.type === 'assignment') {
               const assign = stmt as IRAssignment;
               if (assign.target.startsWith('self.')) {
-                members.push({
+                const member: IRVariable = {
                   type: 'variable',
                   name: assign.target.replace('self.', ''),
-                  dataType: 'auto',
-                });
+                  dataType: primitiveType(this.variableTypes.get(assign.target) || 'auto'),
+                };
+                // self.value = value takes the parameter's declared type
+                const param = assign.value.type === 'identifier' ?
+                  func.params.find(p => p.name === (assign.value as IRIdentifier).name) : undefined;
+                if (param && !isFlatType(param.dataType)) member.dataType = param.dataType;
+                if (assign.value.type === 'array_literal') {
+                  member.dataType = arrayType(primitiveType((assign.value as IRArrayLiteral).elementType));
+                }
+                if (assign.value.type === 'map_literal') {
+                  const literal = assign.value as IRMapLiteral;
+                  member.dataType = mapType(primitiveType(literal.keyType), primitiveType(literal.valueType));
+                }
+                members.push(member);
               }
             }
           }
         } else {
+          const bases = superclass ? [superclass, ...interfaces] : interfaces;
+          const overridden = bases.map(base => findMethod(this.classes, base, func.name)).find(Boolean);
+          if (overridden) func.isOverride = true;
+          // An abstract method's body is only pass, so its overrides tell what it returns
+          if (overridden?.isAbstract && flattenType(overridden.returnType) === 'void') overridden.returnType = func.returnType;
           methods.push(func);
         }
       }
     }
     
-    return {
+    const result: IRClass = {
       type: 'class',
       name,
+      superclass,
       members,
       methods,
       constructor,
     };
+    if (typeParams.length > 0) result.typeParams = typeParams.map(name => ({ name }));
+    if (interfaces.length > 0) result.interfaces = interfaces;
+    if (isAbstract || methods.some(m => m.isAbstract)) {
+      result.isAbstract = true;
+      // A pure ABC with nothing but abstract methods is an interface
+      if (!superclass && !constructor && members.length === 0 && methods.length > 0 &&
+          methods.every(m => m.isAbstract)) {
+        result.isInterface = true;
+      }
+    }
+    this.classes.set(name, result);
+    return result;
+  }
+
+  // RED = 1 or GREEN = auto(); auto() counts on from the previous value, starting at 1
+  private parseEnumBody(name: string, classIndent: number): IREnum {
+    const members: IREnum['members'] = [];
+    let previous = 0;
+    while (this.pos < this.tokens.length) {
+      this.skipNewlines();
+      const token = this.peek();
+      if (!token || token.indent <= classIndent) break;
+      if (token.type === 'IDENTIFIER' && this.peek(1)?.value === '=') {
+        this.advance();
+        this.advance();
+        const value = this.parseExpression();
+        const member: IREnum['members'][number] = { name: token.value };
+        const constant = this.constantValue(value);
+        if (constant !== undefined) {
+          member.value = constant;
+        } else if (value.type === 'call' && (value as IRCall).callee === 'auto') {
+          member.value = previous + 1;
+        }
+        if (member.value !== undefined) previous = member.value;
+        members.push(member);
+      }
+      this.skipLine();
+    }
+    return { type: 'enum', name, members };
+  }
+
+  private constantValue(node: IRNode): number | undefined {
+    if (node.type === 'literal' && typeof (node as IRLiteral).value === 'number') {
+      return (node as IRLiteral).value as number;
+    }
+    if (node.type === 'unary_op' && (node as IRUnaryOp).operator === '-') {
+      const value = this.constantValue((node as IRUnaryOp).operand);
+      return value === undefined ? undefined : -value;
+    }
+    return undefined;
   }
 
   private parseIf(minIndent: number): IRIf {
@@ -485,13 +915,19 @@ export class PythonParser {
     };
   }
 
-  private parseFor(minIndent: number): IRFor {
+  private parseFor(minIndent: number): IRFor | IRForEach {
     const forToken = this.consume('KEYWORD', 'for')!;
     const forIndent = forToken.indent;
     
     const iterToken = this.consume('IDENTIFIER');
     const iterator = iterToken?.value || 'i';
     
+    // Second target, as in `for key, value in d.items()`
+    let valueIterator: string | undefined;
+    if (this.consume('PUNCTUATION', ',')) {
+      valueIterator = this.consume('IDENTIFIER')?.value;
+    }
+    
     this.consume('KEYWORD', 'in');
     
     // Check for range()
@@ -508,7 +944,10 @@ export class PythonParser {
       this.consume('PUNCTUATION', ':');
       this.skipNewlines();
       
+      const counted = this.counters.has(iterator);
+      if (this.countsFromZero(args)) this.counters.add(iterator);
       const body = this.parseBlock(forIndent);
+      if (!counted) this.counters.delete(iterator);
       
       let rangeStart: IRNode = { type: 'literal', value: 0, dataType: 'int' } as IRLiteral;
       let rangeEnd: IRNode;
@@ -535,18 +974,115 @@ export class PythonParser {
       };
     }
     
-    // Other iterable
-    const iterable = this.parseExpression();
+    // Other iterable; a tuple looped over is a list all the same
+    let iterable = this.parseExpression();
+    // count_words(text).items(): a dict returned by a call, walked in place
+    let mapMethod: string | undefined;
+    const receiver = iterable.type === 'call' ? (iterable as IRCall).receiver : undefined;
+    if (receiver && this.returnedMap(receiver) && ['keys', 'values', 'items'].includes((iterable as IRCall).callee)) {
+      mapMethod = (iterable as IRCall).callee;
+      iterable = receiver;
+    }
+    if (iterable.type === 'tuple_literal') {
+      const elements = (iterable as IRTupleLiteral).elements;
+      const elementType = elements.length > 0 ? this.inferType(elements[0]) : 'auto';
+      iterable = { type: 'array_literal', elements, elementType, isList: true } as IRArrayLiteral;
+    }
     this.consume('PUNCTUATION', ':');
     this.skipNewlines();
-    const body = this.parseBlock(forIndent);
     
-    return {
-      type: 'for',
-      iterator,
-      condition: iterable,
-      body,
+    // Iteration over a dict, its keys(), its values() or its items()
+    const returned = this.returnedMap(iterable);
+    const map = returned ? { name: '', dataType: returned } : this.getMapIterable(iterable);
+    if (map) {
+      const overValues = returned ? mapMethod === 'values' : iterable.type === 'call' && (iterable as IRCall).callee === 'values';
+      this.variableTypes.set(iterator, overValues ? flattenType(map.dataType) : keyTypeOf(map.dataType));
+      if (valueIterator) this.variableTypes.set(valueIterator, flattenType(map.dataType));
+      const body = this.parseBlock(forIndent);
+      const loop: IRForEach = {
+        type: 'for_each',
+        iterator,
+        valueIterator,
+        iterable: returned ? iterable : { type: 'identifier', name: map.name } as IRIdentifier,
+        body,
+      };
+      if (overValues) loop.overValues = true;
+      return loop;
+    }
+    
+    // The members of an enum, in order
+    if (!valueIterator && iterable.type === 'identifier' && this.enums.has((iterable as IRIdentifier).name)) {
+      const enumName = (iterable as IRIdentifier).name;
+      this.enumVariables.set(iterator, enumName);
+      const body = this.parseBlock(forIndent);
+      const members: IREnumMethod = { type: 'enum_method', method: 'values', enumName };
+      return { type: 'for', iterator, iteratorType: { kind: 'enum', name: enumName }, iterable: members, body };
+    }
+    
+    // Elements of a list, a string or any other iterable
+    if (!valueIterator) {
+      const iteratorType = this.elementType(iterable);
+      this.variableTypes.set(iterator, this.iteratedType(iterable));
+      const body = this.parseBlock(forIndent);
+      return { type: 'for', iterator, iteratorType, iterable, body };
+    }
+    
+    // for i, x in enumerate(xs): a counted loop that takes each item by its index
+    const call = iterable as IRCall;
+    if (iterable.type === 'call' && !call.isMethod && call.callee === 'enumerate' && call.args.length > 0) {
+      const [items, start] = call.args;
+      this.variableTypes.set(iterator, 'int');
+      this.variableTypes.set(valueIterator, this.iteratedType(items));
+      [iterator, valueIterator].forEach(name => this.localNames.add(name));
+      const body = this.parseBlock(forIndent);
+      const counter: IRIdentifier = { type: 'identifier', name: iterator };
+      const position = start ? { type: 'binary_op', operator: '-', left: counter, right: start } as IRBinaryOp : counter;
+      const item: IRVariable = {
+        type: 'variable',
+        name: valueIterator,
+        dataType: this.elementType(items),
+        value: { type: 'index', object: items, index: position } as IRIndex,
+      };
+      const length: IRNode = { type: 'length', object: items } as IRLength;
+      return {
+        type: 'for',
+        iterator,
+        rangeStart: start || { type: 'literal', value: 0, dataType: 'int' } as IRLiteral,
+        rangeEnd: start ? { type: 'binary_op', operator: '+', left: length, right: start } as IRBinaryOp : length,
+        rangeStep: { type: 'literal', value: 1, dataType: 'int' } as IRLiteral,
+        body: [item, ...body],
+      };
+    }
+    
+    // for a, b in pairs: each item is unpacked into the targets
+    const item = `${iterator}_${valueIterator}`;
+    this.variableTypes.set(item, this.iteratedType(iterable));
+    [iterator, valueIterator].forEach(name => this.localNames.add(name));
+    const body = this.parseBlock(forIndent);
+    const unpack: IRDestructure = {
+      type: 'destructure',
+      targets: [iterator, valueIterator],
+      value: { type: 'identifier', name: item } as IRIdentifier,
+      isDeclaration: true,
     };
+    return { type: 'for', iterator: item, iteratorType: this.elementType(iterable), iterable, body: [unpack, ...body] };
+  }
+
+  // The dict type of a call to a function that returns one
+  private returnedMap(node: IRNode): IRMapType | undefined {
+    const returned = node.type === 'call' && !(node as IRCall).isMethod ? this.functions.get((node as IRCall).callee)?.returnType : undefined;
+    return returned && isMapType(returned) ? returned : undefined;
+  }
+
+  private getMapIterable(iterable: IRNode): IRVariable | undefined {
+    if (iterable.type === 'identifier') return this.maps.get((iterable as IRIdentifier).name);
+    if (iterable.type === 'call') {
+      const call = iterable as IRCall;
+      if (call.isMethod && call.object && ['keys', 'values', 'items'].includes(call.callee)) {
+        return this.maps.get(call.object);
+      }
+    }
+    return undefined;
   }
 
   private parseWhile(minIndent: number): IRWhile {
@@ -566,6 +1102,91 @@ export class PythonParser {
     };
   }
 
+  private parseTry(): IRTry {
+    const tryToken = this.advance()!;
+    const tryIndent = tryToken.indent;
+    this.consume('PUNCTUATION', ':');
+    this.skipNewlines();
+    
+    const body = this.parseBlock(tryIndent);
+    const handlers: IRCatchClause[] = [];
+    let finallyBody: IRNode[] | undefined;
+    
+    this.skipNewlines();
+    while (this.peek()?.indent === tryIndent && this.match('IDENTIFIER', 'except')) {
+      this.advance();
+      
+      // except:, except ValueError:, except (ValueError, KeyError) as e:
+      const exceptionTypes: string[] = [];
+      if (this.match('PUNCTUATION', '(')) {
+        this.advance();
+        while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+          exceptionTypes.push(this.advance()!.value);
+          if (!this.consume('PUNCTUATION', ',')) break;
+        }
+        this.consume('PUNCTUATION', ')');
+      } else if (this.match('IDENTIFIER') && this.peek()?.value !== 'as') {
+        exceptionTypes.push(this.advance()!.value);
+      }
+      
+      let name: string | undefined;
+      if (this.match('IDENTIFIER', 'as')) {
+        this.advance();
+        name = this.consume('IDENTIFIER')?.value;
+      }
+      if (name) {
+        this.exceptionNames.add(name);
+        this.variableTypes.set(name, 'string');
+      }
+      this.consume('PUNCTUATION', ':');
+      this.skipNewlines();
+      
+      handlers.push({ exceptionTypes, name, body: this.parseBlock(tryIndent) });
+      this.skipNewlines();
+    }
+    
+    if (this.peek()?.indent === tryIndent && this.match('IDENTIFIER', 'finally')) {
+      this.advance();
+      this.consume('PUNCTUATION', ':');
+      this.skipNewlines();
+      finallyBody = this.parseBlock(tryIndent);
+    }
+    
+    return { type: 'try', body, handlers, finallyBody };
+  }
+
+  private parseRaise(): IRThrow {
+    this.advance();
+    
+    // Bare raise re-raises the exception being handled
+    if (this.match('NEWLINE') || this.pos >= this.tokens.length) {
+      return { type: 'throw' };
+    }
+    
+    const value = this.parseExpression();
+    if (value.type === 'call') {
+      const call = value as IRCall;
+      return { type: 'throw', exceptionType: call.callee, message: call.args[0] };
+    }
+    if (value.type === 'identifier' && !this.exceptionNames.has((value as IRIdentifier).name)) {
+      return { type: 'throw', exceptionType: (value as IRIdentifier).name };
+    }
+    return { type: 'throw' };
+  }
+
+  // yield value, or yield from xs: each element of xs in turn
+  private parseYield(): IRNode {
+    this.consume('KEYWORD', 'yield');
+    if (this.match('IDENTIFIER', 'from')) {
+      this.advance();
+      const iterable = this.parseExpression();
+      const iterator = 'item';
+      const value: IRIdentifier = { type: 'identifier', name: iterator };
+      return { type: 'for', iterator, iteratorType: this.elementType(iterable), iterable, body: [{ type: 'yield', value } as IRYield] } as IRFor;
+    }
+    return { type: 'yield', value: this.parseTupleOrExpression() } as IRYield;
+  }
+
   private parseReturn(): IRReturn {
     this.consume('KEYWORD', 'return');
     
@@ -573,34 +1194,61 @@ export class PythonParser {
       return { type: 'return' };
     }
     
-    const value = this.parseExpression();
+    const value = this.parseTupleOrExpression();
     return { type: 'return', value };
   }
 
+  // a, b without parentheses, as returned or assigned
+  private parseTupleOrExpression(): IRNode {
+    const first = this.parseExpression();
+    if (!this.match('PUNCTUATION', ',')) return first;
+    const elements = [first];
+    while (this.consume('PUNCTUATION', ',') && !this.match('NEWLINE') && this.pos < this.tokens.length) {
+      elements.push(this.parseExpression());
+    }
+    return { type: 'tuple_literal', elements } as IRTupleLiteral;
+  }
+
+  private tupleType(node: IRTupleLiteral): IRType {
+    return { kind: 'tuple', elements: node.elements.map(e => primitiveType(this.inferType(e))) };
+  }
+
+  // An int later given a fraction, by x /= 2 or x = 2.5, is declared with the fraction's type
+  private widenToFraction(name: string, type: PrimitiveType): void {
+    const declared = this.declaredNames.get(name);
+    if (!declared || flattenType(declared.dataType) !== 'int') return;
+    declared.dataType = declared.dataType.kind === 'nullable' ? { kind: 'nullable', inner: primitiveType(type) } : primitiveType(type);
+    this.variableTypes.set(name, type);
+  }
+
   private parsePrint(): IRPrint {
     this.consume('KEYWORD', 'print');
     this.consume('PUNCTUATION', '(');
     
-    const args: IRNode[] = [];
-    
-    while (!this.match('PUNCTUATION', ')') && args.length < 20) {
-      // Check for keyword arguments like end=''
+    const print: IRPrint = { type: 'print', args: [], newline: true };
+    while (!this.match('PUNCTUATION', ')') && print.args.length < 20) {
+      // Keyword arguments sep= and end=; an empty end keeps the line open and '\n' is the default
       if (this.match('IDENTIFIER', 'end') || this.match('IDENTIFIER', 'sep')) {
-        // Skip keyword argument
-        this.advance(); // skip 'end' or 'sep'
+        const keyword = this.advance()!.value;
         this.consume('OPERATOR', '=');
-        this.parseExpression(); // skip the value
+        const value = this.parseExpression();
+        const text = value.type === 'literal' ? (value as IRLiteral).value : undefined;
+        if (keyword === 'sep' && text !== ' ') print.separator = value;
+        if (keyword === 'end' && text !== '\\n') {
+          print.newline = false;
+          if (text !== '') print.end = value;
+        }
         if (!this.consume('PUNCTUATION', ',')) break;
         continue;
       }
       
-      args.push(this.parseExpression());
+      print.args.push(this.parseExpression());
       if (!this.consume('PUNCTUATION', ',')) break;
     }
     
     this.consume('PUNCTUATION', ')');
     
-    return { type: 'print', args, newline: true };
+    return print;
   }
 
   private parseInput(): IRInput {
@@ -625,19 +1273,42 @@ export class PythonParser {
     
     if (!left) return null;
     
+    // q, r = divmod(a, b) and a, b = b, a
+    if (left.type === 'identifier' && this.match('PUNCTUATION', ',')) {
+      const targets = [(left as IRIdentifier).name];
+      while (this.consume('PUNCTUATION', ',') && this.match('IDENTIFIER')) targets.push(this.advance()!.value);
+      this.consume('OPERATOR', '=');
+      return this.parseDestructure(targets);
+    }
+    
     // Check for assignment
     if (this.match('OPERATOR', '=')) {
       this.advance();
-      const value = this.parseExpression();
+      const value = this.parseTupleOrExpression();
+      
+      // Element assignment like a[i] = value
+      if (left.type === 'index') {
+        const target = left as IRIndex;
+        this.refineMapTypes(target.object, target.index, value);
+        const assignment: IRIndexAssignment = {
+          type: 'index_assignment',
+          object: target.object,
+          index: target.index,
+          value,
+        };
+        if (target.wraps) assignment.wraps = true;
+        return assignment;
+      }
       
       if (left.type === 'identifier') {
         const target = (left as IRIdentifier).name;
+        if (!target.includes('.')) this.localNames.add(target);
         
         // Special case: assignment from input with type cast like i=int(input())
         // The value will be a call to 'int' with an IRInput arg
         if (value.type === 'call') {
           const call = value as IRCall;
-          const typeMap: Record<string, DataType> = {
+          const typeMap: Record<string, PrimitiveType> = {
             'int': 'int',
             'float': 'float',
             'str': 'string',
@@ -650,7 +1321,7 @@ export class PythonParser {
             return {
               type: 'variable',
               name: target,
-              dataType: typeMap[call.callee],
+              dataType: primitiveType(typeMap[call.callee]),
               value: {
                 ...inputNode,
                 targetVar: target,
@@ -665,7 +1336,7 @@ export class PythonParser {
           return {
             type: 'variable',
             name: target,
-            dataType: 'string',
+            dataType: primitiveType('string'),
             value: {
               ...value,
               targetVar: target,
@@ -674,14 +1345,122 @@ export class PythonParser {
           } as IRVariable;
         }
         
+        // List literal or sized list like [0] * n
+        if (value.type === 'array_literal' && !target.includes('.')) {
+          const isList = this.growableLists.has(target);
+          let element = primitiveType((value as IRArrayLiteral).elementType);
+          // [[1, 2], [3, 4]] is a list of lists
+          const rows = (value as IRArrayLiteral).elements;
+          if (rows.length > 0 && rows.every(row => row.type === 'array_literal')) element = arrayType(element, isList);
+          // [(1, 2), (3, 4)] is a list of tuples
+          if (rows.length > 0 && rows.every(row => row.type === 'tuple_literal')) element = this.tupleType(rows[0] as IRTupleLiteral);
+          // [Circle(1), Square(2)] is a list of Shape instances
+          const instanceClass = this.instancesClass(rows);
+          if (instanceClass) element = { kind: 'class', name: instanceClass };
+          const variable: IRVariable = { type: 'variable', name: target, dataType: arrayType(element, isList), value };
+          this.arrays.set(target, variable);
+          return variable;
+        }
+        
+        // Comprehensions build a list, a set or a dict; generator expressions are kept as lists
+        if (value.type === 'comprehension' && !target.includes('.')) {
+          const comprehension = value as IRComprehension;
+          const element = primitiveType(comprehension.elementType);
+          const variable: IRVariable = { type: 'variable', name: target, dataType: element, value };
+          if (comprehension.kind === 'dict') {
+            variable.dataType = mapType(primitiveType(comprehension.keyType || 'auto'), element);
+            this.maps.set(target, variable);
+          } else {
+            const list = arrayType(element, true);
+            variable.dataType = comprehensionRowsType(comprehension) || (comprehension.kind === 'set' ? { ...list, isSet: true } : list);
+            this.arrays.set(target, variable);
+          }
+          return variable;
+        }
+        
+        // A slice of a list is a list of the same kind
+        const sliced = value.type === 'slice' && (value as IRSlice).object.type === 'identifier'
+          && this.arrays.get(((value as IRSlice).object as IRIdentifier).name);
+        if (sliced && !target.includes('.')) {
+          const isList = isListType(sliced.dataType) || this.growableLists.has(target);
+          const variable: IRVariable = {
+            type: 'variable',
+            name: target,
+            dataType: arrayType(isArrayType(sliced.dataType) ? sliced.dataType.element : sliced.dataType, isList),
+            value,
+          };
+          this.arrays.set(target, variable);
+          return variable;
+        }
+        
+        // s.split() gives an array of strings
+        if (value.type === 'string_method' && (value as IRStringMethod).method === 'split' && !target.includes('.')) {
+          const variable: IRVariable = {
+            type: 'variable',
+            name: target,
+            dataType: arrayType(primitiveType('string'), this.growableLists.has(target)),
+            value,
+          };
+          this.arrays.set(target, variable);
+          return variable;
+        }
+        
+        // Dict literal
+        if (value.type === 'map_literal' && !target.includes('.')) {
+          const literal = value as IRMapLiteral;
+          const variable: IRVariable = {
+            type: 'variable',
+            name: target,
+            dataType: mapType(primitiveType(literal.keyType), primitiveType(literal.valueType)),
+            value,
+          };
+          this.maps.set(target, variable);
+          return variable;
+        }
+        
+        // Assigning a scalar in scope again, where x = None then x = 5 makes x an int that may be None
+        const declared = this.declaredNames.get(target);
+        const scalar = declared && (declared.dataType.kind === 'primitive' || declared.dataType.kind === 'nullable');
+        if (scalar && !['lambda', 'function_ref', 'tuple_literal', 'enum_value'].includes(value.type)) {
+          const type = this.inferType(value);
+          if (flattenType(declared.dataType) === 'void' && type !== 'void' && type !== 'auto') {
+            declared.dataType = { kind: 'nullable', inner: primitiveType(type) };
+            this.variableTypes.set(target, type);
+          }
+          if (type === 'double' || type === 'float') this.widenToFraction(target, type);
+          return { type: 'assignment', target, value } as IRAssignment;
+        }
+        
         // Check if it's a new variable declaration
         if (!target.includes('.')) {
-          return {
+          const dataType = this.inferType(value);
+          if (!this.variableTypes.has(target)) this.variableTypes.set(target, dataType);
+          const variable: IRVariable = {
             type: 'variable',
             name: target,
-            dataType: this.inferType(value),
+            dataType: primitiveType(dataType),
             value,
-          } as IRVariable;
+          };
+          if (value.type === 'enum_value') {
+            variable.dataType = { kind: 'enum', name: (value as IREnumValue).enumName };
+            this.enumVariables.set(target, variable.dataType.name);
+          }
+          if (value.type === 'tuple_literal') variable.dataType = this.tupleType(value as IRTupleLiteral);
+          if (value.type === 'lambda') variable.dataType = functionType(value as IRLambda);
+          const referenced = value.type === 'function_ref' && this.functions.get((value as IRFunctionRef).name);
+          if (referenced) variable.dataType = functionType(referenced);
+          // add3 = make_adder(3) holds the function make_adder returns, q = divmod(a, b) its tuple
+          const returned = value.type === 'call' && this.functions.get((value as IRCall).callee)?.returnType;
+          if (returned && (returned.kind === 'function' || returned.kind === 'tuple' || isMapType(returned))) variable.dataType = returned;
+          if (variable.dataType.kind === 'tuple') this.tuples.set(target, variable.dataType);
+          if (isMapType(variable.dataType)) this.maps.set(target, variable);
+          this.declaredNames.set(target, variable);
+          return variable;
+        }
+        
+        // self.x = ... records the attribute's type for members and return types
+        if (target.startsWith('self.') && !this.variableTypes.has(target)) {
+          this.variableTypes.set(target, this.inferType(value));
         }
         
         return {
@@ -693,33 +1472,76 @@ export class PythonParser {
     }
     
     // Compound assignment
-    const compoundOps = ['+=', '-=', '*=', '/='];
-    for (const op of compoundOps) {
-      if (this.match('OPERATOR', op)) {
-        this.advance();
-        const right = this.parseExpression();
-        
-        if (left.type === 'identifier') {
-          return {
-            type: 'assignment',
-            target: (left as IRIdentifier).name,
-            value: {
-              type: 'binary_op',
-              operator: op[0],
-              left,
-              right,
-            } as IRBinaryOp,
-          } as IRAssignment;
-        }
-      }
+    const compoundOps = ['+=', '-=', '*=', '/=', '//=', '%=', '**=', '<<=', '>>=', '&=', '|=', '^='];
+    if (compoundOps.some(op => this.match('OPERATOR', op)) && (left.type === 'index' || left.type === 'identifier')) {
+      const op = this.advance()!.value.slice(0, -1);
+      const value = this.parseExpression();
+      if (op === '/' && left.type === 'identifier') this.widenToFraction((left as IRIdentifier).name, 'double');
+      return { type: 'compound_assignment', target: left, operator: ARITHMETIC_OPERATORS[op] || op, value } as IRCompoundAssignment;
     }
     
     // Just an expression (like a function call)
     return left;
   }
 
+  private parseDestructure(targets: string[]): IRDestructure {
+    const value = this.parseTupleOrExpression();
+    const node: IRDestructure = { type: 'destructure', targets, value };
+    const declared = targets.filter(name => !this.localNames.has(name));
+    if (declared.length === targets.length) node.isDeclaration = true;
+    else if (declared.length > 0) node.declared = declared;
+    targets.forEach((name, i) => {
+      this.localNames.add(name);
+      if (value.type === 'tuple_literal' && !this.variableTypes.has(name)) {
+        const element = (value as IRTupleLiteral).elements[i];
+        if (element) this.variableTypes.set(name, this.inferType(element));
+      }
+    });
+    return node;
+  }
+
+  // Empty dicts get their key and value types from the first store
+  private refineMapTypes(object: IRNode, key: IRNode, value: IRNode): void {
+    if (object.type !== 'identifier') return;
+    const map = this.maps.get((object as IRIdentifier).name);
+    if (!map || !isMapType(map.dataType)) return;
+    const keyType = isAutoType(map.dataType.key) ? primitiveType(this.inferType(key)) : map.dataType.key;
+    const valueType = isAutoType(map.dataType.value) ? primitiveType(this.inferType(value)) : map.dataType.value;
+    map.dataType = mapType(keyType, valueType);
+    if (map.value?.type === 'map_literal') {
+      const literal = map.value as IRMapLiteral;
+      literal.keyType = flattenType(keyType);
+      literal.valueType = flattenType(valueType);
+    }
+  }
+
   private parseExpression(): IRNode {
-    return this.parseOr();
+    if (this.match('KEYWORD', 'lambda')) return this.parseLambda();
+    return this.parseTernary();
+  }
+
+  // lambda x, y: x + y
+  private parseLambda(): IRLambda {
+    this.consume('KEYWORD', 'lambda');
+    const params: IRVariable[] = [];
+    while (this.match('IDENTIFIER')) {
+      params.push({ type: 'variable', name: this.advance()!.value, dataType: primitiveType('auto') });
+      if (!this.consume('PUNCTUATION', ',')) break;
+    }
+    this.consume('PUNCTUATION', ':');
+    const value = this.parseExpression();
+    return { type: 'lambda', params, returnType: primitiveType(this.inferType(value)), body: [{ type: 'return', value } as IRReturn] };
+  }
+
+  // a if cond else b; chains nest in the else branch
+  private parseTernary(): IRNode {
+    const thenValue = this.parseOr();
+    if (!this.match('KEYWORD', 'if')) return thenValue;
+    this.advance();
+    const condition = this.parseOr();
+    this.consume('KEYWORD', 'else');
+    const elseValue = this.parseTernary();
+    return { type: 'conditional', condition, thenValue, elseValue } as IRConditional;
   }
 
   private parseOr(): IRNode {
@@ -755,8 +1577,15 @@ export class PythonParser {
     return this.parseComparison();
   }
 
+  // A one-character string compared with a character, like ch == "a", is a character too
+  private asChar(node: IRNode, other: IRNode): IRNode {
+    const literal = node as IRLiteral;
+    if (node.type !== 'literal' || literal.dataType !== 'string' || String(literal.value).length !== 1) return node;
+    return this.inferType(other) === 'char' ? { ...literal, dataType: 'char' } as IRLiteral : node;
+  }
+
   private parseComparison(): IRNode {
-    let left = this.parseAddSub();
+    let left = this.parseBitOr();
     
     const compOps = ['==', '!=', '<', '>', '<=', '>='];
     let iterations = 0;
@@ -766,18 +1595,87 @@ export class PythonParser {
       for (const op of compOps) {
         if (this.match('OPERATOR', op)) {
           this.advance();
-          const right = this.parseAddSub();
-          left = { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
+          const right = this.parseBitOr();
+          left = { type: 'binary_op', operator: op, left: this.asChar(left, right), right: this.asChar(right, left) } as IRBinaryOp;
           found = true;
           break;
         }
       }
+      
+      // x is None, x is not None
+      if (!found && this.match('IDENTIFIER', 'is')) {
+        this.advance();
+        const negated = !!this.consume('KEYWORD', 'not');
+        left = { type: 'binary_op', operator: negated ? '!=' : '==', left, right: this.parseBitOr() } as IRBinaryOp;
+        found = true;
+      }
+      
+      // Membership: key in d, key not in d
+      if (!found && this.match('KEYWORD', 'in')) {
+        this.advance();
+        left = { type: 'contains', object: this.parseBitOr(), key: left } as IRContains;
+        found = true;
+      } else if (!found && this.match('KEYWORD', 'not') && this.peek(1)?.value === 'in') {
+        this.advance();
+        this.advance();
+        const contains = { type: 'contains', object: this.parseBitOr(), key: left } as IRContains;
+        left = { type: 'unary_op', operator: '!', operand: contains } as IRNode & { operator: string; operand: IRNode };
+        found = true;
+      }
       if (!found) break;
     }
     
     return left;
   }
 
+  private parseBitOr(): IRNode {
+    let left = this.parseBitXor();
+    
+    while (this.match('OPERATOR', '|')) {
+      this.advance();
+      const right = this.parseBitXor();
+      left = { type: 'binary_op', operator: '|', left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
+  private parseBitXor(): IRNode {
+    let left = this.parseBitAnd();
+    
+    while (this.match('OPERATOR', '^')) {
+      this.advance();
+      const right = this.parseBitAnd();
+      left = { type: 'binary_op', operator: '^', left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
+  private parseBitAnd(): IRNode {
+    let left = this.parseShift();
+    
+    while (this.match('OPERATOR', '&')) {
+      this.advance();
+      const right = this.parseShift();
+      left = { type: 'binary_op', operator: '&', left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
+  private parseShift(): IRNode {
+    let left = this.parseAddSub();
+    
+    while (this.match('OPERATOR', '<<') || this.match('OPERATOR', '>>')) {
+      const op = this.advance()!.value;
+      const right = this.parseAddSub();
+      left = { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
+    }
+    
+    return left;
+  }
+
   private parseAddSub(): IRNode {
     let left = this.parseMulDiv();
     
@@ -793,22 +1691,43 @@ export class PythonParser {
   private parseMulDiv(): IRNode {
     let left = this.parseUnary();
     
-    while (this.match('OPERATOR', '*') || this.match('OPERATOR', '/') || this.match('OPERATOR', '%')) {
+    while (['*', '/', '//', '%'].some(op => this.match('OPERATOR', op))) {
       const op = this.advance()!.value;
       const right = this.parseUnary();
-      left = { type: 'binary_op', operator: op, left, right } as IRBinaryOp;
+      
+      // [0] * n allocates a zero-filled list of size n
+      if (op === '*' && left.type === 'array_literal' && this.isZeroFill(left as IRArrayLiteral)) {
+        left = { ...(left as IRArrayLiteral), elements: [], size: right } as IRArrayLiteral;
+        continue;
+      }
+      
+      left = { type: 'binary_op', operator: ARITHMETIC_OPERATORS[op] || op, left, right } as IRBinaryOp;
     }
     
     return left;
   }
 
+  private isZeroFill(node: IRArrayLiteral): boolean {
+    if (node.elements.length !== 1 || node.elements[0].type !== 'literal') return false;
+    const value = (node.elements[0] as IRLiteral).value;
+    return value === 0 || value === false || value === '';
+  }
+
   private parseUnary(): IRNode {
-    if (this.match('OPERATOR', '-') || this.match('OPERATOR', '+')) {
+    if (this.match('OPERATOR', '-') || this.match('OPERATOR', '+') || this.match('OPERATOR', '~')) {
       const op = this.advance()!.value;
       const operand = this.parseUnary();
       return { type: 'unary_op', operator: op, operand } as IRNode & { operator: string; operand: IRNode };
     }
-    return this.parsePrimary();
+    return this.parsePower();
+  }
+
+  // ** binds tighter than a unary minus on its left and is right-associative
+  private parsePower(): IRNode {
+    const base = this.parsePrimary();
+    if (!this.match('OPERATOR', '**')) return base;
+    this.advance();
+    return { type: 'binary_op', operator: 'pow', left: base, right: this.parseUnary() } as IRBinaryOp;
   }
 
   private parsePrimary(): IRNode {
@@ -816,15 +1735,66 @@ export class PythonParser {
     if (this.match('PUNCTUATION', '(')) {
       this.advance();
       const expr = this.parseExpression();
+      if (this.match('KEYWORD', 'for')) return this.parseComprehension('generator', expr, ')');
+      // (a, b) is a tuple
+      if (this.match('PUNCTUATION', ',')) {
+        const elements = [expr];
+        while (this.consume('PUNCTUATION', ',') && !this.match('PUNCTUATION', ')')) elements.push(this.parseExpression());
+        this.consume('PUNCTUATION', ')');
+        return { type: 'tuple_literal', elements } as IRTupleLiteral;
+      }
       this.consume('PUNCTUATION', ')');
       return expr;
     }
     
+    // List literal
+    if (this.match('PUNCTUATION', '[')) {
+      this.advance();
+      const elements: IRNode[] = [];
+      while (!this.match('PUNCTUATION', ']') && elements.length < 1000) {
+        this.skipNewlines();
+        elements.push(this.parseExpression());
+        this.skipNewlines();
+        if (elements.length === 1 && this.match('KEYWORD', 'for')) return this.parseComprehension('list', elements[0], ']');
+        if (!this.consume('PUNCTUATION', ',')) break;
+        this.skipNewlines();
+      }
+      this.consume('PUNCTUATION', ']');
+      const elementType = elements.length > 0 ? this.inferType(elements[0]) : 'auto';
+      return { type: 'array_literal', elements, elementType, isList: true } as IRArrayLiteral;
+    }
+    
+    // Dict literal
+    if (this.match('PUNCTUATION', '{')) {
+      this.advance();
+      const entries: { key: IRNode; value: IRNode }[] = [];
+      while (!this.match('PUNCTUATION', '}') && entries.length < 1000) {
+        this.skipNewlines();
+        const key = this.parseExpression();
+        if (entries.length === 0 && this.match('KEYWORD', 'for')) return this.parseComprehension('set', key, '}');
+        this.consume('PUNCTUATION', ':');
+        const value = this.parseExpression();
+        if (entries.length === 0 && this.match('KEYWORD', 'for')) return this.parseComprehension('dict', value, '}', key);
+        entries.push({ key, value });
+        this.skipNewlines();
+        if (!this.consume('PUNCTUATION', ',')) break;
+        this.skipNewlines();
+      }
+      this.skipNewlines();
+      this.consume('PUNCTUATION', '}');
+      const keyType = entries.length > 0 ? this.inferType(entries[0].key) : 'auto';
+      const valueType = entries.length > 0 ? this.inferType(entries[0].value) : 'auto';
+      return { type: 'map_literal', entries, keyType, valueType } as IRMapLiteral;
+    }
+    
     // Number
     if (this.match('NUMBER')) {
       const token = this.advance()!;
+      if (/^0[xX]/.test(token.value)) {
+        return { type: 'literal', value: parseInt(token.value, 16), dataType: 'int' } as IRLiteral;
+      }
       const value = token.value.includes('.') ? parseFloat(token.value) : parseInt(token.value);
-      const dataType: DataType = token.value.includes('.') ? 'float' : 'int';
+      const dataType: PrimitiveType = token.value.includes('.') ? 'float' : 'int';
       return { type: 'literal', value, dataType } as IRLiteral;
     }
     
@@ -841,12 +1811,12 @@ export class PythonParser {
         value = value.slice(1, -1); // Remove quotes
       }
       
-      return { 
+      return this.parseSubscripts({ 
         type: 'literal', 
         value, 
         dataType: 'string',
         isFString,
-      } as IRLiteral & { isFString?: boolean };
+      } as IRLiteral & { isFString?: boolean });
     }
     
     // Boolean
@@ -875,6 +1845,12 @@ export class PythonParser {
         if (!this.consume('PUNCTUATION', ',')) break;
       }
       this.consume('PUNCTUATION', ')');
+      
+      // str(e) inside an except block is the exception message
+      if (typeFunc === 'str' && args.length === 1 && args[0].type === 'identifier' &&
+          this.exceptionNames.has((args[0] as IRIdentifier).name)) {
+        return args[0];
+      }
       return { type: 'call', callee: typeFunc, args } as IRCall;
     }
     
@@ -909,6 +1885,27 @@ export class PythonParser {
       return { type: 'call', callee: 'range', args } as IRCall;
     }
     
+    // super().__init__(...) and super().method(...)
+    if (this.match('IDENTIFIER', 'super') && this.peek(1)?.value === '(') {
+      this.advance();
+      this.consume('PUNCTUATION', '(');
+      this.consume('PUNCTUATION', ')');
+      this.consume('PUNCTUATION', '.');
+      const method = this.consume('IDENTIFIER')?.value;
+      this.consume('PUNCTUATION', '(');
+      const args: IRNode[] = [];
+      while (!this.match('PUNCTUATION', ')') && args.length < 20) {
+        args.push(this.parseExpression());
+        if (!this.consume('PUNCTUATION', ',')) break;
+      }
+      this.consume('PUNCTUATION', ')');
+      return {
+        type: 'super_call',
+        method: method === '__init__' ? undefined : method,
+        args,
+      } as IRSuperCall;
+    }
+    
     // Identifier or function call
     if (this.match('IDENTIFIER') || this.match('KEYWORD', 'self')) {
       const token = this.advance()!;
@@ -925,28 +1922,100 @@ export class PythonParser {
       if (this.match('PUNCTUATION', '(')) {
         this.advance();
         const args: IRNode[] = [];
+        const keywordArgs: IRKeywordArg[] = [];
         while (!this.match('PUNCTUATION', ')') && args.length < 20) {
-          args.push(this.parseExpression());
+          // name=value
+          if (this.match('IDENTIFIER') && this.peek(1)?.type === 'OPERATOR' && this.peek(1)?.value === '=') {
+            const name = this.advance()!.value;
+            this.advance();
+            keywordArgs.push({ name, value: this.parseExpression() });
+          } else {
+            args.push(this.parseExpression());
+            // sum(x * x for x in xs)
+            if (this.match('KEYWORD', 'for')) args.push(this.parseComprehension('generator', args.pop()!, ')'));
+          }
           if (!this.consume('PUNCTUATION', ',')) break;
         }
         this.consume('PUNCTUATION', ')');
         
+        // len(x) works on lists and strings alike
+        if (name === 'len' && args.length === 1) {
+          return this.parseSubscripts({ type: 'length', object: args[0] } as IRLength);
+        }
+        
+        // pow(a, b) is a ** b
+        if (name === 'pow' && args.length === 2 && !this.functionNames.has(name)) {
+          return this.parseSubscripts({ type: 'binary_op', operator: 'pow', left: args[0], right: args[1] } as IRBinaryOp);
+        }
+        const mathFunction = keywordArgs.length === 0 ? this.mathFunction(name, args.length) : undefined;
+        if (mathFunction) {
+          return this.parseSubscripts({ type: 'math_call', func: mathFunction, args } as IRMathCall);
+        }
+        
+        if (name === 'dict' && args.length === 0) {
+          return { type: 'map_literal', entries: [], keyType: 'auto', valueType: 'auto' } as IRMapLiteral;
+        }
+        
         // Check if it's a method call
         const parts = name.split('.');
+        const objectName = parts.slice(0, -1).join('.');
+        
+        // d.get(key[, default]) and d.pop(key)
+        if (this.maps.has(objectName)) {
+          const object = { type: 'identifier', name: objectName } as IRIdentifier;
+          const method = parts[parts.length - 1];
+          if (method === 'get' && args.length > 0) {
+            return { type: 'index', object, index: args[0], defaultValue: args[1] } as IRIndex;
+          }
+          if (method === 'pop' && args.length === 1) {
+            return { type: 'remove', object, key: args[0] } as IRRemove;
+          }
+        }
+        
+        const method = stringMethodNamed(PYTHON_STRING_METHODS, parts[parts.length - 1]);
+        if (parts.length > 1 && method && this.isStringObject(objectName, method)) {
+          const object: IRIdentifier = { type: 'identifier', name: objectName };
+          return this.parseSubscripts({ type: 'string_method', method, object, args } as IRStringMethod);
+        }
+        
         if (parts.length > 1) {
-          return {
+          const call: IRCall = {
             type: 'call',
             callee: parts[parts.length - 1],
             args,
             isMethod: true,
             object: parts.slice(0, -1).join('.'),
-          } as IRCall;
+          };
+          if (keywordArgs.length > 0) call.keywordArgs = keywordArgs;
+          return call;
         }
         
-        return { type: 'call', callee: name, args } as IRCall;
+        const call: IRCall = { type: 'call', callee: name, args };
+        if (keywordArgs.length > 0) call.keywordArgs = keywordArgs;
+        return this.parseSubscripts(call);
+      }
+      
+      const [enumName, member, ...rest] = name.split('.');
+      if (this.enums.has(enumName) && member && rest.length === 0) {
+        return { type: 'enum_value', enumName, member } as IREnumValue;
+      }
+      // Color.RED.value and c.value give the member's number
+      if (this.enums.has(enumName) && member && rest.length === 1 && rest[0] === 'value') {
+        return { type: 'enum_method', method: 'value', enumName, object: { type: 'enum_value', enumName, member } } as IREnumMethod;
+      }
+      if (this.enumVariables.has(enumName) && member === 'value' && rest.length === 0) {
+        return { type: 'enum_method', method: 'value', enumName: this.enumVariables.get(enumName), object: { type: 'identifier', name: enumName } } as IREnumMethod;
+      }
+      
+      // A function named without calling it is passed around as a value
+      if (this.functionNames.has(name) && !this.localNames.has(name)) {
+        return { type: 'function_ref', name } as IRFunctionRef;
       }
       
-      return { type: 'identifier', name } as IRIdentifier;
+      const mathConstant = name.startsWith('math.') ? mathConstantNamed(PYTHON_MATH_CONSTANTS, name.slice('math.'.length)) : undefined;
+      if (mathConstant) return { type: 'math_constant', name: mathConstant, dataType: 'float' } as IRMathConstant;
+      
+      return this.parseSubscripts({ type: 'identifier', name } as IRIdentifier);
     }
     
     // Empty expression - skip unknown tokens
@@ -956,10 +2025,235 @@ export class PythonParser {
     return { type: 'literal', value: '', dataType: 'void' } as IRLiteral;
   }
 
-  private inferType(node: IRNode): DataType {
+  // The for and if clauses after a comprehension's element, up to the closing bracket. The
+  // iterators are typed while the clauses are parsed, so the element is typed afterwards
+  private parseComprehension(kind: IRComprehension['kind'], element: IRNode, close: string, key?: IRNode): IRComprehension {
+    const clauses: IRComprehensionClause[] = [];
+    const outerTypes = new Map(this.variableTypes);
+    while (this.match('KEYWORD', 'for') || this.match('KEYWORD', 'if')) {
+      // The ternary would take an if clause for its own, so both clauses stop below it
+      if (this.advance()!.value === 'if') {
+        clauses.push({ condition: this.parseOr() });
+        continue;
+      }
+      const iterator = this.consume('IDENTIFIER')?.value || 'i';
+      const valueIterator = this.consume('PUNCTUATION', ',') ? this.consume('IDENTIFIER')?.value : undefined;
+      this.consume('KEYWORD', 'in');
+      const iterable = this.parseOr();
+      const map = this.getMapIterable(iterable);
+      const clause: IRComprehensionClause = { iterator, iterable };
+      if (map) {
+        clause.iterable = { type: 'identifier', name: map.name } as IRIdentifier;
+        clause.overMap = true;
+        clause.valueIterator = valueIterator;
+        if (valueIterator) this.variableTypes.set(valueIterator, flattenType(map.dataType));
+      }
+      clause.iteratorType = map ? keyTypeOf(map.dataType) : this.iteratedType(iterable);
+      this.variableTypes.set(iterator, clause.iteratorType);
+      clauses.push(clause);
+    }
+    this.skipNewlines();
+    this.consume('PUNCTUATION', close);
+    const comprehension: IRComprehension = { type: 'comprehension', kind, element, elementType: this.inferType(element), clauses };
+    if (key) {
+      comprehension.key = key;
+      comprehension.keyType = this.inferType(key);
+    }
+    this.variableTypes = outerTypes;
+    return comprehension;
+  }
+
+  // The class every element of a list literal is an instance of, the nearest shared superclass
+  // when they're built from different ones
+  private instancesClass(elements: IRNode[]): string | undefined {
+    const ancestors = (node: IRNode): string[] => {
+      const chain: string[] = [];
+      let name = node.type === 'call' ? (node as IRCall).callee : undefined;
+      while (name && this.classes.has(name) && !chain.includes(name)) {
+        chain.push(name);
+        name = this.classes.get(name)!.superclass;
+      }
+      return chain;
+    };
+    if (elements.length === 0) return undefined;
+    const chains = elements.map(ancestors);
+    return chains[0].find(name => chains.every(chain => chain.includes(name)));
+  }
+
+  // The type of the values a for clause walks: ints of a range, elements of a list, characters of a string
+  // The type of what a for loop takes from iterable: a list's elements as they are, rows and objects too
+  private elementType(iterable: IRNode): IRType {
+    const array = iterable.type === 'identifier' ? this.arrays.get((iterable as IRIdentifier).name) : undefined;
+    return array && isArrayType(array.dataType) ? array.dataType.element : primitiveType(this.iteratedType(iterable));
+  }
+
+  private iteratedType(iterable: IRNode): PrimitiveType {
+    if (iterable.type === 'call' && (iterable as IRCall).callee === 'range') return 'int';
+    if (iterable.type === 'identifier' && this.arrays.has((iterable as IRIdentifier).name)) {
+      return flattenType(this.arrays.get((iterable as IRIdentifier).name)!.dataType);
+    }
+    if (iterable.type === 'array_literal') return (iterable as IRArrayLiteral).elementType;
+    if (iterable.type === 'slice') return this.iteratedType((iterable as IRSlice).object);
+    if (iterable.type === 'string_method' && (iterable as IRStringMethod).method === 'split') return 'string';
+    if (iterable.type === 'call' && this.functions.get((iterable as IRCall).callee)?.isGenerator) {
+      return flattenType(this.functions.get((iterable as IRCall).callee)!.returnType);
+    }
+    return this.inferType(iterable) === 'string' ? 'char' : 'auto';
+  }
+
+  // math.sqrt(x), sqrt(x) after from math import sqrt, and the builtins abs, min and max
+  private mathFunction(name: string, argCount: number): MathFunction | undefined {
+    if (name.startsWith('math.')) return mathFunctionNamed(PYTHON_MATH_FUNCTIONS, name.slice('math.'.length), argCount);
+    if (this.functionNames.has(name) || this.localNames.has(name)) return undefined;
+    return mathFunctionNamed(PYTHON_BUILTIN_MATH_FUNCTIONS, name, argCount) || mathFunctionNamed(PYTHON_MATH_FUNCTIONS, name, argCount);
+  }
+
+  // Whether name.method(...) calls one of str's methods: name holds a string, or nothing says otherwise
+  private isStringObject(name: string, method: string): boolean {
+    const type = this.variableTypes.get(name) || 'auto';
+    if (type === 'string' || type === 'char') return true;
+    const isClassMethod = [...this.classes.values()].some(cls => cls.methods.some(m => m.name === method));
+    return type === 'auto' && !this.arrays.has(name) && !this.maps.has(name) && !isClassMethod;
+  }
+
+  // Indexing like a[i] or grid[i][j], and string methods called on a result like s.strip().upper()
+  private parseSubscripts(expr: IRNode): IRNode {
+    while (this.match('PUNCTUATION', '[') || this.match('PUNCTUATION', '.')) {
+      if (this.match('PUNCTUATION', '.')) {
+        if (this.peek(1)?.type !== 'IDENTIFIER') break;
+        this.advance();
+        const name = this.advance()!.value;
+        if (!this.match('PUNCTUATION', '(')) {
+          expr = { type: 'field_access', object: expr, field: name } as IRFieldAccess;
+          continue;
+        }
+        this.advance();
+        const args: IRNode[] = [];
+        while (!this.match('PUNCTUATION', ')') && this.pos < this.tokens.length) {
+          args.push(this.parseExpression());
+          if (!this.consume('PUNCTUATION', ',')) break;
+        }
+        this.consume('PUNCTUATION', ')');
+        // shapes[1].area() calls a method of ours, words[0].upper() one of str's
+        const method = stringMethodNamed(PYTHON_STRING_METHODS, name);
+        const isClassMethod = [...this.classes.values()].some(cls => cls.methods.some(m => m.name === name));
+        expr = method && (!isClassMethod || this.inferType(expr) === 'string')
+          ? { type: 'string_method', method, object: expr, args } as IRStringMethod
+          : { type: 'call', callee: name, args, isMethod: true, receiver: expr } as IRCall;
+        continue;
+      }
+      this.advance();
+      const index = this.match('PUNCTUATION', ':') ? undefined : this.parseExpression();
+      if (this.match('PUNCTUATION', ':')) {
+        expr = this.parseSlice(expr, index);
+        continue;
+      }
+      this.consume('PUNCTUATION', ']');
+      expr = this.tupleIndex(expr, index) || this.positionIndex(expr, index);
+    }
+    return expr;
+  }
+
+  // lst[i] with an i that may be negative counts from the end, which the targets work out when it runs
+  private positionIndex(object: IRNode, index?: IRNode): IRIndex {
+    const node = { type: 'index', object, index } as IRIndex;
+    if (!index) return node;
+    const isMap = object.type === 'identifier' && this.maps.has((object as IRIdentifier).name);
+    const isConstant = index.type === 'literal' || fromEnd(index) !== undefined;
+    const isCounter = index.type === 'identifier' && this.counters.has((index as IRIdentifier).name);
+    if (!isMap && !isConstant && !isCounter && this.inferType(index) !== 'string') node.wraps = true;
+    return node;
+  }
+
+  // range(n), range(a, n) or range(a, n, k) from a constant a >= 0 going up, or range(a, -1, -k)
+  // coming down to zero at the lowest
+  private countsFromZero(args: IRNode[]): boolean {
+    const constant = (node?: IRNode) =>
+      node?.type === 'literal' && typeof (node as IRLiteral).value === 'number' ? (node as IRLiteral).value as number :
+      node && fromEnd(node)?.type === 'literal' ? -((fromEnd(node) as IRLiteral).value as number) : undefined;
+    if (args.length === 1) return true;
+    const step = args.length === 3 ? constant(args[2]) : 1;
+    if (step === undefined) return false;
+    if (step > 0) return (constant(args[0]) ?? -1) >= 0;
+    return (constant(args[1]) ?? -2) >= -1;
+  }
+
+  // p[0] or p[-1] on a tuple picks one of its elements
+  private tupleIndex(object: IRNode, index?: IRNode): IRTupleIndex | undefined {
+    const tupleType = object.type === 'identifier' ? this.tuples.get((object as IRIdentifier).name) : undefined;
+    if (!tupleType || !index) return undefined;
+    const constant = (node?: IRNode) =>
+      node?.type === 'literal' && typeof (node as IRLiteral).value === 'number' ? (node as IRLiteral).value as number : undefined;
+    const back = constant(fromEnd(index));
+    const position = back !== undefined ? tupleType.elements.length - back : constant(index);
+    if (position === undefined || position < 0 || position >= tupleType.elements.length) return undefined;
+    return { type: 'tuple_index', object, index: position, tupleType };
+  }
+
+  // The rest of a[start:end:step] after its start; each part can be left out
+  private parseSlice(object: IRNode, start?: IRNode): IRSlice {
+    const slice: IRSlice = { type: 'slice', object, start, clamps: true };
+    const bound = () => this.match('PUNCTUATION', ':') || this.match('PUNCTUATION', ']') ? undefined : this.parseExpression();
+    this.consume('PUNCTUATION', ':');
+    slice.end = bound();
+    if (this.match('PUNCTUATION', ':')) {
+      this.advance();
+      slice.step = bound();
+    }
+    this.consume('PUNCTUATION', ']');
+    return slice;
+  }
+
+  private inferType(node: IRNode): PrimitiveType {
     if (node.type === 'literal') {
       return (node as IRLiteral).dataType;
     }
+    if (node.type === 'tuple_index') {
+      const { tupleType, index } = node as IRTupleIndex;
+      return flattenType(tupleType.elements[index]);
+    }
+    if (node.type === 'array_literal') {
+      return (node as IRArrayLiteral).elementType;
+    }
+    if (node.type === 'length') {
+      return 'int';
+    }
+    if (node.type === 'string_method') {
+      return stringMethodType((node as IRStringMethod).method, this.inferType((node as IRStringMethod).object));
+    }
+    if (node.type === 'math_call') {
+      return mathFunctionType((node as IRMathCall).func, (node as IRMathCall).args.map(arg => this.inferType(arg)));
+    }
+    if (node.type === 'math_constant') {
+      return (node as IRMathConstant).dataType;
+    }
+    if (node.type === 'contains') {
+      return 'bool';
+    }
+    if (node.type === 'unary_op') {
+      const { operator, operand } = node as IRUnaryOp;
+      return operator === '!' ? 'bool' : this.inferType(operand);
+    }
+    if (node.type === 'enum_value') {
+      return 'int';
+    }
+    if (node.type === 'identifier') {
+      return this.variableTypes.get((node as IRIdentifier).name) || 'auto';
+    }
+    if (node.type === 'index') {
+      const { object } = node as IRIndex;
+      const name = object.type === 'identifier' ? (object as IRIdentifier).name : '';
+      const collection = this.maps.get(name) || this.arrays.get(name);
+      if (collection) return flattenType(collection.dataType);
+      // Indexing a string gives a one-character string, which the other targets keep as a char
+      if (this.inferType(object) === 'string') return 'char';
+    }
+    if (node.type === 'slice') {
+      const { object } = node as IRSlice;
+      const name = object.type === 'identifier' ? (object as IRIdentifier).name : '';
+      const array = this.arrays.get(name);
+      return array ? flattenType(array.dataType) : this.inferType(object);
+    }
     if (node.type === 'binary_op') {
       const binOp = node as IRBinaryOp;
       const leftType = this.inferType(binOp.left);
@@ -969,6 +2263,7 @@ export class PythonParser {
       if (['==', '!=', '<', '>', '<=', '>='].includes(binOp.operator)) {
         return 'bool';
       }
+      if (binOp.operator === 'true_div' || isNegativePower(binOp)) return 'double';
       
       // If either is float, result is float
       if (leftType === 'float' || rightType === 'float') return 'float';
@@ -983,18 +2278,274 @@ export class PythonParser {
       if (call.callee === 'str') return 'string';
       if (call.callee === 'input') return 'string';
     }
+    if (node.type === 'conditional') {
+      const { thenValue, elseValue } = node as IRConditional;
+      const thenType = this.inferType(thenValue);
+      const elseType = this.inferType(elseValue);
+      if (thenType === 'float' || elseType === 'float') return 'float';
+      return thenType === 'auto' ? elseType : thenType;
+    }
     return 'auto';
   }
 
-  private mapPythonType(type: string): DataType {
-    const typeMap: Record<string, DataType> = {
+  // int, list[int], dict[str, int], tuple[int, str], Optional[int], int | None, Callable[[int], int]
+  // or a class name
+  private parseTypeAnnotation(): IRType {
+    const name = (this.consume('KEYWORD') || this.consume('IDENTIFIER'))?.value || '';
+    let type = this.mapPythonType(name);
+    
+    if (this.consume('PUNCTUATION', '[')) {
+      if (type.kind === 'array') {
+        type = { ...type, element: this.parseTypeAnnotation() };
+      } else if (type.kind === 'map') {
+        const key = this.parseTypeAnnotation();
+        this.consume('PUNCTUATION', ',');
+        type = { kind: 'map', key, value: this.parseTypeAnnotation() };
+      } else if (name === 'tuple' || name === 'Tuple') {
+        const elements: IRType[] = [];
+        while (!this.match('PUNCTUATION', ']') && this.pos < this.tokens.length) {
+          elements.push(this.parseTypeAnnotation());
+          if (!this.consume('PUNCTUATION', ',')) break;
+        }
+        type = { kind: 'tuple', elements };
+      } else if (name === 'Optional') {
+        type = { kind: 'nullable', inner: this.parseTypeAnnotation() };
+      } else if (name === 'Iterator' || name === 'Iterable' || name === 'Generator') {
+        // The type of the values a generator yields
+        type = this.parseTypeAnnotation();
+      } else if (type.kind === 'class') {
+        const args: IRType[] = [];
+        while (!this.match('PUNCTUATION', ']') && this.pos < this.tokens.length) {
+          args.push(this.parseTypeAnnotation());
+          if (!this.consume('PUNCTUATION', ',')) break;
+        }
+        type = { ...type, args };
+      } else if (name === 'Callable' && this.consume('PUNCTUATION', '[')) {
+        const params: IRType[] = [];
+        while (!this.match('PUNCTUATION', ']') && this.pos < this.tokens.length) {
+          params.push(this.parseTypeAnnotation());
+          if (!this.consume('PUNCTUATION', ',')) break;
+        }
+        this.consume('PUNCTUATION', ']');
+        this.consume('PUNCTUATION', ',');
+        type = { kind: 'function', params, returns: this.parseTypeAnnotation() };
+      }
+      
+      // Arguments of other generics are skipped
+      let depth = 1;
+      while (this.pos < this.tokens.length) {
+        if (this.match('PUNCTUATION', '[')) depth++;
+        if (this.match('PUNCTUATION', ']') && --depth === 0) break;
+        this.advance();
+      }
+      this.consume('PUNCTUATION', ']');
+    }
+    
+    if (this.match('OPERATOR', '|') && this.peek(1)?.value === 'None') {
+      this.advance();
+      this.advance();
+      type = { kind: 'nullable', inner: type };
+    }
+    return type;
+  }
+
+  private mapPythonType(type: string): IRType {
+    const typeMap: Record<string, PrimitiveType> = {
       'int': 'int',
       'float': 'float',
       'str': 'string',
       'bool': 'bool',
       'None': 'void',
     };
-    return typeMap[type] || 'auto';
+    if (typeMap[type]) return primitiveType(typeMap[type]);
+    if (this.typeVars.has(type)) return { kind: 'type_param', name: type };
+    if (type === 'list' || type === 'List') return { kind: 'array', element: primitiveType('auto'), isList: true };
+    if (type === 'dict' || type === 'Dict') return { kind: 'map', key: primitiveType('auto'), value: primitiveType('auto') };
+    return this.classes.has(type) ? { kind: 'class', name: type } : primitiveType('auto');
+  }
+
+  // Untyped params that are indexed, measured or looped over are treated as lists, unless their items
+  // are compared with single characters, which makes them strings; those that are called are
+  // treated as functions taking what the first call passes them
+  private markParamTypes(params: IRVariable[], body: IRNode[]): void {
+    const indexed = new Set<string>();
+    const calls = new Map<string, IRCall>();
+    // The characters each name's items are compared with, which become char literals for a string
+    const strings = new Map<string, IRLiteral[]>();
+    // Loop variables, and the names whose items they take
+    const iterated = new Map<string, string>();
+    const indexedName = (node: IRNode) => node.type === 'index' && (node as IRIndex).object.type === 'identifier'
+      ? ((node as IRIndex).object as IRIdentifier).name
+      : node.type === 'identifier' ? iterated.get((node as IRIdentifier).name) : undefined;
+    const isCharacter = (node: IRNode) => node.type === 'literal' && (node as IRLiteral).dataType === 'string' &&
+      String((node as IRLiteral).value).length === 1;
+    visitIR(body, node => {
+      if (node.type === 'index' || node.type === 'index_assignment' || node.type === 'length') {
+        const object = (node as IRIndex | IRIndexAssignment | IRLength).object;
+        if (object.type === 'identifier') indexed.add((object as IRIdentifier).name);
+      }
+      const loop = node as IRFor;
+      if (node.type === 'for' && loop.iterator && loop.iterable?.type === 'identifier') {
+        indexed.add((loop.iterable as IRIdentifier).name);
+        iterated.set(loop.iterator, (loop.iterable as IRIdentifier).name);
+      }
+      if (node.type === 'call' && !(node as IRCall).isMethod && !calls.has((node as IRCall).callee)) {
+        calls.set((node as IRCall).callee, node as IRCall);
+      }
+      if (node.type === 'binary_op' && ['==', '!='].includes((node as IRBinaryOp).operator)) {
+        const { left, right } = node as IRBinaryOp;
+        const [name, literal] = isCharacter(right) ? [indexedName(left), right] : isCharacter(left) ? [indexedName(right), left] : [];
+        if (name) strings.set(name, [...strings.get(name) || [], literal as IRLiteral]);
+      }
+    });
+    
+    for (const param of params) {
+      const call = calls.get(param.name);
+      if (isAutoType(param.dataType) && call) {
+        param.dataType = { kind: 'function', params: call.args.map(arg => primitiveType(this.inferType(arg))), returns: primitiveType('auto') };
+        continue;
+      }
+      if (!isAutoType(param.dataType) || !indexed.has(param.name)) continue;
+      if (strings.has(param.name) && !this.growableLists.has(param.name)) {
+        param.dataType = primitiveType('string');
+        strings.get(param.name)!.forEach(literal => literal.dataType = 'char');
+        continue;
+      }
+      param.dataType = arrayType(param.dataType, this.growableLists.has(param.name));
+    }
+  }
+
+  // Untyped params take the type of the first call that passes them something typed: an
+  // array param its element type, or string when it's handed a string rather than a list,
+  // and a function param the signature of the function or lambda it's handed
+  private typeParamsFromCalls(body: IRNode[]): void {
+    // Variables holding a function or lambda, which can be passed on like one
+    const functionValues = new Map<string, IRType>();
+    visitIR(body, node => {
+      if (node.type === 'variable' && (node as IRVariable).dataType.kind === 'function') {
+        functionValues.set((node as IRVariable).name, (node as IRVariable).dataType);
+      }
+      const func = node.type === 'call' && !(node as IRCall).isMethod ? this.functions.get((node as IRCall).callee) : undefined;
+      if (func) {
+        const call = node as IRCall;
+        func.params.forEach((param, i) => {
+          const arg = i < call.args.length ? call.args[i] : call.keywordArgs?.find(k => k.name === param.name)?.value;
+          const type = param.dataType;
+          const element = isArrayType(type) ? type.element : type.kind === 'nullable' ? type.inner : undefined;
+          if (arg && (isAutoType(type) || (element && isAutoType(element)))) this.typeParamFrom(param, arg);
+        });
+        // After the other params, whose types a function param's calls may pass on
+        func.params.forEach((param, i) => {
+          const arg = i < call.args.length ? call.args[i] : call.keywordArgs?.find(k => k.name === param.name)?.value;
+          const type = param.dataType;
+          if (arg && type.kind === 'function' && isAutoType(type.returns)) {
+            const referenced = arg.type === 'function_ref' ? this.functions.get((arg as IRFunctionRef).name) : undefined;
+            const source = referenced || (arg.type === 'lambda' ? arg as IRLambda : undefined);
+            const given = source ? functionType(source) : arg.type === 'identifier' ? functionValues.get((arg as IRIdentifier).name) : undefined;
+            if (given) this.typeFunctionParamFrom(func, param, given);
+          }
+        });
+      }
+    });
+    this.functions.forEach(func => this.typeNullableParams(func));
+    // What no call tells apart is an int, as the targets take a function param's unknown return type to be
+    this.functions.forEach(func => {
+      const returned = this.returnedParamCall(func);
+      const type = returned?.param.dataType;
+      if (type?.kind !== 'function' || !isAutoType(func.returnType)) return;
+      func.returnType = isAutoType(type.returns) ? primitiveType('int') : type.returns;
+      if (returned!.local && isAutoType(returned!.local.dataType)) returned!.local.dataType = func.returnType;
+    });
+  }
+
+  // A None param no call passes a value to takes the type of the function's other returns,
+  // and a function that returns such a param returns a nullable value
+  private typeNullableParams(func: IRFunction): void {
+    const returns: IRReturn[] = [];
+    visitIR(func.body, node => {
+      if (node.type === 'return' && (node as IRReturn).value) returns.push(node as IRReturn);
+      return node.type !== 'function' && node.type !== 'class' && node.type !== 'lambda';
+    });
+    for (const param of func.params) {
+      if (param.dataType.kind !== 'nullable') continue;
+      const returned = returns.some(ret => ret.value!.type === 'identifier' && (ret.value as IRIdentifier).name === param.name);
+      if (isAutoType(param.dataType.inner) && returned && !isAutoType(func.returnType) && flattenType(func.returnType) !== 'void') {
+        param.dataType = { kind: 'nullable', inner: func.returnType };
+      }
+      if (returned && !isAutoType(param.dataType.inner)) func.returnType = param.dataType;
+    }
+  }
+
+  private typeParamFrom(param: IRVariable, arg: IRNode): void {
+    const array = arg.type === 'identifier' ? this.arrays.get((arg as IRIdentifier).name) : undefined;
+    const isCollection = array || arg.type === 'array_literal' ||
+      (arg.type === 'identifier' && this.maps.has((arg as IRIdentifier).name));
+    const type = array ? flattenType(array.dataType) : this.inferType(arg);
+    if (type === 'auto' || type === 'void') return;
+    if (isArrayType(param.dataType) && !isCollection) {
+      if (type === 'string') param.dataType = primitiveType(type);
+      return;
+    }
+    if (!isArrayType(param.dataType) && isCollection) return;
+    param.dataType = withPrimitive(param.dataType, type);
+  }
+
+  // Parts the body's calls left unknown come from the argument or from the params those calls
+  // pass on, and so does the function's return type when it returns the param's result
+  private typeFunctionParamFrom(func: IRFunction, param: IRVariable, given: IRType): void {
+    const type = param.dataType;
+    if (given.kind !== 'function' || type.kind !== 'function') return;
+    const passed = this.findCall(func.body, param.name)?.args.map(a =>
+      a.type === 'identifier' ? func.params.find(p => p.name === (a as IRIdentifier).name)?.dataType : undefined);
+    param.dataType = {
+      kind: 'function',
+      params: type.params.map((p, i) => !isAutoType(p) ? p : !isAutoType(given.params[i] ?? p) ? given.params[i] : passed?.[i] ?? p),
+      returns: given.returns,
+    };
+    const returned = this.returnedParamCall(func);
+    if (returned?.param !== param) return;
+    if (returned.local && isAutoType(returned.local.dataType)) returned.local.dataType = given.returns;
+    if (isAutoType(func.returnType) || flattenType(func.returnType) === 'void') func.returnType = given.returns;
+  }
+
+  // The param whose call a function returns: return f(x), or return y after y = f(x)
+  private returnedParamCall(func: IRFunction): { param: IRVariable; local?: IRVariable } | undefined {
+    const ret = this.findReturn(func.body);
+    const local = ret?.value?.type === 'identifier' ? this.findVariable(func.body, (ret.value as IRIdentifier).name) : undefined;
+    const returned = local ? local.value : ret?.value;
+    const param = returned?.type === 'call' ? func.params.find(p => p.name === (returned as IRCall).callee) : undefined;
+    return param && { param, local };
+  }
+
+  // Lists that are appended to or shrunk need a growable container in the targets
+  private detectGrowableLists(code: string): Set<string> {
+    const names = new Set<string>();
+    const regex = /\b([A-Za-z_][A-Za-z0-9_]*)\.(append|insert|extend|pop|remove|clear)\(/g;
+    let match;
+    while ((match = regex.exec(code)) !== null) {
+      names.add(match[1]);
+    }
+    return names;
+  }
+
+  private detectFunctions(code: string): Set<string> {
+    const names = new Set<string>();
+    const regex = /^def\s+([A-Za-z_][A-Za-z0-9_]*)/gm;
+    let match;
+    while ((match = regex.exec(code)) !== null) {
+      names.add(match[1]);
+    }
+    return names;
+  }
+
+  private detectEnums(code: string): Set<string> {
+    const names = new Set<string>();
+    const regex = /^\s*class\s+([A-Za-z_][A-Za-z0-9_]*)\s*\(\s*(?:enum\.)?(?:Int)?Enum\s*\)/gm;
+    let match;
+    while ((match = regex.exec(code)) !== null) {
+      names.add(match[1]);
+    }
+    return names;
   }
 
   private detectImports(code: string): string[] {
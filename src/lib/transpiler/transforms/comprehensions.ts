@@ -0,0 +1,245 @@
+import {
+  IRComprehension,
+  IRType,
+  IRNode,
+  IRCall,
+  IRIdentifier,
+  IRVariable,
+  IRMapLiteral,
+  IRIndexAssignment,
+  IRArrayLiteral,
+  IRLiteral,
+  IRIndex,
+  IRIf,
+  IRBinaryOp,
+  IRAssignment,
+  IRLength,
+  IRUnaryOp,
+  IRCompoundAssignment,
+  IRComprehensionClause,
+  IRFor,
+  IRForEach,
+  isIRArrayLiteral,
+  primitiveType,
+  isIRCall,
+  isIRComprehension,
+  isIRVariable,
+  isIRLambda,
+  mapType,
+  arrayType,
+  sizedListType,
+  visitIR,
+  mapIR,
+} from '../ir';
+
+// Statement lists, where a comprehension's loops can be placed before the statement using it
+const STATEMENT_LISTS = ['body', 'thenBranch', 'elseBranch', 'finallyBody'];
+
+// sum(), any() and all() over a comprehension accumulate in its loops instead of building a collection
+const AGGREGATES: Record<string, string> = { 'sum': 'total', 'any': 'found', 'all': 'every' };
+
+interface LoweringContext {
+  names: Set<string>;
+  nativeSets: boolean;
+  keep?: (node: IRComprehension) => boolean;
+}
+
+// For targets without comprehensions: each becomes a collection filled by explicit loops, placed
+// before the statement that uses it. Without native sets, a value is appended after checking
+// that the list doesn't hold it yet. Comprehensions the target can express itself are kept
+export function lowerComprehensions<T>(value: T, nativeSets = true, keep?: (node: IRComprehension) => boolean): T {
+  const names = new Set<string>();
+  collectNames(value, names);
+  return lowerStatementLists(value, { names, nativeSets, keep });
+}
+
+function collectNames(value: unknown, names: Set<string>): void {
+  visitIR(value, node => {
+    for (const [key, v] of Object.entries(node)) {
+      if (['name', 'iterator', 'valueIterator', 'target'].includes(key) && typeof v === 'string') names.add(v);
+    }
+  });
+}
+
+// Names local to a loop body can be reused by the next loop; the collections and accumulators are reserved
+function freshName(base: string, context: LoweringContext, reserve = true): string {
+  let name = base;
+  for (let n = 2; context.names.has(name); n++) name = `${base}${n}`;
+  if (reserve) context.names.add(name);
+  return name;
+}
+
+// The list of lists a comprehension builds when each element is a list, like [[0] * n for _ in ...]
+// or [[0 for _ in ...] for _ in ...]
+export function comprehensionRowsType(node: IRComprehension): IRType | undefined {
+  if (node.kind !== 'list' && node.kind !== 'generator') return undefined;
+  const element = node.element;
+  const row = isIRArrayLiteral(element) ? sizedListType(element)
+    : isIRComprehension(element) && element.kind === 'list'
+      ? comprehensionRowsType(element) || arrayType(primitiveType(element.elementType), true)
+      : undefined;
+  return row && arrayType(row, true);
+}
+
+export function isAggregate(node: IRNode): node is IRCall & { args: [IRComprehension] } {
+  return isIRCall(node) && !node.isMethod && !!AGGREGATES[node.callee] && node.args.length === 1 &&
+    isIRComprehension(node.args[0]) && node.args[0].kind !== 'dict';
+}
+
+// A comprehension, or an aggregate over one, that the target generates itself
+function isKept(node: IRNode, context: LoweringContext): boolean {
+  const comprehension = isAggregate(node) ? node.args[0] : node;
+  return isIRComprehension(comprehension) && !!context.keep?.(comprehension);
+}
+
+function lowerStatementLists<T>(value: T, context: LoweringContext): T {
+  return mapIR(value, node => Object.fromEntries(Object.entries(node).map(([key, v]) => [
+    key,
+    STATEMENT_LISTS.includes(key) && Array.isArray(v)
+      ? v.flatMap(statement => lowerStatement(statement, context))
+      : lowerStatementLists(v, context),
+  ])));
+}
+
+function lowerStatement(statement: IRNode, context: LoweringContext): IRNode[] {
+  const node = lowerStatementLists(statement, context);
+  if (isIRVariable(node) && node.value && isKept(node.value, context)) return [node];
+  // A declaration fills the collection or accumulator it declares
+  if (isIRVariable(node) && node.value && isIRComprehension(node.value)) {
+    return comprehensionStatements(node.value, node.name, context, node);
+  }
+  if (isIRVariable(node) && node.value && isAggregate(node.value)) {
+    return aggregateStatements(node.value.callee, node.value.args[0], node.name, context);
+  }
+  const before: IRNode[] = [];
+  const lowered = replaceComprehensions(node, before, context);
+  return [...before, lowered];
+}
+
+// Hoists the comprehensions of a statement's expressions into the statements before it
+function replaceComprehensions<T>(value: T, before: IRNode[], context: LoweringContext): T {
+  return mapIR(value, node => {
+    if (isKept(node, context)) return node;
+    if (isAggregate(node)) {
+      const name = freshName(AGGREGATES[node.callee], context);
+      before.push(...aggregateStatements(node.callee, node.args[0], name, context));
+      return { type: 'identifier', name } as IRIdentifier;
+    }
+    if (isIRComprehension(node)) {
+      const name = freshName(node.kind === 'dict' ? 'entries' : node.kind === 'set' ? 'unique' : 'items', context);
+      before.push(...comprehensionStatements(node, name, context));
+      return { type: 'identifier', name } as IRIdentifier;
+    }
+    // Lambda bodies were lowered as statement lists of their own
+    if (isIRLambda(node)) return node;
+    return Object.fromEntries(Object.entries(node).map(([key, v]) => [
+      key,
+      STATEMENT_LISTS.includes(key) ? v : replaceComprehensions(v, before, context),
+    ]));
+  });
+}
+
+function comprehensionStatements(
+  node: IRComprehension, name: string, context: LoweringContext, declaration?: IRVariable,
+): IRNode[] {
+  const target: IRIdentifier = { type: 'identifier', name };
+  const elementType = node.elementType === 'auto' ? 'int' : node.elementType;
+  let variable: IRVariable;
+  let add: IRNode[];
+  if (node.kind === 'dict') {
+    const keyType = node.keyType && node.keyType !== 'auto' ? node.keyType : 'int';
+    variable = {
+      type: 'variable', name, dataType: mapType(primitiveType(keyType), primitiveType(elementType)),
+      value: { type: 'map_literal', entries: [], keyType, valueType: elementType } as IRMapLiteral,
+    };
+    add = [{ type: 'index_assignment', object: target, index: node.key!, value: node.element } as IRIndexAssignment];
+  } else {
+    const isSet = node.kind === 'set' && context.nativeSets;
+    const list = arrayType(primitiveType(elementType), true);
+    variable = {
+      type: 'variable', name, dataType: comprehensionRowsType(node) || (isSet ? { ...list, isSet } : list),
+      value: { type: 'array_literal', elements: [], elementType, isList: true } as IRArrayLiteral,
+    };
+    const append: IRCall = { type: 'call', callee: isSet ? 'add' : 'append', args: [node.element], isMethod: true, object: name };
+    add = node.kind === 'set' && !isSet ? uniqueAppend(target, append, context) : [append];
+  }
+  if (declaration) variable = { ...declaration, ...variable };
+  return [variable, ...comprehensionLoops(node, add, context)];
+}
+
+// duplicate = false; for each stored value: if it equals the new one, duplicate = true; then append unless duplicate
+function uniqueAppend(target: IRIdentifier, append: IRCall, context: LoweringContext): IRNode[] {
+  const duplicate = freshName('duplicate', context, false);
+  const index = freshName(`${target.name}_index`, context, false);
+  const flag = (value: boolean): IRLiteral => ({ type: 'literal', value, dataType: 'bool' });
+  const stored: IRIndex = { type: 'index', object: target, index: { type: 'identifier', name: index } as IRIdentifier };
+  const found: IRIf = {
+    type: 'if',
+    condition: { type: 'binary_op', operator: '==', left: stored, right: append.args[0] } as IRBinaryOp,
+    thenBranch: [{ type: 'assignment', target: duplicate, value: flag(true) } as IRAssignment],
+  };
+  return [
+    { type: 'variable', name: duplicate, dataType: primitiveType('bool'), value: flag(false) } as IRVariable,
+    rangeLoop(index, { type: 'length', object: target } as IRLength, [found]),
+    {
+      type: 'if',
+      condition: { type: 'unary_op', operator: '!', operand: { type: 'identifier', name: duplicate } } as IRUnaryOp,
+      thenBranch: [append],
+    } as IRIf,
+  ];
+}
+
+function aggregateStatements(aggregate: string, node: IRComprehension, name: string, context: LoweringContext): IRNode[] {
+  const target: IRIdentifier = { type: 'identifier', name };
+  if (aggregate === 'sum') {
+    const dataType = node.elementType === 'float' || node.elementType === 'double' ? node.elementType : 'int';
+    const zero: IRLiteral = { type: 'literal', value: 0, dataType };
+    const add: IRCompoundAssignment = { type: 'compound_assignment', target, operator: '+', value: node.element };
+    return [{ type: 'variable', name, dataType: primitiveType(dataType), value: zero } as IRVariable, ...comprehensionLoops(node, [add], context)];
+  }
+  // any() turns true at the first true element, all() false at the first false one
+  const initial = aggregate === 'all';
+  const condition: IRNode = initial ? { type: 'unary_op', operator: '!', operand: node.element } as IRUnaryOp : node.element;
+  const update: IRIf = {
+    type: 'if',
+    condition,
+    thenBranch: [{ type: 'assignment', target: name, value: { type: 'literal', value: !initial, dataType: 'bool' } } as IRAssignment],
+  };
+  const start: IRVariable = { type: 'variable', name, dataType: primitiveType('bool'), value: { type: 'literal', value: initial, dataType: 'bool' } as IRLiteral };
+  return [start, ...comprehensionLoops(node, [update], context)];
+}
+
+function comprehensionLoops(node: IRComprehension, inner: IRNode[], context: LoweringContext): IRNode[] {
+  // The innermost statements may hold comprehensions of their own, evaluated on each iteration
+  const body = inner.flatMap(statement => lowerStatement(statement, context));
+  return node.clauses.reduceRight<IRNode[]>((nested, clause) => [clauseLoop(clause, nested)], body);
+}
+
+function clauseLoop(clause: IRComprehensionClause, body: IRNode[]): IRNode {
+  if (clause.condition) return { type: 'if', condition: clause.condition, thenBranch: body } as IRIf;
+  const iterator = clause.iterator!;
+  const iterable = clause.iterable!;
+  if (isIRCall(iterable) && iterable.callee === 'range' && !iterable.isMethod) {
+    const [first, second, step] = iterable.args;
+    const zero: IRLiteral = { type: 'literal', value: 0, dataType: 'int' };
+    const one: IRLiteral = { type: 'literal', value: 1, dataType: 'int' };
+    return {
+      type: 'for', iterator, rangeStart: second ? first : zero, rangeEnd: second || first, rangeStep: step || one, body,
+    } as IRFor;
+  }
+  if (clause.overMap) {
+    return { type: 'for_each', iterator, valueIterator: clause.valueIterator, iterable, body } as IRForEach;
+  }
+  return { type: 'for', iterator, iteratorType: primitiveType(clause.iteratorType || 'auto'), iterable, body } as IRFor;
+}
+
+function rangeLoop(iterator: string, end: IRNode, body: IRNode[]): IRFor {
+  return {
+    type: 'for',
+    iterator,
+    rangeStart: { type: 'literal', value: 0, dataType: 'int' } as IRLiteral,
+    rangeEnd: end,
+    rangeStep: { type: 'literal', value: 1, dataType: 'int' } as IRLiteral,
+    body,
+  };
+}
@@ -0,0 +1,282 @@
+import {
+  IRVariable,
+  IRNode,
+  IRFunction,
+  IRLiteral,
+  IRIdentifier,
+  IRAssignment,
+  IRIf,
+  IRReturn,
+  IRBinaryOp,
+  IRCompoundAssignment,
+  IRLength,
+  IRIndex,
+  isIRYield,
+  isIRReturn,
+  isIRBreak,
+  isIRContinue,
+  isIRIf,
+  isIRWhile,
+  isIRFor,
+  isIRAssignment,
+  isIRLiteral,
+  isIRFunction,
+  isIRLambda,
+  isIRClass,
+  isIRDoWhile,
+  isIRForEach,
+  isIRVariable,
+  primitiveType,
+  isIRIdentifier,
+  isIRDestructure,
+  isIRTupleLiteral,
+  visitIR,
+  mapIR,
+} from '../ir';
+
+// A generator function as a resumable state machine, for targets without yield. Parameters and
+// locals become fields, read as self.<name> like a method's. Each state is a run of statements
+// ending in a jump (self.state = n) or in a yield, which stores the value in the current field,
+// records where to resume and returns true. The last state returns false: the body has finished
+export interface GeneratorMachine {
+  // CountdownGenerator for countdown()
+  name: string;
+  fields: IRVariable[];
+  states: IRNode[][];
+  // The fields holding the state to resume in and the value last yielded
+  state: string;
+  current: string;
+}
+
+interface GeneratorLoop {
+  breakTo: number;
+  continueTo: number;
+}
+
+export function generatorName(fn: IRFunction): string {
+  return `${fn.name.split('_').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('')}Generator`;
+}
+
+export function lowerGenerator(fn: IRFunction): GeneratorMachine {
+  const fields: IRVariable[] = fn.params.map(param => ({ ...param, value: undefined }));
+  const names = new Set(fields.map(field => field.name));
+  const addField = (field: IRVariable) => {
+    if (names.has(field.name)) return;
+    names.add(field.name);
+    fields.push({ ...field, value: undefined });
+  };
+  collectGeneratorFields(fn.body, addField);
+  const unique = (base: string) => {
+    let name = base;
+    while (names.has(name)) name += '_';
+    names.add(name);
+    return name;
+  };
+  const machine: GeneratorMachine = { name: generatorName(fn), fields, states: [[]], state: unique('state'), current: unique('current') };
+  
+  const integer = (value: number): IRLiteral => ({ type: 'literal', value, dataType: 'int' });
+  const field = (name: string): IRIdentifier => ({ type: 'identifier', name: `self.${name}` });
+  const assign = (name: string, value: IRNode): IRAssignment => ({ type: 'assignment', target: `self.${name}`, value });
+  const rename = <T>(value: T): T => renameFields(value, names);
+  let open: IRNode[] | undefined = machine.states[0];
+  const newState = () => machine.states.push([]) - 1;
+  const enter = (state: number) => {
+    open = machine.states[state];
+  };
+  const jump = (state: number) => {
+    open?.push(assign(machine.state, integer(state)));
+    open = undefined;
+  };
+  const branch = (condition: IRNode, then: number, otherwise: number) => {
+    open?.push({
+      type: 'if', condition: rename(condition), thenBranch: [assign(machine.state, integer(then))],
+      elseBranch: [assign(machine.state, integer(otherwise))],
+    } as IRIf);
+    open = undefined;
+  };
+  const end = newState();
+  
+  // Compiles a loop whose head tests condition, with update run before each test after the first
+  const loop = (condition: IRNode, body: IRNode[], update: IRNode[]) => {
+    const head = newState();
+    const next = update.length > 0 ? newState() : head;
+    const start = newState();
+    const after = newState();
+    jump(head);
+    enter(head);
+    branch(condition, start, after);
+    enter(start);
+    compile(body, { breakTo: after, continueTo: next });
+    jump(next);
+    if (next !== head) {
+      enter(next);
+      open!.push(...update);
+      jump(head);
+    }
+    enter(after);
+  };
+  
+  const compile = (statements: IRNode[], enclosing?: GeneratorLoop): void => {
+    for (const statement of statements) {
+      if (!open) return;
+      if (!resumes(statement)) {
+        open.push(...declarationsAsAssignments(rename(statement)));
+        continue;
+      }
+      if (isIRYield(statement)) {
+        const resume = newState();
+        open.push(assign(machine.current, rename(statement.value)), assign(machine.state, integer(resume)));
+        open.push({ type: 'return', value: { type: 'literal', value: true, dataType: 'bool' } } as IRReturn);
+        enter(resume);
+      } else if (isIRReturn(statement)) {
+        jump(end);
+      } else if (isIRBreak(statement) || isIRContinue(statement)) {
+        jump(isIRBreak(statement) ? enclosing!.breakTo : enclosing!.continueTo);
+      } else if (isIRIf(statement)) {
+        const then = newState();
+        const otherwise = statement.elseBranch?.length ? newState() : undefined;
+        const after = newState();
+        branch(statement.condition, then, otherwise ?? after);
+        enter(then);
+        compile(statement.thenBranch, enclosing);
+        jump(after);
+        if (otherwise !== undefined) {
+          enter(otherwise);
+          compile(statement.elseBranch!, enclosing);
+          jump(after);
+        }
+        enter(after);
+      } else if (isIRWhile(statement)) {
+        loop(statement.condition, statement.body, []);
+      } else if (isIRFor(statement) && statement.iterator && statement.rangeEnd) {
+        const iterator = field(statement.iterator);
+        open.push(assign(statement.iterator, rename(statement.rangeStart || integer(0))));
+        const condition: IRBinaryOp = { type: 'binary_op', operator: '<', left: iterator, right: statement.rangeEnd };
+        const step: IRCompoundAssignment = {
+          type: 'compound_assignment', operator: '+', target: iterator, value: rename(statement.rangeStep || integer(1)),
+        };
+        loop(condition, statement.body, [step]);
+      } else if (isIRFor(statement) && statement.iterator && statement.iterable) {
+        // Lists and strings are walked by index
+        const index = `${statement.iterator}_index`;
+        const iterable = rename(statement.iterable);
+        open.push(assign(index, integer(0)));
+        const length: IRLength = { type: 'length', object: iterable };
+        const element = assign(statement.iterator, { type: 'index', object: iterable, index: field(index) } as IRIndex);
+        const condition: IRBinaryOp = { type: 'binary_op', operator: '<', left: field(index), right: length };
+        const step: IRCompoundAssignment = { type: 'compound_assignment', operator: '+', target: field(index), value: integer(1) };
+        loop(condition, [element, ...statement.body], [step]);
+      } else {
+        open.push(...declarationsAsAssignments(rename(statement)));
+      }
+    }
+  };
+  compile(fn.body);
+  jump(end);
+  machine.states[end] = [{ type: 'return', value: { type: 'literal', value: false, dataType: 'bool' } } as IRReturn];
+  return compactStates(machine);
+}
+
+// Skips states that only jump on to another, numbering the rest in the order they're reached
+function compactStates(machine: GeneratorMachine): GeneratorMachine {
+  const target = `self.${machine.state}`;
+  const jumpOf = (statements: IRNode[]) => {
+    const [only] = statements;
+    return statements.length === 1 && isIRAssignment(only) && only.target === target && isIRLiteral(only.value)
+      ? only.value.value as number : undefined;
+  };
+  const resolve = (state: number) => {
+    const seen = new Set<number>();
+    let next = jumpOf(machine.states[state]);
+    while (next !== undefined && !seen.has(state)) {
+      seen.add(state);
+      state = next;
+      next = jumpOf(machine.states[state]);
+    }
+    return state;
+  };
+  const numbers = new Map<number, number>();
+  const order: number[] = [];
+  const visit = (state: number) => {
+    if (numbers.has(state)) return;
+    numbers.set(state, order.length);
+    order.push(state);
+  };
+  const renumber = (value: unknown): unknown => mapIR(value, node => {
+    if (!isIRAssignment(node) || node.target !== target || !isIRLiteral(node.value)) return undefined;
+    const state = resolve(node.value.value as number);
+    visit(state);
+    return { ...node, value: { ...node.value, value: numbers.get(state) } };
+  });
+  visit(resolve(0));
+  const states: IRNode[][] = [];
+  for (let i = 0; i < order.length; i++) states.push(renumber(machine.states[order[i]]) as IRNode[]);
+  return { ...machine, states };
+}
+
+// Whether a statement has to be split across states: it yields or returns, or leaves a loop it isn't inside
+function resumes(value: unknown, inLoop = false): boolean {
+  let resumed = false;
+  visitIR(value, node => {
+    if (resumed || isIRFunction(node) || isIRLambda(node) || isIRClass(node)) return false;
+    if (isIRYield(node) || isIRReturn(node) || ((isIRBreak(node) || isIRContinue(node)) && !inLoop)) resumed = true;
+    const loops = isIRFor(node) || isIRWhile(node) || isIRDoWhile(node) || isIRForEach(node);
+    if (!loops || inLoop) return;
+    resumed = resumes(Object.values(node), true);
+    return false;
+  });
+  return resumed;
+}
+
+// Locals, and the iterators of loops that will be split across states
+function collectGeneratorFields(value: unknown, add: (field: IRVariable) => void): void {
+  visitIR(value, node => {
+    if (isIRFunction(node) || isIRLambda(node) || isIRClass(node)) return false;
+    if (isIRVariable(node)) add(node);
+    // a, b = 0, 1 declares each target, typed by its value when that's a literal
+    if (isIRDestructure(node)) {
+      node.targets.forEach((name, i) => {
+        if (!node.isDeclaration && !node.declared?.includes(name)) return;
+        const value = isIRTupleLiteral(node.value) ? node.value.elements[i] : undefined;
+        add({ type: 'variable', name, dataType: primitiveType(value && isIRLiteral(value) ? value.dataType : 'auto') });
+      });
+    }
+    if (isIRFor(node) && node.iterator && resumes(node.body, true)) {
+      if (node.rangeEnd) add({ type: 'variable', name: node.iterator, dataType: primitiveType('int') });
+      if (node.iterable) {
+        add({ type: 'variable', name: node.iterator, dataType: node.iteratorType || primitiveType('auto') });
+        add({ type: 'variable', name: `${node.iterator}_index`, dataType: primitiveType('int') });
+      }
+    }
+  });
+}
+
+// Points the names of fields at self
+function renameFields<T>(value: T, names: Set<string>): T {
+  const renamed = (name: string) => names.has(name.split('.')[0]) ? `self.${name}` : name;
+  return mapIR(value, node => {
+    if (isIRFunction(node) || isIRClass(node)) return node;
+    const copy = Object.fromEntries(Object.entries(node).map(([key, v]) => [key, renameFields(v, names)])) as IRNode;
+    if (isIRIdentifier(copy)) copy.name = renamed(copy.name);
+    if (isIRAssignment(copy)) copy.target = renamed(copy.target);
+    if (isIRVariable(copy) && names.has(copy.name)) copy.name = `self.${copy.name}`;
+    if (isIRDestructure(copy)) {
+      copy.targets = copy.targets.map(renamed);
+      copy.isDeclaration = false;
+      delete copy.declared;
+    }
+    return copy;
+  });
+}
+
+// Locals are fields of the machine, so their declarations become assignments
+function declarationsAsAssignments(statement: IRNode): IRNode[] {
+  const convert = <T>(value: T): T => {
+    if (Array.isArray(value)) return value.flatMap(v => isIRVariable(v) && v.name.startsWith('self.') ? toAssignment(v) : [convert(v)]) as T;
+    return mapIR(value, node => Object.fromEntries(Object.entries(node).map(([key, v]) => [key, convert(v)])));
+  };
+  const toAssignment = (variable: IRVariable): IRNode[] => {
+    return variable.value ? [{ type: 'assignment', target: variable.name, value: convert(variable.value) } as IRAssignment] : [];
+  };
+  return convert([statement]);
+}
@@ -0,0 +1,240 @@
+import {
+  IRType,
+  IRProgram,
+  IRClass,
+  IRFunction,
+  IRNode,
+  PrimitiveType,
+  IRUnaryOp,
+  isIRFunction,
+  isIRClass,
+  isIRProgram,
+  isIRCall,
+  isIRSuperCall,
+  isIRVariable,
+  isIRFor,
+  primitiveType,
+  isIRLiteral,
+  isIRIdentifier,
+  isIRBinaryOp,
+  isNegativePower,
+  isIRConditional,
+  isIRArrayLiteral,
+  isIRIndex,
+  isIRLength,
+  isIREnumValue,
+  visitIR,
+  mapIR,
+} from '../ir';
+
+type OverloadScope = Map<string, IRType>;
+
+// Java and C++ overload by parameter types: gives each member of an overload set a name built
+// from its parameter types, area_int or area_double_double, and points each call at the member
+// its argument types match best
+export function resolveOverloads(program: IRProgram): void {
+  const classes = new Map<string, IRClass>();
+  const functions: IRFunction[] = program.body.filter(isIRFunction);
+  for (const cls of program.body.filter(isIRClass)) {
+    classes.set(cls.name, cls);
+    functions.push(...((cls as IRClass & { staticMethods?: IRFunction[] }).staticMethods || []));
+  }
+  const overloaded = [
+    ...markOverloads(functions),
+    ...markOverloads([...classes.values()].flatMap(cls => cls.methods)),
+  ];
+  if (overloaded.length === 0) return;
+  resolveCalls(program, new Map(), undefined, { classes, functions });
+}
+
+interface OverloadContext {
+  classes: Map<string, IRClass>;
+  functions: IRFunction[];
+}
+
+// Names declared with more than one signature get a mangled name on each declaration
+function markOverloads(declarations: IRFunction[]): string[] {
+  const byName = new Map<string, IRFunction[]>();
+  declarations.forEach(f => byName.set(f.name, [...(byName.get(f.name) || []), f]));
+  const overloaded: string[] = [];
+  for (const [name, group] of byName) {
+    const names = group.map(f => [name, ...f.params.map(p => typeSuffix(p.dataType))].join('_'));
+    if (new Set(names).size < 2) continue;
+    group.forEach((f, i) => f.overloadName = names[i]);
+    overloaded.push(name);
+  }
+  return overloaded;
+}
+
+function resolveCalls(value: unknown, scope: OverloadScope, cls: IRClass | undefined, context: OverloadContext): void {
+  visitIR(value, node => {
+    if (isIRClass(node)) {
+      resolveCalls(Object.values(node), scope, node, context);
+      return false;
+    }
+    if (isIRFunction(node)) {
+      const local = new Map(scope);
+      node.params.forEach(p => local.set(p.name, p.dataType));
+      collectDeclarations(node.body, local);
+      resolveCalls(node.body, local, cls, context);
+      return false;
+    }
+    if (isIRProgram(node)) collectDeclarations(node.body, scope);
+    // Arguments first, so nested calls know their return types
+    resolveCalls(Object.values(node), scope, cls, context);
+    if (isIRCall(node)) {
+      const candidates = node.isMethod
+        ? methodsNamed(node.callee, objectClass(node.object, scope, cls, context), context)
+        : context.functions.filter(f => f.name === node.callee);
+      node.overloadName = pickOverload(candidates, node.args, node.keywordArgs?.length || 0, scope, cls, context)?.overloadName;
+    } else if (isIRSuperCall(node) && node.method) {
+      const candidates = methodsNamed(node.method, cls?.superclass ? context.classes.get(cls.superclass) : undefined, context);
+      node.overloadName = pickOverload(candidates, node.args, 0, scope, cls, context)?.overloadName;
+    }
+    return false;
+  });
+}
+
+function collectDeclarations(value: unknown, scope: OverloadScope): void {
+  visitIR(value, node => {
+    if (isIRFunction(node) || isIRClass(node)) return false;
+    if (isIRVariable(node)) scope.set(node.name, node.dataType);
+    if (isIRFor(node) && node.iterator) scope.set(node.iterator, primitiveType('int'));
+  });
+}
+
+// Methods of the class and its ancestors when the receiver's class is known, else of every class
+function methodsNamed(name: string, cls: IRClass | undefined, context: OverloadContext): IRFunction[] {
+  const owners = cls ? classChain(cls, context) : [...context.classes.values()];
+  return owners.flatMap(c => c.methods).filter(m => m.name === name);
+}
+
+function classChain(cls: IRClass, context: OverloadContext): IRClass[] {
+  const chain: IRClass[] = [];
+  for (let current: IRClass | undefined = cls; current && !chain.includes(current);
+    current = current.superclass ? context.classes.get(current.superclass) : undefined) {
+    chain.push(current);
+  }
+  return chain;
+}
+
+function objectClass(object: string | undefined, scope: OverloadScope, cls: IRClass | undefined,
+  context: OverloadContext): IRClass | undefined {
+  if (object === 'self' || object === 'this') return cls;
+  const type = object && (object.startsWith('self.') ? fieldType(object.slice(5), cls) : scope.get(object));
+  return type?.kind === 'class' ? context.classes.get(type.name) : undefined;
+}
+
+function fieldType(name: string, cls: IRClass | undefined): IRType | undefined {
+  const field = cls?.members.find(m => m.name === name);
+  return field && field.dataType;
+}
+
+// The candidate whose parameters the arguments convert to most cheaply; ties go to the first declared
+function pickOverload(candidates: IRFunction[], args: IRNode[], keywordCount: number, scope: OverloadScope,
+  cls: IRClass | undefined, context: OverloadContext): IRFunction | undefined {
+  const argTypes = args.map(arg => expressionType(arg, scope, cls, context));
+  let best: IRFunction | undefined;
+  let bestScore = -1;
+  for (const candidate of candidates) {
+    const required = candidate.params.filter(p => !p.defaultValue).length;
+    const count = args.length + keywordCount;
+    if (count < required || count > candidate.params.length) continue;
+    const score = argTypes.reduce((total, type, i) => total + conversionScore(type, candidate.params[i].dataType, context), 0);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+const NUMERIC_RANKS: Partial<Record<PrimitiveType, number>> = {
+  bool: 0, char: 1, byte: 1, short: 2, int: 3, unsigned: 4, long: 5, float: 6, double: 7,
+};
+
+function conversionScore(arg: IRType, param: IRType, context: OverloadContext): number {
+  if (param.kind === 'type_param' || (arg.kind === 'primitive' && arg.name === 'auto')) return 1;
+  if (typeSuffix(arg) === typeSuffix(param)) return 3;
+  if (arg.kind === 'primitive' && param.kind === 'primitive') {
+    const from = NUMERIC_RANKS[arg.name];
+    const to = NUMERIC_RANKS[param.name];
+    if (from === undefined || to === undefined) return -100;
+    // Widening is free in every source language; narrowing only compiles in C++
+    return from <= to ? 2 : 0;
+  }
+  if (arg.kind === 'class' && param.kind === 'class') {
+    const cls = context.classes.get(arg.name);
+    const ancestors = cls ? classChain(cls, context).flatMap(c => [c.name, ...(c.interfaces || [])]) : [];
+    return ancestors.includes(param.name) ? 2 : -100;
+  }
+  if (param.kind === 'nullable') return conversionScore(arg, param.inner, context);
+  return -100;
+}
+
+function expressionType(node: IRNode, scope: OverloadScope, cls: IRClass | undefined, context: OverloadContext): IRType {
+  if (isIRLiteral(node)) return primitiveType(node.dataType);
+  if (isIRIdentifier(node)) {
+    const type = node.name.startsWith('self.') ? fieldType(node.name.slice(5), cls) : scope.get(node.name);
+    return type || primitiveType('auto');
+  }
+  if (isIRBinaryOp(node)) {
+    if (['==', '!=', '<', '>', '<=', '>=', '&&', '||'].includes(node.operator)) return primitiveType('bool');
+    const left = expressionType(node.left, scope, cls, context);
+    const right = expressionType(node.right, scope, cls, context);
+    if (left.kind !== 'primitive' || right.kind !== 'primitive') return left;
+    if (isNegativePower(node)) return primitiveType('double');
+    if (node.operator === 'true_div' || left.name === 'string' || right.name === 'string') {
+      return primitiveType(node.operator === 'true_div' ? 'double' : 'string');
+    }
+    return (NUMERIC_RANKS[left.name] ?? -1) >= (NUMERIC_RANKS[right.name] ?? -1) ? left : right;
+  }
+  if (isIRConditional(node)) return expressionType(node.thenValue, scope, cls, context);
+  if (node.type === 'unary_op') {
+    const unary = node as IRUnaryOp;
+    return unary.operator === '!' ? primitiveType('bool') : expressionType(unary.operand, scope, cls, context);
+  }
+  if (isIRArrayLiteral(node)) return { kind: 'array', element: primitiveType(node.elementType), isList: node.isList };
+  if (isIRIndex(node)) {
+    const object = expressionType(node.object, scope, cls, context);
+    if (object.kind === 'array') return object.element;
+    if (object.kind === 'map') return object.value;
+    return primitiveType(object.kind === 'primitive' && object.name === 'string' ? 'char' : 'auto');
+  }
+  if (isIRLength(node)) return primitiveType('int');
+  if (isIREnumValue(node)) return { kind: 'enum', name: node.enumName };
+  if (isIRCall(node)) {
+    if (!node.isMethod && context.classes.has(node.callee)) return { kind: 'class', name: node.callee };
+    const target = node.isMethod
+      ? methodsNamed(node.callee, objectClass(node.object, scope, cls, context), context).find(m => !node.overloadName || m.overloadName === node.overloadName)
+      : context.functions.find(f => f.name === node.callee && (!node.overloadName || f.overloadName === node.overloadName));
+    if (target) return target.returnType;
+  }
+  return primitiveType('auto');
+}
+
+// A type spelled as part of an identifier: int, Point, int_array, string_int_map
+function typeSuffix(type: IRType): string {
+  switch (type.kind) {
+    case 'primitive': return type.name;
+    case 'class': return [type.name, ...(type.args || []).map(typeSuffix)].join('_');
+    case 'enum': case 'type_param': return type.name;
+    case 'array': return `${typeSuffix(type.element)}_${type.isList ? 'list' : 'array'}`;
+    case 'map': return `${typeSuffix(type.key)}_${typeSuffix(type.value)}_map`;
+    case 'nullable': return typeSuffix(type.inner);
+    case 'tuple': return [...type.elements.map(typeSuffix), 'tuple'].join('_');
+    case 'function': return 'function';
+  }
+}
+
+// A copy of the program with every overload and call to it renamed to its overloadName, for
+// targets that would otherwise see duplicate definitions
+export function renameOverloads<T>(value: T): T {
+  return mapIR(value, node => {
+    const copy = Object.fromEntries(Object.entries(node).map(([key, v]) => [key, renameOverloads(v)])) as IRNode;
+    if (isIRFunction(copy) && copy.overloadName) copy.name = copy.overloadName;
+    if (isIRCall(copy) && copy.overloadName) copy.callee = copy.overloadName;
+    if (isIRSuperCall(copy) && copy.overloadName) copy.method = copy.overloadName;
+    return copy;
+  });
+}